@@ -4,38 +4,97 @@
  */
 
 import express, { Application, Request, Response, NextFunction } from 'express';
+import { Server } from 'http';
 import cors from 'cors';
 import { loadConfig, AppConfig } from './config';
+import { AppDependencies, createDependencies } from './container';
+import { AccessPolicy } from './auth/accessPolicy';
 import { SecurityMiddleware } from './middleware/security';
+import { IdempotencyMiddleware, IDEMPOTENCY_KEY_HEADER } from './middleware/idempotency';
 import { LeasingAgreementController } from './controllers/leasingAgreementController';
 import { LeasingAgreementService } from './services/leasingAgreementService';
-import { Logger } from './utils/logger';
-
-// Mock implementations - in production, these would be real implementations
+import { PaymentController } from './controllers/paymentController';
+import { PaymentService } from './services/paymentService';
+import { CompanyPolicyController } from './controllers/companyPolicyController';
+import { CompanyPolicyService } from './services/companyPolicyService';
+import { OutboxDispatcher, createOutboxHandlers } from './services/outboxDispatcher';
+import { DunningScheduler } from './services/dunningScheduler';
+import { AuthController } from './controllers/authController';
+import { AuthService, CredentialVerifiers } from './services/authService';
+import { TokenIssuer } from './auth/tokenIssuer';
 import {
-  ILeasingRepository,
-  INotificationService,
-  IInventoryService,
-  IBillingService,
-  IEmployeeService
-} from './types';
+  LocalUserCredentialVerifier,
+  ClientCredentialsVerifier,
+  LocalUserRecord,
+  ClientCredentialsRecord,
+  loadCredentialRecords
+} from './auth/credentialVerifiers';
+import { Logger } from './utils/logger';
+import { CORRELATION_ID_HEADER, isValidCorrelationId, withCorrelationId } from './utils/correlation';
+import { MigrationRunner } from './repositories/sql/migrationRunner';
 
 /**
  * Main application class
  * Configures Express app with all middleware and routes
+ * Building an App has no side effects beyond creating its dependencies; nothing listens,
+ * polls or touches the database until start() is called
  */
 export class App {
   
   private readonly app: Application;
-  private readonly config: AppConfig;
   private readonly logger: Logger;
   private readonly securityMiddleware: SecurityMiddleware;
+  private readonly idempotencyMiddleware: IdempotencyMiddleware;
+  private readonly accessPolicy: AccessPolicy;
+  private readonly leasingService: LeasingAgreementService;
+  private readonly paymentService: PaymentService;
+  private readonly companyPolicyService: CompanyPolicyService;
+  private readonly outboxDispatcher: OutboxDispatcher;
+  private readonly dunningScheduler: DunningScheduler;
+  private server?: Server;
 
-  constructor() {
+  /**
+   * @param config - Application configuration; read from the environment by default
+   * @param dependencies - Adapters to run on; selected by configuration by default
+   */
+  constructor(
+    private readonly config: AppConfig = loadConfig(),
+    private readonly dependencies: AppDependencies = createDependencies(config)
+  ) {
     this.app = express();
-    this.config = loadConfig();
-    this.logger = new Logger('App');
-    this.securityMiddleware = new SecurityMiddleware(this.config);
+    this.logger = dependencies.logger;
+    this.accessPolicy = new AccessPolicy(config.authorization.rolePermissions, dependencies.employeeService);
+    this.securityMiddleware = new SecurityMiddleware(config, this.accessPolicy);
+    this.idempotencyMiddleware = new IdempotencyMiddleware(dependencies.idempotencyStore, config.idempotency);
+    this.leasingService = this.createLeasingService();
+    this.paymentService = new PaymentService(
+      dependencies.repository,
+      this.accessPolicy,
+      this.logger
+    );
+    this.companyPolicyService = new CompanyPolicyService(
+      dependencies.companyPolicies,
+      config.leasing,
+      this.accessPolicy,
+      this.logger
+    );
+    this.outboxDispatcher = new OutboxDispatcher(
+      dependencies.outbox,
+      createOutboxHandlers(
+        dependencies.notificationService,
+        dependencies.billingService,
+        dependencies.inventoryService,
+        dependencies.reservations
+      ),
+      config.outbox,
+      this.logger
+    );
+    this.dunningScheduler = new DunningScheduler(
+      dependencies.repository,
+      config.dunning,
+      dependencies.clock,
+      this.logger
+    );
     
     this.setupMiddleware();
     this.setupRoutes();
@@ -56,7 +115,7 @@ export class App {
       origin: this.config.cors.origin,
       credentials: this.config.cors.credentials,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', IDEMPOTENCY_KEY_HEADER, CORRELATION_ID_HEADER]
     }));
 
     // Body parsing middleware
@@ -88,31 +147,140 @@ export class App {
     // API versioning
     const apiV1 = express.Router();
     
-    // Create service instances (in production, use dependency injection container)
-    const service = this.createLeasingService();
-    const controller = new LeasingAgreementController(service);
+    const controller = new LeasingAgreementController(this.leasingService, this.accessPolicy);
+    const paymentController = new PaymentController(this.paymentService);
+    const policyController = new CompanyPolicyController(this.companyPolicyService);
+
+    // Token endpoints are only exposed when credentials are configured
+    const authService = this.createAuthService();
+    if (authService) {
+      const authController = new AuthController(authService);
+      apiV1.post('/auth/token', authController.issueToken.bind(authController));
+      apiV1.post('/auth/refresh', authController.refreshToken.bind(authController));
+    }
 
     // Leasing agreement routes with proper authentication and authorization
     apiV1.post(
       '/agreements',
       this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('agreement:create'),
       this.securityMiddleware.validateCompanyAccess,
+      this.idempotencyMiddleware.handle,
       controller.createAgreement.bind(controller)
     );
 
+    apiV1.post(
+      '/agreements/quote',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('agreement:create'),
+      this.securityMiddleware.validateCompanyAccess,
+      controller.quoteAgreement.bind(controller)
+    );
+
     apiV1.get(
       '/agreements/:id',
       this.securityMiddleware.authenticate,
       controller.getAgreement.bind(controller)
     );
 
+    apiV1.get(
+      '/items/:itemId/availability',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('agreement:create'),
+      controller.getItemAvailability.bind(controller)
+    );
+
+    // Lifecycle transitions
+    apiV1.post(
+      '/agreements/:id/submit',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('agreement:create'),
+      controller.submitAgreement.bind(controller)
+    );
+
+    apiV1.post(
+      '/agreements/:id/activate',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('agreement:activate'),
+      controller.activateAgreement.bind(controller)
+    );
+
+    apiV1.post(
+      '/agreements/:id/complete',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('agreement:complete'),
+      controller.completeAgreement.bind(controller)
+    );
+
+    apiV1.post(
+      '/agreements/:id/cancel',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('agreement:cancel'),
+      controller.cancelAgreement.bind(controller)
+    );
+
+    // Saga diagnostics
+    apiV1.get(
+      '/agreements/:id/sagas',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('agreement:read:company'),
+      controller.getAgreementSagas.bind(controller)
+    );
+
+    // Payments
+    apiV1.post(
+      '/agreements/:id/payments',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('payment:record'),
+      paymentController.recordPayment.bind(paymentController)
+    );
+
+    apiV1.post(
+      '/payments/reconciliation',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('payment:record'),
+      this.securityMiddleware.validateCompanyAccess,
+      paymentController.reconcilePayments.bind(paymentController)
+    );
+
     apiV1.get(
       '/employees/:employeeId/agreements',
       this.securityMiddleware.authenticate,
-      this.securityMiddleware.authorize('manager'),
       controller.getEmployeeAgreements.bind(controller)
     );
 
+    // Company policies
+    apiV1.get(
+      '/company-policies',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('policy:manage'),
+      policyController.listPolicies.bind(policyController)
+    );
+
+    apiV1.get(
+      '/companies/:companyId/policy',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('policy:manage'),
+      this.securityMiddleware.validateCompanyAccess,
+      policyController.getPolicy.bind(policyController)
+    );
+
+    apiV1.put(
+      '/companies/:companyId/policy',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('policy:manage'),
+      this.securityMiddleware.validateCompanyAccess,
+      policyController.putPolicy.bind(policyController)
+    );
+
+    apiV1.delete(
+      '/companies/:companyId/policy',
+      this.securityMiddleware.authenticate,
+      this.securityMiddleware.authorize('policy:manage'),
+      this.securityMiddleware.validateCompanyAccess,
+      policyController.deletePolicy.bind(policyController)
+    );
+
     // Mount API routes
     this.app.use('/api/v1', apiV1);
 
@@ -160,17 +328,6 @@ export class App {
         }
       });
     });
-
-    // Handle unhandled promise rejections
-    process.on('unhandledRejection', (reason: any) => {
-      this.logger.error('Unhandled promise rejection', { reason });
-    });
-
-    // Handle uncaught exceptions
-    process.on('uncaughtException', (error: Error) => {
-      this.logger.error('Uncaught exception', { error: error.message, stack: error.stack });
-      process.exit(1);
-    });
   }
 
   /**
@@ -182,10 +339,15 @@ export class App {
   private requestLoggingMiddleware(req: Request, res: Response, next: NextFunction): void {
     
     const startTime = Date.now();
-    const correlationId = `req-${startTime}-${Math.random().toString(36).substr(2, 9)}`;
+    // A caller's correlation ID is adopted so one ID follows the request across services
+    const incomingId = req.get(CORRELATION_ID_HEADER);
+    const correlationId = isValidCorrelationId(incomingId)
+      ? incomingId
+      : `req-${startTime}-${Math.random().toString(36).substr(2, 9)}`;
     
     // Add correlation ID to request for tracking
     (req as any).correlationId = correlationId;
+    res.setHeader(CORRELATION_ID_HEADER, correlationId);
     
     // Log request
     this.logger.info('Request received', {
@@ -218,69 +380,111 @@ export class App {
       return originalJson.call(this, body);
     };
 
-    next();
+    // Calls to external services made while handling the request forward the ID
+    withCorrelationId(correlationId, next);
   }
 
   /**
    * Create leasing service with dependencies
-   * In production, this would use a proper DI container
    */
   private createLeasingService(): LeasingAgreementService {
-    
-    // Mock implementations - replace with real implementations
-    const mockRepository: ILeasingRepository = {
-      async save(agreement) { return agreement; },
-      async findById(id) { return null; },
-      async findByEmployeeId(employeeId) { return []; }
-    };
-
-    const mockNotificationService: INotificationService = {
-      async sendAgreementCreated(employeeId, agreementId) {},
-      async sendPaymentDue(employeeId, payment) {}
-    };
-
-    const mockInventoryService: IInventoryService = {
-      async reserveItem(itemId) { return true; },
-      async releaseItem(itemId) {},
-      async checkAvailability(itemId) { return true; }
-    };
-
-    const mockBillingService: IBillingService = {
-      async createBillingRecord(agreement) { return `bill-${agreement.id}`; },
-      async updateBillingRecord(agreementId, status) {}
-    };
-
-    const mockEmployeeService: IEmployeeService = {
-      async getEmployeeType(employeeId) { return 'STANDARD'; },
-      async validateEmployee(employeeId, companyId) { return true; }
-    };
-
+    const { dependencies } = this;
     return new LeasingAgreementService(
-      mockRepository,
-      mockNotificationService,
-      mockInventoryService,
-      mockBillingService,
-      mockEmployeeService,
+      dependencies.repository,
+      dependencies.inventoryService,
+      dependencies.billingService,
+      dependencies.employeeService,
       this.config.leasing,
+      this.logger,
+      this.accessPolicy,
+      dependencies.sagaLog,
+      dependencies.exchangeRateService,
+      dependencies.reservations,
+      dependencies.companyPolicies
+    );
+  }
+
+  /**
+   * Create token service from the configured credential stores
+   * @returns AuthService | null - Service, or null when no credentials are configured
+   */
+  private createAuthService(): AuthService | null {
+    
+    const { auth } = this.config;
+    const verifiers: CredentialVerifiers = {};
+
+    if (auth.usersFile) {
+      verifiers.password = new LocalUserCredentialVerifier(
+        loadCredentialRecords<LocalUserRecord>(auth.usersFile)
+      );
+    }
+
+    if (auth.clientsFile) {
+      verifiers.client_credentials = new ClientCredentialsVerifier(
+        loadCredentialRecords<ClientCredentialsRecord>(auth.clientsFile)
+      );
+    }
+
+    if (Object.keys(verifiers).length === 0) {
+      return null;
+    }
+
+    return new AuthService(
+      new TokenIssuer(auth),
+      this.dependencies.refreshTokens,
+      verifiers,
+      auth.refreshTokenTtlSeconds,
       this.logger
     );
   }
 
   /**
-   * Start the Express server
-   * @param port - Port to listen on
+   * Start the Express server once the database schema is up to date
+   * and sagas interrupted by a previous run have been recovered
+   * Also starts delivering outbox events and the dunning scheduler
+   * @param port - Port to listen on; 0 picks a free one
+   * @returns Promise<Server> - Listening HTTP server
    */
-  public start(port?: number): void {
+  public async start(port?: number): Promise<Server> {
     
-    const serverPort = port || this.config.port;
+    const serverPort = port ?? this.config.port;
     
-    this.app.listen(serverPort, () => {
-      this.logger.info('Server started', {
-        port: serverPort,
-        environment: this.config.nodeEnv,
-        version: '1.0.0'
-      });
+    if (this.dependencies.sqlClient) {
+      await new MigrationRunner(this.dependencies.sqlClient, this.logger).migrate();
+    }
+    await this.leasingService.recoverIncompleteSagas();
+    this.outboxDispatcher.start();
+    this.dunningScheduler.start();
+    
+    const server = this.app.listen(serverPort);
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+
+    this.logger.info('Server started', {
+      port: serverPort,
+      environment: this.config.nodeEnv,
+      version: '1.0.0'
     });
+    return server;
+  }
+
+  /**
+   * Stop accepting requests, stop the background jobs and close the database
+   */
+  public async stop(): Promise<void> {
+    
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    await this.outboxDispatcher.stop();
+    await this.dunningScheduler.stop();
+    await this.dependencies.sqlClient?.close();
   }
 
   /**
@@ -291,6 +495,3 @@ export class App {
     return this.app;
   }
 }
-
-// Export singleton instance
-export const app = new App();
@@ -0,0 +1,165 @@
+/**
+ * Permission-based access policy
+ * The single place that decides what a caller may do; shared by the security
+ * middleware, controllers and services
+ */
+
+import {
+  AuthenticatedUser,
+  AccessDeniedError,
+  LeasingAgreement,
+  Permission,
+  PERMISSIONS,
+  RolePermissions,
+  IEmployeeService
+} from '../types';
+
+/**
+ * Ownership rule that decided an access check; reported in 403 error details
+ */
+export type AccessRule = 'COMPANY_ACCESS' | 'OWN_AGREEMENTS' | 'DIRECT_REPORTS' | 'COMPANY_AGREEMENTS';
+
+export type AccessDecision =
+  | { readonly allowed: true; readonly rule: AccessRule }
+  | { readonly allowed: false; readonly rule: AccessRule; readonly reason: string };
+
+/**
+ * Resolves callers' permissions from their role
+ */
+export class AccessPolicy {
+
+  private readonly roles: Map<string, ReadonlySet<Permission>>;
+
+  /**
+   * @param rolePermissions - Permission set per role; unknown permission names are rejected
+   * @param employeeService - Resolves managers' direct reports
+   */
+  constructor(
+    rolePermissions: RolePermissions,
+    private readonly employeeService: IEmployeeService
+  ) {
+    this.roles = new Map();
+
+    for (const [role, permissions] of Object.entries(rolePermissions)) {
+      const unknown = permissions.filter(permission => !PERMISSIONS.includes(permission));
+      if (unknown.length > 0) {
+        throw new Error(`Role ${role} has unknown permissions: ${unknown.join(', ')}`);
+      }
+      this.roles.set(role, new Set(permissions));
+    }
+  }
+
+  /**
+   * Check whether the caller's role grants a permission
+   * @param user - Authenticated caller
+   * @param permission - Permission to check
+   * @returns boolean - Whether the permission is granted
+   */
+  hasPermission(user: AuthenticatedUser, permission: Permission): boolean {
+    return this.roles.get(user.role)?.has(permission) ?? false;
+  }
+
+  /**
+   * Check whether the caller may act on a company's resources
+   * @param user - Authenticated caller
+   * @param companyId - Company owning the resource
+   * @returns boolean - Whether access is allowed
+   */
+  canAccessCompany(user: AuthenticatedUser, companyId: string): boolean {
+    return user.companyId === companyId || this.hasPermission(user, 'company:any');
+  }
+
+  /**
+   * Decide whether the caller may read an employee's agreements
+   * - `agreement:read:company`: any employee (of companies the caller may access)
+   * - `agreement:read:own`: the caller's own agreements
+   * - `agreement:read:reports`: agreements of the caller's direct reports
+   * @param user - Authenticated caller
+   * @param employeeId - Employee whose agreements are read
+   * @returns Promise<AccessDecision> - Decision and the rule that produced it
+   */
+  async evaluateEmployeeAccess(user: AuthenticatedUser, employeeId: string): Promise<AccessDecision> {
+    if (this.hasPermission(user, 'agreement:read:company')) {
+      return { allowed: true, rule: 'COMPANY_AGREEMENTS' };
+    }
+
+    if (employeeId === user.id) {
+      return this.hasPermission(user, 'agreement:read:own')
+        ? { allowed: true, rule: 'OWN_AGREEMENTS' }
+        : { allowed: false, rule: 'OWN_AGREEMENTS', reason: 'Role does not allow reading own agreements' };
+    }
+
+    if (this.hasPermission(user, 'agreement:read:reports')) {
+      const reports = await this.employeeService.getDirectReports(user.id);
+      return reports.includes(employeeId)
+        ? { allowed: true, rule: 'DIRECT_REPORTS' }
+        : { allowed: false, rule: 'DIRECT_REPORTS', reason: `Employee ${employeeId} is not a direct report` };
+    }
+
+    return { allowed: false, rule: 'OWN_AGREEMENTS', reason: 'Employees may only read their own agreements' };
+  }
+
+  /**
+   * Decide whether the caller may read an agreement
+   * @param user - Authenticated caller
+   * @param agreement - Agreement to read
+   * @returns Promise<AccessDecision> - Decision and the rule that produced it
+   */
+  async evaluateAgreementAccess(
+    user: AuthenticatedUser,
+    agreement: Pick<LeasingAgreement, 'employeeId' | 'companyId'>
+  ): Promise<AccessDecision> {
+    if (!this.canAccessCompany(user, agreement.companyId)) {
+      return { allowed: false, rule: 'COMPANY_ACCESS', reason: 'Access denied to company resources' };
+    }
+
+    return this.evaluateEmployeeAccess(user, agreement.employeeId);
+  }
+
+  /**
+   * Turn a decision into an error when access is denied
+   * @param decision - Access decision
+   * @throws AccessDeniedError carrying the failed rule
+   */
+  assertAllowed(decision: AccessDecision): void {
+    if (!decision.allowed) {
+      throw new AccessDeniedError(
+        decision.reason,
+        decision.rule,
+        decision.rule === 'COMPANY_ACCESS' ? 'COMPANY_ACCESS_DENIED' : 'AGREEMENT_ACCESS_DENIED'
+      );
+    }
+  }
+
+  /**
+   * Require a permission
+   * @param user - Authenticated caller
+   * @param permission - Required permission
+   * @throws AccessDeniedError when the permission is not granted
+   */
+  assertPermission(user: AuthenticatedUser, permission: Permission): void {
+    if (!this.hasPermission(user, permission)) {
+      throw new AccessDeniedError(
+        'Insufficient permissions for this operation',
+        permission,
+        'INSUFFICIENT_PERMISSIONS'
+      );
+    }
+  }
+
+  /**
+   * Require access to a company's resources
+   * @param user - Authenticated caller
+   * @param companyId - Company owning the resource
+   * @throws AccessDeniedError when the caller belongs to another company
+   */
+  assertCompanyAccess(user: AuthenticatedUser, companyId: string): void {
+    if (!this.canAccessCompany(user, companyId)) {
+      throw new AccessDeniedError(
+        'Access denied to company resources',
+        'COMPANY_ACCESS',
+        'COMPANY_ACCESS_DENIED'
+      );
+    }
+  }
+}
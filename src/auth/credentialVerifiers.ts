@@ -0,0 +1,160 @@
+/**
+ * Credential verifiers for the token endpoint
+ * Secrets are stored as scrypt hashes in the form `scrypt$<salt>$<hash>` (base64url)
+ */
+
+import { readFileSync } from 'fs';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { AuthenticatedUser, ICredentialVerifier } from '../types';
+
+const HASH_SCHEME = 'scrypt';
+const KEY_LENGTH = 64;
+
+// scrypt runs on the libuv thread pool, so hashing does not block the event loop
+const scryptAsync = promisify(scrypt) as (secret: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+// Compared against when the identifier is unknown, so lookups take the same time; computed on first use
+let dummyHash: Promise<string> | undefined;
+
+/**
+ * Local user allowed the password grant
+ */
+export interface LocalUserRecord {
+  readonly id: string;
+  readonly username: string;
+  readonly email: string;
+  readonly companyId: string;
+  readonly role: string;
+  readonly passwordHash: string;
+}
+
+/**
+ * Service account allowed the client_credentials grant
+ */
+export interface ClientCredentialsRecord {
+  readonly clientId: string;
+  readonly companyId: string;
+  readonly role: string;
+  readonly secretHash: string;
+}
+
+/**
+ * Hash a secret for storage
+ * @param secret - Plain-text secret
+ * @returns Promise<string> - Encoded hash
+ */
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(secret, salt, KEY_LENGTH);
+  return [HASH_SCHEME, salt.toString('base64url'), hash.toString('base64url')].join('$');
+}
+
+/**
+ * Check a secret against a stored hash in constant time
+ * @param secret - Plain-text secret
+ * @param encoded - Hash produced by hashSecret
+ * @returns Promise<boolean> - Whether the secret matches
+ */
+export async function verifySecret(secret: string, encoded: string): Promise<boolean> {
+  const [scheme, salt, hash] = encoded.split('$');
+  if (scheme !== HASH_SCHEME || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64url');
+  const actual = await scryptAsync(secret, Buffer.from(salt, 'base64url'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check a secret against a record's hash, or against a dummy hash when there is no record
+ * @param secret - Plain-text secret
+ * @param encoded - Stored hash, if the identifier is known
+ * @returns Promise<boolean> - Whether a record exists and the secret matches it
+ */
+async function verifyKnownSecret(secret: string, encoded: string | undefined): Promise<boolean> {
+  if (encoded === undefined) {
+    dummyHash ??= hashSecret('dummy-secret');
+    await verifySecret(secret, await dummyHash);
+    return false;
+  }
+  return verifySecret(secret, encoded);
+}
+
+/**
+ * Read credential records from a JSON array file
+ * Called once at startup, so a synchronous read is acceptable
+ * @param file - Path to the file
+ * @returns T[] - Records
+ */
+export function loadCredentialRecords<T>(file: string): T[] {
+  const parsed = JSON.parse(readFileSync(file, 'utf8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Credential file ${file} must contain a JSON array`);
+  }
+  return parsed as T[];
+}
+
+/**
+ * Verifies username and password against a local user store
+ */
+export class LocalUserCredentialVerifier implements ICredentialVerifier {
+
+  private readonly users: Map<string, LocalUserRecord>;
+
+  constructor(users: LocalUserRecord[]) {
+    this.users = new Map(users.map(user => [user.username, user]));
+  }
+
+  async verify(username: string, password: string): Promise<AuthenticatedUser | null> {
+    const user = this.users.get(username);
+
+    if (!await verifyKnownSecret(password, user?.passwordHash) || !user) {
+      return null;
+    }
+
+    return this.toUser(user);
+  }
+
+  async findUser(userId: string): Promise<AuthenticatedUser | null> {
+    const user = Array.from(this.users.values()).find(record => record.id === userId);
+    return user ? this.toUser(user) : null;
+  }
+
+  private toUser(user: LocalUserRecord): AuthenticatedUser {
+    return { id: user.id, email: user.email, companyId: user.companyId, role: user.role };
+  }
+}
+
+/**
+ * Verifies service account client ID and secret against a client-credentials table
+ */
+export class ClientCredentialsVerifier implements ICredentialVerifier {
+
+  private readonly clients: Map<string, ClientCredentialsRecord>;
+
+  constructor(clients: ClientCredentialsRecord[]) {
+    this.clients = new Map(clients.map(client => [client.clientId, client]));
+  }
+
+  async verify(clientId: string, clientSecret: string): Promise<AuthenticatedUser | null> {
+    const client = this.clients.get(clientId);
+
+    if (!await verifyKnownSecret(clientSecret, client?.secretHash) || !client) {
+      return null;
+    }
+
+    return this.toUser(client);
+  }
+
+  async findUser(clientId: string): Promise<AuthenticatedUser | null> {
+    const client = this.clients.get(clientId);
+    return client ? this.toUser(client) : null;
+  }
+
+  private toUser(client: ClientCredentialsRecord): AuthenticatedUser {
+    // Service accounts have no mailbox; the client ID is the subject
+    return { id: client.clientId, email: '', companyId: client.companyId, role: client.role };
+  }
+}
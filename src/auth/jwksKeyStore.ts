@@ -0,0 +1,158 @@
+/**
+ * File-based JSON Web Key Set store
+ * Loads verification keys from a JWKS file or a directory of key files so that
+ * keys can be rotated by dropping in new files, without network access
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createPublicKey, createSecretKey, JsonWebKey, KeyObject } from 'crypto';
+import { AuthenticationError, IClock } from '../types';
+import { systemClock } from '../utils/clock';
+import { Logger } from '../utils/logger';
+
+// Unknown key IDs reload the key set at most this often, so that tokens with
+// made-up key IDs cannot make every request read the key files
+const DEFAULT_MIN_RELOAD_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Build a verification key from a JWK
+ * Symmetric (`oct`) keys become secret keys; private JWKs yield their public half
+ * @param jwk - JSON Web Key
+ * @returns KeyObject - Key usable for signature verification
+ */
+export function createVerificationKey(jwk: JsonWebKey): KeyObject {
+  if (jwk.kty === 'oct') {
+    return createSecretKey(Buffer.from(jwk.k as string, 'base64url'));
+  }
+  return createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+/**
+ * Resolves verification keys by key ID (`kid`)
+ *
+ * Supported layouts:
+ * - a JWKS file: `{ "keys": [{ "kid": "...", ... }] }`
+ * - a directory of `.json` files (JWKS or single JWK) and `.pem` files;
+ *   a PEM key's ID is its file name without extension
+ */
+export class JwksKeyStore {
+
+  private keys: Map<string, KeyObject> | null = null;
+  private loadedAt = -Infinity;
+  private pendingReload: Promise<Map<string, KeyObject>> | null = null;
+
+  /**
+   * @param location - JWKS file or key directory
+   * @param logger - Logger
+   * @param minReloadIntervalMs - Minimum time between reloads triggered by unknown key IDs
+   * @param clock - Clock the reload interval is measured with
+   */
+  constructor(
+    private readonly location: string,
+    private readonly logger: Logger,
+    private readonly minReloadIntervalMs: number = DEFAULT_MIN_RELOAD_INTERVAL_MS,
+    private readonly clock: IClock = systemClock
+  ) {}
+
+  /**
+   * Get the key for a token
+   * Reloads the key set when the key ID is unknown, to pick up rotated keys, unless
+   * it was loaded less than the minimum reload interval ago
+   * @param kid - Key ID from the token header
+   * @returns Promise<KeyObject> - Verification key
+   */
+  async getKey(kid?: string): Promise<KeyObject> {
+    const key = this.findKey(await this.getKeys(), kid);
+    if (key) {
+      return key;
+    }
+
+    const reloaded = this.findKey(await this.reloadAfterMiss(), kid);
+    if (reloaded) {
+      return reloaded;
+    }
+
+    throw new AuthenticationError(
+      kid ? `Unknown signing key: ${kid}` : 'Token does not identify its signing key',
+      'INVALID_TOKEN'
+    );
+  }
+
+  /**
+   * Re-read keys from disk
+   * @returns Promise<Map<string, KeyObject>> - Keys by key ID
+   */
+  async reload(): Promise<Map<string, KeyObject>> {
+    const keys = new Map<string, KeyObject>();
+    const stats = await fs.stat(this.location);
+
+    const files = stats.isDirectory()
+      ? (await fs.readdir(this.location)).sort().map(name => path.join(this.location, name))
+      : [this.location];
+
+    for (const file of files) {
+      await this.loadFile(file, keys);
+    }
+
+    this.keys = keys;
+    this.loadedAt = this.clock.now().getTime();
+    this.logger.info('Verification keys loaded', {
+      location: this.location,
+      keyIds: Array.from(keys.keys())
+    });
+
+    return keys;
+  }
+
+  private async getKeys(): Promise<Map<string, KeyObject>> {
+    return this.keys ?? this.reloadAfterMiss();
+  }
+
+  /**
+   * Reload unless the keys are fresh; concurrent misses share one reload
+   * @returns Promise<Map<string, KeyObject>> - Keys by key ID
+   */
+  private async reloadAfterMiss(): Promise<Map<string, KeyObject>> {
+    if (this.keys && this.clock.now().getTime() - this.loadedAt < this.minReloadIntervalMs) {
+      return this.keys;
+    }
+
+    this.pendingReload ??= this.reload().finally(() => {
+      this.pendingReload = null;
+    });
+    return this.pendingReload;
+  }
+
+  /**
+   * Find key by ID; tokens without a key ID may only use a single-key set
+   */
+  private findKey(keys: Map<string, KeyObject>, kid?: string): KeyObject | undefined {
+    if (kid) {
+      return keys.get(kid);
+    }
+    return keys.size === 1 ? keys.values().next().value : undefined;
+  }
+
+  private async loadFile(file: string, keys: Map<string, KeyObject>): Promise<void> {
+    const extension = path.extname(file).toLowerCase();
+    const contents = await fs.readFile(file, 'utf8');
+
+    if (extension === '.pem') {
+      keys.set(path.basename(file, extension), createPublicKey(contents));
+      return;
+    }
+
+    if (extension !== '.json') {
+      return;
+    }
+
+    const parsed = JSON.parse(contents);
+    const jwks: JsonWebKey[] = Array.isArray(parsed.keys) ? parsed.keys : [parsed];
+
+    for (const [index, jwk] of jwks.entries()) {
+      const kid = typeof jwk.kid === 'string' ? jwk.kid : `${path.basename(file, extension)}-${index}`;
+      keys.set(kid, createVerificationKey(jwk));
+    }
+  }
+}
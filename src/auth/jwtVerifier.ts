@@ -0,0 +1,91 @@
+/**
+ * JWT access token verification
+ * Checks signature, expiry, issuer and audience, and maps claims onto the
+ * authenticated user
+ */
+
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { createSecretKey, KeyObject } from 'crypto';
+import { AppConfig } from '../config';
+import { AuthenticatedUser, AuthenticationError } from '../types';
+import { JwksKeyStore } from './jwksKeyStore';
+
+/**
+ * Verifies bearer tokens issued for this API
+ */
+export class JwtVerifier {
+
+  constructor(
+    private readonly config: AppConfig['auth'],
+    private readonly keyStore?: JwksKeyStore
+  ) {
+    if (config.algorithm === 'RS256' && !keyStore) {
+      throw new Error('RS256 token verification requires a JWKS key store');
+    }
+  }
+
+  /**
+   * Verify a token and return the user it was issued for
+   * @param token - Encoded JWT
+   * @returns Promise<AuthenticatedUser> - User described by the token claims
+   */
+  async verify(token: string): Promise<AuthenticatedUser> {
+    const decoded = jwt.decode(token, { complete: true });
+
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new AuthenticationError('Token is malformed', 'INVALID_TOKEN');
+    }
+
+    const key = await this.resolveKey(decoded.header.kid);
+
+    let payload: JwtPayload;
+    try {
+      payload = jwt.verify(token, key, {
+        algorithms: [this.config.algorithm],
+        issuer: this.config.issuer,
+        audience: this.config.audience,
+        clockTolerance: this.config.clockToleranceSeconds
+      }) as JwtPayload;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AuthenticationError('Token has expired', 'TOKEN_EXPIRED');
+      }
+      throw new AuthenticationError(`Token is invalid: ${(error as Error).message}`, 'INVALID_TOKEN');
+    }
+
+    return this.mapClaims(payload);
+  }
+
+  /**
+   * Select the verification key for a token
+   * @param kid - Key ID from the token header
+   * @returns Promise<KeyObject> - Verification key
+   */
+  private async resolveKey(kid?: string): Promise<KeyObject> {
+    if (this.keyStore) {
+      return this.keyStore.getKey(kid);
+    }
+    return createSecretKey(Buffer.from(this.config.jwtSecret, 'utf8'));
+  }
+
+  /**
+   * Map verified claims onto the authenticated user
+   * Accepts both `companyId` and `company_id` claim spellings
+   * @param payload - Verified token payload
+   * @returns AuthenticatedUser - Authenticated user
+   */
+  private mapClaims(payload: JwtPayload): AuthenticatedUser {
+    const companyId = payload.companyId ?? payload.company_id;
+
+    if (typeof payload.sub !== 'string' || typeof companyId !== 'string' || typeof payload.role !== 'string') {
+      throw new AuthenticationError('Token is missing required claims', 'INVALID_TOKEN');
+    }
+
+    return {
+      id: payload.sub,
+      email: typeof payload.email === 'string' ? payload.email : '',
+      companyId,
+      role: payload.role
+    };
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * JWT access token issuance
+ * Signs short-lived access tokens with the key configured in `AppConfig.auth`,
+ * so that they verify with JwtVerifier
+ */
+
+import { readFileSync } from 'fs';
+import jwt from 'jsonwebtoken';
+import { createPrivateKey, createSecretKey, KeyObject } from 'crypto';
+import { AppConfig } from '../config';
+import { AuthenticatedUser } from '../types';
+
+export interface IssuedAccessToken {
+  readonly token: string;
+  readonly expiresIn: number; // seconds
+}
+
+/**
+ * Signs access tokens for authenticated users
+ */
+export class TokenIssuer {
+
+  private readonly signingKey: KeyObject;
+
+  /**
+   * @param config - Auth configuration
+   * @param signingKey - Signing key; defaults to `jwtSecret` (HS256) or the PEM at `signingKeyPath` (RS256)
+   */
+  constructor(
+    private readonly config: AppConfig['auth'],
+    signingKey?: KeyObject
+  ) {
+    this.signingKey = signingKey ?? TokenIssuer.loadSigningKey(config);
+  }
+
+  /**
+   * Issue an access token
+   * @param user - User the token is issued for
+   * @returns IssuedAccessToken - Encoded token and its lifetime
+   */
+  issue(user: AuthenticatedUser): IssuedAccessToken {
+    const token = jwt.sign(
+      { email: user.email, companyId: user.companyId, role: user.role },
+      this.signingKey,
+      {
+        algorithm: this.config.algorithm,
+        subject: user.id,
+        issuer: this.config.issuer,
+        audience: this.config.audience,
+        expiresIn: this.config.jwtExpiresIn as jwt.SignOptions['expiresIn'],
+        ...(this.config.signingKeyId && { keyid: this.config.signingKeyId })
+      }
+    );
+
+    const { exp, iat } = jwt.decode(token) as { exp: number; iat: number };
+    return { token, expiresIn: exp - iat };
+  }
+
+  private static loadSigningKey(config: AppConfig['auth']): KeyObject {
+    if (config.algorithm === 'HS256') {
+      return createSecretKey(Buffer.from(config.jwtSecret, 'utf8'));
+    }
+
+    if (!config.signingKeyPath) {
+      throw new Error('RS256 token issuance requires a signing key path');
+    }
+    return createPrivateKey(readFileSync(config.signingKeyPath, 'utf8'));
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Circuit breaker for calls to an external service
+ * Stops calling a service that keeps failing, so callers fail fast instead of waiting on timeouts
+ */
+
+import { IClock } from '../types';
+import { systemClock } from '../utils/clock';
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerOptions {
+  readonly failureThreshold: number; // consecutive failures that open the circuit
+  readonly resetMs: number; // how long the circuit stays open before a trial call
+}
+
+/**
+ * Thrown instead of calling the service while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAt: Date) {
+    super(`Circuit open until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Consecutive-failure circuit breaker
+ * - CLOSED: calls go through; the threshold of consecutive failures opens the circuit
+ * - OPEN: calls are rejected until the reset time has passed
+ * - HALF_OPEN: one trial call goes through; success closes the circuit, failure opens it again
+ */
+export class CircuitBreaker {
+
+  private failures = 0;
+  private openedAt?: Date;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly clock: IClock = systemClock
+  ) {}
+
+  /**
+   * Current state of the circuit
+   * @returns CircuitState - State
+   */
+  get state(): CircuitState {
+    if (!this.openedAt) {
+      return 'CLOSED';
+    }
+    return this.clock.now().getTime() - this.openedAt.getTime() >= this.options.resetMs ? 'HALF_OPEN' : 'OPEN';
+  }
+
+  /**
+   * Run a call through the breaker
+   * @param call - Call to the service
+   * @param isFailure - Whether an error counts against the service; errors it rejects are passed on without effect
+   * @returns Promise<T> - Result of the call
+   */
+  async execute<T>(call: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    const state = this.state;
+    if (state === 'OPEN' || (state === 'HALF_OPEN' && this.trialInFlight)) {
+      throw new CircuitOpenError(new Date(this.openedAt!.getTime() + this.options.resetMs));
+    }
+
+    const trial = state === 'HALF_OPEN';
+    this.trialInFlight = trial;
+
+    try {
+      const result = await call();
+      this.failures = 0;
+      this.openedAt = undefined;
+      return result;
+
+    } catch (error) {
+      if (isFailure(error)) {
+        this.failures++;
+        if (trial || this.failures >= this.options.failureThreshold) {
+          this.openedAt = this.clock.now();
+        }
+      } else if (trial) {
+        // The service answered, so it is reachable again
+        this.failures = 0;
+        this.openedAt = undefined;
+      }
+      throw error;
+
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+}
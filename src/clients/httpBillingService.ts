@@ -0,0 +1,70 @@
+/**
+ * Billing service client
+ */
+
+import { AgreementStatus, ExternalServiceError, IBillingService, LeasingAgreement } from '../types';
+import { HttpClient } from './httpClient';
+import { BillingRecordCreated, BillingRecordRequest, BillingStatusUpdate } from './serviceContracts';
+
+/**
+ * IBillingService backed by the billing service's HTTP API
+ * A retried create with the same idempotency key returns the same record
+ */
+export class HttpBillingService implements IBillingService {
+
+  constructor(private readonly http: HttpClient) {}
+
+  async createBillingRecord(agreement: LeasingAgreement, idempotencyKey: string): Promise<string> {
+    const body: BillingRecordRequest = {
+      agreementId: agreement.id,
+      employeeId: agreement.employeeId,
+      companyId: agreement.companyId,
+      status: agreement.status,
+      currency: agreement.currency,
+      totalAmount: agreement.price.toNumber(),
+      startDate: agreement.startDate.toISOString(),
+      endDate: agreement.endDate.toISOString(),
+      payments: agreement.paymentSchedule.map(payment => ({
+        id: payment.id,
+        dueDate: payment.dueDate.toISOString(),
+        amount: payment.amount.toNumber(),
+        netAmount: payment.netAmount.toNumber(),
+        taxAmount: payment.taxAmount.toNumber()
+      }))
+    };
+
+    const response = await this.http.request<BillingRecordCreated>({
+      method: 'POST',
+      path: '/billing-records',
+      body,
+      idempotencyKey
+    });
+    if (!response.body?.id) {
+      throw new ExternalServiceError(
+        `Billing record for agreement ${agreement.id} was created without an ID`,
+        'billing',
+        'SERVICE_ERROR',
+        response.status
+      );
+    }
+    return response.body.id;
+  }
+
+  async updateBillingRecord(agreementId: string, status: AgreementStatus): Promise<void> {
+    const body: BillingStatusUpdate = { status };
+    await this.http.request({
+      method: 'PUT',
+      path: `/agreements/${encodeURIComponent(agreementId)}/billing-status`,
+      body
+    });
+  }
+
+  async cancelBillingRecord(billingId: string): Promise<void> {
+    // Cancelling is a compensation and may be repeated; a record that is already gone is cancelled
+    await this.http.request({
+      method: 'DELETE',
+      path: `/billing-records/${encodeURIComponent(billingId)}`,
+      acceptStatuses: [404]
+    });
+  }
+}
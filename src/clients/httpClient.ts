@@ -0,0 +1,188 @@
+/**
+ * JSON client for the external services
+ * Every attempt has a timeout and goes through the service's circuit breaker; failed idempotent
+ * requests are retried with jittered exponential backoff. The correlation ID of the running work
+ * and the idempotency key of the request are sent as headers
+ */
+
+import { ExternalServiceError, HttpClientConfig, IClock } from '../types';
+import { IDEMPOTENCY_KEY_HEADER } from '../middleware/idempotency';
+import { CORRELATION_ID_HEADER, currentCorrelationId } from '../utils/correlation';
+import { systemClock } from '../utils/clock';
+import { Logger } from '../utils/logger';
+import { CircuitBreaker, CircuitOpenError } from './circuitBreaker';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface HttpRequest {
+  readonly method: HttpMethod;
+  readonly path: string; // appended to the base URL; segments must already be encoded
+  readonly body?: unknown;
+  readonly idempotencyKey?: string; // lets the service deduplicate a POST, which makes it safe to retry
+  readonly acceptStatuses?: number[]; // error statuses returned to the caller instead of thrown, e.g. 404
+}
+
+export interface HttpResponse<T> {
+  readonly status: number;
+  readonly body?: T;
+}
+
+/**
+ * Client for one external service
+ */
+export class HttpClient {
+
+  private readonly baseUrl: string;
+  private readonly breaker: CircuitBreaker;
+
+  /**
+   * @param service - Service name used in errors and logs
+   * @param baseUrl - Base URL of the service
+   * @param config - Timeout, retry and circuit breaker settings
+   * @param logger - Logger
+   * @param random - Source of retry jitter in [0, 1)
+   * @param clock - Clock used by the circuit breaker
+   */
+  constructor(
+    private readonly service: string,
+    baseUrl: string,
+    private readonly config: HttpClientConfig,
+    private readonly logger: Logger,
+    private readonly random: () => number = Math.random,
+    clock: IClock = systemClock
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.breaker = new CircuitBreaker(
+      { failureThreshold: config.circuitFailureThreshold, resetMs: config.circuitResetMs },
+      clock
+    );
+  }
+
+  /**
+   * Send a request
+   * @param request - Request to send
+   * @returns Promise<HttpResponse<T>> - 2xx response, or one with an accepted status
+   * @throws ExternalServiceError - When the service cannot be reached, times out, answers with an
+   * unaccepted error status after all retries, or its circuit is open
+   */
+  async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const correlationId = currentCorrelationId() ?? `out-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const retriable = request.method !== 'POST' || request.idempotencyKey !== undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.breaker.execute(() => this.send<T>(request, correlationId), isServiceFailure);
+
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          throw new ExternalServiceError(
+            `${this.service} service is unavailable until ${error.retryAt.toISOString()}`,
+            this.service,
+            'CIRCUIT_OPEN'
+          );
+        }
+
+        if (!retriable || !isServiceFailure(error) || attempt > this.config.maxRetries) {
+          throw error;
+        }
+
+        const delayMs = this.retryDelay(attempt);
+        this.logger.warn('External service call failed, retrying', {
+          correlationId,
+          service: this.service,
+          method: request.method,
+          path: request.path,
+          attempt,
+          delayMs,
+          error: (error as Error).message
+        });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Full jitter: a random delay up to the base delay doubled per failed attempt, capped at the maximum
+   * @param attempt - Failed attempts so far
+   * @returns number - Delay in milliseconds
+   */
+  retryDelay(attempt: number): number {
+    const ceiling = Math.min(this.config.retryMaxDelayMs, this.config.retryBaseDelayMs * 2 ** (attempt - 1));
+    return Math.floor(this.random() * ceiling);
+  }
+
+  /**
+   * Make one attempt
+   * @param request - Request to send
+   * @param correlationId - Correlation ID forwarded to the service
+   * @returns Promise<HttpResponse<T>> - Response
+   */
+  private async send<T>(request: HttpRequest, correlationId: string): Promise<HttpResponse<T>> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      [CORRELATION_ID_HEADER]: correlationId
+    };
+    if (request.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (request.idempotencyKey !== undefined) {
+      headers[IDEMPOTENCY_KEY_HEADER] = request.idempotencyKey;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+    const description = `${this.service} ${request.method} ${request.path}`;
+
+    try {
+      const response = await fetch(`${this.baseUrl}${request.path}`, {
+        method: request.method,
+        headers,
+        body: request.body === undefined ? undefined : JSON.stringify(request.body),
+        signal: controller.signal
+      });
+      const text = await response.text();
+
+      if (!response.ok && !request.acceptStatuses?.includes(response.status)) {
+        throw new ExternalServiceError(
+          `${description} failed with status ${response.status}`,
+          this.service,
+          'SERVICE_ERROR',
+          response.status
+        );
+      }
+
+      return { status: response.status, body: text === '' ? undefined : JSON.parse(text) as T };
+
+    } catch (error) {
+      if (error instanceof ExternalServiceError) {
+        throw error;
+      }
+      if (controller.signal.aborted) {
+        throw new ExternalServiceError(`${description} timed out after ${this.config.timeoutMs}ms`, this.service, 'SERVICE_TIMEOUT');
+      }
+      if (error instanceof SyntaxError) {
+        throw new ExternalServiceError(`${description} returned invalid JSON`, this.service, 'SERVICE_ERROR');
+      }
+      throw new ExternalServiceError(`${description} failed: ${(error as Error).message}`, this.service, 'SERVICE_UNREACHABLE');
+
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Whether an error means the service is unhealthy: it could not be reached, timed out,
+ * or answered with a server error or 429. Such calls are retried and count against the circuit
+ * @param error - Error of an attempt
+ * @returns boolean - Whether the error is a service failure
+ */
+function isServiceFailure(error: unknown): boolean {
+  if (!(error instanceof ExternalServiceError)) {
+    return false;
+  }
+  if (error.status === undefined) {
+    return error.code === 'SERVICE_TIMEOUT' || error.code === 'SERVICE_UNREACHABLE';
+  }
+  return error.status >= 500 || error.status === 429;
+}
@@ -0,0 +1,46 @@
+/**
+ * Employee directory client
+ */
+
+import { EmployeeType, IEmployeeService, NotFoundError } from '../types';
+import { HttpClient } from './httpClient';
+import { DirectReports, EmployeeRecord } from './serviceContracts';
+
+/**
+ * IEmployeeService backed by the employee directory's HTTP API
+ */
+export class HttpEmployeeService implements IEmployeeService {
+
+  constructor(private readonly http: HttpClient) {}
+
+  async getEmployeeType(employeeId: string): Promise<EmployeeType> {
+    const employee = await this.findEmployee(employeeId);
+    if (!employee) {
+      throw new NotFoundError(`Employee ${employeeId} not found`, 'employee', 'EMPLOYEE_NOT_FOUND');
+    }
+    return employee.type;
+  }
+
+  async validateEmployee(employeeId: string, companyId: string): Promise<boolean> {
+    const employee = await this.findEmployee(employeeId);
+    return employee !== undefined && employee.active && employee.companyId === companyId;
+  }
+
+  async getDirectReports(managerId: string): Promise<string[]> {
+    const response = await this.http.request<DirectReports>({
+      method: 'GET',
+      path: `/employees/${encodeURIComponent(managerId)}/direct-reports`,
+      acceptStatuses: [404]
+    });
+    return response.status === 404 ? [] : response.body!.employeeIds;
+  }
+
+  private async findEmployee(employeeId: string): Promise<EmployeeRecord | undefined> {
+    const response = await this.http.request<EmployeeRecord>({
+      method: 'GET',
+      path: `/employees/${encodeURIComponent(employeeId)}`,
+      acceptStatuses: [404]
+    });
+    return response.status === 404 ? undefined : response.body;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Inventory service client
+ */
+
+import { IInventoryService, ItemReservation } from '../types';
+import { HttpClient } from './httpClient';
+import { ItemRecord, ItemReservationRequest } from './serviceContracts';
+
+/**
+ * IInventoryService backed by the inventory service's HTTP API
+ */
+export class HttpInventoryService implements IInventoryService {
+
+  constructor(private readonly http: HttpClient) {}
+
+  async checkAvailability(itemId: string): Promise<boolean> {
+    const item = await this.findItem(itemId);
+    return item?.leasable ?? false;
+  }
+
+  async getItemCategory(itemId: string): Promise<string | undefined> {
+    const item = await this.findItem(itemId);
+    return item?.category;
+  }
+
+  async reserveItem(reservation: ItemReservation): Promise<void> {
+    const body: ItemReservationRequest = {
+      itemId: reservation.itemId,
+      startDate: reservation.startDate.toISOString(),
+      endDate: reservation.endDate.toISOString()
+    };
+    await this.http.request({
+      method: 'PUT',
+      path: `/reservations/${encodeURIComponent(reservation.id)}`,
+      body
+    });
+  }
+
+  async releaseItem(reservationId: string): Promise<void> {
+    // Agreements cancelled as drafts were never reserved here; a reservation that is already gone is released
+    await this.http.request({
+      method: 'DELETE',
+      path: `/reservations/${encodeURIComponent(reservationId)}`,
+      acceptStatuses: [404]
+    });
+  }
+
+  private async findItem(itemId: string): Promise<ItemRecord | undefined> {
+    const response = await this.http.request<ItemRecord>({
+      method: 'GET',
+      path: `/items/${encodeURIComponent(itemId)}`,
+      acceptStatuses: [404]
+    });
+    return response.status === 404 ? undefined : response.body;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Notification service client
+ */
+
+import { INotificationService, PaymentSchedule } from '../types';
+import { HttpClient } from './httpClient';
+import { AgreementCreatedNotification, PaymentDueNotification } from './serviceContracts';
+
+/**
+ * INotificationService backed by the notification service's HTTP API
+ * Each notice carries an idempotency key, so retries and redelivered outbox events notify once
+ */
+export class HttpNotificationService implements INotificationService {
+
+  constructor(private readonly http: HttpClient) {}
+
+  async sendAgreementCreated(employeeId: string, agreementId: string): Promise<void> {
+    const body: AgreementCreatedNotification = { employeeId, agreementId };
+    await this.http.request({
+      method: 'POST',
+      path: '/notifications/agreement-created',
+      body,
+      idempotencyKey: `agreement-created-${agreementId}`
+    });
+  }
+
+  async sendPaymentDue(employeeId: string, payment: PaymentSchedule): Promise<void> {
+    const body: PaymentDueNotification = {
+      employeeId,
+      payment: {
+        id: payment.id,
+        dueDate: payment.dueDate.toISOString(),
+        currency: payment.amount.currency,
+        amount: payment.amount.toNumber(),
+        netAmount: payment.netAmount.toNumber(),
+        taxAmount: payment.taxAmount.toNumber(),
+        paidAmount: payment.paidAmount.toNumber(),
+        status: payment.status,
+        attemptCount: payment.attemptCount
+      }
+    };
+    // One notice per dunning stage
+    await this.http.request({
+      method: 'POST',
+      path: '/notifications/payment-due',
+      body,
+      idempotencyKey: `payment-due-${payment.id}-${payment.attemptCount}`
+    });
+  }
+}
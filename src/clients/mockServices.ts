@@ -0,0 +1,50 @@
+/**
+ * Mock adapters for the external services
+ * Accept everything and keep nothing; used for local development when a service is not available
+ */
+
+import { IBillingService, IEmployeeService, IInventoryService, INotificationService } from '../types';
+
+/**
+ * Every item is leasable and uncategorized; reservations are acknowledged but not kept
+ */
+export function createMockInventoryService(): IInventoryService {
+  return {
+    async checkAvailability(itemId) { return true; },
+    async getItemCategory(itemId) { return undefined; },
+    async reserveItem(reservation) {},
+    async releaseItem(reservationId) {}
+  };
+}
+
+/**
+ * Billing records are acknowledged but not kept
+ */
+export function createMockBillingService(): IBillingService {
+  return {
+    async createBillingRecord(agreement, idempotencyKey) { return `bill-${agreement.id}`; },
+    async updateBillingRecord(agreementId, status) {},
+    async cancelBillingRecord(billingId) {}
+  };
+}
+
+/**
+ * Notifications are dropped
+ */
+export function createMockNotificationService(): INotificationService {
+  return {
+    async sendAgreementCreated(employeeId, agreementId) {},
+    async sendPaymentDue(employeeId, payment) {}
+  };
+}
+
+/**
+ * Every employee is a valid STANDARD employee of any company, without reports
+ */
+export function createMockEmployeeService(): IEmployeeService {
+  return {
+    async getEmployeeType(employeeId) { return 'STANDARD'; },
+    async validateEmployee(employeeId, companyId) { return true; },
+    async getDirectReports(managerId) { return []; }
+  };
+}
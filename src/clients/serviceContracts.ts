@@ -0,0 +1,94 @@
+/**
+ * Request and response bodies of the external services
+ * Shared by the HTTP adapters and the stub server, so contract tests exercise the same shapes
+ *
+ * Inventory
+ * - GET /items/:itemId -> ItemRecord; 404 for unknown items
+ * - PUT /reservations/:reservationId ItemReservationRequest -> 204
+ * - DELETE /reservations/:reservationId -> 204; 404 when already gone
+ * Billing
+ * - POST /billing-records (Idempotency-Key: agreement ID) BillingRecordRequest -> 201 BillingRecordCreated
+ * - PUT /agreements/:agreementId/billing-status BillingStatusUpdate -> 204
+ * - DELETE /billing-records/:billingId -> 204; 404 when already gone
+ * Notifications
+ * - POST /notifications/agreement-created (Idempotency-Key) AgreementCreatedNotification -> 202
+ * - POST /notifications/payment-due (Idempotency-Key) PaymentDueNotification -> 202
+ * Employees
+ * - GET /employees/:employeeId -> EmployeeRecord; 404 for unknown employees
+ * - GET /employees/:employeeId/direct-reports -> DirectReports
+ *
+ * Dates are ISO 8601 strings and amounts are numbers in major units of `currency`
+ */
+
+import { AgreementStatus, EmployeeType, PaymentStatus } from '../types';
+
+export interface ItemRecord {
+  readonly id: string;
+  readonly leasable: boolean;
+  readonly category?: string;
+}
+
+export interface ItemReservationRequest {
+  readonly itemId: string;
+  readonly startDate: string;
+  readonly endDate: string;
+}
+
+export interface BillingPaymentLine {
+  readonly id: string;
+  readonly dueDate: string;
+  readonly amount: number;
+  readonly netAmount: number;
+  readonly taxAmount: number;
+}
+
+export interface BillingRecordRequest {
+  readonly agreementId: string;
+  readonly employeeId: string;
+  readonly companyId: string;
+  readonly status: AgreementStatus;
+  readonly currency: string;
+  readonly totalAmount: number;
+  readonly startDate: string;
+  readonly endDate: string;
+  readonly payments: BillingPaymentLine[];
+}
+
+export interface BillingRecordCreated {
+  readonly id: string;
+}
+
+export interface BillingStatusUpdate {
+  readonly status: AgreementStatus;
+}
+
+export interface AgreementCreatedNotification {
+  readonly employeeId: string;
+  readonly agreementId: string;
+}
+
+export interface PaymentDueNotification {
+  readonly employeeId: string;
+  readonly payment: {
+    readonly id: string;
+    readonly dueDate: string;
+    readonly currency: string;
+    readonly amount: number;
+    readonly netAmount: number;
+    readonly taxAmount: number;
+    readonly paidAmount: number;
+    readonly status: PaymentStatus;
+    readonly attemptCount: number; // dunning stage the notice is for
+  };
+}
+
+export interface EmployeeRecord {
+  readonly id: string;
+  readonly companyId: string;
+  readonly type: EmployeeType;
+  readonly active: boolean;
+}
+
+export interface DirectReports {
+  readonly employeeIds: string[];
+}
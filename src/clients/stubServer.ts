@@ -0,0 +1,248 @@
+/**
+ * Local stub of the inventory, billing, notification and employee services
+ * Implements the contract in serviceContracts.ts in memory, so the HTTP adapters can be tested and the
+ * application run without network access. Records every request and can inject failures and delays
+ *
+ * Run standalone with `npm run stub-services`; STUB_SERVER_PORT sets the port (default 4000) and
+ * STUB_DATA_FILE a JSON file of StubServiceData. Point all *_SERVICE_URL variables at it
+ */
+
+import express, { Application, NextFunction, Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { readFileSync } from 'fs';
+import { AgreementStatus } from '../types';
+import { IDEMPOTENCY_KEY_HEADER } from '../middleware/idempotency';
+import { CORRELATION_ID_HEADER } from '../utils/correlation';
+import { Logger } from '../utils/logger';
+import {
+  AgreementCreatedNotification,
+  BillingRecordRequest,
+  EmployeeRecord,
+  ItemRecord,
+  ItemReservationRequest,
+  PaymentDueNotification
+} from './serviceContracts';
+
+export interface StubServiceData {
+  readonly items?: ItemRecord[];
+  readonly employees?: EmployeeRecord[];
+  readonly directReports?: Record<string, string[]>; // by manager ID
+}
+
+export interface RecordedRequest {
+  readonly method: string;
+  readonly path: string;
+  readonly correlationId?: string;
+  readonly idempotencyKey?: string;
+  readonly body: unknown;
+}
+
+export interface StubBillingRecord extends BillingRecordRequest {
+  readonly id: string;
+}
+
+export type StubNotification =
+  | { readonly type: 'agreement-created'; readonly body: AgreementCreatedNotification }
+  | { readonly type: 'payment-due'; readonly body: PaymentDueNotification };
+
+interface Fault {
+  remaining: number;
+  readonly status?: number; // answer with this status instead of handling the request
+  readonly delayMs?: number; // wait before handling the request
+}
+
+/**
+ * In-memory stub of the external services
+ */
+export class StubServer {
+
+  readonly requests: RecordedRequest[] = [];
+  readonly reservations: Map<string, ItemReservationRequest> = new Map(); // by reservation ID
+  readonly billingRecords: Map<string, StubBillingRecord> = new Map();
+  readonly billingStatuses: Map<string, AgreementStatus> = new Map(); // by agreement ID
+  readonly notifications: StubNotification[] = [];
+
+  private readonly app: Application;
+  private readonly items: Map<string, ItemRecord>;
+  private readonly employees: Map<string, EmployeeRecord>;
+  private readonly directReports: Record<string, string[]>;
+  private readonly idempotentResponses: Map<string, { status: number; body?: unknown }> = new Map();
+  private readonly faults: Fault[] = [];
+  private server?: Server;
+  private nextBillingId = 1;
+
+  constructor(data: StubServiceData = {}) {
+    this.items = new Map((data.items ?? []).map(item => [item.id, item]));
+    this.employees = new Map((data.employees ?? []).map(employee => [employee.id, employee]));
+    this.directReports = data.directReports ?? {};
+    this.app = this.createApp();
+  }
+
+  /**
+   * Answer the next requests with an error status
+   * @param count - Number of requests
+   * @param status - Status to answer with
+   */
+  failNext(count: number, status = 503): void {
+    this.faults.push({ remaining: count, status });
+  }
+
+  /**
+   * Delay the next requests
+   * @param count - Number of requests
+   * @param delayMs - Delay in milliseconds
+   */
+  delayNext(count: number, delayMs: number): void {
+    this.faults.push({ remaining: count, delayMs });
+  }
+
+  /**
+   * Listen on the loopback interface
+   * @param port - Port; 0 picks a free one
+   * @returns Promise<string> - Base URL of the stub
+   */
+  async start(port = 0): Promise<string> {
+    const server = this.app.listen(port, '127.0.0.1');
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stop listening and drop open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private createApp(): Application {
+    const app = express();
+    app.use(express.json());
+    app.use(this.record.bind(this));
+    app.use((req, res, next) => { this.injectFault(res, next).catch(next); });
+
+    app.get('/items/:itemId', (req, res) => {
+      const item = this.items.get(req.params.itemId);
+      item ? res.json(item) : res.status(404).json({ error: 'Item not found' });
+    });
+
+    app.put('/reservations/:reservationId', (req, res) => {
+      this.reservations.set(req.params.reservationId, req.body as ItemReservationRequest);
+      res.status(204).end();
+    });
+
+    app.delete('/reservations/:reservationId', (req, res) => {
+      res.status(this.reservations.delete(req.params.reservationId) ? 204 : 404).end();
+    });
+
+    app.post('/billing-records', (req, res) => {
+      this.idempotent(req, res, () => {
+        const record: StubBillingRecord = { ...req.body as BillingRecordRequest, id: `bill-${this.nextBillingId++}` };
+        this.billingRecords.set(record.id, record);
+        this.billingStatuses.set(record.agreementId, record.status);
+        return { status: 201, body: { id: record.id } };
+      });
+    });
+
+    app.put('/agreements/:agreementId/billing-status', (req, res) => {
+      this.billingStatuses.set(req.params.agreementId, req.body.status);
+      res.status(204).end();
+    });
+
+    app.delete('/billing-records/:billingId', (req, res) => {
+      res.status(this.billingRecords.delete(req.params.billingId) ? 204 : 404).end();
+    });
+
+    app.post('/notifications/agreement-created', (req, res) => {
+      this.idempotent(req, res, () => {
+        this.notifications.push({ type: 'agreement-created', body: req.body });
+        return { status: 202 };
+      });
+    });
+
+    app.post('/notifications/payment-due', (req, res) => {
+      this.idempotent(req, res, () => {
+        this.notifications.push({ type: 'payment-due', body: req.body });
+        return { status: 202 };
+      });
+    });
+
+    app.get('/employees/:employeeId', (req, res) => {
+      const employee = this.employees.get(req.params.employeeId);
+      employee ? res.json(employee) : res.status(404).json({ error: 'Employee not found' });
+    });
+
+    app.get('/employees/:employeeId/direct-reports', (req, res) => {
+      if (!this.employees.has(req.params.employeeId)) {
+        res.status(404).json({ error: 'Employee not found' });
+        return;
+      }
+      res.json({ employeeIds: this.directReports[req.params.employeeId] ?? [] });
+    });
+
+    return app;
+  }
+
+  private record(req: Request, res: Response, next: NextFunction): void {
+    this.requests.push({
+      method: req.method,
+      path: req.path,
+      correlationId: req.header(CORRELATION_ID_HEADER),
+      idempotencyKey: req.header(IDEMPOTENCY_KEY_HEADER),
+      body: req.body
+    });
+    next();
+  }
+
+  private async injectFault(res: Response, next: NextFunction): Promise<void> {
+    const fault = this.faults[0];
+    if (!fault) {
+      next();
+      return;
+    }
+
+    if (--fault.remaining === 0) {
+      this.faults.shift();
+    }
+    if (fault.delayMs !== undefined) {
+      await new Promise(resolve => setTimeout(resolve, fault.delayMs));
+    }
+    if (fault.status !== undefined) {
+      res.status(fault.status).json({ error: 'Injected failure' });
+      return;
+    }
+    next();
+  }
+
+  /**
+   * Handle a request once per idempotency key; repeats get the first response
+   */
+  private idempotent(req: Request, res: Response, handle: () => { status: number; body?: unknown }): void {
+    const key = req.header(IDEMPOTENCY_KEY_HEADER);
+    const response = (key && this.idempotentResponses.get(`${req.path} ${key}`)) || handle();
+    if (key) {
+      this.idempotentResponses.set(`${req.path} ${key}`, response);
+    }
+    response.body === undefined ? res.status(response.status).end() : res.status(response.status).json(response.body);
+  }
+}
+
+if (require.main === module) {
+  const data: StubServiceData = process.env.STUB_DATA_FILE
+    ? JSON.parse(readFileSync(process.env.STUB_DATA_FILE, 'utf8'))
+    : {};
+  const logger = new Logger('StubServer');
+  new StubServer(data)
+    .start(parseInt(process.env.STUB_SERVER_PORT || '4000', 10))
+    .then(url => logger.info('Stub services listening', { url }));
+}
@@ -3,17 +3,53 @@
  * Provides type-safe configuration management
  */
 
-import { LeasingConfig } from '../types';
+import { readFileSync } from 'fs';
+import { ConfigurationError, ExchangeRateTable, HttpClientConfig, LeasingConfig, RolePermissions } from '../types';
+import { ENV_VALIDATION_OPTIONS, envSchema } from './schema';
+
+/**
+ * Permissions granted to each role unless ROLE_PERMISSIONS_FILE overrides them
+ */
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissions = {
+  user: ['agreement:create', 'agreement:read:own'],
+  manager: [
+    'agreement:create',
+    'agreement:read:own',
+    'agreement:read:reports',
+    'agreement:activate',
+    'agreement:complete',
+    'agreement:cancel'
+  ],
+  admin: [
+    'agreement:create',
+    'agreement:read:own',
+    'agreement:read:company',
+    'agreement:activate',
+    'agreement:complete',
+    'agreement:cancel',
+    'payment:record',
+    'policy:manage',
+    'company:any'
+  ]
+};
+
+/**
+ * Implementation of an external service: its HTTP API, or a mock that accepts everything
+ */
+export type ExternalServiceAdapter = 'http' | 'mock';
 
 export interface AppConfig {
   port: number;
   nodeEnv: string;
   database: {
+    driver: 'postgres' | 'sqlite';
+    filename: string; // SQLite only; ':memory:' keeps the database in-process
     host: string;
     port: number;
     database: string;
     username: string;
     password: string;
+    poolSize: number;
   };
   redis: {
     host: string;
@@ -23,8 +59,56 @@ export interface AppConfig {
   auth: {
     jwtSecret: string;
     jwtExpiresIn: string;
+    algorithm: 'HS256' | 'RS256';
+    issuer: string;
+    audience: string;
+    jwksPath?: string; // JWKS file, or directory of JWK/JWKS/PEM files, for key rotation
+    clockToleranceSeconds: number;
+    signingKeyPath?: string; // PEM private key used to sign RS256 tokens
+    signingKeyId?: string; // `kid` header written on issued tokens
+    refreshTokenTtlSeconds: number;
+    usersFile?: string; // JSON list of local users allowed the password grant
+    clientsFile?: string; // JSON list of service accounts allowed the client_credentials grant
+  };
+  authorization: {
+    rolePermissions: RolePermissions;
   };
   leasing: LeasingConfig;
+  exchangeRates: ExchangeRateTable[];
+  adapters: {
+    storage: 'sql' | 'memory'; // memory keeps all state in the process; for development and tests
+    inventory: ExternalServiceAdapter;
+    billing: ExternalServiceAdapter;
+    notification: ExternalServiceAdapter;
+    employee: ExternalServiceAdapter;
+  };
+  externalServices: {
+    inventoryUrl?: string;
+    billingUrl?: string;
+    notificationUrl?: string;
+    employeeUrl?: string;
+    http: HttpClientConfig;
+  };
+  idempotency: {
+    store: 'memory' | 'sql';
+    ttlSeconds: number; // how long completed responses are replayed
+    lockTimeoutMs: number; // how long a request may hold its key before it is considered abandoned
+  };
+  outbox: {
+    pollIntervalMs: number;
+    batchSize: number;
+    maxAttempts: number; // deliveries before an event is moved to the dead-letter list
+    retryBaseDelayMs: number; // doubled after every failed attempt
+    retryMaxDelayMs: number;
+    leaseMs: number; // how long a claimed event is hidden from other dispatchers
+  };
+  dunning: {
+    intervalMs: number;
+    batchSize: number; // agreements loaded per page
+    reminderDays: number[]; // days before the due date a reminder is sent
+    gracePeriodDays: number; // days after the due date before a payment is OVERDUE
+    escalationDays: number[]; // days after the grace period a dunning notice is sent
+  };
   rateLimit: {
     windowMs: number;
     max: number;
@@ -37,54 +121,210 @@ export interface AppConfig {
 
 /**
  * Load and validate configuration from environment variables
+ * Every problem is collected before failing, so one start reports all of them
+ * @param env - Environment variables
  * @returns AppConfig - Validated configuration object
+ * @throws ConfigurationError - When any variable or configuration file is invalid
  */
-export function loadConfig(): AppConfig {
-  return {
-    port: parseInt(process.env.PORT || '3000', 10),
-    nodeEnv: process.env.NODE_ENV || 'development',
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const { value: vars, error } = envSchema.validate(withoutEmptyValues(env), ENV_VALIDATION_OPTIONS);
+  const problems = error ? error.details.map(detail => detail.message) : [];
+  const readJson = <T>(variable: string, fallback: T): T => readJsonFile(vars[variable], variable, fallback, problems);
+
+  const config: AppConfig = {
+    port: vars.PORT,
+    nodeEnv: vars.NODE_ENV,
     
     database: {
-      host: process.env.DB_HOST || 'localhost',
-      port: parseInt(process.env.DB_PORT || '5432', 10),
-      database: process.env.DB_NAME || 'leasing_db',
-      username: process.env.DB_USER || 'postgres',
-      password: process.env.DB_PASSWORD || 'password'
+      driver: vars.DB_DRIVER,
+      filename: vars.DB_FILE,
+      host: vars.DB_HOST,
+      port: vars.DB_PORT,
+      database: vars.DB_NAME,
+      username: vars.DB_USER,
+      password: vars.DB_PASSWORD,
+      poolSize: vars.DB_POOL_SIZE
     },
     
     redis: {
-      host: process.env.REDIS_HOST || 'localhost',
-      port: parseInt(process.env.REDIS_PORT || '6379', 10),
-      password: process.env.REDIS_PASSWORD
+      host: vars.REDIS_HOST,
+      port: vars.REDIS_PORT,
+      password: vars.REDIS_PASSWORD
     },
     
     auth: {
-      jwtSecret: process.env.JWT_SECRET || 'your-secret-key',
-      jwtExpiresIn: process.env.JWT_EXPIRES_IN || '24h'
+      jwtSecret: vars.JWT_SECRET,
+      jwtExpiresIn: vars.JWT_EXPIRES_IN,
+      algorithm: vars.JWT_ALGORITHM,
+      issuer: vars.JWT_ISSUER,
+      audience: vars.JWT_AUDIENCE,
+      jwksPath: vars.JWT_JWKS_PATH,
+      clockToleranceSeconds: vars.JWT_CLOCK_TOLERANCE_SECONDS,
+      signingKeyPath: vars.JWT_SIGNING_KEY_PATH,
+      signingKeyId: vars.JWT_SIGNING_KEY_ID,
+      refreshTokenTtlSeconds: vars.REFRESH_TOKEN_TTL_SECONDS,
+      usersFile: vars.AUTH_USERS_FILE,
+      clientsFile: vars.AUTH_CLIENTS_FILE
+    },
+
+    authorization: {
+      rolePermissions: readJson('ROLE_PERMISSIONS_FILE', DEFAULT_ROLE_PERMISSIONS)
     },
     
     leasing: {
-      maxLeasingDuration: parseInt(process.env.MAX_LEASING_DURATION || '60', 10),
-      minLeasingDuration: parseInt(process.env.MIN_LEASING_DURATION || '1', 10),
-      maxPrice: parseInt(process.env.MAX_PRICE || '1000000', 10),
-      supportedCurrencies: ['USD', 'EUR', 'GBP', 'CAD'],
-      employeeDiscounts: {
-        STANDARD: 1.0,
-        PREMIUM: 0.9,
-        VIP: 0.8
-      },
-      longTermDiscount: parseFloat(process.env.LONG_TERM_DISCOUNT || '0.8'),
-      longTermThreshold: parseInt(process.env.LONG_TERM_THRESHOLD || '12', 10)
+      maxLeasingDuration: vars.MAX_LEASING_DURATION,
+      minLeasingDuration: vars.MIN_LEASING_DURATION,
+      maxPrice: vars.MAX_PRICE,
+      supportedCurrencies: parseCurrencyList(vars.SUPPORTED_CURRENCIES),
+      baseCurrency: vars.BASE_CURRENCY.toUpperCase(),
+      companyBaseCurrencies: readJson('COMPANY_CURRENCIES_FILE', {}),
+      pricing: readJson('PRICING_RULES_FILE', {
+        employeeMultipliers: {
+          STANDARD: 1.0,
+          PREMIUM: 0.9,
+          VIP: 0.8
+        },
+        durationTiers: [{
+          minMonths: vars.LONG_TERM_THRESHOLD,
+          multiplier: vars.LONG_TERM_DISCOUNT
+        }]
+      }),
+      earlyTerminationPenaltyRate: vars.EARLY_TERMINATION_PENALTY_RATE,
+      dayCountConvention: vars.DAY_COUNT_CONVENTION,
+      tax: readJson('TAX_RULES_FILE', { countries: {}, companyCountries: {} }),
+      reservationHoldMinutes: {
+        draft: vars.DRAFT_RESERVATION_HOLD_MINUTES,
+        pending: vars.PENDING_RESERVATION_HOLD_MINUTES
+      }
+    },
+
+    exchangeRates: readJson('EXCHANGE_RATES_FILE', []),
+
+    adapters: {
+      storage: vars.STORAGE_ADAPTER,
+      inventory: serviceAdapter(vars.INVENTORY_ADAPTER, vars.INVENTORY_SERVICE_URL),
+      billing: serviceAdapter(vars.BILLING_ADAPTER, vars.BILLING_SERVICE_URL),
+      notification: serviceAdapter(vars.NOTIFICATION_ADAPTER, vars.NOTIFICATION_SERVICE_URL),
+      employee: serviceAdapter(vars.EMPLOYEE_ADAPTER, vars.EMPLOYEE_SERVICE_URL)
+    },
+
+    externalServices: {
+      inventoryUrl: vars.INVENTORY_SERVICE_URL,
+      billingUrl: vars.BILLING_SERVICE_URL,
+      notificationUrl: vars.NOTIFICATION_SERVICE_URL,
+      employeeUrl: vars.EMPLOYEE_SERVICE_URL,
+      http: {
+        timeoutMs: vars.EXTERNAL_SERVICE_TIMEOUT_MS,
+        maxRetries: vars.EXTERNAL_SERVICE_MAX_RETRIES,
+        retryBaseDelayMs: vars.EXTERNAL_SERVICE_RETRY_BASE_DELAY_MS,
+        retryMaxDelayMs: vars.EXTERNAL_SERVICE_RETRY_MAX_DELAY_MS,
+        circuitFailureThreshold: vars.CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+        circuitResetMs: vars.CIRCUIT_BREAKER_RESET_MS
+      }
+    },
+    
+    idempotency: {
+      store: vars.IDEMPOTENCY_STORE,
+      ttlSeconds: vars.IDEMPOTENCY_TTL_SECONDS,
+      lockTimeoutMs: vars.IDEMPOTENCY_LOCK_TIMEOUT_MS
+    },
+    
+    outbox: {
+      pollIntervalMs: vars.OUTBOX_POLL_INTERVAL_MS,
+      batchSize: vars.OUTBOX_BATCH_SIZE,
+      maxAttempts: vars.OUTBOX_MAX_ATTEMPTS,
+      retryBaseDelayMs: vars.OUTBOX_RETRY_BASE_DELAY_MS,
+      retryMaxDelayMs: vars.OUTBOX_RETRY_MAX_DELAY_MS,
+      leaseMs: vars.OUTBOX_LEASE_MS
+    },
+    
+    dunning: {
+      intervalMs: vars.DUNNING_INTERVAL_MS,
+      batchSize: vars.DUNNING_BATCH_SIZE,
+      reminderDays: parseDayList(vars.DUNNING_REMINDER_DAYS),
+      gracePeriodDays: vars.DUNNING_GRACE_PERIOD_DAYS,
+      escalationDays: parseDayList(vars.DUNNING_ESCALATION_DAYS)
     },
     
     rateLimit: {
-      windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
-      max: parseInt(process.env.RATE_LIMIT_MAX || '100', 10)
+      windowMs: vars.RATE_LIMIT_WINDOW_MS,
+      max: vars.RATE_LIMIT_MAX
     },
     
     cors: {
-      origin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000'],
-      credentials: process.env.CORS_CREDENTIALS === 'true'
+      origin: vars.CORS_ORIGIN.split(','),
+      credentials: vars.CORS_CREDENTIALS
     }
   };
+
+  if (problems.length > 0) {
+    throw new ConfigurationError(problems);
+  }
+  return config;
+}
+
+/**
+ * Drop empty variables, which have always meant "use the default"
+ * @param env - Environment variables
+ * @returns Record<string, string> - Variables with a value
+ */
+function withoutEmptyValues(env: NodeJS.ProcessEnv): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(env).filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '')
+  );
+}
+
+/**
+ * Read a JSON configuration file named by a variable
+ * @param path - File path, or undefined when the variable is unset
+ * @param variable - Variable naming the file, used in problems
+ * @param fallback - Value used when the variable is unset or the file cannot be read
+ * @param problems - Problems found so far; a file that cannot be read or parsed adds one
+ * @returns T - Parsed file contents, or the fallback
+ */
+function readJsonFile<T>(path: string | undefined, variable: string, fallback: T, problems: string[]): T {
+  if (path === undefined) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+  } catch (error) {
+    problems.push(`${variable} could not be read from ${path}: ${(error as Error).message}`);
+    return fallback;
+  }
+}
+
+/**
+ * Adapter of an external service: the configured one, else HTTP when the service has a URL.
+ * In production the schema has already required the URL and refused mock
+ * @param adapter - Validated *_ADAPTER value
+ * @param url - Validated *_SERVICE_URL value
+ * @returns ExternalServiceAdapter - Adapter
+ */
+function serviceAdapter(adapter: ExternalServiceAdapter | undefined, url: string | undefined): ExternalServiceAdapter {
+  return adapter ?? (url ? 'http' : 'mock');
+}
+
+/**
+ * Parse a comma-separated list of day counts, e.g. "7,1"
+ * @param value - Raw environment value; empty for no days
+ * @returns number[] - Day counts
+ */
+function parseDayList(value: string): number[] {
+  return value.split(',')
+    .map(day => day.trim())
+    .filter(day => day !== '')
+    .map(day => parseInt(day, 10));
+}
+
+/**
+ * Parse a comma-separated list of currency codes, e.g. "USD,EUR"
+ * @param value - Raw environment value
+ * @returns string[] - Upper-case currency codes
+ */
+function parseCurrencyList(value: string): string[] {
+  return value.split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(code => code !== '');
 }
@@ -0,0 +1,173 @@
+/**
+ * Schema of the environment variables read by loadConfig
+ * The single place that declares each variable's type, range and default
+ */
+
+import Joi from 'joi';
+
+// Values the example files and earlier versions shipped with; never acceptable in production
+const INSECURE_JWT_SECRETS = [
+  'your-secret-key',
+  'your-super-secret-key',
+  'your-super-secret-jwt-key-change-this-in-production'
+];
+const INSECURE_DB_PASSWORDS = ['password', 'postgres'];
+
+const MIN_PRODUCTION_SECRET_LENGTH = 32;
+
+const count = (defaultValue: number, min = 1) => Joi.number().integer().min(min).default(defaultValue);
+const rate = (defaultValue: number) => Joi.number().min(0).max(1).default(defaultValue);
+const dayList = (defaultValue: string) =>
+  Joi.string().pattern(/^\s*(\d+\s*(,\s*\d+\s*)*)?$/, 'comma-separated day counts').default(defaultValue);
+// Mocks accept everything and keep nothing, so production calls every service over HTTP
+const serviceUrl = (adapter: string) =>
+  Joi.string().uri({ scheme: ['http', 'https'] })
+    .when('NODE_ENV', {
+      is: 'production',
+      then: Joi.required().messages({ 'any.required': '{#label} is required in production' })
+    })
+    .when(adapter, { is: 'http', then: Joi.required() })
+    .messages({ 'any.required': `{#label} is required when ${adapter} is http` });
+const adapter = () => Joi.string().valid('http', 'mock')
+  .when('NODE_ENV', {
+    is: 'production',
+    then: Joi.valid(Joi.override, 'http').messages({ 'any.only': '{#label} must be http in production' })
+  });
+
+/**
+ * Environment variables; unknown variables are ignored and empty ones count as unset
+ */
+export const envSchema = Joi.object({
+  PORT: Joi.number().port().default(3000),
+  NODE_ENV: Joi.string().default('development'),
+
+  // State kept in the process is lost on restart, so production needs a database
+  STORAGE_ADAPTER: Joi.string().valid('sql', 'memory')
+    .when('NODE_ENV', {
+      is: 'production',
+      then: Joi.valid(Joi.override, 'sql').messages({ 'any.only': 'STORAGE_ADAPTER must be sql in production' })
+    })
+    .default('sql'),
+  DB_DRIVER: Joi.string().valid('postgres', 'sqlite').default('postgres'),
+  DB_FILE: Joi.string()
+    .when('NODE_ENV', {
+      is: 'production',
+      then: Joi.when('DB_DRIVER', { is: 'sqlite', then: Joi.required().invalid(':memory:') })
+    })
+    .default(':memory:')
+    .messages({
+      'any.required': 'DB_FILE is required with DB_DRIVER=sqlite in production',
+      'any.invalid': 'DB_FILE must not be :memory: in production'
+    }),
+  DB_HOST: Joi.string().default('localhost'),
+  DB_PORT: Joi.number().port().default(5432),
+  DB_NAME: Joi.string().default('leasing_db'),
+  DB_USER: Joi.string().default('postgres'),
+  DB_PASSWORD: Joi.string()
+    .when('NODE_ENV', {
+      is: 'production',
+      then: Joi.when('DB_DRIVER', {
+        is: 'postgres',
+        then: Joi.required().invalid(...INSECURE_DB_PASSWORDS)
+      })
+    })
+    .default('password')
+    .messages({ 'any.invalid': 'DB_PASSWORD must not be a default password in production' }),
+  DB_POOL_SIZE: count(10),
+
+  REDIS_HOST: Joi.string().default('localhost'),
+  REDIS_PORT: Joi.number().port().default(6379),
+  REDIS_PASSWORD: Joi.string(),
+
+  JWT_SECRET: Joi.string()
+    .when('NODE_ENV', {
+      is: 'production',
+      // JWT_ALGORITHM defaults to HS256, so only an explicit RS256 skips the secret
+      then: Joi.when('JWT_ALGORITHM', {
+        is: 'RS256',
+        otherwise: Joi.string().required().min(MIN_PRODUCTION_SECRET_LENGTH).invalid(...INSECURE_JWT_SECRETS)
+      })
+    })
+    .default('your-secret-key')
+    .messages({
+      'any.invalid': 'JWT_SECRET must not be a default secret in production',
+      'string.min': `JWT_SECRET must be at least ${MIN_PRODUCTION_SECRET_LENGTH} characters in production`
+    }),
+  JWT_EXPIRES_IN: Joi.string().pattern(/^\d+[smhd]?$/, 'duration').default('15m'),
+  JWT_ALGORITHM: Joi.string().valid('HS256', 'RS256').default('HS256'),
+  JWT_ISSUER: Joi.string().default('leasing-agreement-system'),
+  JWT_AUDIENCE: Joi.string().default('leasing-api'),
+  JWT_JWKS_PATH: Joi.string().when('JWT_ALGORITHM', { is: 'RS256', then: Joi.required() }),
+  JWT_CLOCK_TOLERANCE_SECONDS: count(30, 0),
+  JWT_SIGNING_KEY_PATH: Joi.string(),
+  JWT_SIGNING_KEY_ID: Joi.string(),
+  REFRESH_TOKEN_TTL_SECONDS: count(1209600), // 14 days
+  AUTH_USERS_FILE: Joi.string(),
+  AUTH_CLIENTS_FILE: Joi.string(),
+  ROLE_PERMISSIONS_FILE: Joi.string(),
+
+  MAX_LEASING_DURATION: count(60),
+  MIN_LEASING_DURATION: count(1).max(Joi.ref('MAX_LEASING_DURATION'))
+    .messages({ 'number.max': 'MIN_LEASING_DURATION must not exceed MAX_LEASING_DURATION' }),
+  MAX_PRICE: Joi.number().positive().default(1000000),
+  SUPPORTED_CURRENCIES: Joi.string().pattern(/^\s*[A-Za-z]{3}\s*(,\s*[A-Za-z]{3}\s*)*$/, 'comma-separated currency codes')
+    .default('USD,EUR,GBP,CAD'),
+  BASE_CURRENCY: Joi.string().trim().pattern(/^[A-Za-z]{3}$/, 'currency code').default('USD'),
+  COMPANY_CURRENCIES_FILE: Joi.string(),
+  EXCHANGE_RATES_FILE: Joi.string(),
+  TAX_RULES_FILE: Joi.string(),
+  PRICING_RULES_FILE: Joi.string(),
+  LONG_TERM_THRESHOLD: count(12),
+  LONG_TERM_DISCOUNT: Joi.number().positive().default(0.8),
+  EARLY_TERMINATION_PENALTY_RATE: rate(0.1),
+  DAY_COUNT_CONVENTION: Joi.string().valid('ACTUAL_ACTUAL', 'THIRTY_360').default('ACTUAL_ACTUAL'),
+  DRAFT_RESERVATION_HOLD_MINUTES: count(1440),
+  PENDING_RESERVATION_HOLD_MINUTES: count(15),
+
+  IDEMPOTENCY_STORE: Joi.string().valid('memory', 'sql').default('sql'),
+  IDEMPOTENCY_TTL_SECONDS: count(86400),
+  IDEMPOTENCY_LOCK_TIMEOUT_MS: count(30000),
+
+  OUTBOX_POLL_INTERVAL_MS: count(1000),
+  OUTBOX_BATCH_SIZE: count(50),
+  OUTBOX_MAX_ATTEMPTS: count(8),
+  OUTBOX_RETRY_BASE_DELAY_MS: count(1000),
+  OUTBOX_RETRY_MAX_DELAY_MS: count(300000).min(Joi.ref('OUTBOX_RETRY_BASE_DELAY_MS'))
+    .messages({ 'number.min': 'OUTBOX_RETRY_MAX_DELAY_MS must be at least OUTBOX_RETRY_BASE_DELAY_MS' }),
+  OUTBOX_LEASE_MS: count(60000),
+
+  DUNNING_INTERVAL_MS: count(3600000), // hourly
+  DUNNING_BATCH_SIZE: count(100),
+  DUNNING_REMINDER_DAYS: dayList('7,1'),
+  DUNNING_GRACE_PERIOD_DAYS: count(3, 0),
+  DUNNING_ESCALATION_DAYS: dayList('0,7,14'),
+
+  RATE_LIMIT_WINDOW_MS: count(900000), // 15 minutes
+  RATE_LIMIT_MAX: count(100),
+
+  CORS_ORIGIN: Joi.string().default('http://localhost:3000'),
+  CORS_CREDENTIALS: Joi.boolean().default(false),
+
+  INVENTORY_ADAPTER: adapter(),
+  BILLING_ADAPTER: adapter(),
+  NOTIFICATION_ADAPTER: adapter(),
+  EMPLOYEE_ADAPTER: adapter(),
+  INVENTORY_SERVICE_URL: serviceUrl('INVENTORY_ADAPTER'),
+  BILLING_SERVICE_URL: serviceUrl('BILLING_ADAPTER'),
+  NOTIFICATION_SERVICE_URL: serviceUrl('NOTIFICATION_ADAPTER'),
+  EMPLOYEE_SERVICE_URL: serviceUrl('EMPLOYEE_ADAPTER'),
+  EXTERNAL_SERVICE_TIMEOUT_MS: count(3000),
+  EXTERNAL_SERVICE_MAX_RETRIES: count(2, 0),
+  EXTERNAL_SERVICE_RETRY_BASE_DELAY_MS: count(200, 0),
+  EXTERNAL_SERVICE_RETRY_MAX_DELAY_MS: count(2000, 0).min(Joi.ref('EXTERNAL_SERVICE_RETRY_BASE_DELAY_MS'))
+    .messages({ 'number.min': 'EXTERNAL_SERVICE_RETRY_MAX_DELAY_MS must be at least EXTERNAL_SERVICE_RETRY_BASE_DELAY_MS' }),
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD: count(5),
+  CIRCUIT_BREAKER_RESET_MS: count(30000)
+}).unknown(true);
+
+export const ENV_VALIDATION_OPTIONS: Joi.ValidationOptions = {
+  abortEarly: false,
+  convert: true,
+  errors: { wrap: { label: false } }
+};
+
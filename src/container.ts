@@ -0,0 +1,189 @@
+/**
+ * Composition root
+ * Selects and builds the adapters the application runs on (storage, external services, clock)
+ * from configuration; nothing is created until createDependencies is called
+ */
+
+import { AppConfig, ExternalServiceAdapter } from './config';
+import {
+  IBillingService,
+  IClock,
+  ICompanyPolicyStore,
+  IEmployeeService,
+  IExchangeRateService,
+  IIdempotencyStore,
+  IInventoryService,
+  IItemReservationStore,
+  ILeasingRepository,
+  INotificationService,
+  IOutboxStore,
+  IRefreshTokenStore,
+  ISagaLog
+} from './types';
+import { HttpClient } from './clients/httpClient';
+import { HttpInventoryService } from './clients/httpInventoryService';
+import { HttpBillingService } from './clients/httpBillingService';
+import { HttpNotificationService } from './clients/httpNotificationService';
+import { HttpEmployeeService } from './clients/httpEmployeeService';
+import {
+  createMockBillingService,
+  createMockEmployeeService,
+  createMockInventoryService,
+  createMockNotificationService
+} from './clients/mockServices';
+import { LocalExchangeRateService } from './services/exchangeRateService';
+import { SqlClient } from './repositories/sql/sqlClient';
+import { createSqlClient } from './repositories/sql/connection';
+import { SqlLeasingRepository } from './repositories/sql/sqlLeasingRepository';
+import { SqlOutboxStore } from './repositories/sql/sqlOutboxStore';
+import { SqlSagaLog } from './repositories/sql/sqlSagaLog';
+import { SqlReservationStore } from './repositories/sql/sqlReservationStore';
+import { SqlRefreshTokenStore } from './repositories/sql/sqlRefreshTokenStore';
+import { SqlIdempotencyStore } from './repositories/sql/sqlIdempotencyStore';
+import { SqlCompanyPolicyStore } from './repositories/sql/sqlCompanyPolicyStore';
+import { InMemoryOutbox } from './repositories/inMemoryOutbox';
+import { InMemoryLeasingRepository } from './repositories/inMemoryLeasingRepository';
+import { InMemorySagaLog } from './repositories/inMemorySagaLog';
+import { InMemoryReservationStore } from './repositories/inMemoryReservationStore';
+import { InMemoryRefreshTokenStore } from './repositories/inMemoryRefreshTokenStore';
+import { InMemoryIdempotencyStore } from './repositories/inMemoryIdempotencyStore';
+import { InMemoryCompanyPolicyStore } from './repositories/inMemoryCompanyPolicyStore';
+import { Logger } from './utils/logger';
+import { systemClock } from './utils/clock';
+
+/**
+ * Everything the application needs from outside its own services
+ */
+export interface AppDependencies {
+  readonly logger: Logger;
+  readonly clock: IClock;
+  readonly sqlClient?: SqlClient; // present with SQL storage; migrated on start and closed on stop
+  readonly repository: ILeasingRepository; // writes its events to `outbox`
+  readonly outbox: IOutboxStore;
+  readonly sagaLog: ISagaLog;
+  readonly reservations: IItemReservationStore;
+  readonly refreshTokens: IRefreshTokenStore;
+  readonly idempotencyStore: IIdempotencyStore;
+  readonly companyPolicies: ICompanyPolicyStore;
+  readonly inventoryService: IInventoryService;
+  readonly billingService: IBillingService;
+  readonly notificationService: INotificationService;
+  readonly employeeService: IEmployeeService;
+  readonly exchangeRateService: IExchangeRateService;
+}
+
+type ExternalServiceName = Exclude<keyof AppConfig['adapters'], 'storage'>;
+
+type StorageDependencies = Pick<
+  AppDependencies,
+  | 'sqlClient'
+  | 'repository'
+  | 'outbox'
+  | 'sagaLog'
+  | 'reservations'
+  | 'refreshTokens'
+  | 'idempotencyStore'
+  | 'companyPolicies'
+>;
+
+/**
+ * Build the dependencies selected by configuration
+ * Overrides replace single dependencies, e.g. a test double; `repository` and `outbox`
+ * must be overridden together, since the repository writes to the outbox
+ * @param config - Application configuration
+ * @param overrides - Dependencies to use instead of the configured ones
+ * @returns AppDependencies - Dependencies
+ */
+export function createDependencies(config: AppConfig, overrides: Partial<AppDependencies> = {}): AppDependencies {
+  const logger = overrides.logger ?? new Logger('App');
+
+  return {
+    logger,
+    clock: overrides.clock ?? systemClock,
+    ...createStorage(config, overrides.sqlClient),
+    inventoryService: overrides.inventoryService ??
+      selectService(config, logger, 'inventory', http => new HttpInventoryService(http), createMockInventoryService),
+    billingService: overrides.billingService ??
+      selectService(config, logger, 'billing', http => new HttpBillingService(http), createMockBillingService),
+    notificationService: overrides.notificationService ??
+      selectService(config, logger, 'notification', http => new HttpNotificationService(http), createMockNotificationService),
+    employeeService: overrides.employeeService ??
+      selectService(config, logger, 'employee', http => new HttpEmployeeService(http), createMockEmployeeService),
+    exchangeRateService: overrides.exchangeRateService ?? new LocalExchangeRateService(config.exchangeRates),
+    ...overrides
+  };
+}
+
+/**
+ * Create the stores for the configured storage
+ * @param config - Application configuration
+ * @param sqlClient - Client to use instead of one for the configured database
+ * @returns StorageDependencies - Stores
+ */
+function createStorage(config: AppConfig, sqlClient?: SqlClient): StorageDependencies {
+  switch (config.adapters.storage) {
+    case 'sql': {
+      const client = sqlClient ?? createSqlClient(config.database);
+      return {
+        sqlClient: client,
+        repository: new SqlLeasingRepository(client),
+        outbox: new SqlOutboxStore(client),
+        sagaLog: new SqlSagaLog(client),
+        reservations: new SqlReservationStore(client),
+        refreshTokens: new SqlRefreshTokenStore(client),
+        idempotencyStore: config.idempotency.store === 'memory'
+          ? new InMemoryIdempotencyStore()
+          : new SqlIdempotencyStore(client),
+        companyPolicies: new SqlCompanyPolicyStore(client)
+      };
+    }
+    case 'memory': {
+      const outbox = new InMemoryOutbox();
+      return {
+        repository: new InMemoryLeasingRepository(outbox),
+        outbox,
+        sagaLog: new InMemorySagaLog(),
+        reservations: new InMemoryReservationStore(),
+        refreshTokens: new InMemoryRefreshTokenStore(),
+        idempotencyStore: new InMemoryIdempotencyStore(),
+        companyPolicies: new InMemoryCompanyPolicyStore()
+      };
+    }
+    default:
+      throw new Error(`Unsupported storage adapter: ${config.adapters.storage}`);
+  }
+}
+
+/**
+ * Create the configured adapter of one external service
+ * @param config - Application configuration
+ * @param logger - Logger
+ * @param service - Service name, as used in the configuration
+ * @param createHttp - Builds the HTTP adapter from a client
+ * @param createMock - Builds the mock adapter
+ * @returns T - Adapter
+ */
+function selectService<T>(
+  config: AppConfig,
+  logger: Logger,
+  service: ExternalServiceName,
+  createHttp: (http: HttpClient) => T,
+  createMock: () => T
+): T {
+  const adapter: ExternalServiceAdapter = config.adapters[service];
+  const url = config.externalServices[`${service}Url`];
+
+  switch (adapter) {
+    case 'http':
+      if (!url) {
+        throw new Error(`${service.toUpperCase()}_SERVICE_URL is required for the http ${service} adapter`);
+      }
+      // Each service gets its own client, so one failing service does not open the circuit of another
+      return createHttp(new HttpClient(service, url, config.externalServices.http, logger));
+    case 'mock':
+      logger.warn(`Using the mock ${service} service`, { service });
+      return createMock();
+    default:
+      throw new Error(`Unsupported ${service} adapter: ${adapter}`);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Token endpoints for integration tests, internal tools and service accounts
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { TokenResponse } from '../types';
+import { AuthService } from '../services/authService';
+import { Validator } from '../utils/validation';
+import { BaseController, HTTP_STATUS } from './baseController';
+
+/**
+ * Controller for token issuance and refresh
+ */
+export class AuthController extends BaseController {
+
+  constructor(private readonly service: AuthService) {
+    super('AuthController');
+  }
+
+  /**
+   * Exchange credentials for an access token
+   * POST /api/v1/auth/token
+   */
+  async issueToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      const tokenRequest = Validator.validateTokenRequest(req.body || {});
+      const tokens = await this.service.issueToken(tokenRequest);
+
+      this.sendTokens(res, tokens, correlationId);
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Rotate a refresh token
+   * POST /api/v1/auth/refresh
+   */
+  async refreshToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      const refreshToken = req.body?.refreshToken;
+      if (typeof refreshToken !== 'string' || !refreshToken) {
+        this.sendErrorResponse(res, 'VALIDATION_ERROR', 'refreshToken is required', correlationId, 'refreshToken');
+        return;
+      }
+
+      const tokens = await this.service.refresh(refreshToken);
+
+      this.sendTokens(res, tokens, correlationId);
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  private sendTokens(res: Response, tokens: TokenResponse, correlationId: string): void {
+    // Tokens must never be cached by intermediaries
+    res.set('Cache-Control', 'no-store');
+    res.status(HTTP_STATUS.OK).json({
+      success: true,
+      data: tokens,
+      correlationId
+    });
+  }
+}
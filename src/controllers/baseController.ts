@@ -0,0 +1,198 @@
+/**
+ * Shared controller behaviour: error mapping and response formatting
+ */
+
+import { Response, NextFunction } from 'express';
+import {
+  ValidationError,
+  BusinessRuleError,
+  AuthenticationError,
+  NotFoundError,
+  AccessDeniedError,
+  ExternalServiceError
+} from '../types';
+import { Logger } from '../utils/logger';
+import { currentCorrelationId } from '../utils/correlation';
+
+/**
+ * HTTP status codes for consistent responses
+ */
+export const HTTP_STATUS = {
+  OK: 200,
+  CREATED: 201,
+  NO_CONTENT: 204,
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  INTERNAL_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503
+} as const;
+
+/**
+ * Standardized error response format
+ */
+export interface ErrorResponse {
+  error: {
+    code: string;
+    message: string;
+    field?: string;
+    details?: Record<string, unknown>;
+    correlationId: string;
+  };
+}
+
+/**
+ * Base class for HTTP controllers
+ * Provides consistent error responses and correlation IDs
+ */
+export abstract class BaseController {
+
+  protected readonly logger: Logger;
+
+  constructor(name: string) {
+    this.logger = new Logger(name);
+  }
+
+  /**
+   * Centralized error handling
+   * @param error - Error to handle
+   * @param res - Response object
+   * @param correlationId - Correlation ID
+   * @param next - Next function
+   */
+  protected handleError(
+    error: unknown, 
+    res: Response, 
+    correlationId: string, 
+    next: NextFunction
+  ): void {
+    
+    // Log error details
+    this.logger.error('Request failed', { correlationId }, error as Error);
+
+    if (error instanceof ValidationError) {
+      this.sendErrorResponse(
+        res, 
+        'VALIDATION_ERROR', 
+        error.message, 
+        correlationId,
+        error.field
+      );
+    } else if (error instanceof BusinessRuleError) {
+      this.sendErrorResponse(
+        res, 
+        'BUSINESS_RULE_ERROR', 
+        error.message, 
+        correlationId
+      );
+    } else if (error instanceof AuthenticationError) {
+      this.sendErrorResponse(
+        res, 
+        'UNAUTHORIZED', 
+        error.message, 
+        correlationId
+      );
+    } else if (error instanceof NotFoundError) {
+      this.sendErrorResponse(
+        res, 
+        'NOT_FOUND', 
+        error.message, 
+        correlationId
+      );
+    } else if (error instanceof AccessDeniedError) {
+      this.sendErrorResponse(
+        res, 
+        'FORBIDDEN', 
+        error.message, 
+        correlationId,
+        undefined,
+        { rule: error.rule }
+      );
+    } else if (error instanceof ExternalServiceError) {
+      this.sendErrorResponse(
+        res, 
+        'SERVICE_UNAVAILABLE', 
+        `The ${error.service} service is unavailable, please retry later`, 
+        correlationId,
+        undefined,
+        { service: error.service }
+      );
+    } else {
+      // For unexpected errors, don't expose internal details
+      this.sendErrorResponse(
+        res, 
+        'INTERNAL_ERROR', 
+        'An unexpected error occurred', 
+        correlationId
+      );
+    }
+  }
+
+  /**
+   * Send standardized error response
+   * @param res - Response object
+   * @param code - Error code
+   * @param message - Error message
+   * @param correlationId - Correlation ID
+   * @param field - Field name for validation errors
+   * @param details - Additional error context, such as the access rule that failed
+   */
+  protected sendErrorResponse(
+    res: Response, 
+    code: string, 
+    message: string, 
+    correlationId: string,
+    field?: string,
+    details?: Record<string, unknown>
+  ): void {
+    
+    const statusCode = this.getStatusCodeForError(code);
+    
+    const errorResponse: ErrorResponse = {
+      error: {
+        code,
+        message,
+        field,
+        details,
+        correlationId
+      }
+    };
+
+    res.status(statusCode).json(errorResponse);
+  }
+
+  /**
+   * Map error codes to HTTP status codes
+   * @param errorCode - Error code
+   * @returns HTTP status code
+   */
+  protected getStatusCodeForError(errorCode: string): number {
+    switch (errorCode) {
+      case 'VALIDATION_ERROR':
+      case 'BAD_REQUEST':
+        return HTTP_STATUS.BAD_REQUEST;
+      case 'BUSINESS_RULE_ERROR':
+        return HTTP_STATUS.CONFLICT;
+      case 'UNAUTHORIZED':
+        return HTTP_STATUS.UNAUTHORIZED;
+      case 'FORBIDDEN':
+        return HTTP_STATUS.FORBIDDEN;
+      case 'NOT_FOUND':
+        return HTTP_STATUS.NOT_FOUND;
+      case 'SERVICE_UNAVAILABLE':
+        return HTTP_STATUS.SERVICE_UNAVAILABLE;
+      default:
+        return HTTP_STATUS.INTERNAL_ERROR;
+    }
+  }
+
+  /**
+   * Correlation ID for request tracking: the request's own, or a new one outside a request
+   * @returns Correlation ID
+   */
+  protected generateCorrelationId(): string {
+    return currentCorrelationId() ?? `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
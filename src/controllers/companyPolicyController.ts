@@ -0,0 +1,143 @@
+/**
+ * Company policy administration endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { CompanyPolicyResponse } from '../types';
+import { CompanyPolicyService, CompanyPolicyView } from '../services/companyPolicyService';
+import { BaseController, HTTP_STATUS } from './baseController';
+
+/**
+ * Controller for company policy endpoints
+ */
+export class CompanyPolicyController extends BaseController {
+
+  constructor(private readonly service: CompanyPolicyService) {
+    super('CompanyPolicyController');
+  }
+
+  /**
+   * List the policies of the companies the caller may access
+   * GET /api/company-policies
+   */
+  async listPolicies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      // Validate authentication
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      const views = await this.service.listPolicies(req.user);
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        data: views.map(view => this.formatPolicy(view)),
+        correlationId
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Read a company's policy
+   * GET /api/companies/:companyId/policy
+   */
+  async getPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      // Validate authentication
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      const view = await this.service.getPolicy(req.params.companyId, req.user);
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        data: this.formatPolicy(view),
+        correlationId
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Create or replace a company's policy
+   * PUT /api/companies/:companyId/policy
+   */
+  async putPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      // Validate authentication
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      this.logger.info('Saving company policy', {
+        correlationId,
+        companyId: req.params.companyId,
+        userId: req.user.id
+      });
+
+      const { view, created } = await this.service.setPolicy(req.params.companyId, req.body?.overrides, req.user);
+
+      res.status(created ? HTTP_STATUS.CREATED : HTTP_STATUS.OK).json({
+        success: true,
+        data: this.formatPolicy(view),
+        correlationId
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Remove a company's policy
+   * DELETE /api/companies/:companyId/policy
+   */
+  async deletePolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      // Validate authentication
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      await this.service.deletePolicy(req.params.companyId, req.user);
+
+      res.status(HTTP_STATUS.NO_CONTENT).end();
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Format company policy for API response
+   * @param view - Overrides and the policy in effect
+   * @returns Company policy response
+   */
+  private formatPolicy({ policy, effective }: CompanyPolicyView): CompanyPolicyResponse {
+    return {
+      companyId: policy.companyId,
+      overrides: policy.overrides,
+      effective,
+      updatedBy: policy.updatedBy,
+      updatedAt: policy.updatedAt.toISOString()
+    };
+  }
+}
@@ -5,51 +5,41 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { 
-  CreateAgreementRequest, 
+  CancelAgreementRequest,
+  QuoteAgreementRequest,
+  QuoteResponse,
   AgreementResponse, 
-  ValidationError, 
-  BusinessRuleError,
-  PaymentScheduleResponse 
+  AgreementDetailResponse,
+  AgreementListResponse,
+  AgreementSummaryResponse,
+  LeasingAgreement,
+  PaymentSchedule,
+  PaymentScheduleResponse,
+  PaymentScheduleDetailResponse,
+  AgreementSagaRecord,
+  AgreementSagaResponse,
+  ItemAvailabilityResponse
 } from '../types';
 import { LeasingAgreementService } from '../services/leasingAgreementService';
-import { Logger } from '../utils/logger';
-
-/**
- * HTTP status codes for consistent responses
- */
-const HTTP_STATUS = {
-  OK: 200,
-  CREATED: 201,
-  BAD_REQUEST: 400,
-  UNAUTHORIZED: 401,
-  FORBIDDEN: 403,
-  NOT_FOUND: 404,
-  CONFLICT: 409,
-  INTERNAL_ERROR: 500
-} as const;
-
-/**
- * Standardized error response format
- */
-interface ErrorResponse {
-  error: {
-    code: string;
-    message: string;
-    field?: string;
-    correlationId: string;
-  };
-}
+import { AgreementTransition } from '../services/agreementStateMachine';
+import { outstandingAmount } from '../services/paymentAllocation';
+import { calculateTax } from '../services/taxPolicy';
+import { Validator } from '../utils/validation';
+import { encodeCursor } from '../utils/cursor';
+import { AccessPolicy } from '../auth/accessPolicy';
+import { BaseController, HTTP_STATUS } from './baseController';
 
 /**
  * Controller for leasing agreement endpoints
  * Handles HTTP requests with proper validation and error handling
  */
-export class LeasingAgreementController {
-  
-  private readonly logger: Logger;
+export class LeasingAgreementController extends BaseController {
 
-  constructor(private readonly service: LeasingAgreementService) {
-    this.logger = new Logger('LeasingAgreementController');
+  constructor(
+    private readonly service: LeasingAgreementService,
+    private readonly accessPolicy: AccessPolicy
+  ) {
+    super('LeasingAgreementController');
   }
 
   /**
@@ -86,20 +76,10 @@ export class LeasingAgreementController {
       }
 
       // Create agreement request object
-      const agreementRequest: CreateAgreementRequest = {
-        employeeId: req.body.employeeId,
-        itemId: req.body.itemId,
-        startDate: req.body.startDate,
-        endDate: req.body.endDate,
-        price: req.body.price,
-        currency: req.body.currency,
-        companyId: req.body.companyId,
-        paymentFrequency: req.body.paymentFrequency,
-        metadata: req.body.metadata
-      };
+      const agreementRequest = Validator.parseAgreementRequestBody(req.body);
 
       // Validate user has access to company
-      if (!this.hasCompanyAccess(req.user, agreementRequest.companyId)) {
+      if (!this.accessPolicy.canAccessCompany(req.user, agreementRequest.companyId)) {
         this.sendErrorResponse(res, 'FORBIDDEN', 'Access denied to company resources', correlationId);
         return;
       }
@@ -112,6 +92,7 @@ export class LeasingAgreementController {
         id: agreement.id,
         status: agreement.status,
         totalCost: agreement.price,
+        ...this.formatTaxTotals(agreement),
         paymentSchedule: agreement.paymentSchedule.map(this.formatPaymentSchedule),
         createdAt: agreement.createdAt.toISOString()
       };
@@ -133,6 +114,105 @@ export class LeasingAgreementController {
     }
   }
 
+  /**
+   * Quote a leasing agreement without reserving inventory
+   * POST /api/agreements/quote
+   */
+  async quoteAgreement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+    
+    try {
+      // Validate authentication
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      // Validate request body exists
+      if (!req.body) {
+        this.sendErrorResponse(res, 'BAD_REQUEST', 'Request body is required', correlationId);
+        return;
+      }
+
+      const quoteRequest: QuoteAgreementRequest = {
+        ...Validator.parseAgreementRequestBody(req.body),
+        saveAsDraft: req.body.saveAsDraft === true
+      };
+
+      // Validate user has access to company
+      if (!this.accessPolicy.canAccessCompany(req.user, quoteRequest.companyId)) {
+        this.sendErrorResponse(res, 'FORBIDDEN', 'Access denied to company resources', correlationId);
+        return;
+      }
+
+      this.logger.info('Quoting leasing agreement', {
+        correlationId,
+        userId: req.user.id,
+        saveAsDraft: quoteRequest.saveAsDraft
+      });
+
+      const { quote, draft } = await this.service.quoteAgreement(quoteRequest);
+
+      const response: QuoteResponse = {
+        breakdown: quote.breakdown,
+        currency: quote.currency,
+        paymentFrequency: quote.paymentFrequency,
+        paymentSchedule: quote.paymentSchedule.map(this.formatPaymentSchedule),
+        itemAvailable: quote.itemAvailable,
+        draftAgreementId: draft?.id
+      };
+
+      res.status(draft ? HTTP_STATUS.CREATED : HTTP_STATUS.OK).json({
+        success: true,
+        data: response,
+        correlationId
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Submit a draft agreement
+   * POST /api/agreements/:id/submit
+   */
+  async submitAgreement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+    
+    try {
+      const agreementId = req.params.id;
+      
+      if (!agreementId) {
+        this.sendErrorResponse(res, 'BAD_REQUEST', 'Agreement ID is required', correlationId);
+        return;
+      }
+
+      // Validate authentication
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      this.logger.info('Submitting draft agreement', {
+        correlationId,
+        agreementId,
+        userId: req.user.id
+      });
+
+      const agreement = await this.service.submitAgreement(agreementId, req.user);
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        data: this.formatAgreementDetail(agreement),
+        correlationId
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
   /**
    * Get agreement by ID
    * GET /api/agreements/:id
@@ -160,11 +240,98 @@ export class LeasingAgreementController {
         userId: req.user.id
       });
 
-      // This would typically call a service method to get the agreement
-      // For now, returning a placeholder response
+      const agreement = await this.service.getAgreement(agreementId, req.user);
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        data: this.formatAgreementDetail(agreement),
+        correlationId
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Get the creation sagas of an agreement, for diagnostics
+   * GET /api/agreements/:id/sagas
+   */
+  async getAgreementSagas(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      const sagas = await this.service.getAgreementSagas(req.params.id, req.user);
+
       res.status(HTTP_STATUS.OK).json({
         success: true,
-        message: 'Agreement retrieval endpoint - implementation pending',
+        data: sagas.map(saga => this.formatSaga(saga)),
+        correlationId
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Activate a pending agreement
+   * POST /api/agreements/:id/activate
+   */
+  async activateAgreement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await this.handleTransition(req, res, next, 'activate');
+  }
+
+  /**
+   * Complete an active agreement
+   * POST /api/agreements/:id/complete
+   */
+  async completeAgreement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await this.handleTransition(req, res, next, 'complete');
+  }
+
+  /**
+   * Cancel an agreement
+   * POST /api/agreements/:id/cancel
+   */
+  async cancelAgreement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      const agreementId = req.params.id;
+
+      if (!agreementId) {
+        this.sendErrorResponse(res, 'BAD_REQUEST', 'Agreement ID is required', correlationId);
+        return;
+      }
+
+      // Validate authentication
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      this.logger.info('Cancelling agreement', {
+        correlationId,
+        agreementId,
+        userId: req.user.id
+      });
+
+      const cancelRequest: CancelAgreementRequest = {
+        reason: req.body?.reason,
+        applyPenalty: req.body?.applyPenalty
+      };
+
+      const agreement = await this.service.cancelAgreement(agreementId, cancelRequest, req.user);
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        data: this.formatAgreementDetail(agreement),
         correlationId
       });
 
@@ -200,11 +367,18 @@ export class LeasingAgreementController {
         userId: req.user.id
       });
 
-      // This would typically call a service method to get employee agreements
-      // For now, returning a placeholder response
+      const query = Validator.validateAgreementListQuery(req.query);
+      const page = await this.service.getEmployeeAgreements(employeeId, query, req.user);
+
+      const response: AgreementListResponse = {
+        items: page.items.map(agreement => this.formatAgreementSummary(agreement)),
+        nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
+        limit: query.limit
+      };
+
       res.status(HTTP_STATUS.OK).json({
         success: true,
-        message: 'Employee agreements endpoint - implementation pending',
+        data: response,
         correlationId
       });
 
@@ -214,131 +388,211 @@ export class LeasingAgreementController {
   }
 
   /**
-   * Centralized error handling
-   * @param error - Error to handle
-   * @param res - Response object
-   * @param correlationId - Correlation ID
+   * Check whether an item is free for a period
+   * GET /api/items/:itemId/availability
+   */
+  async getItemAvailability(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      const query = Validator.validateItemAvailabilityQuery(req.params.itemId, req.query);
+      const available = await this.service.checkItemAvailability(query.itemId, query.startDate, query.endDate);
+
+      const response: ItemAvailabilityResponse = {
+        itemId: query.itemId,
+        startDate: query.startDate.toISOString(),
+        endDate: query.endDate.toISOString(),
+        available
+      };
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        data: response,
+        correlationId
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Apply a lifecycle transition to the agreement named in the route
+   * @param req - Express request
+   * @param res - Express response
    * @param next - Next function
+   * @param transition - Lifecycle transition to apply
    */
-  private handleError(
-    error: unknown, 
-    res: Response, 
-    correlationId: string, 
-    next: NextFunction
-  ): void {
-    
-    // Log error details
-    this.logger.error('Request failed', { correlationId }, error as Error);
-
-    if (error instanceof ValidationError) {
-      this.sendErrorResponse(
-        res, 
-        'VALIDATION_ERROR', 
-        error.message, 
+  private async handleTransition(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    transition: Extract<AgreementTransition, 'activate' | 'complete'>
+  ): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      const agreementId = req.params.id;
+
+      if (!agreementId) {
+        this.sendErrorResponse(res, 'BAD_REQUEST', 'Agreement ID is required', correlationId);
+        return;
+      }
+
+      // Validate authentication
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      this.logger.info('Transitioning agreement', {
         correlationId,
-        error.field
-      );
-    } else if (error instanceof BusinessRuleError) {
-      this.sendErrorResponse(
-        res, 
-        'BUSINESS_RULE_ERROR', 
-        error.message, 
-        correlationId
-      );
-    } else {
-      // For unexpected errors, don't expose internal details
-      this.sendErrorResponse(
-        res, 
-        'INTERNAL_ERROR', 
-        'An unexpected error occurred', 
+        agreementId,
+        transition,
+        userId: req.user.id
+      });
+
+      const agreement = await this.service.transitionAgreement(agreementId, transition, req.user);
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        data: this.formatAgreementDetail(agreement),
         correlationId
-      );
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
     }
   }
 
   /**
-   * Send standardized error response
-   * @param res - Response object
-   * @param code - Error code
-   * @param message - Error message
-   * @param correlationId - Correlation ID
-   * @param field - Field name for validation errors
+   * Format payment schedule for API response
+   * @param payment - Payment schedule item
+   * @returns Formatted payment schedule response
    */
-  private sendErrorResponse(
-    res: Response, 
-    code: string, 
-    message: string, 
-    correlationId: string,
-    field?: string
-  ): void {
-    
-    const statusCode = this.getStatusCodeForError(code);
-    
-    const errorResponse: ErrorResponse = {
-      error: {
-        code,
-        message,
-        field,
-        correlationId
-      }
+  private formatPaymentSchedule(payment: PaymentSchedule): PaymentScheduleResponse {
+    return {
+      id: payment.id,
+      dueDate: payment.dueDate.toISOString(),
+      amount: payment.amount,
+      netAmount: payment.netAmount,
+      taxAmount: payment.taxAmount,
+      status: payment.status
     };
+  }
 
-    res.status(statusCode).json(errorResponse);
+  /**
+   * Net, tax and gross totals of an agreement; the payment schedule adds up to them
+   * @param agreement - Leasing agreement
+   * @returns Totals and the tax rule they were calculated with
+   */
+  private formatTaxTotals(agreement: LeasingAgreement): Pick<AgreementResponse, 'netAmount' | 'taxAmount' | 'grossAmount' | 'tax'> {
+    const totals = calculateTax(agreement.price, agreement.tax);
+    return {
+      netAmount: totals.net,
+      taxAmount: totals.tax,
+      grossAmount: totals.gross,
+      tax: agreement.tax
+    };
   }
 
   /**
-   * Map error codes to HTTP status codes
-   * @param errorCode - Error code
-   * @returns HTTP status code
+   * Format full agreement for API response
+   * @param agreement - Stored leasing agreement
+   * @returns Agreement detail response
    */
-  private getStatusCodeForError(errorCode: string): number {
-    switch (errorCode) {
-      case 'VALIDATION_ERROR':
-        return HTTP_STATUS.BAD_REQUEST;
-      case 'BUSINESS_RULE_ERROR':
-        return HTTP_STATUS.CONFLICT;
-      case 'UNAUTHORIZED':
-        return HTTP_STATUS.UNAUTHORIZED;
-      case 'FORBIDDEN':
-        return HTTP_STATUS.FORBIDDEN;
-      case 'NOT_FOUND':
-        return HTTP_STATUS.NOT_FOUND;
-      default:
-        return HTTP_STATUS.INTERNAL_ERROR;
-    }
+  private formatAgreementDetail(agreement: LeasingAgreement): AgreementDetailResponse {
+    return {
+      id: agreement.id,
+      employeeId: agreement.employeeId,
+      itemId: agreement.itemId,
+      companyId: agreement.companyId,
+      status: agreement.status,
+      startDate: agreement.startDate.toISOString(),
+      endDate: agreement.endDate.toISOString(),
+      totalCost: agreement.price,
+      currency: agreement.currency,
+      ...this.formatTaxTotals(agreement),
+      paymentSchedule: agreement.paymentSchedule.map(payment => this.formatPaymentScheduleDetail(payment)),
+      metadata: agreement.metadata,
+      cancellation: agreement.cancellation && {
+        reason: agreement.cancellation.reason,
+        cancelledBy: agreement.cancellation.cancelledBy,
+        cancelledAt: agreement.cancellation.cancelledAt.toISOString(),
+        refundCredit: agreement.cancellation.refundCredit,
+        penalty: agreement.cancellation.penalty,
+        netRefund: agreement.cancellation.refundCredit.minus(agreement.cancellation.penalty)
+      },
+      exchangeRate: agreement.exchangeRate && {
+        from: agreement.exchangeRate.from,
+        to: agreement.exchangeRate.to,
+        rate: agreement.exchangeRate.rate,
+        asOf: agreement.exchangeRate.asOf.toISOString(),
+        source: agreement.exchangeRate.source
+      },
+      totalCostInBaseCurrency: agreement.exchangeRate && agreement.price.convert(agreement.exchangeRate),
+      createdAt: agreement.createdAt.toISOString(),
+      updatedAt: agreement.updatedAt.toISOString()
+    };
   }
 
   /**
-   * Check if user has access to company resources
-   * @param user - Authenticated user
-   * @param companyId - Company ID to check access for
-   * @returns boolean - Whether user has access
+   * Format agreement for listing responses
+   * The total is also given in the company's base currency, at the rate stored on the agreement
+   * @param agreement - Stored leasing agreement
+   * @returns Agreement summary response
    */
-  private hasCompanyAccess(user: any, companyId: string): boolean {
-    // In a real implementation, this would check user permissions
-    // For now, assume user has access if they have a company ID that matches
-    return user.companyId === companyId || user.role === 'admin';
+  private formatAgreementSummary(agreement: LeasingAgreement): AgreementSummaryResponse {
+    return {
+      id: agreement.id,
+      employeeId: agreement.employeeId,
+      itemId: agreement.itemId,
+      status: agreement.status,
+      startDate: agreement.startDate.toISOString(),
+      endDate: agreement.endDate.toISOString(),
+      totalCost: agreement.price,
+      currency: agreement.currency,
+      baseCurrency: agreement.exchangeRate?.to,
+      totalCostInBaseCurrency: agreement.exchangeRate && agreement.price.convert(agreement.exchangeRate),
+      createdAt: agreement.createdAt.toISOString()
+    };
   }
 
   /**
-   * Format payment schedule for API response
-   * @param payment - Payment schedule item
-   * @returns Formatted payment schedule response
+   * Format saga state for diagnostics responses
+   * @param saga - Saga log record
+   * @returns Saga response without the agreement snapshot
    */
-  private formatPaymentSchedule(payment: any): PaymentScheduleResponse {
+  private formatSaga(saga: AgreementSagaRecord): AgreementSagaResponse {
     return {
-      id: payment.id,
-      dueDate: payment.dueDate.toISOString(),
-      amount: payment.amount,
-      status: payment.status
+      id: saga.id,
+      agreementId: saga.agreementId,
+      status: saga.status,
+      steps: saga.steps.map(step => ({
+        name: step.name,
+        status: step.status,
+        data: step.data,
+        updatedAt: step.updatedAt.toISOString()
+      })),
+      error: saga.error,
+      createdAt: saga.createdAt.toISOString(),
+      updatedAt: saga.updatedAt.toISOString()
     };
   }
 
   /**
-   * Generate correlation ID for request tracking
-   * @returns Unique correlation ID
+   * Format payment schedule entry including tracking fields
+   * @param payment - Payment schedule item
+   * @returns Detailed payment schedule response
    */
-  private generateCorrelationId(): string {
-    return `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private formatPaymentScheduleDetail(payment: PaymentSchedule): PaymentScheduleDetailResponse {
+    return {
+      ...this.formatPaymentSchedule(payment),
+      paidAmount: payment.paidAmount,
+      outstandingAmount: outstandingAmount(payment),
+      paymentId: payment.paymentId,
+      attemptCount: payment.attemptCount,
+      lastAttemptDate: payment.lastAttemptDate?.toISOString()
+    };
   }
 }
@@ -0,0 +1,125 @@
+/**
+ * Payment recording and reconciliation endpoints
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  PaymentRecord,
+  PaymentRecordResponse,
+  RecordPaymentRequest,
+  ReconciliationRequest
+} from '../types';
+import { PaymentService } from '../services/paymentService';
+import { BaseController, HTTP_STATUS } from './baseController';
+
+/**
+ * Controller for payment endpoints
+ */
+export class PaymentController extends BaseController {
+
+  constructor(private readonly service: PaymentService) {
+    super('PaymentController');
+  }
+
+  /**
+   * Record a payment received for an agreement
+   * POST /api/agreements/:id/payments
+   */
+  async recordPayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      const agreementId = req.params.id;
+
+      if (!agreementId) {
+        this.sendErrorResponse(res, 'BAD_REQUEST', 'Agreement ID is required', correlationId);
+        return;
+      }
+
+      // Validate authentication
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      this.logger.info('Recording payment', {
+        correlationId,
+        agreementId,
+        reference: req.body?.reference,
+        userId: req.user.id
+      });
+
+      const paymentRequest: RecordPaymentRequest = {
+        reference: req.body?.reference,
+        amount: req.body?.amount,
+        receivedAt: req.body?.receivedAt,
+        paymentId: req.body?.paymentId
+      };
+
+      const payment = await this.service.recordPayment(agreementId, paymentRequest, req.user);
+
+      res.status(HTTP_STATUS.CREATED).json({
+        success: true,
+        data: this.formatPayment(payment),
+        correlationId
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Reconcile a statement of received payments
+   * POST /api/payments/reconciliation
+   */
+  async reconcilePayments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const correlationId = this.generateCorrelationId();
+
+    try {
+      // Validate authentication
+      if (!req.user?.id) {
+        this.sendErrorResponse(res, 'UNAUTHORIZED', 'Authentication required', correlationId);
+        return;
+      }
+
+      const reconciliationRequest: ReconciliationRequest = {
+        companyId: req.body?.companyId,
+        lines: req.body?.lines
+      };
+
+      this.logger.info('Reconciling payments', {
+        correlationId,
+        companyId: reconciliationRequest.companyId,
+        lines: Array.isArray(reconciliationRequest.lines) ? reconciliationRequest.lines.length : undefined,
+        userId: req.user.id
+      });
+
+      const report = await this.service.reconcile(reconciliationRequest, req.user);
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        data: report,
+        correlationId
+      });
+
+    } catch (error) {
+      this.handleError(error, res, correlationId, next);
+    }
+  }
+
+  /**
+   * Format recorded payment for API response
+   * @param payment - Recorded payment
+   * @returns Payment record response
+   */
+  private formatPayment(payment: PaymentRecord): PaymentRecordResponse {
+    return {
+      reference: payment.reference,
+      agreementId: payment.agreementId,
+      amount: payment.amount,
+      receivedAt: payment.receivedAt.toISOString(),
+      allocations: payment.allocations
+    };
+  }
+}
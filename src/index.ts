@@ -4,45 +4,69 @@
  */
 
 import dotenv from 'dotenv';
-import { app } from './app';
+import { App } from './app';
+import { loadConfig } from './config';
+import { ConfigurationError } from './types';
 import { Logger } from './utils/logger';
 
-// Load environment variables
+// Load environment variables before the configuration is read
 dotenv.config();
 
 // Initialize logger
 const logger = new Logger('Server');
 
+let app: App | undefined;
+
 /**
  * Start the application server
  */
-function startServer(): void {
+async function startServer(): Promise<void> {
   try {
-    const port = parseInt(process.env.PORT || '3000', 10);
+    const config = loadConfig();
     
     logger.info('Starting Leasing Agreement Service', {
-      environment: process.env.NODE_ENV || 'development',
-      port
+      environment: config.nodeEnv,
+      port: config.port
     });
     
-    app.start(port);
+    app = new App(config);
+    await app.start();
     
   } catch (error) {
-    logger.error('Failed to start server', { error: (error as Error).message });
+    if (error instanceof ConfigurationError) {
+      logger.error('Invalid configuration', { problems: error.problems });
+    } else {
+      logger.error('Failed to start server', { error: (error as Error).message });
+    }
     process.exit(1);
   }
 }
 
-// Handle graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
-  process.exit(0);
+// Handle unhandled promise rejections
+process.on('unhandledRejection', (reason: any) => {
+  logger.error('Unhandled promise rejection', { reason });
 });
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
-  process.exit(0);
+// Handle uncaught exceptions
+process.on('uncaughtException', (error: Error) => {
+  logger.error('Uncaught exception', { error: error.message, stack: error.stack });
+  process.exit(1);
 });
 
+/**
+ * Finish in-flight requests and background work, then exit
+ * @param signal - Signal received
+ */
+function shutdown(signal: string): void {
+  logger.info(`${signal} received, shutting down gracefully`);
+  (app ? app.stop() : Promise.resolve())
+    .catch(error => logger.error('Shutdown failed', { error: (error as Error).message }))
+    .finally(() => process.exit(0));
+}
+
+// Handle graceful shutdown
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
 // Start the server
 startServer();
@@ -0,0 +1,199 @@
+/**
+ * Idempotency-Key middleware for non-idempotent POST endpoints
+ * A retried request with the same key replays the original response instead of
+ * running the handler again
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { AppConfig } from '../config';
+import { IdempotencyRecord, IIdempotencyStore } from '../types';
+import { KeyedMutex } from '../utils/keyedMutex';
+import { Logger } from '../utils/logger';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const MAX_KEY_LENGTH = 255;
+const POLL_INTERVAL_MS = 100;
+
+/**
+ * Fingerprint a request so that a reused key with a different request is detected
+ * Object keys are sorted, so property order in the body does not matter
+ * @param method - HTTP method
+ * @param path - Request path
+ * @param body - Parsed request body
+ * @returns string - Hex-encoded SHA-256 hash
+ */
+export function fingerprintRequest(method: string, path: string, body: unknown): string {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(canonical);
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.keys(value as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = canonical((value as Record<string, unknown>)[key]);
+          return sorted;
+        }, {});
+    }
+    return value;
+  };
+
+  return createHash('sha256')
+    .update(JSON.stringify([method, path, canonical(body ?? null)]))
+    .digest('hex');
+}
+
+/**
+ * Idempotency middleware
+ *
+ * - Requests without the header are passed through unchanged
+ * - Successful (2xx) responses are stored and replayed for repeats of the same request
+ * - Reusing a key with a different request returns 422
+ * - Requests with the same key are serialized; failed requests free the key for a retry
+ */
+export class IdempotencyMiddleware {
+
+  private readonly logger: Logger;
+  private readonly mutex = new KeyedMutex();
+
+  constructor(
+    private readonly store: IIdempotencyStore,
+    private readonly config: AppConfig['idempotency']
+  ) {
+    this.logger = new Logger('IdempotencyMiddleware');
+  }
+
+  handle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const idempotencyKey = req.header(IDEMPOTENCY_KEY_HEADER);
+
+    if (idempotencyKey === undefined) {
+      next();
+      return;
+    }
+
+    if (!idempotencyKey || idempotencyKey.length > MAX_KEY_LENGTH || !/^[\x21-\x7e]+$/.test(idempotencyKey)) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_IDEMPOTENCY_KEY',
+          message: `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_KEY_LENGTH} printable characters`
+        }
+      });
+      return;
+    }
+
+    // Keys are scoped to the caller so that clients cannot collide with each other
+    const key = `${req.user?.id ?? 'anonymous'}:${idempotencyKey}`;
+    const requestHash = fingerprintRequest(req.method, req.baseUrl + req.path, req.body);
+
+    // Concurrent requests in this process wait here; other instances are handled by the store
+    const unlock = await this.mutex.acquire(key);
+
+    try {
+      const existing = await this.claimOrWait(key, requestHash);
+
+      if (!existing) {
+        this.recordResponse(key, res, unlock);
+        next();
+        return;
+      }
+
+      unlock();
+
+      if (existing.requestHash !== requestHash) {
+        this.logger.warn('Idempotency key reused with a different request', { key, path: req.path });
+        res.status(422).json({
+          error: {
+            code: 'IDEMPOTENCY_KEY_REUSED',
+            message: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`
+          }
+        });
+        return;
+      }
+
+      if (existing.status !== 'COMPLETED' || !existing.response) {
+        res.status(409).json({
+          error: {
+            code: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+            message: 'A request with this idempotency key is still being processed'
+          }
+        });
+        return;
+      }
+
+      this.logger.info('Replaying stored response', { key, statusCode: existing.response.statusCode });
+      res.set('Idempotent-Replayed', 'true');
+      res.status(existing.response.statusCode).json(existing.response.body);
+
+    } catch (error) {
+      unlock();
+      next(error);
+    }
+  };
+
+  /**
+   * Claim the key, waiting while another instance holds it for the same request
+   * @returns Promise<IdempotencyRecord | null> - Record to answer from, or null when this request owns the key
+   */
+  private async claimOrWait(key: string, requestHash: string): Promise<IdempotencyRecord | null> {
+    const deadline = Date.now() + this.config.lockTimeoutMs;
+
+    for (;;) {
+      const now = new Date();
+      const existing = await this.store.claim({
+        key,
+        requestHash,
+        status: 'IN_PROGRESS',
+        lockedUntil: new Date(now.getTime() + this.config.lockTimeoutMs),
+        expiresAt: new Date(now.getTime() + this.config.ttlSeconds * 1000)
+      }, now);
+
+      if (!existing || existing.status === 'COMPLETED' || existing.requestHash !== requestHash) {
+        return existing;
+      }
+
+      if (Date.now() >= deadline) {
+        return existing;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Store the response once it has been sent; free the key when the request failed
+   */
+  private recordResponse(key: string, res: Response, unlock: () => void): void {
+    let captured: { statusCode: number; body: unknown } | undefined;
+
+    const originalJson = res.json;
+    res.json = function(body: unknown) {
+      captured = { statusCode: res.statusCode, body };
+      return originalJson.call(this, body);
+    };
+
+    let settled = false;
+    const settle = async (finished: boolean): Promise<void> => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+
+      try {
+        if (finished && captured && captured.statusCode >= 200 && captured.statusCode < 300) {
+          await this.store.complete(key, captured);
+        } else {
+          await this.store.release(key);
+        }
+      } catch (error) {
+        this.logger.error('Failed to record idempotent response', { key }, error as Error);
+      } finally {
+        unlock();
+      }
+    };
+
+    res.on('finish', () => void settle(true));
+    res.on('close', () => void settle(false));
+  }
+}
@@ -8,17 +8,16 @@ import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import { AppConfig } from '../config';
 import { Logger } from '../utils/logger';
+import { AuthenticatedUser, AuthenticationError, Permission } from '../types';
+import { JwtVerifier } from '../auth/jwtVerifier';
+import { JwksKeyStore } from '../auth/jwksKeyStore';
+import { AccessPolicy } from '../auth/accessPolicy';
 
 // Extend Express Request interface to include user
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: string;
-        email: string;
-        companyId: string;
-        role: string;
-      };
+      user?: AuthenticatedUser;
     }
   }
 }
@@ -29,9 +28,18 @@ declare global {
 export class SecurityMiddleware {
   
   private readonly logger: Logger;
+  private readonly tokenVerifier: JwtVerifier;
   
-  constructor(private readonly config: AppConfig) {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly accessPolicy: AccessPolicy,
+    tokenVerifier?: JwtVerifier
+  ) {
     this.logger = new Logger('SecurityMiddleware');
+    this.tokenVerifier = tokenVerifier ?? new JwtVerifier(
+      config.auth,
+      config.auth.jwksPath ? new JwksKeyStore(config.auth.jwksPath, this.logger) : undefined
+    );
   }
 
   /**
@@ -111,24 +119,26 @@ export class SecurityMiddleware {
 
       const token = authHeader.substring(7); // Remove 'Bearer ' prefix
       
-      // In a real implementation, you would verify the JWT token here
-      // For this example, we'll mock the token validation
-      const user = this.validateToken(token);
+      req.user = await this.tokenVerifier.verify(token);
+      next();
       
-      if (!user) {
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        this.logger.warn('Token rejected', {
+          code: error.code,
+          reason: error.message,
+          endpoint: req.path
+        });
+
         res.status(401).json({
           error: {
-            code: 'INVALID_TOKEN',
-            message: 'Invalid or expired token'
+            code: error.code,
+            message: error.code === 'TOKEN_EXPIRED' ? 'Token has expired' : 'Invalid or expired token'
           }
         });
         return;
       }
 
-      req.user = user;
-      next();
-      
-    } catch (error) {
       this.logger.error('Authentication failed', { error: (error as Error).message });
       
       res.status(401).json({
@@ -142,10 +152,10 @@ export class SecurityMiddleware {
 
   /**
    * Authorization middleware - checks user permissions
-   * @param requiredRole - Required role for access
+   * @param permission - Permission required for access
    * @returns Authorization middleware function
    */
-  authorize = (requiredRole?: string) => {
+  authorize = (permission: Permission) => {
     return (req: Request, res: Response, next: NextFunction): void => {
       
       if (!req.user) {
@@ -158,18 +168,19 @@ export class SecurityMiddleware {
         return;
       }
 
-      if (requiredRole && req.user.role !== requiredRole && req.user.role !== 'admin') {
+      if (!this.accessPolicy.hasPermission(req.user, permission)) {
         this.logger.warn('Authorization failed', {
           userId: req.user.id,
           userRole: req.user.role,
-          requiredRole,
+          permission,
           endpoint: req.path
         });
         
         res.status(403).json({
           error: {
             code: 'INSUFFICIENT_PERMISSIONS',
-            message: 'Insufficient permissions for this operation'
+            message: 'Insufficient permissions for this operation',
+            details: { rule: permission }
           }
         });
         return;
@@ -208,14 +219,8 @@ export class SecurityMiddleware {
       return;
     }
 
-    // Allow admin users to access any company
-    if (req.user.role === 'admin') {
-      next();
-      return;
-    }
-
-    // Check if user belongs to the requested company
-    if (req.user.companyId !== requestCompanyId) {
+    // Users may only access their own company unless granted cross-company access
+    if (!this.accessPolicy.canAccessCompany(req.user, String(requestCompanyId))) {
       this.logger.warn('Company access denied', {
         userId: req.user.id,
         userCompanyId: req.user.companyId,
@@ -226,7 +231,8 @@ export class SecurityMiddleware {
       res.status(403).json({
         error: {
           code: 'COMPANY_ACCESS_DENIED',
-          message: 'Access denied to company resources'
+          message: 'Access denied to company resources',
+          details: { rule: 'COMPANY_ACCESS' }
         }
       });
       return;
@@ -254,30 +260,6 @@ export class SecurityMiddleware {
     next();
   };
 
-  /**
-   * Validate JWT token (mock implementation)
-   * In production, this would use a proper JWT library
-   * @param token - JWT token to validate
-   * @returns User object or null
-   */
-  private validateToken(token: string): any | null {
-    // Mock implementation - in real app, use jsonwebtoken library
-    try {
-      // For demo purposes, accept any token that looks like base64
-      if (token.length > 10) {
-        return {
-          id: 'user123',
-          email: 'user@example.com',
-          companyId: 'comp1',
-          role: 'user'
-        };
-      }
-      return null;
-    } catch {
-      return null;
-    }
-  }
-
   /**
    * Recursively sanitize an object
    * @param obj - Object to sanitize
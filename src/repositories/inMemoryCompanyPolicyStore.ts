@@ -0,0 +1,30 @@
+/**
+ * In-memory company policy store
+ * Reference implementation of ICompanyPolicyStore for tests and local development
+ */
+
+import { CompanyPolicy, ICompanyPolicyStore } from '../types';
+
+/**
+ * Map-backed store keyed by company ID
+ */
+export class InMemoryCompanyPolicyStore implements ICompanyPolicyStore {
+
+  private readonly policies: Map<string, CompanyPolicy> = new Map();
+
+  async findByCompanyId(companyId: string): Promise<CompanyPolicy | null> {
+    return this.policies.get(companyId) || null;
+  }
+
+  async findAll(): Promise<CompanyPolicy[]> {
+    return [...this.policies.values()].sort((a, b) => a.companyId.localeCompare(b.companyId));
+  }
+
+  async save(policy: CompanyPolicy): Promise<void> {
+    this.policies.set(policy.companyId, policy);
+  }
+
+  async delete(companyId: string): Promise<boolean> {
+    return this.policies.delete(companyId);
+  }
+}
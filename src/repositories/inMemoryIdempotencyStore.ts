@@ -0,0 +1,82 @@
+/**
+ * In-memory idempotency store
+ * Only suitable for a single process; use SqlIdempotencyStore when running several instances
+ */
+
+import { IdempotencyRecord, IIdempotencyStore, StoredResponse } from '../types';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Map-backed store keyed by scoped idempotency key
+ * Keys that are never used again are swept on a later claim, at most once per SWEEP_INTERVAL_MS
+ */
+export class InMemoryIdempotencyStore implements IIdempotencyStore {
+
+  private readonly records: Map<string, IdempotencyRecord> = new Map();
+  private nextSweepAt = 0;
+
+  /**
+   * Number of records held, for tests and diagnostics
+   * @returns number - Records including stale ones not swept yet
+   */
+  size(): number {
+    return this.records.size;
+  }
+
+  async claim(record: IdempotencyRecord, now: Date): Promise<IdempotencyRecord | null> {
+    this.sweep(now);
+
+    const existing = await this.find(record.key, now);
+    if (existing) {
+      return existing;
+    }
+
+    this.records.set(record.key, record);
+    return null;
+  }
+
+  async find(key: string, now: Date): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(key);
+    if (!record) {
+      return null;
+    }
+
+    if (isStale(record, now)) {
+      this.records.delete(key);
+      return null;
+    }
+    return record;
+  }
+
+  async complete(key: string, response: StoredResponse): Promise<void> {
+    const record = this.records.get(key);
+    if (record) {
+      this.records.set(key, { ...record, status: 'COMPLETED', response });
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  private sweep(now: Date): void {
+    if (now.getTime() < this.nextSweepAt) {
+      return;
+    }
+
+    this.nextSweepAt = now.getTime() + SWEEP_INTERVAL_MS;
+    for (const [key, record] of this.records) {
+      if (isStale(record, now)) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Expired records and abandoned claims no longer hold their key
+ */
+function isStale(record: IdempotencyRecord, now: Date): boolean {
+  return record.expiresAt <= now || (record.status === 'IN_PROGRESS' && record.lockedUntil <= now);
+}
@@ -0,0 +1,223 @@
+/**
+ * In-memory leasing repository
+ * Reference implementation of ILeasingRepository for tests and local development
+ */
+
+import {
+  ConcurrentModificationError,
+  LeasingAgreement,
+  AgreementListQuery,
+  AgreementPage,
+  DomainEvent,
+  PaymentRecord,
+  OutstandingPaymentMatch,
+  PaymentSchedule,
+  ILeasingRepository
+} from '../types';
+import { InMemoryOutbox } from './inMemoryOutbox';
+
+/**
+ * Map-backed repository that keeps agreements for the lifetime of the process
+ */
+export class InMemoryLeasingRepository implements ILeasingRepository {
+
+  private readonly agreements: Map<string, LeasingAgreement> = new Map();
+  private readonly payments: Map<string, PaymentRecord> = new Map();
+
+  /**
+   * @param outbox - Outbox that receives the events passed to `save`
+   */
+  constructor(readonly outbox: InMemoryOutbox = new InMemoryOutbox()) {}
+
+  async save(agreement: LeasingAgreement, events: DomainEvent[] = []): Promise<LeasingAgreement> {
+    const saved = this.nextVersion(agreement);
+    // Enqueue first: a duplicate event must leave the agreement untouched, as the SQL transaction would
+    this.outbox.add(events);
+    this.agreements.set(agreement.id, saved);
+    return saved;
+  }
+
+  async findById(id: string): Promise<LeasingAgreement | null> {
+    return this.agreements.get(id) || null;
+  }
+
+  async findByEmployeeId(employeeId: string): Promise<LeasingAgreement[]> {
+    return Array.from(this.agreements.values())
+      .filter(agreement => agreement.employeeId === employeeId);
+  }
+
+  async findPageByEmployeeId(employeeId: string, query: AgreementListQuery): Promise<AgreementPage> {
+    return applyAgreementQuery(await this.findByEmployeeId(employeeId), query);
+  }
+
+  async findByPaymentId(paymentId: string): Promise<LeasingAgreement | null> {
+    return Array.from(this.agreements.values())
+      .find(agreement => agreement.paymentSchedule.some(payment => payment.id === paymentId)) || null;
+  }
+
+  async findOutstandingPayments(
+    companyId: string,
+    dueDate: Date,
+    outstandingAmount: number
+  ): Promise<OutstandingPaymentMatch[]> {
+    const day = dueDate.toISOString().slice(0, 10);
+
+    return Array.from(this.agreements.values())
+      .filter(agreement => agreement.companyId === companyId)
+      .flatMap(agreement => agreement.paymentSchedule
+        .filter(isUnsettled)
+        .filter(payment => payment.dueDate.toISOString().slice(0, 10) === day)
+        .filter(payment => payment.amount.minus(payment.paidAmount).toNumber() === outstandingAmount)
+        .map(payment => ({ agreementId: agreement.id, paymentId: payment.id })));
+  }
+
+  async recordPayment(agreement: LeasingAgreement, payment: PaymentRecord): Promise<boolean> {
+    if (this.payments.has(payment.reference)) {
+      return false;
+    }
+    const saved = this.nextVersion(agreement);
+    this.payments.set(payment.reference, payment);
+    this.agreements.set(agreement.id, saved);
+    return true;
+  }
+
+  async findWithUnsettledPaymentsDueBefore(
+    dueBefore: Date,
+    afterId: string | undefined,
+    limit: number
+  ): Promise<LeasingAgreement[]> {
+    return Array.from(this.agreements.values())
+      .filter(agreement => agreement.status === 'ACTIVE')
+      .filter(agreement => afterId === undefined || agreement.id > afterId)
+      .filter(agreement => agreement.paymentSchedule.some(payment =>
+        isUnsettled(payment) && payment.dueDate < dueBefore))
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, limit);
+  }
+
+  async updatePaymentDunning(
+    agreementId: string,
+    payment: PaymentSchedule,
+    expectedAttemptCount: number,
+    events: DomainEvent[]
+  ): Promise<boolean> {
+    const agreement = this.agreements.get(agreementId);
+    const current = agreement?.paymentSchedule.find(entry => entry.id === payment.id);
+
+    if (!agreement || !current || !isUnsettled(current) || current.attemptCount !== expectedAttemptCount) {
+      return false;
+    }
+
+    this.outbox.add(events);
+    this.agreements.set(agreementId, {
+      ...agreement,
+      version: (agreement.version ?? 0) + 1,
+      paymentSchedule: agreement.paymentSchedule.map(entry => entry.id === payment.id
+        ? { ...entry, status: payment.status, attemptCount: payment.attemptCount, lastAttemptDate: payment.lastAttemptDate }
+        : entry)
+    });
+    return true;
+  }
+
+  /**
+   * Compare-and-set check of the version the agreement was read at
+   * @param agreement - Agreement to store
+   * @returns LeasingAgreement - Agreement with its new version
+   */
+  private nextVersion(agreement: LeasingAgreement): LeasingAgreement {
+    const stored = this.agreements.get(agreement.id);
+    if (agreement.version === undefined ? stored !== undefined : stored?.version !== agreement.version) {
+      throw new ConcurrentModificationError('agreement', agreement.id);
+    }
+    return { ...agreement, version: (agreement.version ?? 0) + 1 };
+  }
+}
+
+function isUnsettled(payment: PaymentSchedule): boolean {
+  return payment.status === 'PENDING' || payment.status === 'OVERDUE';
+}
+
+/**
+ * Filter, sort and paginate agreements in memory
+ * Mirrors the keyset pagination semantics of the SQL-backed repositories
+ * @param agreements - Candidate agreements
+ * @param query - Listing query
+ * @returns AgreementPage - Requested page and cursor for the next one
+ */
+export function applyAgreementQuery(
+  agreements: LeasingAgreement[],
+  query: AgreementListQuery
+): AgreementPage {
+
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  const sortValue = (agreement: LeasingAgreement): number => agreement[query.sortBy].getTime();
+
+  // Order by sort field, then by ID so that ties have a stable position
+  const compare = (a: LeasingAgreement, b: LeasingAgreement): number => {
+    const bySortField = sortValue(a) - sortValue(b);
+    if (bySortField !== 0) {
+      return bySortField * direction;
+    }
+    return a.id.localeCompare(b.id) * direction;
+  };
+
+  const cursor = query.cursor;
+  const cursorAgreement = cursor
+    ? { id: cursor.id, [query.sortBy]: new Date(cursor.sortValue) } as unknown as LeasingAgreement
+    : null;
+
+  const matching = agreements
+    .filter(agreement => matchesAgreementQuery(agreement, query))
+    .filter(agreement => !cursorAgreement || compare(agreement, cursorAgreement) > 0)
+    .sort(compare);
+
+  const items = matching.slice(0, query.limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: matching.length > query.limit && last
+      ? {
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+        sortValue: last[query.sortBy].toISOString(),
+        id: last.id
+      }
+      : null
+  };
+}
+
+/**
+ * Check whether an agreement satisfies the query filters
+ * @param agreement - Agreement to check
+ * @param query - Listing query
+ * @returns boolean - Whether the agreement matches
+ */
+function matchesAgreementQuery(agreement: LeasingAgreement, query: AgreementListQuery): boolean {
+  if (query.status && !query.status.includes(agreement.status)) {
+    return false;
+  }
+
+  if (query.currency && agreement.currency !== query.currency) {
+    return false;
+  }
+
+  if (query.itemId && agreement.itemId !== query.itemId) {
+    return false;
+  }
+
+  if (query.companyId && agreement.companyId !== query.companyId) {
+    return false;
+  }
+
+  // Lease period must overlap the requested date range
+  if (query.from && agreement.endDate < query.from) {
+    return false;
+  }
+
+  if (query.to && agreement.startDate > query.to) {
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,88 @@
+/**
+ * In-memory outbox
+ * Reference implementation of IOutboxStore for tests and local development; it does not survive a restart
+ */
+
+import { DomainEvent, OutboxEntry, IOutboxStore } from '../types';
+
+/**
+ * Map-backed outbox keyed by event ID
+ */
+export class InMemoryOutbox implements IOutboxStore {
+
+  private readonly entries: Map<string, OutboxEntry> = new Map();
+
+  /**
+   * Add events as PENDING entries, due immediately
+   * @param events - Events to enqueue
+   */
+  add(events: DomainEvent[]): void {
+    for (const event of events) {
+      if (this.entries.has(event.id)) {
+        throw new Error(`Duplicate outbox event ${event.id}`);
+      }
+      this.entries.set(event.id, { ...event, status: 'PENDING', attempts: 0, nextAttemptAt: event.occurredAt });
+    }
+  }
+
+  /**
+   * All entries in insertion order, for tests and diagnostics
+   * @returns OutboxEntry[] - Entries in any status
+   */
+  all(): OutboxEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  async claimDue(now: Date, limit: number, leaseUntil: Date): Promise<OutboxEntry[]> {
+    // Only the oldest PENDING entry of each agreement, in insertion order, is due
+    const oldest = new Map<string, OutboxEntry>();
+    for (const entry of this.all()) {
+      if (entry.status === 'PENDING' && !oldest.has(entry.agreementId)) {
+        oldest.set(entry.agreementId, entry);
+      }
+    }
+
+    const due = Array.from(oldest.values())
+      .filter(entry => entry.nextAttemptAt <= now)
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())
+      .slice(0, limit);
+
+    for (const entry of due) {
+      this.entries.set(entry.id, { ...entry, nextAttemptAt: leaseUntil });
+    }
+    return due;
+  }
+
+  async markDelivered(id: string, deliveredAt: Date): Promise<void> {
+    this.update(id, { status: 'DELIVERED', deliveredAt });
+  }
+
+  async scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void> {
+    this.update(id, { attempts, nextAttemptAt, lastError: error });
+  }
+
+  async markDead(id: string, attempts: number, error: string): Promise<void> {
+    this.update(id, { status: 'DEAD', attempts, lastError: error });
+  }
+
+  async findDead(): Promise<OutboxEntry[]> {
+    return this.all()
+      .filter(entry => entry.status === 'DEAD')
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  }
+
+  async requeue(id: string, now: Date): Promise<boolean> {
+    if (this.entries.get(id)?.status !== 'DEAD') {
+      return false;
+    }
+    this.update(id, { status: 'PENDING', attempts: 0, nextAttemptAt: now });
+    return true;
+  }
+
+  private update(id: string, changes: Partial<OutboxEntry>): void {
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.entries.set(id, { ...entry, ...changes });
+    }
+  }
+}
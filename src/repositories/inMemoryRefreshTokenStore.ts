@@ -0,0 +1,43 @@
+/**
+ * In-memory refresh token store
+ * Reference implementation of IRefreshTokenStore for tests and local development
+ */
+
+import { RefreshTokenRecord, IRefreshTokenStore } from '../types';
+
+/**
+ * Map-backed store keyed by token hash
+ */
+export class InMemoryRefreshTokenStore implements IRefreshTokenStore {
+
+  private readonly tokens: Map<string, RefreshTokenRecord> = new Map();
+
+  async save(record: RefreshTokenRecord): Promise<void> {
+    this.tokens.set(record.tokenHash, record);
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    return this.tokens.get(tokenHash) || null;
+  }
+
+  async revoke(tokenHash: string, revokedAt: Date, replacedBy?: string): Promise<boolean> {
+    const record = this.tokens.get(tokenHash);
+    if (!record || record.revokedAt) {
+      return false;
+    }
+
+    this.tokens.set(tokenHash, { ...record, revokedAt, replacedBy });
+    return true;
+  }
+
+  async revokeFamily(familyId: string, revokedAt: Date): Promise<number> {
+    let revoked = 0;
+    for (const record of this.tokens.values()) {
+      if (record.familyId === familyId && !record.revokedAt) {
+        this.tokens.set(record.tokenHash, { ...record, revokedAt });
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+}
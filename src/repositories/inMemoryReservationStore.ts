@@ -0,0 +1,46 @@
+/**
+ * In-memory item reservation store
+ * Reference implementation of IItemReservationStore for tests and local development; it does not survive a restart
+ */
+
+import { IItemReservationStore, ItemReservation } from '../types';
+
+/**
+ * Map-backed store keyed by reservation ID
+ * Checks and writes run without awaiting in between, so reservations made by one process never interleave
+ */
+export class InMemoryReservationStore implements IItemReservationStore {
+
+  private readonly reservations: Map<string, ItemReservation> = new Map();
+
+  async reserve(reservation: ItemReservation, now: Date): Promise<boolean> {
+    if (!this.isFree(reservation.itemId, reservation.startDate, reservation.endDate, now, reservation.id)) {
+      return false;
+    }
+
+    this.reservations.set(reservation.id, reservation);
+    return true;
+  }
+
+  async release(id: string): Promise<void> {
+    this.reservations.delete(id);
+  }
+
+  async findById(id: string): Promise<ItemReservation | null> {
+    return this.reservations.get(id) || null;
+  }
+
+  async isAvailable(itemId: string, startDate: Date, endDate: Date, now: Date, excludeId?: string): Promise<boolean> {
+    return this.isFree(itemId, startDate, endDate, now, excludeId);
+  }
+
+  private isFree(itemId: string, startDate: Date, endDate: Date, now: Date, excludeId?: string): boolean {
+    return !Array.from(this.reservations.values()).some(reservation =>
+      reservation.id !== excludeId &&
+      reservation.itemId === itemId &&
+      (reservation.expiresAt === undefined || reservation.expiresAt > now) &&
+      reservation.startDate < endDate &&
+      startDate < reservation.endDate
+    );
+  }
+}
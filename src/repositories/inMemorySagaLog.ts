@@ -0,0 +1,34 @@
+/**
+ * In-memory saga log
+ * Reference implementation of ISagaLog for tests and local development; it does not survive a restart
+ */
+
+import { AgreementSagaRecord, ISagaLog } from '../types';
+
+/**
+ * Map-backed saga log keyed by saga ID
+ */
+export class InMemorySagaLog implements ISagaLog {
+
+  private readonly sagas: Map<string, AgreementSagaRecord> = new Map();
+
+  async save(saga: AgreementSagaRecord): Promise<void> {
+    this.sagas.set(saga.id, saga);
+  }
+
+  async findById(id: string): Promise<AgreementSagaRecord | null> {
+    return this.sagas.get(id) || null;
+  }
+
+  async findByAgreementId(agreementId: string): Promise<AgreementSagaRecord[]> {
+    return Array.from(this.sagas.values())
+      .filter(saga => saga.agreementId === agreementId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async findIncomplete(): Promise<AgreementSagaRecord[]> {
+    return Array.from(this.sagas.values())
+      .filter(saga => saga.status === 'RUNNING' || saga.status === 'COMPENSATING')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * SQL client factory driven by application configuration
+ */
+
+import { AppConfig } from '../../config';
+import { SqlClient } from './sqlClient';
+import { PostgresClient } from './postgresClient';
+import { SqliteClient } from './sqliteClient';
+
+/**
+ * Create the SQL client for the configured driver
+ * @param database - Database configuration
+ * @returns SqlClient - Client for the configured driver
+ */
+export function createSqlClient(database: AppConfig['database']): SqlClient {
+  switch (database.driver) {
+    case 'postgres':
+      return new PostgresClient(database);
+    case 'sqlite':
+      return new SqliteClient({ filename: database.filename });
+    default:
+      throw new Error(`Unsupported database driver: ${database.driver}`);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Applies pending schema migrations in version order
+ */
+
+import { SqlClient } from './sqlClient';
+import { Migration, MIGRATIONS } from './migrations';
+import { Logger } from '../../utils/logger';
+
+/**
+ * Tracks applied migrations in `schema_migrations` and applies the rest,
+ * each in its own transaction
+ */
+export class MigrationRunner {
+
+  constructor(
+    private readonly client: SqlClient,
+    private readonly logger: Logger,
+    private readonly migrations: Migration[] = MIGRATIONS
+  ) {}
+
+  /**
+   * Apply all pending migrations
+   * @returns Promise<number[]> - Versions applied by this run
+   */
+  async migrate(): Promise<number[]> {
+    await this.client.execute(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        applied_at VARCHAR(32) NOT NULL
+      )`
+    );
+
+    const appliedVersions = new Set(await this.getAppliedVersions());
+    const pending = [...this.migrations]
+      .sort((a, b) => a.version - b.version)
+      .filter(migration => !appliedVersions.has(migration.version));
+
+    for (const migration of pending) {
+      const statements = Array.isArray(migration.statements)
+        ? migration.statements
+        : migration.statements[this.client.dialect];
+
+      await this.client.transaction(async tx => {
+        for (const statement of statements) {
+          await tx.execute(statement);
+        }
+
+        await tx.execute(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+      });
+
+      this.logger.info('Migration applied', {
+        version: migration.version,
+        name: migration.name
+      });
+    }
+
+    return pending.map(migration => migration.version);
+  }
+
+  /**
+   * Get versions already recorded as applied
+   * @returns Promise<number[]> - Applied versions
+   */
+  async getAppliedVersions(): Promise<number[]> {
+    const rows = await this.client.query<{ version: number }>(
+      'SELECT version FROM schema_migrations ORDER BY version'
+    );
+    return rows.map(row => Number(row.version));
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Versioned schema migrations for the SQL-backed repositories
+ * Migrations are append-only: never edit a released migration, add a new one
+ *
+ * Dates are stored as ISO-8601 UTC strings so that they compare and sort
+ * identically on Postgres and SQLite.
+ */
+
+import { SqlDialect } from './sqlClient';
+
+export interface Migration {
+  readonly version: number;
+  readonly name: string;
+  /** Statements for every driver, or per driver where the dialects differ */
+  readonly statements: string[] | Record<SqlDialect, string[]>;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_agreements_and_payment_schedules',
+    statements: [
+      `CREATE TABLE agreements (
+        id VARCHAR(64) PRIMARY KEY,
+        employee_id VARCHAR(50) NOT NULL,
+        item_id VARCHAR(50) NOT NULL,
+        company_id VARCHAR(50) NOT NULL,
+        status VARCHAR(16) NOT NULL,
+        start_date VARCHAR(32) NOT NULL,
+        end_date VARCHAR(32) NOT NULL,
+        price NUMERIC(14, 2) NOT NULL,
+        currency CHAR(3) NOT NULL,
+        metadata TEXT NOT NULL,
+        created_at VARCHAR(32) NOT NULL,
+        updated_at VARCHAR(32) NOT NULL
+      )`,
+      'CREATE INDEX idx_agreements_employee_created ON agreements (employee_id, created_at, id)',
+      'CREATE INDEX idx_agreements_employee_start ON agreements (employee_id, start_date, id)',
+      `CREATE TABLE payment_schedules (
+        id VARCHAR(100) PRIMARY KEY,
+        agreement_id VARCHAR(64) NOT NULL REFERENCES agreements (id) ON DELETE CASCADE,
+        sequence INTEGER NOT NULL,
+        due_date VARCHAR(32) NOT NULL,
+        amount NUMERIC(14, 2) NOT NULL,
+        status VARCHAR(16) NOT NULL,
+        payment_id VARCHAR(100),
+        attempt_count INTEGER NOT NULL DEFAULT 0,
+        last_attempt_date VARCHAR(32)
+      )`,
+      'CREATE INDEX idx_payment_schedules_agreement ON payment_schedules (agreement_id, sequence)'
+    ]
+  },
+  {
+    version: 2,
+    name: 'create_agreement_cancellations',
+    statements: [
+      `CREATE TABLE agreement_cancellations (
+        agreement_id VARCHAR(64) PRIMARY KEY REFERENCES agreements (id) ON DELETE CASCADE,
+        reason VARCHAR(500) NOT NULL,
+        cancelled_by VARCHAR(50) NOT NULL,
+        cancelled_at VARCHAR(32) NOT NULL,
+        refund_credit NUMERIC(14, 2) NOT NULL,
+        penalty NUMERIC(14, 2) NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 3,
+    name: 'create_refresh_tokens',
+    statements: [
+      `CREATE TABLE refresh_tokens (
+        token_hash CHAR(64) PRIMARY KEY,
+        family_id VARCHAR(64) NOT NULL,
+        user_id VARCHAR(100) NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        company_id VARCHAR(50) NOT NULL,
+        role VARCHAR(50) NOT NULL,
+        issued_at VARCHAR(32) NOT NULL,
+        expires_at VARCHAR(32) NOT NULL,
+        revoked_at VARCHAR(32),
+        replaced_by CHAR(64)
+      )`,
+      'CREATE INDEX idx_refresh_tokens_family ON refresh_tokens (family_id)'
+    ]
+  },
+  {
+    version: 4,
+    name: 'create_idempotency_keys',
+    statements: [
+      `CREATE TABLE idempotency_keys (
+        idempotency_key VARCHAR(400) PRIMARY KEY,
+        request_hash CHAR(64) NOT NULL,
+        status VARCHAR(16) NOT NULL,
+        response_status INTEGER,
+        response_body TEXT,
+        locked_until VARCHAR(32) NOT NULL,
+        expires_at VARCHAR(32) NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 5,
+    name: 'create_agreement_sagas',
+    statements: [
+      `CREATE TABLE agreement_sagas (
+        id VARCHAR(100) PRIMARY KEY,
+        agreement_id VARCHAR(64) NOT NULL,
+        status VARCHAR(16) NOT NULL,
+        agreement TEXT NOT NULL,
+        stored_draft INTEGER NOT NULL,
+        steps TEXT NOT NULL,
+        error TEXT,
+        created_at VARCHAR(32) NOT NULL,
+        updated_at VARCHAR(32) NOT NULL
+      )`,
+      'CREATE INDEX idx_agreement_sagas_agreement ON agreement_sagas (agreement_id)',
+      'CREATE INDEX idx_agreement_sagas_status ON agreement_sagas (status)'
+    ]
+  },
+  {
+    version: 6,
+    name: 'create_outbox_events',
+    statements: [
+      `CREATE TABLE outbox_events (
+        id VARCHAR(64) PRIMARY KEY,
+        event_type VARCHAR(32) NOT NULL,
+        agreement_id VARCHAR(64) NOT NULL,
+        payload TEXT NOT NULL,
+        status VARCHAR(16) NOT NULL,
+        attempts INTEGER NOT NULL,
+        next_attempt_at VARCHAR(32) NOT NULL,
+        last_error TEXT,
+        occurred_at VARCHAR(32) NOT NULL,
+        delivered_at VARCHAR(32)
+      )`,
+      'CREATE INDEX idx_outbox_events_due ON outbox_events (status, next_attempt_at)'
+    ]
+  },
+  {
+    version: 7,
+    name: 'add_payment_tracking',
+    statements: [
+      'ALTER TABLE payment_schedules ADD COLUMN paid_amount NUMERIC(14, 2) NOT NULL DEFAULT 0',
+      // Entries settled before partial payments were tracked count as fully paid
+      `UPDATE payment_schedules SET paid_amount = amount WHERE status = 'PAID'`,
+      `CREATE TABLE payments (
+        reference VARCHAR(100) PRIMARY KEY,
+        agreement_id VARCHAR(64) NOT NULL REFERENCES agreements (id),
+        amount NUMERIC(14, 2) NOT NULL,
+        received_at VARCHAR(32) NOT NULL,
+        allocations TEXT NOT NULL,
+        recorded_by VARCHAR(50) NOT NULL,
+        recorded_at VARCHAR(32) NOT NULL
+      )`,
+      'CREATE INDEX idx_payments_agreement ON payments (agreement_id)',
+      'CREATE INDEX idx_payment_schedules_due ON payment_schedules (due_date)'
+    ]
+  },
+  {
+    version: 8,
+    name: 'add_agreement_exchange_rates',
+    statements: [
+      // Rate from the agreement's currency to the company's base currency; NULL for older agreements
+      'ALTER TABLE agreements ADD COLUMN base_currency VARCHAR(3)',
+      'ALTER TABLE agreements ADD COLUMN exchange_rate NUMERIC(20, 10)',
+      'ALTER TABLE agreements ADD COLUMN exchange_rate_as_of VARCHAR(32)',
+      'ALTER TABLE agreements ADD COLUMN exchange_rate_source VARCHAR(50)'
+    ]
+  },
+  {
+    version: 9,
+    name: 'add_tax',
+    statements: [
+      // Tax rule applied to the agreement; NULL when untaxed
+      'ALTER TABLE agreements ADD COLUMN tax_jurisdiction VARCHAR(64)',
+      'ALTER TABLE agreements ADD COLUMN tax_rate NUMERIC(6, 4)',
+      'ALTER TABLE agreements ADD COLUMN tax_pricing VARCHAR(16)',
+      'ALTER TABLE agreements ADD COLUMN tax_reverse_charge INTEGER',
+      'ALTER TABLE payment_schedules ADD COLUMN net_amount NUMERIC(14, 2)',
+      'ALTER TABLE payment_schedules ADD COLUMN tax_amount NUMERIC(14, 2) NOT NULL DEFAULT 0',
+      // Entries scheduled before tax was calculated are untaxed
+      'UPDATE payment_schedules SET net_amount = amount'
+    ]
+  },
+  {
+    version: 10,
+    name: 'create_item_reservations',
+    statements: [
+      `CREATE TABLE item_reservations (
+        id VARCHAR(64) PRIMARY KEY,
+        item_id VARCHAR(50) NOT NULL,
+        start_date VARCHAR(32) NOT NULL,
+        end_date VARCHAR(32) NOT NULL,
+        expires_at VARCHAR(32)
+      )`,
+      'CREATE INDEX idx_item_reservations_item ON item_reservations (item_id, end_date)',
+      // One row per item, updated by every reservation so that reservations of the same item are serialized
+      `CREATE TABLE item_reservation_locks (
+        item_id VARCHAR(50) PRIMARY KEY,
+        version INTEGER NOT NULL
+      )`,
+      // Agreements that reserved their item before reservations had periods
+      `INSERT INTO item_reservations (id, item_id, start_date, end_date, expires_at)
+       SELECT id, item_id, start_date, end_date, NULL FROM agreements WHERE status IN ('PENDING', 'ACTIVE')`
+    ]
+  },
+  {
+    version: 11,
+    name: 'create_company_policies',
+    statements: [
+      // Overrides of the global leasing configuration, as JSON
+      `CREATE TABLE company_policies (
+        company_id VARCHAR(50) PRIMARY KEY,
+        overrides TEXT NOT NULL,
+        updated_by VARCHAR(50) NOT NULL,
+        updated_at VARCHAR(32) NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 12,
+    name: 'add_agreement_versions',
+    statements: [
+      // Optimistic lock: every write increments the version and is conditional on the one it read
+      'ALTER TABLE agreements ADD COLUMN version INTEGER NOT NULL DEFAULT 1'
+    ]
+  },
+  {
+    version: 13,
+    name: 'widen_amounts_to_three_decimals',
+    // Amounts of currencies with three decimal places, e.g. BHD and KWD
+    statements: {
+      postgres: [
+        ['agreements', 'price'],
+        ['payment_schedules', 'amount'],
+        ['payment_schedules', 'paid_amount'],
+        ['payment_schedules', 'net_amount'],
+        ['payment_schedules', 'tax_amount'],
+        ['agreement_cancellations', 'refund_credit'],
+        ['agreement_cancellations', 'penalty'],
+        ['payments', 'amount']
+      ].map(([table, column]) => `ALTER TABLE ${table} ALTER COLUMN ${column} TYPE NUMERIC(15, 3)`),
+      // SQLite does not enforce a declared precision and already keeps three decimals
+      sqlite: []
+    }
+  },
+  {
+    version: 14,
+    name: 'add_outbox_event_sequence',
+    statements: [
+      // Order of an agreement's events; timestamps of events written in the same millisecond tie
+      // Events written before count as sequence 0 and are ordered by time
+      'ALTER TABLE outbox_events ADD COLUMN sequence INTEGER NOT NULL DEFAULT 0',
+      'CREATE INDEX idx_outbox_events_agreement ON outbox_events (agreement_id, sequence)'
+    ]
+  }
+];
@@ -0,0 +1,104 @@
+/**
+ * PostgreSQL driver for the SQL client abstraction
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { SqlClient, SqlParam, SqlRow } from './sqlClient';
+
+export interface PostgresClientOptions {
+  host: string;
+  port: number;
+  database: string;
+  username: string;
+  password: string;
+  poolSize?: number;
+}
+
+/**
+ * Translate `?` placeholders into Postgres `$n` placeholders
+ * @param sql - SQL statement with `?` placeholders
+ * @returns string - SQL statement with numbered placeholders
+ */
+function toPostgresPlaceholders(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
+
+/**
+ * Client bound to a single pooled connection (used inside transactions)
+ */
+class PostgresTransactionClient implements SqlClient {
+
+  readonly dialect = 'postgres';
+
+  constructor(private readonly connection: PoolClient) {}
+
+  async query<T extends SqlRow = SqlRow>(sql: string, params: SqlParam[] = []): Promise<T[]> {
+    const result = await this.connection.query(toPostgresPlaceholders(sql), params);
+    return result.rows as T[];
+  }
+
+  async execute(sql: string, params: SqlParam[] = []): Promise<number> {
+    const result = await this.connection.query(toPostgresPlaceholders(sql), params);
+    return result.rowCount ?? 0;
+  }
+
+  async transaction<T>(work: (tx: SqlClient) => Promise<T>): Promise<T> {
+    // Already inside a transaction; nested calls join it
+    return work(this);
+  }
+
+  async close(): Promise<void> {
+    // Connection lifetime is owned by the enclosing transaction
+  }
+}
+
+/**
+ * Pool-backed Postgres client
+ */
+export class PostgresClient implements SqlClient {
+
+  readonly dialect = 'postgres';
+  private readonly pool: Pool;
+
+  constructor(options: PostgresClientOptions) {
+    this.pool = new Pool({
+      host: options.host,
+      port: options.port,
+      database: options.database,
+      user: options.username,
+      password: options.password,
+      max: options.poolSize ?? 10
+    });
+  }
+
+  async query<T extends SqlRow = SqlRow>(sql: string, params: SqlParam[] = []): Promise<T[]> {
+    const result = await this.pool.query(toPostgresPlaceholders(sql), params);
+    return result.rows as T[];
+  }
+
+  async execute(sql: string, params: SqlParam[] = []): Promise<number> {
+    const result = await this.pool.query(toPostgresPlaceholders(sql), params);
+    return result.rowCount ?? 0;
+  }
+
+  async transaction<T>(work: (tx: SqlClient) => Promise<T>): Promise<T> {
+    const connection = await this.pool.connect();
+
+    try {
+      await connection.query('BEGIN');
+      const result = await work(new PostgresTransactionClient(connection));
+      await connection.query('COMMIT');
+      return result;
+    } catch (error) {
+      await connection.query('ROLLBACK');
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Minimal SQL client abstraction shared by the Postgres and embedded SQLite drivers
+ * Statements use `?` placeholders; drivers translate them to their native syntax
+ */
+
+export type SqlParam = string | number | null;
+
+export type SqlRow = Record<string, unknown>;
+
+export type SqlDialect = 'postgres' | 'sqlite';
+
+export interface SqlClient {
+  /**
+   * SQL dialect of the driver, for the few statements that differ
+   */
+  readonly dialect: SqlDialect;
+
+  /**
+   * Run a statement that returns rows
+   * @param sql - SQL statement with `?` placeholders
+   * @param params - Positional parameters
+   * @returns Promise<T[]> - Result rows
+   */
+  query<T extends SqlRow = SqlRow>(sql: string, params?: SqlParam[]): Promise<T[]>;
+
+  /**
+   * Run a statement that does not return rows
+   * @param sql - SQL statement with `?` placeholders
+   * @param params - Positional parameters
+   * @returns Promise<number> - Number of affected rows
+   */
+  execute(sql: string, params?: SqlParam[]): Promise<number>;
+
+  /**
+   * Run work inside a transaction; commits on success, rolls back on error
+   * @param work - Callback receiving a client bound to the transaction
+   * @returns Promise<T> - Result of the callback
+   */
+  transaction<T>(work: (tx: SqlClient) => Promise<T>): Promise<T>;
+
+  /**
+   * Release connections held by the client
+   */
+  close(): Promise<void>;
+}
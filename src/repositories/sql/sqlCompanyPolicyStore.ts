@@ -0,0 +1,73 @@
+/**
+ * Relational company policy store
+ * Overrides are stored as a JSON document, so new overridable fields need no migration
+ */
+
+import { CompanyPolicy, ICompanyPolicyStore } from '../../types';
+import { SqlClient } from './sqlClient';
+
+interface CompanyPolicyRow {
+  [column: string]: unknown;
+  company_id: string;
+  overrides: string;
+  updated_by: string;
+  updated_at: string;
+}
+
+const COLUMNS = 'company_id, overrides, updated_by, updated_at';
+
+/**
+ * ICompanyPolicyStore backed by any SqlClient driver
+ */
+export class SqlCompanyPolicyStore implements ICompanyPolicyStore {
+
+  constructor(private readonly client: SqlClient) {}
+
+  async findByCompanyId(companyId: string): Promise<CompanyPolicy | null> {
+    const [row] = await this.client.query<CompanyPolicyRow>(
+      `SELECT ${COLUMNS} FROM company_policies WHERE company_id = ?`,
+      [companyId]
+    );
+
+    return row ? this.toPolicy(row) : null;
+  }
+
+  async findAll(): Promise<CompanyPolicy[]> {
+    const rows = await this.client.query<CompanyPolicyRow>(
+      `SELECT ${COLUMNS} FROM company_policies ORDER BY company_id`
+    );
+
+    return rows.map(row => this.toPolicy(row));
+  }
+
+  async save(policy: CompanyPolicy): Promise<void> {
+    await this.client.execute(
+      `INSERT INTO company_policies (${COLUMNS})
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (company_id) DO UPDATE SET
+         overrides = excluded.overrides,
+         updated_by = excluded.updated_by,
+         updated_at = excluded.updated_at`,
+      [
+        policy.companyId,
+        JSON.stringify(policy.overrides),
+        policy.updatedBy,
+        policy.updatedAt.toISOString()
+      ]
+    );
+  }
+
+  async delete(companyId: string): Promise<boolean> {
+    const affected = await this.client.execute('DELETE FROM company_policies WHERE company_id = ?', [companyId]);
+    return affected > 0;
+  }
+
+  private toPolicy(row: CompanyPolicyRow): CompanyPolicy {
+    return {
+      companyId: row.company_id,
+      overrides: JSON.parse(row.overrides),
+      updatedBy: row.updated_by,
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Relational idempotency store
+ * Shared by every instance, so a key claimed on one instance is honoured by all
+ */
+
+import { IdempotencyRecord, IdempotencyStatus, IIdempotencyStore, StoredResponse } from '../../types';
+import { SqlClient } from './sqlClient';
+
+interface IdempotencyRow {
+  [column: string]: unknown;
+  idempotency_key: string;
+  request_hash: string;
+  status: string;
+  response_status: string | number | null;
+  response_body: string | null;
+  locked_until: string;
+  expires_at: string;
+}
+
+const COLUMNS = 'idempotency_key, request_hash, status, response_status, response_body, locked_until, expires_at';
+
+/**
+ * IIdempotencyStore backed by any SqlClient driver
+ */
+export class SqlIdempotencyStore implements IIdempotencyStore {
+
+  constructor(private readonly client: SqlClient) {}
+
+  /**
+   * Claim a key; the primary key makes the claim atomic across instances
+   */
+  async claim(record: IdempotencyRecord, now: Date): Promise<IdempotencyRecord | null> {
+    return this.client.transaction(async tx => {
+      await this.deleteStale(tx, record.key, now);
+
+      const inserted = await tx.execute(
+        `INSERT INTO idempotency_keys (${COLUMNS})
+         VALUES (?, ?, ?, NULL, NULL, ?, ?)
+         ON CONFLICT (idempotency_key) DO NOTHING`,
+        [
+          record.key,
+          record.requestHash,
+          record.status,
+          record.lockedUntil.toISOString(),
+          record.expiresAt.toISOString()
+        ]
+      );
+
+      if (inserted > 0) {
+        return null;
+      }
+
+      const [row] = await tx.query<IdempotencyRow>(
+        `SELECT ${COLUMNS} FROM idempotency_keys WHERE idempotency_key = ?`,
+        [record.key]
+      );
+      return row ? this.toRecord(row) : null;
+    });
+  }
+
+  async find(key: string, now: Date): Promise<IdempotencyRecord | null> {
+    const [row] = await this.client.query<IdempotencyRow>(
+      `SELECT ${COLUMNS} FROM idempotency_keys
+       WHERE idempotency_key = ?
+         AND expires_at > ?
+         AND (status = 'COMPLETED' OR locked_until > ?)`,
+      [key, now.toISOString(), now.toISOString()]
+    );
+
+    return row ? this.toRecord(row) : null;
+  }
+
+  async complete(key: string, response: StoredResponse): Promise<void> {
+    await this.client.execute(
+      `UPDATE idempotency_keys SET status = 'COMPLETED', response_status = ?, response_body = ?
+       WHERE idempotency_key = ?`,
+      [response.statusCode, JSON.stringify(response.body), key]
+    );
+  }
+
+  async release(key: string): Promise<void> {
+    await this.client.execute('DELETE FROM idempotency_keys WHERE idempotency_key = ?', [key]);
+  }
+
+  private async deleteStale(tx: SqlClient, key: string, now: Date): Promise<void> {
+    await tx.execute(
+      `DELETE FROM idempotency_keys
+       WHERE idempotency_key = ?
+         AND (expires_at <= ? OR (status = 'IN_PROGRESS' AND locked_until <= ?))`,
+      [key, now.toISOString(), now.toISOString()]
+    );
+  }
+
+  private toRecord(row: IdempotencyRow): IdempotencyRecord {
+    return {
+      key: row.idempotency_key,
+      requestHash: row.request_hash,
+      status: row.status as IdempotencyStatus,
+      response: row.response_status !== null && row.response_body !== null
+        ? { statusCode: Number(row.response_status), body: JSON.parse(row.response_body) }
+        : undefined,
+      lockedUntil: new Date(row.locked_until),
+      expiresAt: new Date(row.expires_at)
+    };
+  }
+}
@@ -0,0 +1,548 @@
+/**
+ * Relational leasing repository
+ * Stores agreements and their payment schedules in normalized tables
+ */
+
+import {
+  LeasingAgreement,
+  ConcurrentModificationError,
+  AgreementCancellation,
+  PaymentSchedule,
+  AgreementStatus,
+  PaymentStatus,
+  CurrencyCode,
+  AgreementListQuery,
+  AgreementPage,
+  DomainEvent,
+  PaymentRecord,
+  OutstandingPaymentMatch,
+  TaxPricing,
+  ILeasingRepository
+} from '../../types';
+import { Money } from '../../utils/money';
+import { SqlClient, SqlParam } from './sqlClient';
+import { insertOutboxEvents } from './sqlOutboxStore';
+
+interface AgreementRow {
+  [column: string]: unknown;
+  id: string;
+  employee_id: string;
+  item_id: string;
+  company_id: string;
+  status: string;
+  start_date: string;
+  end_date: string;
+  price: string | number;
+  currency: string;
+  metadata: string;
+  base_currency: string | null;
+  exchange_rate: string | number | null;
+  exchange_rate_as_of: string | null;
+  exchange_rate_source: string | null;
+  tax_jurisdiction: string | null;
+  tax_rate: string | number | null;
+  tax_pricing: string | null;
+  tax_reverse_charge: string | number | null;
+  version: string | number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PaymentScheduleRow {
+  [column: string]: unknown;
+  id: string;
+  agreement_id: string;
+  due_date: string;
+  amount: string | number;
+  net_amount: string | number;
+  tax_amount: string | number;
+  paid_amount: string | number;
+  status: string;
+  payment_id: string | null;
+  attempt_count: string | number;
+  last_attempt_date: string | null;
+}
+
+interface CancellationRow {
+  [column: string]: unknown;
+  agreement_id: string;
+  reason: string;
+  cancelled_by: string;
+  cancelled_at: string;
+  refund_credit: string | number;
+  penalty: string | number;
+}
+
+// Whitelisted sort columns; never interpolate client input into SQL
+const SORT_COLUMNS: Record<AgreementListQuery['sortBy'], string> = {
+  startDate: 'start_date',
+  createdAt: 'created_at'
+};
+
+const AGREEMENT_COLUMNS = [
+  'id', 'employee_id', 'item_id', 'company_id', 'status', 'start_date', 'end_date',
+  'price', 'currency', 'metadata', 'base_currency', 'exchange_rate', 'exchange_rate_as_of',
+  'exchange_rate_source', 'tax_jurisdiction', 'tax_rate', 'tax_pricing', 'tax_reverse_charge',
+  'version', 'created_at', 'updated_at'
+].join(', ');
+
+// Columns a save may change; the ID and creation time are fixed
+const UPDATED_COLUMNS = AGREEMENT_COLUMNS.split(', ').filter(column => column !== 'id' && column !== 'created_at');
+
+/**
+ * ILeasingRepository backed by any SqlClient driver
+ */
+export class SqlLeasingRepository implements ILeasingRepository {
+
+  constructor(private readonly client: SqlClient) {}
+
+  /**
+   * Insert or update an agreement together with its payment schedule
+   * @param agreement - Agreement to store
+   * @param events - Domain events written to the outbox in the same transaction
+   * @returns Promise<LeasingAgreement> - Stored agreement
+   */
+  async save(agreement: LeasingAgreement, events: DomainEvent[] = []): Promise<LeasingAgreement> {
+    return this.client.transaction(tx => this.write(tx, agreement, events));
+  }
+
+  /**
+   * Store a payment in the ledger and the agreement it was applied to in one transaction
+   * @param agreement - Agreement with the updated payment schedule
+   * @param payment - Payment to record
+   * @returns Promise<boolean> - False, writing nothing, when the reference was already recorded
+   */
+  async recordPayment(agreement: LeasingAgreement, payment: PaymentRecord): Promise<boolean> {
+    return this.client.transaction(async tx => {
+      const inserted = await tx.execute(
+        `INSERT INTO payments (reference, agreement_id, amount, received_at, allocations, recorded_by, recorded_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (reference) DO NOTHING`,
+        [
+          payment.reference,
+          payment.agreementId,
+          payment.amount.toDecimalString(),
+          payment.receivedAt.toISOString(),
+          JSON.stringify(payment.allocations),
+          payment.recordedBy,
+          payment.recordedAt.toISOString()
+        ]
+      );
+
+      if (inserted === 0) {
+        return false;
+      }
+
+      await this.write(tx, agreement, []);
+      return true;
+    });
+  }
+
+  async findById(id: string): Promise<LeasingAgreement | null> {
+    const rows = await this.client.query<AgreementRow>(
+      `SELECT ${AGREEMENT_COLUMNS} FROM agreements WHERE id = ?`,
+      [id]
+    );
+
+    const [agreement] = await this.hydrate(rows);
+    return agreement || null;
+  }
+
+  async findByEmployeeId(employeeId: string): Promise<LeasingAgreement[]> {
+    const rows = await this.client.query<AgreementRow>(
+      `SELECT ${AGREEMENT_COLUMNS} FROM agreements WHERE employee_id = ? ORDER BY created_at, id`,
+      [employeeId]
+    );
+
+    return this.hydrate(rows);
+  }
+
+  /**
+   * Keyset-paginated listing; fetches one extra row to detect a next page
+   * @param employeeId - Employee ID
+   * @param query - Listing query
+   * @returns Promise<AgreementPage> - Requested page and cursor for the next one
+   */
+  async findPageByEmployeeId(employeeId: string, query: AgreementListQuery): Promise<AgreementPage> {
+    const conditions: string[] = ['employee_id = ?'];
+    const params: SqlParam[] = [employeeId];
+
+    if (query.status && query.status.length > 0) {
+      conditions.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+      params.push(...query.status);
+    }
+
+    if (query.currency) {
+      conditions.push('currency = ?');
+      params.push(query.currency);
+    }
+
+    if (query.itemId) {
+      conditions.push('item_id = ?');
+      params.push(query.itemId);
+    }
+
+    if (query.companyId) {
+      conditions.push('company_id = ?');
+      params.push(query.companyId);
+    }
+
+    // Lease period must overlap the requested date range
+    if (query.from) {
+      conditions.push('end_date >= ?');
+      params.push(query.from.toISOString());
+    }
+
+    if (query.to) {
+      conditions.push('start_date <= ?');
+      params.push(query.to.toISOString());
+    }
+
+    const sortColumn = SORT_COLUMNS[query.sortBy];
+    const direction = query.sortOrder === 'asc' ? 'ASC' : 'DESC';
+    const comparator = query.sortOrder === 'asc' ? '>' : '<';
+
+    if (query.cursor) {
+      conditions.push(`(${sortColumn} ${comparator} ? OR (${sortColumn} = ? AND id ${comparator} ?))`);
+      params.push(query.cursor.sortValue, query.cursor.sortValue, query.cursor.id);
+    }
+
+    params.push(query.limit + 1);
+
+    const rows = await this.client.query<AgreementRow>(
+      `SELECT ${AGREEMENT_COLUMNS} FROM agreements
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${sortColumn} ${direction}, id ${direction}
+       LIMIT ?`,
+      params
+    );
+
+    const items = await this.hydrate(rows.slice(0, query.limit));
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: rows.length > query.limit && last
+        ? {
+          sortBy: query.sortBy,
+          sortOrder: query.sortOrder,
+          sortValue: last[query.sortBy].toISOString(),
+          id: last.id
+        }
+        : null
+    };
+  }
+
+  async findByPaymentId(paymentId: string): Promise<LeasingAgreement | null> {
+    const rows = await this.client.query<AgreementRow>(
+      `SELECT ${AGREEMENT_COLUMNS} FROM agreements
+       WHERE id = (SELECT agreement_id FROM payment_schedules WHERE id = ?)`,
+      [paymentId]
+    );
+
+    const [agreement] = await this.hydrate(rows);
+    return agreement || null;
+  }
+
+  async findOutstandingPayments(
+    companyId: string,
+    dueDate: Date,
+    outstandingAmount: number
+  ): Promise<OutstandingPaymentMatch[]> {
+    const dayStart = new Date(Date.UTC(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate()));
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    // Compare in thousandths, the finest minor unit of any currency, so that NUMERIC and REAL columns behave the same
+    const rows = await this.client.query<{ agreement_id: string; id: string }>(
+      `SELECT ps.agreement_id, ps.id
+       FROM payment_schedules ps
+       JOIN agreements a ON a.id = ps.agreement_id
+       WHERE a.company_id = ?
+         AND ps.status IN ('PENDING', 'OVERDUE')
+         AND ps.due_date >= ? AND ps.due_date < ?
+         AND ROUND((ps.amount - ps.paid_amount) * 1000) = ?
+       ORDER BY ps.agreement_id, ps.sequence`,
+      [companyId, dayStart.toISOString(), dayEnd.toISOString(), Math.round(outstandingAmount * 1000)]
+    );
+
+    return rows.map(row => ({ agreementId: row.agreement_id, paymentId: row.id }));
+  }
+
+  /**
+   * Candidates for the dunning scheduler, one keyset page at a time
+   * @param dueBefore - Only agreements with an unsettled entry due before this date
+   * @param afterId - Last agreement ID of the previous page
+   * @param limit - Page size
+   * @returns Promise<LeasingAgreement[]> - Active agreements in ID order
+   */
+  async findWithUnsettledPaymentsDueBefore(
+    dueBefore: Date,
+    afterId: string | undefined,
+    limit: number
+  ): Promise<LeasingAgreement[]> {
+    const rows = await this.client.query<AgreementRow>(
+      `SELECT ${AGREEMENT_COLUMNS} FROM agreements
+       WHERE status = 'ACTIVE'
+         AND id > ?
+         AND EXISTS (
+           SELECT 1 FROM payment_schedules ps
+           WHERE ps.agreement_id = agreements.id
+             AND ps.status IN ('PENDING', 'OVERDUE')
+             AND ps.due_date < ?
+         )
+       ORDER BY id
+       LIMIT ?`,
+      [afterId ?? '', dueBefore.toISOString(), limit]
+    );
+
+    return this.hydrate(rows);
+  }
+
+  /**
+   * Compare-and-set update of one entry's dunning state; never touches amounts,
+   * so a payment recorded concurrently is not overwritten
+   * @param agreementId - Agreement ID
+   * @param payment - Entry with its new status, attempt count and attempt date
+   * @param expectedAttemptCount - Attempt count the change was computed from
+   * @param events - Domain events written to the outbox in the same transaction
+   * @returns Promise<boolean> - False, writing nothing, when the entry changed or was settled
+   */
+  async updatePaymentDunning(
+    agreementId: string,
+    payment: PaymentSchedule,
+    expectedAttemptCount: number,
+    events: DomainEvent[]
+  ): Promise<boolean> {
+    return this.client.transaction(async tx => {
+      const updated = await tx.execute(
+        `UPDATE payment_schedules SET status = ?, attempt_count = ?, last_attempt_date = ?
+         WHERE id = ? AND agreement_id = ? AND attempt_count = ? AND status IN ('PENDING', 'OVERDUE')`,
+        [
+          payment.status,
+          payment.attemptCount,
+          payment.lastAttemptDate?.toISOString() ?? null,
+          payment.id,
+          agreementId,
+          expectedAttemptCount
+        ]
+      );
+
+      if (updated === 0) {
+        return false;
+      }
+
+      // Saves computed from the agreement before this change must fail their version check
+      await tx.execute('UPDATE agreements SET version = version + 1 WHERE id = ?', [agreementId]);
+      await insertOutboxEvents(tx, events);
+      return true;
+    });
+  }
+
+  /**
+   * Write an agreement, its owned rows and its outbox events on a transaction client
+   * Inserts an agreement without a version; otherwise updates it if the stored version still matches
+   * @returns Promise<LeasingAgreement> - Agreement with its new version
+   */
+  private async write(tx: SqlClient, agreement: LeasingAgreement, events: DomainEvent[]): Promise<LeasingAgreement> {
+    const version = (agreement.version ?? 0) + 1;
+    const row: Record<string, SqlParam> = {
+      id: agreement.id,
+      employee_id: agreement.employeeId,
+      item_id: agreement.itemId,
+      company_id: agreement.companyId,
+      status: agreement.status,
+      start_date: agreement.startDate.toISOString(),
+      end_date: agreement.endDate.toISOString(),
+      price: agreement.price.toDecimalString(),
+      currency: agreement.currency,
+      metadata: JSON.stringify(agreement.metadata),
+      base_currency: agreement.exchangeRate?.to ?? null,
+      exchange_rate: agreement.exchangeRate?.rate ?? null,
+      exchange_rate_as_of: agreement.exchangeRate?.asOf.toISOString() ?? null,
+      exchange_rate_source: agreement.exchangeRate?.source ?? null,
+      tax_jurisdiction: agreement.tax?.jurisdiction ?? null,
+      tax_rate: agreement.tax?.rate ?? null,
+      tax_pricing: agreement.tax?.pricing ?? null,
+      tax_reverse_charge: agreement.tax ? Number(agreement.tax.reverseCharge) : null,
+      version,
+      created_at: agreement.createdAt.toISOString(),
+      updated_at: agreement.updatedAt.toISOString()
+    };
+
+    const written = agreement.version === undefined
+      ? await tx.execute(
+        `INSERT INTO agreements (${AGREEMENT_COLUMNS})
+         VALUES (${Object.keys(row).map(() => '?').join(', ')})
+         ON CONFLICT (id) DO NOTHING`,
+        Object.values(row)
+      )
+      : await tx.execute(
+        `UPDATE agreements SET ${UPDATED_COLUMNS.map(column => `${column} = ?`).join(', ')}
+         WHERE id = ? AND version = ?`,
+        [...UPDATED_COLUMNS.map(column => row[column]), agreement.id, agreement.version]
+      );
+
+    if (written === 0) {
+      throw new ConcurrentModificationError('agreement', agreement.id);
+    }
+
+    // The schedule is owned by the agreement; replace it wholesale
+    await tx.execute('DELETE FROM payment_schedules WHERE agreement_id = ?', [agreement.id]);
+
+    for (const [index, payment] of agreement.paymentSchedule.entries()) {
+      await tx.execute(
+        `INSERT INTO payment_schedules
+           (id, agreement_id, sequence, due_date, amount, net_amount, tax_amount, paid_amount, status, payment_id,
+            attempt_count, last_attempt_date)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          payment.id,
+          agreement.id,
+          index + 1,
+          payment.dueDate.toISOString(),
+          payment.amount.toDecimalString(),
+          payment.netAmount.toDecimalString(),
+          payment.taxAmount.toDecimalString(),
+          payment.paidAmount.toDecimalString(),
+          payment.status,
+          payment.paymentId ?? null,
+          payment.attemptCount,
+          payment.lastAttemptDate?.toISOString() ?? null
+        ]
+      );
+    }
+
+    await tx.execute('DELETE FROM agreement_cancellations WHERE agreement_id = ?', [agreement.id]);
+
+    if (agreement.cancellation) {
+      await tx.execute(
+        `INSERT INTO agreement_cancellations
+           (agreement_id, reason, cancelled_by, cancelled_at, refund_credit, penalty)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          agreement.id,
+          agreement.cancellation.reason,
+          agreement.cancellation.cancelledBy,
+          agreement.cancellation.cancelledAt.toISOString(),
+          agreement.cancellation.refundCredit.toDecimalString(),
+          agreement.cancellation.penalty.toDecimalString()
+        ]
+      );
+    }
+
+    await insertOutboxEvents(tx, events);
+    return { ...agreement, version };
+  }
+
+  /**
+   * Load payment schedules for agreement rows and map them to domain objects
+   * @param rows - Agreement rows
+   * @returns Promise<LeasingAgreement[]> - Agreements in row order
+   */
+  private async hydrate(rows: AgreementRow[]): Promise<LeasingAgreement[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const ids = rows.map(row => row.id);
+    const placeholders = ids.map(() => '?').join(', ');
+
+    const paymentRows = await this.client.query<PaymentScheduleRow>(
+      `SELECT id, agreement_id, due_date, amount, net_amount, tax_amount, paid_amount, status, payment_id,
+              attempt_count, last_attempt_date
+       FROM payment_schedules
+       WHERE agreement_id IN (${placeholders})
+       ORDER BY agreement_id, sequence`,
+      ids
+    );
+
+    const cancellationRows = await this.client.query<CancellationRow>(
+      `SELECT agreement_id, reason, cancelled_by, cancelled_at, refund_credit, penalty
+       FROM agreement_cancellations
+       WHERE agreement_id IN (${placeholders})`,
+      ids
+    );
+
+    // Amounts are stored in major units of the agreement's currency
+    const currencies = new Map(rows.map(row => [row.id, row.currency as CurrencyCode]));
+
+    const cancellations = new Map<string, AgreementCancellation>(
+      cancellationRows.map(row => [row.agreement_id, this.toCancellation(row, currencies.get(row.agreement_id)!)])
+    );
+
+    const schedules = new Map<string, PaymentSchedule[]>();
+    for (const paymentRow of paymentRows) {
+      const schedule = schedules.get(paymentRow.agreement_id) || [];
+      schedule.push(this.toPaymentSchedule(paymentRow, currencies.get(paymentRow.agreement_id)!));
+      schedules.set(paymentRow.agreement_id, schedule);
+    }
+
+    return rows.map(row => this.toAgreement(row, schedules.get(row.id) || [], cancellations.get(row.id)));
+  }
+
+  private toAgreement(
+    row: AgreementRow,
+    paymentSchedule: PaymentSchedule[],
+    cancellation?: AgreementCancellation
+  ): LeasingAgreement {
+    return {
+      id: row.id,
+      employeeId: row.employee_id,
+      itemId: row.item_id,
+      companyId: row.company_id,
+      status: row.status as AgreementStatus,
+      startDate: new Date(row.start_date),
+      endDate: new Date(row.end_date),
+      price: Money.of(row.price, row.currency as CurrencyCode),
+      currency: row.currency as CurrencyCode,
+      paymentSchedule,
+      metadata: JSON.parse(row.metadata),
+      ...(cancellation && { cancellation }),
+      ...(row.exchange_rate !== null && {
+        exchangeRate: {
+          from: row.currency,
+          to: row.base_currency as CurrencyCode,
+          rate: Number(row.exchange_rate),
+          asOf: new Date(row.exchange_rate_as_of as string),
+          source: row.exchange_rate_source as string
+        }
+      }),
+      ...(row.tax_jurisdiction !== null && {
+        tax: {
+          jurisdiction: row.tax_jurisdiction,
+          rate: Number(row.tax_rate),
+          pricing: row.tax_pricing as TaxPricing,
+          reverseCharge: Number(row.tax_reverse_charge) === 1
+        }
+      }),
+      version: Number(row.version),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private toCancellation(row: CancellationRow, currency: CurrencyCode): AgreementCancellation {
+    return {
+      reason: row.reason,
+      cancelledBy: row.cancelled_by,
+      cancelledAt: new Date(row.cancelled_at),
+      refundCredit: Money.of(row.refund_credit, currency),
+      penalty: Money.of(row.penalty, currency)
+    };
+  }
+
+  private toPaymentSchedule(row: PaymentScheduleRow, currency: CurrencyCode): PaymentSchedule {
+    return {
+      id: row.id,
+      dueDate: new Date(row.due_date),
+      amount: Money.of(row.amount, currency),
+      netAmount: Money.of(row.net_amount, currency),
+      taxAmount: Money.of(row.tax_amount, currency),
+      status: row.status as PaymentStatus,
+      paidAmount: Money.of(row.paid_amount, currency),
+      paymentId: row.payment_id ?? undefined,
+      attemptCount: Number(row.attempt_count),
+      lastAttemptDate: row.last_attempt_date ? new Date(row.last_attempt_date) : undefined
+    };
+  }
+}
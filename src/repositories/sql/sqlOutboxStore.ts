@@ -0,0 +1,147 @@
+/**
+ * Relational outbox
+ * Events are inserted by SqlLeasingRepository inside the agreement transaction
+ * and read back here by the OutboxDispatcher
+ */
+
+import { DomainEvent, DomainEventType, OutboxEntry, OutboxStatus, IOutboxStore } from '../../types';
+import { SqlClient } from './sqlClient';
+
+interface OutboxRow {
+  [column: string]: unknown;
+  id: string;
+  event_type: string;
+  agreement_id: string;
+  payload: string;
+  status: string;
+  attempts: string | number;
+  next_attempt_at: string;
+  last_error: string | null;
+  occurred_at: string;
+  delivered_at: string | null;
+}
+
+const OUTBOX_COLUMNS = [
+  'id', 'event_type', 'agreement_id', 'payload', 'status', 'attempts',
+  'next_attempt_at', 'last_error', 'occurred_at', 'delivered_at'
+].join(', ');
+
+/**
+ * Insert events as PENDING outbox entries, due immediately
+ * Pass the transaction client so that the events commit or roll back with the caller's writes.
+ * Each event takes the next sequence number of its agreement; the caller's transaction has
+ * updated the agreement row first, so writers of one agreement cannot number events concurrently
+ * @param client - Client, usually bound to a transaction
+ * @param events - Events to enqueue
+ */
+export async function insertOutboxEvents(client: SqlClient, events: DomainEvent[]): Promise<void> {
+  for (const event of events) {
+    await client.execute(
+      `INSERT INTO outbox_events (${OUTBOX_COLUMNS}, sequence)
+       VALUES (?, ?, ?, ?, 'PENDING', 0, ?, NULL, ?, NULL,
+         (SELECT COALESCE(MAX(sequence), 0) + 1 FROM outbox_events WHERE agreement_id = ?))`,
+      [
+        event.id,
+        event.type,
+        event.agreementId,
+        JSON.stringify(event.payload),
+        event.occurredAt.toISOString(),
+        event.occurredAt.toISOString(),
+        event.agreementId
+      ]
+    );
+  }
+}
+
+/**
+ * IOutboxStore backed by any SqlClient driver
+ */
+export class SqlOutboxStore implements IOutboxStore {
+
+  constructor(private readonly client: SqlClient) {}
+
+  async claimDue(now: Date, limit: number, leaseUntil: Date): Promise<OutboxEntry[]> {
+    // Only the oldest PENDING event of each agreement is due; later ones wait for it to be delivered or dead-lettered
+    const rows = await this.client.query<OutboxRow>(
+      `SELECT ${OUTBOX_COLUMNS} FROM outbox_events e
+       WHERE status = 'PENDING' AND next_attempt_at <= ?
+         AND NOT EXISTS (
+           SELECT 1 FROM outbox_events earlier
+           WHERE earlier.agreement_id = e.agreement_id
+             AND earlier.status = 'PENDING'
+             AND (earlier.sequence < e.sequence
+               OR (earlier.sequence = e.sequence AND (earlier.occurred_at < e.occurred_at
+                 OR (earlier.occurred_at = e.occurred_at AND earlier.id < e.id))))
+         )
+       ORDER BY occurred_at, id
+       LIMIT ?`,
+      [now.toISOString(), limit]
+    );
+
+    // Move the due time to the lease end; a dispatcher that loses the race updates nothing
+    const claimed: OutboxEntry[] = [];
+    for (const row of rows) {
+      const updated = await this.client.execute(
+        `UPDATE outbox_events SET next_attempt_at = ?
+         WHERE id = ? AND status = 'PENDING' AND next_attempt_at = ?`,
+        [leaseUntil.toISOString(), row.id, row.next_attempt_at]
+      );
+      if (updated === 1) {
+        claimed.push(this.toEntry(row));
+      }
+    }
+    return claimed;
+  }
+
+  async markDelivered(id: string, deliveredAt: Date): Promise<void> {
+    await this.client.execute(
+      `UPDATE outbox_events SET status = 'DELIVERED', delivered_at = ? WHERE id = ?`,
+      [deliveredAt.toISOString(), id]
+    );
+  }
+
+  async scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void> {
+    await this.client.execute(
+      'UPDATE outbox_events SET attempts = ?, next_attempt_at = ?, last_error = ? WHERE id = ?',
+      [attempts, nextAttemptAt.toISOString(), error, id]
+    );
+  }
+
+  async markDead(id: string, attempts: number, error: string): Promise<void> {
+    await this.client.execute(
+      `UPDATE outbox_events SET status = 'DEAD', attempts = ?, last_error = ? WHERE id = ?`,
+      [attempts, error, id]
+    );
+  }
+
+  async findDead(): Promise<OutboxEntry[]> {
+    const rows = await this.client.query<OutboxRow>(
+      `SELECT ${OUTBOX_COLUMNS} FROM outbox_events WHERE status = 'DEAD' ORDER BY occurred_at, id`
+    );
+    return rows.map(row => this.toEntry(row));
+  }
+
+  async requeue(id: string, now: Date): Promise<boolean> {
+    const updated = await this.client.execute(
+      `UPDATE outbox_events SET status = 'PENDING', attempts = 0, next_attempt_at = ?
+       WHERE id = ? AND status = 'DEAD'`,
+      [now.toISOString(), id]
+    );
+    return updated === 1;
+  }
+
+  private toEntry(row: OutboxRow): OutboxEntry {
+    return {
+      id: row.id,
+      type: row.event_type as DomainEventType,
+      agreementId: row.agreement_id,
+      payload: JSON.parse(row.payload),
+      status: row.status as OutboxStatus,
+      attempts: Number(row.attempts),
+      nextAttemptAt: new Date(row.next_attempt_at),
+      ...(row.last_error !== null && { lastError: row.last_error }),
+      occurredAt: new Date(row.occurred_at),
+      ...(row.delivered_at !== null && { deliveredAt: new Date(row.delivered_at) })
+    };
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Relational refresh token store
+ * Keeps revoked tokens so that reuse of a rotated token can be detected
+ */
+
+import { RefreshTokenRecord, IRefreshTokenStore } from '../../types';
+import { SqlClient } from './sqlClient';
+
+interface RefreshTokenRow {
+  [column: string]: unknown;
+  token_hash: string;
+  family_id: string;
+  user_id: string;
+  email: string;
+  company_id: string;
+  role: string;
+  issued_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  replaced_by: string | null;
+}
+
+/**
+ * IRefreshTokenStore backed by any SqlClient driver
+ */
+export class SqlRefreshTokenStore implements IRefreshTokenStore {
+
+  constructor(private readonly client: SqlClient) {}
+
+  async save(record: RefreshTokenRecord): Promise<void> {
+    await this.client.execute(
+      `INSERT INTO refresh_tokens
+         (token_hash, family_id, user_id, email, company_id, role, issued_at, expires_at, revoked_at, replaced_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.tokenHash,
+        record.familyId,
+        record.user.id,
+        record.user.email,
+        record.user.companyId,
+        record.user.role,
+        record.issuedAt.toISOString(),
+        record.expiresAt.toISOString(),
+        record.revokedAt?.toISOString() ?? null,
+        record.replacedBy ?? null
+      ]
+    );
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const [row] = await this.client.query<RefreshTokenRow>(
+      `SELECT token_hash, family_id, user_id, email, company_id, role, issued_at, expires_at, revoked_at, replaced_by
+       FROM refresh_tokens WHERE token_hash = ?`,
+      [tokenHash]
+    );
+
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * Revoke a single token; the conditional update makes concurrent rotations of
+   * the same token race-free, since only one of them can win
+   */
+  async revoke(tokenHash: string, revokedAt: Date, replacedBy?: string): Promise<boolean> {
+    const affected = await this.client.execute(
+      'UPDATE refresh_tokens SET revoked_at = ?, replaced_by = ? WHERE token_hash = ? AND revoked_at IS NULL',
+      [revokedAt.toISOString(), replacedBy ?? null, tokenHash]
+    );
+    return affected > 0;
+  }
+
+  async revokeFamily(familyId: string, revokedAt: Date): Promise<number> {
+    return this.client.execute(
+      'UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL',
+      [revokedAt.toISOString(), familyId]
+    );
+  }
+
+  private toRecord(row: RefreshTokenRow): RefreshTokenRecord {
+    return {
+      tokenHash: row.token_hash,
+      familyId: row.family_id,
+      user: {
+        id: row.user_id,
+        email: row.email,
+        companyId: row.company_id,
+        role: row.role
+      },
+      issuedAt: new Date(row.issued_at),
+      expiresAt: new Date(row.expires_at),
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+      replacedBy: row.replaced_by ?? undefined
+    };
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Relational item reservation store
+ * Shared by every instance, so an item reserved on one instance is unavailable on all
+ */
+
+import { IItemReservationStore, ItemReservation } from '../../types';
+import { SqlClient, SqlParam } from './sqlClient';
+
+interface ReservationRow {
+  [column: string]: unknown;
+  id: string;
+  item_id: string;
+  start_date: string;
+  end_date: string;
+  expires_at: string | null;
+}
+
+const COLUMNS = 'id, item_id, start_date, end_date, expires_at';
+
+// Reservations in effect for an item that overlap a period; ISO timestamps compare as text
+const OVERLAPPING = `item_id = ? AND id <> ? AND start_date < ? AND end_date > ?
+  AND (expires_at IS NULL OR expires_at > ?)`;
+
+/**
+ * IItemReservationStore backed by any SqlClient driver
+ */
+export class SqlReservationStore implements IItemReservationStore {
+
+  constructor(private readonly client: SqlClient) {}
+
+  /**
+   * Reserve an item; updating the item's lock row first makes concurrent
+   * reservations of the same item wait for each other until commit
+   */
+  async reserve(reservation: ItemReservation, now: Date): Promise<boolean> {
+    return this.client.transaction(async tx => {
+      await tx.execute(
+        `INSERT INTO item_reservation_locks (item_id, version) VALUES (?, 1)
+         ON CONFLICT (item_id) DO UPDATE SET version = item_reservation_locks.version + 1`,
+        [reservation.itemId]
+      );
+
+      const conflicts = await tx.query<ReservationRow>(
+        `SELECT ${COLUMNS} FROM item_reservations WHERE ${OVERLAPPING}`,
+        overlapParams(reservation.itemId, reservation.startDate, reservation.endDate, now, reservation.id)
+      );
+      if (conflicts.length > 0) {
+        return false;
+      }
+
+      await tx.execute(
+        `INSERT INTO item_reservations (${COLUMNS})
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           item_id = excluded.item_id,
+           start_date = excluded.start_date,
+           end_date = excluded.end_date,
+           expires_at = excluded.expires_at`,
+        [
+          reservation.id,
+          reservation.itemId,
+          reservation.startDate.toISOString(),
+          reservation.endDate.toISOString(),
+          reservation.expiresAt?.toISOString() ?? null
+        ]
+      );
+      return true;
+    });
+  }
+
+  async release(id: string): Promise<void> {
+    await this.client.execute('DELETE FROM item_reservations WHERE id = ?', [id]);
+  }
+
+  async findById(id: string): Promise<ItemReservation | null> {
+    const [row] = await this.client.query<ReservationRow>(
+      `SELECT ${COLUMNS} FROM item_reservations WHERE id = ?`,
+      [id]
+    );
+    return row ? this.toReservation(row) : null;
+  }
+
+  async isAvailable(itemId: string, startDate: Date, endDate: Date, now: Date, excludeId?: string): Promise<boolean> {
+    const conflicts = await this.client.query<ReservationRow>(
+      `SELECT ${COLUMNS} FROM item_reservations WHERE ${OVERLAPPING}`,
+      overlapParams(itemId, startDate, endDate, now, excludeId)
+    );
+    return conflicts.length === 0;
+  }
+
+  private toReservation(row: ReservationRow): ItemReservation {
+    return {
+      id: row.id,
+      itemId: row.item_id,
+      startDate: new Date(row.start_date),
+      endDate: new Date(row.end_date),
+      ...(row.expires_at !== null && { expiresAt: new Date(row.expires_at) })
+    };
+  }
+}
+
+function overlapParams(itemId: string, startDate: Date, endDate: Date, now: Date, excludeId?: string): SqlParam[] {
+  return [itemId, excludeId ?? '', endDate.toISOString(), startDate.toISOString(), now.toISOString()];
+}
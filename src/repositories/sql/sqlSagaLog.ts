@@ -0,0 +1,155 @@
+/**
+ * Relational saga log
+ * Sagas are stored as one row each; the agreement snapshot and steps are JSON
+ */
+
+import {
+  AgreementSagaRecord,
+  LeasingAgreement,
+  PaymentSchedule,
+  SagaStatus,
+  SagaStepRecord,
+  ISagaLog
+} from '../../types';
+import { Money } from '../../utils/money';
+import { SqlClient } from './sqlClient';
+
+interface SagaRow {
+  [column: string]: unknown;
+  id: string;
+  agreement_id: string;
+  status: string;
+  agreement: string;
+  stored_draft: string | number;
+  steps: string;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// JSON form of a value: Money as its major-unit amount, dates as ISO strings
+type Serialized<T> =
+  T extends Money ? number
+    : T extends Date ? string
+      : T extends Array<infer U> ? Serialized<U>[]
+        : T extends object ? { [K in keyof T]: Serialized<T[K]> }
+          : T;
+
+// Snapshots written before payments were taxed have no net and tax amounts
+type SerializedPayment = Omit<Serialized<PaymentSchedule>, 'netAmount' | 'taxAmount'>
+  & Partial<Pick<Serialized<PaymentSchedule>, 'netAmount' | 'taxAmount'>>;
+
+interface SerializedAgreement extends Omit<Serialized<LeasingAgreement>, 'paymentSchedule'> {
+  readonly paymentSchedule: SerializedPayment[];
+}
+
+const SAGA_COLUMNS = 'id, agreement_id, status, agreement, stored_draft, steps, error, created_at, updated_at';
+
+/**
+ * ISagaLog backed by any SqlClient driver
+ */
+export class SqlSagaLog implements ISagaLog {
+
+  constructor(private readonly client: SqlClient) {}
+
+  async save(saga: AgreementSagaRecord): Promise<void> {
+    await this.client.execute(
+      `INSERT INTO agreement_sagas (${SAGA_COLUMNS})
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         status = excluded.status,
+         steps = excluded.steps,
+         error = excluded.error,
+         updated_at = excluded.updated_at`,
+      [
+        saga.id,
+        saga.agreementId,
+        saga.status,
+        JSON.stringify(saga.agreement),
+        saga.storedDraft ? 1 : 0,
+        JSON.stringify(saga.steps),
+        saga.error ?? null,
+        saga.createdAt.toISOString(),
+        saga.updatedAt.toISOString()
+      ]
+    );
+  }
+
+  async findById(id: string): Promise<AgreementSagaRecord | null> {
+    const [row] = await this.client.query<SagaRow>(
+      `SELECT ${SAGA_COLUMNS} FROM agreement_sagas WHERE id = ?`,
+      [id]
+    );
+    return row ? this.toSaga(row) : null;
+  }
+
+  async findByAgreementId(agreementId: string): Promise<AgreementSagaRecord[]> {
+    const rows = await this.client.query<SagaRow>(
+      `SELECT ${SAGA_COLUMNS} FROM agreement_sagas WHERE agreement_id = ? ORDER BY created_at, id`,
+      [agreementId]
+    );
+    return rows.map(row => this.toSaga(row));
+  }
+
+  async findIncomplete(): Promise<AgreementSagaRecord[]> {
+    const rows = await this.client.query<SagaRow>(
+      `SELECT ${SAGA_COLUMNS} FROM agreement_sagas
+       WHERE status IN ('RUNNING', 'COMPENSATING')
+       ORDER BY created_at, id`
+    );
+    return rows.map(row => this.toSaga(row));
+  }
+
+  private toSaga(row: SagaRow): AgreementSagaRecord {
+    const steps: Array<Omit<SagaStepRecord, 'updatedAt'> & { updatedAt: string }> = JSON.parse(row.steps);
+
+    return {
+      id: row.id,
+      agreementId: row.agreement_id,
+      status: row.status as SagaStatus,
+      agreement: reviveAgreement(JSON.parse(row.agreement)),
+      storedDraft: Number(row.stored_draft) === 1,
+      steps: steps.map(step => ({ ...step, updatedAt: new Date(step.updatedAt) })),
+      ...(row.error !== null && { error: row.error }),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
+
+/**
+ * Restore Date and Money fields of an agreement parsed from JSON
+ * Money is serialized as its major-unit amount; the currency is the agreement's
+ */
+function reviveAgreement({ exchangeRate, cancellation, ...json }: SerializedAgreement): LeasingAgreement {
+  const money = (amount: number) => Money.of(amount, json.currency);
+
+  return {
+    ...json,
+    price: money(json.price),
+    startDate: new Date(json.startDate),
+    endDate: new Date(json.endDate),
+    createdAt: new Date(json.createdAt),
+    updatedAt: new Date(json.updatedAt),
+    paymentSchedule: json.paymentSchedule.map(({ lastAttemptDate, ...payment }) => ({
+      ...payment,
+      amount: money(payment.amount),
+      netAmount: money(payment.netAmount ?? payment.amount),
+      taxAmount: money(payment.taxAmount ?? 0),
+      paidAmount: money(payment.paidAmount),
+      dueDate: new Date(payment.dueDate),
+      ...(lastAttemptDate && { lastAttemptDate: new Date(lastAttemptDate) })
+    })),
+    ...(exchangeRate && {
+      exchangeRate: { ...exchangeRate, asOf: new Date(exchangeRate.asOf) }
+    }),
+    ...(cancellation && {
+      cancellation: {
+        ...cancellation,
+        refundCredit: money(cancellation.refundCredit),
+        penalty: money(cancellation.penalty),
+        cancelledAt: new Date(cancellation.cancelledAt)
+      }
+    })
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Embedded SQLite driver for the SQL client abstraction
+ * Runs in-process via sql.js so tests and laptops need no database server
+ */
+
+import { promises as fs } from 'fs';
+import initSqlJs, { Database } from 'sql.js';
+import { SqlClient, SqlParam, SqlRow } from './sqlClient';
+
+export interface SqliteClientOptions {
+  /** Database file path, or ':memory:' for a throwaway database */
+  filename: string;
+}
+
+/**
+ * Client that executes directly against an open database handle
+ */
+class SqliteConnection implements SqlClient {
+
+  readonly dialect = 'sqlite';
+
+  constructor(private readonly db: Database) {}
+
+  async query<T extends SqlRow = SqlRow>(sql: string, params: SqlParam[] = []): Promise<T[]> {
+    const statement = this.db.prepare(sql);
+
+    try {
+      statement.bind(params);
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async execute(sql: string, params: SqlParam[] = []): Promise<number> {
+    this.db.run(sql, params);
+    return this.db.getRowsModified();
+  }
+
+  async transaction<T>(work: (tx: SqlClient) => Promise<T>): Promise<T> {
+    // Already inside a transaction; nested calls join it
+    return work(this);
+  }
+
+  async close(): Promise<void> {
+    // Database lifetime is owned by SqliteClient
+  }
+}
+
+/**
+ * sql.js-backed client
+ * sql.js exposes a single connection, so operations are queued to keep
+ * transactions from interleaving with other work
+ */
+export class SqliteClient implements SqlClient {
+
+  readonly dialect = 'sqlite';
+  private database: Promise<Database> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: SqliteClientOptions) {}
+
+  async query<T extends SqlRow = SqlRow>(sql: string, params: SqlParam[] = []): Promise<T[]> {
+    return this.enqueue(async db => new SqliteConnection(db).query<T>(sql, params));
+  }
+
+  async execute(sql: string, params: SqlParam[] = []): Promise<number> {
+    return this.enqueue(async db => {
+      const affected = await new SqliteConnection(db).execute(sql, params);
+      await this.persist(db);
+      return affected;
+    });
+  }
+
+  async transaction<T>(work: (tx: SqlClient) => Promise<T>): Promise<T> {
+    return this.enqueue(async db => {
+      db.run('BEGIN');
+
+      let result: T;
+      try {
+        result = await work(new SqliteConnection(db));
+        db.run('COMMIT');
+      } catch (error) {
+        db.run('ROLLBACK');
+        throw error;
+      }
+
+      await this.persist(db);
+      return result;
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.database) {
+      return;
+    }
+
+    await this.enqueue(async db => {
+      await this.persist(db);
+      db.close();
+    });
+    this.database = null;
+  }
+
+  /**
+   * Run an operation once all previously queued operations have settled
+   * @param operation - Operation to run against the database
+   * @returns Promise<T> - Result of the operation
+   */
+  private enqueue<T>(operation: (db: Database) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => operation(await this.open()));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Lazily open the database, loading the file if one exists
+   * @returns Promise<Database> - Open database handle
+   */
+  private open(): Promise<Database> {
+    if (!this.database) {
+      this.database = (async () => {
+        const SQL = await initSqlJs();
+        const contents = this.isInMemory() ? null : await this.readDatabaseFile();
+        const db = contents ? new SQL.Database(contents) : new SQL.Database();
+        db.run('PRAGMA foreign_keys = ON');
+        return db;
+      })();
+    }
+    return this.database;
+  }
+
+  /**
+   * Write the database back to disk when file-backed
+   * @param db - Open database handle
+   */
+  private async persist(db: Database): Promise<void> {
+    if (this.isInMemory()) {
+      return;
+    }
+    await fs.writeFile(this.options.filename, Buffer.from(db.export()));
+
+    // export() reopens the database, which resets pragmas
+    db.run('PRAGMA foreign_keys = ON');
+  }
+
+  private async readDatabaseFile(): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.options.filename);
+    } catch (error: unknown) {
+      if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private isInMemory(): boolean {
+    return this.options.filename === ':memory:';
+  }
+}
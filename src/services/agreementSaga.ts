@@ -0,0 +1,323 @@
+/**
+ * Durable saga for agreement creation
+ * Every step is written to the saga log before and after it runs, so that a
+ * saga interrupted by a crash can be resumed or compensated on startup
+ */
+
+import {
+  LeasingAgreement,
+  AgreementSagaRecord,
+  AgreementSagaStep,
+  SagaStatus,
+  SagaStepRecord,
+  SagaStepStatus,
+  BusinessRuleError,
+  ISagaLog,
+  ItemReservation,
+  ILeasingRepository,
+  IItemReservationStore,
+  IBillingService
+} from '../types';
+import { Logger } from '../utils/logger';
+import { withCorrelationId } from '../utils/correlation';
+import { AgreementStateMachine } from './agreementStateMachine';
+import { createDomainEvent, createItemReservedEvent } from './domainEvents';
+
+export const AGREEMENT_SAGA_STEPS: AgreementSagaStep[] = ['reserve', 'save', 'bill', 'activate'];
+
+// Once billing has succeeded an interrupted saga is rolled forward instead of compensated
+const PIVOT_STEP: AgreementSagaStep = 'bill';
+
+interface StepResult {
+  readonly agreement?: LeasingAgreement;
+  readonly data?: Record<string, string>;
+}
+
+export interface SagaRecoveryResult {
+  readonly resumed: string[];
+  readonly compensated: string[];
+  readonly failed: string[];
+}
+
+/**
+ * Reservation of an agreement's item for its lease period
+ * @param agreement - Agreement holding the reservation
+ * @param expiresAt - When the hold lapses; omitted for a confirmed reservation
+ * @returns ItemReservation - Reservation under the agreement ID
+ */
+export function reservationFor(agreement: LeasingAgreement, expiresAt?: Date): ItemReservation {
+  return {
+    id: agreement.id,
+    itemId: agreement.itemId,
+    startDate: agreement.startDate,
+    endDate: agreement.endDate,
+    ...(expiresAt && { expiresAt })
+  };
+}
+
+/**
+ * Runs, compensates and recovers agreement creation sagas
+ *
+ * Steps and their compensations:
+ * - reserve: hold the item for the lease period until the pending hold lapses / release it
+ * - save: submit the agreement (DRAFT to PENDING) / restore the draft, or cancel an agreement that was never stored
+ * - bill: create the billing record / cancel it
+ * - activate: confirm the reservation, then activate the agreement and enqueue the
+ *   AgreementCreated notification and the ItemReserved inventory update in the same transaction;
+ *   the final step, so never compensated
+ */
+export class AgreementSaga {
+
+  constructor(
+    private readonly sagaLog: ISagaLog,
+    private readonly repository: ILeasingRepository,
+    private readonly reservations: IItemReservationStore,
+    private readonly billingService: IBillingService,
+    private readonly stateMachine: AgreementStateMachine,
+    private readonly logger: Logger,
+    private readonly pendingHoldMinutes: number
+  ) {}
+
+  /**
+   * Run a new saga for a draft agreement
+   * @param agreement - Draft agreement to submit and activate
+   * @param correlationId - Correlation ID for logging
+   * @returns Promise<LeasingAgreement> - Activated agreement
+   */
+  async run(agreement: LeasingAgreement, correlationId: string): Promise<LeasingAgreement> {
+    const now = new Date();
+    const saga: AgreementSagaRecord = {
+      id: `saga-${agreement.id}-${now.getTime()}`,
+      agreementId: agreement.id,
+      status: 'RUNNING',
+      agreement,
+      storedDraft: (await this.repository.findById(agreement.id)) !== null,
+      steps: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.sagaLog.save(saga);
+    return withCorrelationId(correlationId, () => this.proceed(saga, agreement, correlationId));
+  }
+
+  /**
+   * Finish sagas left incomplete by a previous process
+   * Sagas past the pivot step are resumed; all others are compensated
+   * @returns Promise<SagaRecoveryResult> - Saga IDs by outcome
+   */
+  async recover(): Promise<SagaRecoveryResult> {
+    const result = { resumed: [] as string[], compensated: [] as string[], failed: [] as string[] };
+
+    for (const saga of await this.sagaLog.findIncomplete()) {
+      const correlationId = `recovery-${saga.id}`;
+      this.logger.warn('Recovering incomplete saga', { correlationId, sagaId: saga.id, status: saga.status });
+
+      try {
+        await withCorrelationId(correlationId, async () => {
+          if (saga.status === 'RUNNING' && this.stepStatus(saga, PIVOT_STEP) === 'COMPLETED') {
+            const current = await this.repository.findById(saga.agreementId) ?? saga.agreement;
+            await this.proceed(saga, current, correlationId);
+            result.resumed.push(saga.id);
+            return;
+          }
+
+          const compensated = await this.compensate(saga, saga.error ?? 'Interrupted before completion', correlationId);
+          (compensated.status === 'COMPENSATED' ? result.compensated : result.failed).push(saga.id);
+        });
+
+      } catch (error) {
+        this.logger.error('Saga recovery failed', { correlationId, sagaId: saga.id }, error as Error);
+        result.failed.push(saga.id);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the remaining steps; compensate completed ones when a step fails
+   */
+  private async proceed(
+    saga: AgreementSagaRecord,
+    agreement: LeasingAgreement,
+    correlationId: string
+  ): Promise<LeasingAgreement> {
+    let current = agreement;
+
+    for (const step of AGREEMENT_SAGA_STEPS) {
+      if (this.stepStatus(saga, step) === 'COMPLETED') {
+        continue;
+      }
+
+      saga = await this.recordStep(saga, step, 'STARTED');
+
+      let result: StepResult;
+      try {
+        result = await this.executeStep(step, current, saga.id, correlationId);
+      } catch (error) {
+        saga = await this.recordStep(saga, step, 'FAILED');
+        await this.compensate(saga, (error as Error).message, correlationId);
+        throw error;
+      }
+
+      current = result.agreement ?? current;
+      saga = await this.recordStep(saga, step, 'COMPLETED', result.data);
+    }
+
+    await this.updateSaga(saga, { status: 'COMPLETED' });
+    return current;
+  }
+
+  private async executeStep(
+    step: AgreementSagaStep,
+    agreement: LeasingAgreement,
+    sagaId: string,
+    correlationId: string
+  ): Promise<StepResult> {
+    switch (step) {
+      case 'reserve': {
+        // A saga that never finishes lets the hold lapse instead of blocking the item
+        await this.reserveItem(agreement, new Date(Date.now() + this.pendingHoldMinutes * 60 * 1000));
+        return {};
+      }
+
+      case 'save': {
+        const saved = await this.stateMachine.transition(agreement, 'submit', { correlationId });
+        return { agreement: saved };
+      }
+
+      case 'bill': {
+        // Keyed by saga: a resumed saga gets its record back, a resubmitted draft gets a new one
+        const billingId = await this.billingService.createBillingRecord(agreement, sagaId);
+        this.logger.info('Billing record created', { correlationId, agreementId: agreement.id, billingId });
+        return { data: { billingId } };
+      }
+
+      case 'activate': {
+        // Fails if the hold lapsed and the period has been reserved by another agreement meanwhile
+        await this.reserveItem(agreement);
+        const activated = agreement.status === 'ACTIVE'
+          ? agreement
+          : await this.stateMachine.transition(agreement, 'activate', {
+            correlationId,
+            events: [
+              createDomainEvent('AgreementCreated', { ...agreement, status: 'ACTIVE' }),
+              createItemReservedEvent({ ...agreement, status: 'ACTIVE' })
+            ]
+          });
+        return { agreement: activated };
+      }
+    }
+  }
+
+  /**
+   * Undo started and completed steps in reverse order
+   * A step that started but never completed (e.g. the process crashed mid-call)
+   * is compensated as well, since its outcome is unknown
+   * @returns Promise<AgreementSagaRecord> - Saga in its final COMPENSATED or FAILED state
+   */
+  private async compensate(
+    saga: AgreementSagaRecord,
+    reason: string,
+    correlationId: string
+  ): Promise<AgreementSagaRecord> {
+    saga = await this.updateSaga(saga, { status: 'COMPENSATING', error: reason });
+    let failed = false;
+
+    for (const step of [...saga.steps].reverse()) {
+      if (step.status !== 'COMPLETED' && step.status !== 'STARTED') {
+        continue;
+      }
+
+      try {
+        await this.compensateStep(saga, step);
+        saga = await this.recordStep(saga, step.name, 'COMPENSATED', step.data);
+      } catch (error) {
+        failed = true;
+        this.logger.error('Compensation failed', {
+          correlationId,
+          sagaId: saga.id,
+          step: step.name
+        }, error as Error);
+      }
+    }
+
+    const status: SagaStatus = failed ? 'FAILED' : 'COMPENSATED';
+    this.logger.warn('Saga compensated', { correlationId, sagaId: saga.id, status, reason });
+
+    return this.updateSaga(saga, { status });
+  }
+
+  private async compensateStep(saga: AgreementSagaRecord, step: SagaStepRecord): Promise<void> {
+    const agreement = saga.agreement;
+
+    switch (step.name) {
+      case 'reserve':
+        await this.reservations.release(agreement.id);
+        return;
+
+      case 'save': {
+        const stored = await this.repository.findById(agreement.id);
+        if (!stored) {
+          return;
+        }
+        // Drafts submitted from a quote go back to DRAFT so they can be resubmitted
+        await this.repository.save(saga.storedDraft
+          ? { ...agreement, version: stored.version, updatedAt: new Date() }
+          : { ...stored, status: 'CANCELLED', updatedAt: new Date() });
+        return;
+      }
+
+      case 'bill': {
+        // Interrupted before the ID was recorded: records are keyed by saga, so asking again
+        // returns the record the interrupted call created, or one to cancel if it never arrived
+        const billingId = step.data?.billingId
+          ?? await this.billingService.createBillingRecord(agreement, saga.id);
+        await this.billingService.cancelBillingRecord(billingId);
+        return;
+      }
+
+      case 'activate':
+        return;
+    }
+  }
+
+  private async reserveItem(agreement: LeasingAgreement, expiresAt?: Date): Promise<void> {
+    const reserved = await this.reservations.reserve(reservationFor(agreement, expiresAt), new Date());
+    if (!reserved) {
+      throw new BusinessRuleError(
+        `Item ${agreement.itemId} could not be reserved`,
+        'ITEM_AVAILABILITY',
+        'ITEM_RESERVATION_FAILED'
+      );
+    }
+  }
+
+  private stepStatus(saga: AgreementSagaRecord, step: AgreementSagaStep): SagaStepStatus | undefined {
+    return saga.steps.find(record => record.name === step)?.status;
+  }
+
+  private async recordStep(
+    saga: AgreementSagaRecord,
+    name: AgreementSagaStep,
+    status: SagaStepStatus,
+    data?: Record<string, string>
+  ): Promise<AgreementSagaRecord> {
+    const record: SagaStepRecord = { name, status, ...(data && { data }), updatedAt: new Date() };
+    const steps = saga.steps.some(step => step.name === name)
+      ? saga.steps.map(step => step.name === name ? record : step)
+      : [...saga.steps, record];
+
+    return this.updateSaga(saga, { steps });
+  }
+
+  private async updateSaga(
+    saga: AgreementSagaRecord,
+    changes: Partial<Pick<AgreementSagaRecord, 'status' | 'steps' | 'error'>>
+  ): Promise<AgreementSagaRecord> {
+    const updated: AgreementSagaRecord = { ...saga, ...changes, updatedAt: new Date() };
+    await this.sagaLog.save(updated);
+    return updated;
+  }
+}
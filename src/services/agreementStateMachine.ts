@@ -0,0 +1,169 @@
+/**
+ * Agreement lifecycle state machine
+ * Single source of truth for legal status transitions, their guards and side effects
+ */
+
+import {
+  LeasingAgreement,
+  AgreementStatus,
+  BusinessRuleError,
+  DomainEvent,
+  DomainEventType,
+  ILeasingRepository,
+  IItemReservationStore
+} from '../types';
+import { Logger } from '../utils/logger';
+import { createDomainEvent } from './domainEvents';
+
+export type AgreementTransition = 'submit' | 'activate' | 'complete' | 'cancel';
+
+/**
+ * Guard evaluated before a transition is applied
+ * Returns a human-readable reason when the transition must be refused
+ */
+export type TransitionGuard = (agreement: LeasingAgreement, now: Date) => string | null;
+
+export interface TransitionEffectContext {
+  readonly before: LeasingAgreement;
+  readonly after: LeasingAgreement;
+  readonly reservations: IItemReservationStore;
+}
+
+/**
+ * Side effect run after the new state has been persisted
+ */
+export type TransitionEffect = (context: TransitionEffectContext) => Promise<void>;
+
+export interface TransitionDefinition {
+  readonly from: AgreementStatus[];
+  readonly to: AgreementStatus;
+  readonly guards: TransitionGuard[];
+  readonly effects: TransitionEffect[];
+  readonly event: DomainEventType; // written to the outbox with the new state
+}
+
+/**
+ * Options applied together with a transition
+ */
+export interface TransitionOptions {
+  /** Additional fields persisted in the same save as the status change */
+  readonly changes?: Partial<Omit<LeasingAgreement, 'id' | 'status' | 'createdAt' | 'updatedAt'>>;
+  /** Events written to the outbox in addition to the transition's own event */
+  readonly events?: DomainEvent[];
+  readonly correlationId?: string;
+}
+
+const hasPaymentSchedule: TransitionGuard = agreement =>
+  agreement.paymentSchedule.length > 0 ? null : 'Agreement has no payment schedule';
+
+const leaseEndedOrSettled: TransitionGuard = (agreement, now) => {
+  const settled = agreement.paymentSchedule.every(
+    payment => payment.status === 'PAID' || payment.status === 'CANCELLED'
+  );
+
+  return settled || agreement.endDate <= now
+    ? null
+    : 'Agreement can only be completed after the lease ends or all payments are settled';
+};
+
+const releaseReservedItem: TransitionEffect = async ({ before, reservations }) => {
+  // Reservations are held under the agreement ID; drafts whose hold lapsed have none left to release
+  await reservations.release(before.id);
+};
+
+export const AGREEMENT_TRANSITIONS: Record<AgreementTransition, TransitionDefinition> = {
+  submit: {
+    from: ['DRAFT'], to: 'PENDING', guards: [hasPaymentSchedule], effects: [], event: 'AgreementSubmitted'
+  },
+  activate: {
+    from: ['PENDING'], to: 'ACTIVE', guards: [hasPaymentSchedule], effects: [], event: 'AgreementActivated'
+  },
+  complete: {
+    from: ['ACTIVE'], to: 'COMPLETED', guards: [leaseEndedOrSettled], effects: [releaseReservedItem], event: 'AgreementCompleted'
+  },
+  cancel: {
+    from: ['DRAFT', 'PENDING', 'ACTIVE'], to: 'CANCELLED', guards: [], effects: [releaseReservedItem], event: 'AgreementCancelled'
+  }
+};
+
+/**
+ * Applies lifecycle transitions to agreements
+ */
+export class AgreementStateMachine {
+
+  constructor(
+    private readonly repository: ILeasingRepository,
+    private readonly reservations: IItemReservationStore,
+    private readonly logger: Logger,
+    private readonly transitions: Record<AgreementTransition, TransitionDefinition> = AGREEMENT_TRANSITIONS
+  ) {}
+
+  /**
+   * Check whether a transition is legal from the agreement's current status
+   * @param agreement - Agreement to check
+   * @param transition - Requested transition
+   * @returns boolean - Whether the transition is allowed from the current status
+   */
+  canTransition(agreement: LeasingAgreement, transition: AgreementTransition): boolean {
+    return this.transitions[transition].from.includes(agreement.status);
+  }
+
+  /**
+   * Apply a transition: validate, persist with its events and run side effects
+   * @param agreement - Agreement in its current state
+   * @param transition - Requested transition
+   * @param options - Extra changes to persist with the transition
+   * @returns Promise<LeasingAgreement> - Agreement in its new state
+   */
+  async transition(
+    agreement: LeasingAgreement,
+    transition: AgreementTransition,
+    options: TransitionOptions = {}
+  ): Promise<LeasingAgreement> {
+
+    const definition = this.transitions[transition];
+    const now = new Date();
+
+    if (!this.canTransition(agreement, transition)) {
+      throw new BusinessRuleError(
+        `Cannot ${transition} an agreement in status ${agreement.status}`,
+        'AGREEMENT_LIFECYCLE',
+        'ILLEGAL_TRANSITION'
+      );
+    }
+
+    for (const guard of definition.guards) {
+      const reason = guard(agreement, now);
+      if (reason) {
+        throw new BusinessRuleError(reason, 'AGREEMENT_LIFECYCLE', 'TRANSITION_GUARD_FAILED');
+      }
+    }
+
+    const next: LeasingAgreement = {
+      ...agreement,
+      ...options.changes,
+      status: definition.to,
+      updatedAt: now
+    };
+
+    // Billing is kept in sync through the outbox event, not by calling it here
+    const updated = await this.repository.save(next, [
+      createDomainEvent(definition.event, next),
+      ...(options.events ?? [])
+    ]);
+
+    for (const effect of definition.effects) {
+      await effect({ before: agreement, after: updated, reservations: this.reservations });
+    }
+
+    this.logger.info('Agreement transitioned', {
+      correlationId: options.correlationId,
+      agreementId: updated.id,
+      transition,
+      from: agreement.status,
+      to: updated.status
+    });
+
+    return updated;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Token issuance service
+ * Exchanges credentials for access tokens and rotates refresh tokens
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import {
+  AuthenticatedUser,
+  AuthenticationError,
+  GrantType,
+  ICredentialVerifier,
+  IRefreshTokenStore,
+  RefreshTokenRecord,
+  TokenRequest,
+  TokenResponse,
+  ValidationError
+} from '../types';
+import { TokenIssuer } from '../auth/tokenIssuer';
+import { Logger } from '../utils/logger';
+
+/**
+ * Credential verifier per supported grant; grants without a verifier are rejected
+ */
+export type CredentialVerifiers = Partial<Record<GrantType, ICredentialVerifier>>;
+
+/**
+ * Hash a refresh token for storage and lookup
+ * @param token - Opaque refresh token
+ * @returns string - Hex-encoded SHA-256 hash
+ */
+export function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issues access tokens and rotating refresh tokens
+ *
+ * Every refresh revokes the presented token and issues a new one in the same
+ * family. Presenting a token that was already rotated means it has leaked, so
+ * the whole family is revoked and the holder must log in again. The family is
+ * also revoked when the account was removed or its role or company changed.
+ */
+export class AuthService {
+
+  constructor(
+    private readonly tokenIssuer: TokenIssuer,
+    private readonly refreshTokenStore: IRefreshTokenStore,
+    private readonly credentialVerifiers: CredentialVerifiers,
+    private readonly refreshTokenTtlSeconds: number,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Exchange credentials for tokens
+   * Service accounts (client_credentials) get no refresh token; they re-authenticate instead
+   * @param request - Token request
+   * @returns Promise<TokenResponse> - Issued tokens
+   */
+  async issueToken(request: TokenRequest): Promise<TokenResponse> {
+    const verifier = this.credentialVerifiers[request.grantType];
+    if (!verifier) {
+      throw new ValidationError(
+        `Unsupported grant type: ${request.grantType}`,
+        'grantType',
+        'UNSUPPORTED_GRANT_TYPE'
+      );
+    }
+
+    const [identifier, secret] = request.grantType === 'password'
+      ? [request.username, request.password]
+      : [request.clientId, request.clientSecret];
+
+    const user = identifier && secret ? await verifier.verify(identifier, secret) : null;
+    if (!user) {
+      this.logger.warn('Token request rejected', { grantType: request.grantType, identifier });
+      throw new AuthenticationError('Invalid credentials', 'INVALID_CREDENTIALS');
+    }
+
+    this.logger.info('Token issued', { grantType: request.grantType, userId: user.id });
+
+    const accessToken = this.tokenIssuer.issue(user);
+    const response: TokenResponse = {
+      accessToken: accessToken.token,
+      tokenType: 'Bearer',
+      expiresIn: accessToken.expiresIn
+    };
+
+    if (request.grantType === 'client_credentials') {
+      return response;
+    }
+
+    const refreshToken = await this.createRefreshToken(user, randomUUID());
+    return { ...response, refreshToken: refreshToken.token };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   * @param token - Refresh token from a previous response
+   * @returns Promise<TokenResponse> - Issued tokens
+   */
+  async refresh(token: string): Promise<TokenResponse> {
+    const now = new Date();
+    const record = await this.refreshTokenStore.findByHash(hashRefreshToken(token));
+
+    if (!record) {
+      throw new AuthenticationError('Refresh token is invalid', 'INVALID_REFRESH_TOKEN');
+    }
+
+    if (record.revokedAt) {
+      if (record.replacedBy) {
+        await this.revokeFamily(record, now);
+      }
+      throw new AuthenticationError('Refresh token has been revoked', 'INVALID_REFRESH_TOKEN');
+    }
+
+    if (record.expiresAt <= now) {
+      throw new AuthenticationError('Refresh token has expired', 'INVALID_REFRESH_TOKEN');
+    }
+
+    // Refresh tokens are only issued for the password grant
+    const user = await this.credentialVerifiers.password?.findUser(record.user.id);
+    if (!user || user.role !== record.user.role || user.companyId !== record.user.companyId) {
+      const revoked = await this.refreshTokenStore.revokeFamily(record.familyId, now);
+      this.logger.warn('Account changed since login; token family revoked', {
+        userId: record.user.id,
+        familyId: record.familyId,
+        revoked
+      });
+      throw new AuthenticationError('Account has changed; log in again', 'INVALID_REFRESH_TOKEN');
+    }
+
+    const next = await this.createRefreshToken(user, record.familyId);
+
+    // Losing this race means another request rotated the same token concurrently
+    if (!await this.refreshTokenStore.revoke(record.tokenHash, now, next.record.tokenHash)) {
+      await this.revokeFamily(record, now);
+      throw new AuthenticationError('Refresh token has been revoked', 'INVALID_REFRESH_TOKEN');
+    }
+
+    const accessToken = this.tokenIssuer.issue(user);
+
+    this.logger.info('Refresh token rotated', { userId: user.id, familyId: record.familyId });
+
+    return {
+      accessToken: accessToken.token,
+      tokenType: 'Bearer',
+      expiresIn: accessToken.expiresIn,
+      refreshToken: next.token
+    };
+  }
+
+  private async createRefreshToken(
+    user: AuthenticatedUser,
+    familyId: string
+  ): Promise<{ token: string; record: RefreshTokenRecord }> {
+    const token = randomBytes(32).toString('base64url');
+    const issuedAt = new Date();
+
+    const record: RefreshTokenRecord = {
+      tokenHash: hashRefreshToken(token),
+      familyId,
+      user,
+      issuedAt,
+      expiresAt: new Date(issuedAt.getTime() + this.refreshTokenTtlSeconds * 1000)
+    };
+
+    await this.refreshTokenStore.save(record);
+    return { token, record };
+  }
+
+  private async revokeFamily(record: RefreshTokenRecord, now: Date): Promise<void> {
+    const revoked = await this.refreshTokenStore.revokeFamily(record.familyId, now);
+    this.logger.warn('Refresh token reuse detected; token family revoked', {
+      userId: record.user.id,
+      familyId: record.familyId,
+      revoked
+    });
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Cancellation settlement rules
+ * Computes how the payment schedule, refund credit and penalty are affected
+ * when an agreement is cancelled
+ */
+
+import { LeasingAgreement, PaymentSchedule } from '../types';
+import { Money } from '../utils/money';
+
+export interface CancellationSettlement {
+  readonly paymentSchedule: PaymentSchedule[];
+  readonly refundCredit: Money;
+  readonly penalty: Money;
+  readonly earlyTermination: boolean;
+}
+
+export interface CancellationOptions {
+  readonly cancelledAt: Date;
+  readonly applyPenalty: boolean;
+  readonly penaltyRate: number;
+}
+
+/**
+ * Calculate the settlement for cancelling an agreement
+ *
+ * - Unpaid entries (PENDING, OVERDUE) are cancelled
+ * - Each paid entry covers the period up to the next due date (the last one
+ *   up to the lease end); the unused share of that period is credited back.
+ *   Partially paid entries are credited the same way for the amount paid
+ * - When the lease is terminated before its end date and a penalty is
+ *   requested, the penalty is `penaltyRate` of the cancelled outstanding amount
+ *
+ * @param agreement - Agreement being cancelled
+ * @param options - Cancellation date and penalty settings
+ * @returns CancellationSettlement - Updated schedule and amounts
+ */
+export function calculateCancellationSettlement(
+  agreement: LeasingAgreement,
+  options: CancellationOptions
+): CancellationSettlement {
+
+  const cancelledAt = options.cancelledAt.getTime();
+  let refundCreditMinor = 0; // prorated shares are summed exactly and rounded once
+  let cancelledOutstanding = Money.zero(agreement.currency);
+
+  // Share of the period covered by an entry that lies after the cancellation
+  const unusedShare = (index: number): number => {
+    const periodStart = agreement.paymentSchedule[index].dueDate.getTime();
+    const nextPayment = agreement.paymentSchedule[index + 1];
+    const periodEnd = (nextPayment ? nextPayment.dueDate : agreement.endDate).getTime();
+
+    if (periodEnd <= periodStart) {
+      return 0;
+    }
+    const unused = (periodEnd - Math.max(cancelledAt, periodStart)) / (periodEnd - periodStart);
+    return Math.min(Math.max(unused, 0), 1);
+  };
+
+  const paymentSchedule = agreement.paymentSchedule.map((payment, index): PaymentSchedule => {
+    if (payment.status === 'PENDING' || payment.status === 'OVERDUE') {
+      // A partial payment is credited like a paid entry; only the rest is cancelled
+      cancelledOutstanding = cancelledOutstanding.plus(payment.amount.minus(payment.paidAmount));
+      refundCreditMinor += payment.paidAmount.minorUnits * unusedShare(index);
+      return { ...payment, status: 'CANCELLED' };
+    }
+
+    if (payment.status === 'PAID') {
+      refundCreditMinor += payment.amount.minorUnits * unusedShare(index);
+    }
+
+    return payment;
+  });
+
+  const earlyTermination = cancelledAt < agreement.endDate.getTime();
+  const penalty = earlyTermination && options.applyPenalty
+    ? cancelledOutstanding.times(options.penaltyRate)
+    : Money.zero(agreement.currency);
+
+  return {
+    paymentSchedule,
+    refundCredit: Money.ofMinor(Math.round(refundCreditMinor), agreement.currency),
+    penalty,
+    earlyTermination
+  };
+}
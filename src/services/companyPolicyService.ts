@@ -0,0 +1,159 @@
+/**
+ * Company policy administration
+ * Stores the leasing terms companies negotiated as overrides of the global configuration
+ */
+
+import {
+  AppliedLeasingPolicy,
+  AuthenticatedUser,
+  BusinessRuleError,
+  CompanyPolicy,
+  ICompanyPolicyStore,
+  LeasingConfig,
+  NotFoundError,
+  ValidationError
+} from '../types';
+import { AccessPolicy } from '../auth/accessPolicy';
+import { Logger } from '../utils/logger';
+import { Validator } from '../utils/validation';
+import { CurrencyRegistry } from './currencyRegistry';
+import { createLeasingPolicy } from './leasingPolicy';
+
+/**
+ * A company's overrides and the policy they result in
+ */
+export interface CompanyPolicyView {
+  readonly policy: CompanyPolicy;
+  readonly effective: AppliedLeasingPolicy;
+}
+
+/**
+ * Manages companies' overrides; LeasingAgreementService applies them
+ */
+export class CompanyPolicyService {
+
+  /**
+   * @param store - Company policy store
+   * @param defaults - Global leasing configuration the overrides are layered on
+   * @param accessPolicy - Decides which companies a caller may manage
+   * @param logger - Logger
+   */
+  constructor(
+    private readonly store: ICompanyPolicyStore,
+    private readonly defaults: LeasingConfig,
+    private readonly accessPolicy: AccessPolicy,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * List the policies of the companies the caller may access
+   * @param user - Authenticated caller
+   * @returns Promise<CompanyPolicyView[]> - Policies in company ID order
+   */
+  async listPolicies(user: AuthenticatedUser): Promise<CompanyPolicyView[]> {
+    const policies = await this.store.findAll();
+
+    return policies
+      .filter(policy => this.accessPolicy.canAccessCompany(user, policy.companyId))
+      .map(policy => this.view(policy));
+  }
+
+  /**
+   * Read a company's policy
+   * @param companyId - Company ID
+   * @param user - Authenticated caller
+   * @returns Promise<CompanyPolicyView> - Overrides and the policy in effect
+   */
+  async getPolicy(companyId: string, user: AuthenticatedUser): Promise<CompanyPolicyView> {
+    this.accessPolicy.assertCompanyAccess(user, companyId);
+    return this.view(await this.findPolicy(companyId));
+  }
+
+  /**
+   * Replace a company's overrides
+   * Overrides that would make the company's policy invalid, e.g. a minimum duration
+   * above the default maximum, are rejected
+   * @param companyId - Company ID
+   * @param overrides - Raw overrides from the request body
+   * @param user - Authenticated caller
+   * @returns Promise<{ view: CompanyPolicyView; created: boolean }> - Stored policy, and whether the company had none
+   */
+  async setPolicy(
+    companyId: string,
+    overrides: unknown,
+    user: AuthenticatedUser
+  ): Promise<{ view: CompanyPolicyView; created: boolean }> {
+    Validator.validateCompanyId(companyId);
+    this.accessPolicy.assertCompanyAccess(user, companyId);
+
+    const policy: CompanyPolicy = {
+      companyId,
+      overrides: Validator.validateCompanyPolicyOverrides(
+        overrides,
+        new CurrencyRegistry(this.defaults).baseCurrencyOf(companyId)
+      ),
+      updatedBy: user.id,
+      updatedAt: new Date()
+    };
+    const view = this.view(policy, error => new ValidationError(error.message, 'overrides', 'INVALID_POLICY'));
+
+    const created = !await this.store.findByCompanyId(companyId);
+    await this.store.save(policy);
+
+    this.logger.info('Company policy saved', {
+      companyId,
+      overriddenFields: view.effective.overriddenFields,
+      updatedBy: user.id
+    });
+
+    return { view, created };
+  }
+
+  /**
+   * Remove a company's overrides; its agreements follow the global defaults again
+   * @param companyId - Company ID
+   * @param user - Authenticated caller
+   */
+  async deletePolicy(companyId: string, user: AuthenticatedUser): Promise<void> {
+    this.accessPolicy.assertCompanyAccess(user, companyId);
+
+    if (!await this.store.delete(companyId)) {
+      throw this.notFound(companyId);
+    }
+
+    this.logger.info('Company policy deleted', { companyId, deletedBy: user.id });
+  }
+
+  private async findPolicy(companyId: string): Promise<CompanyPolicy> {
+    const policy = await this.store.findByCompanyId(companyId);
+    if (!policy) {
+      throw this.notFound(companyId);
+    }
+    return policy;
+  }
+
+  /**
+   * @param policy - Company's overrides
+   * @param onInvalid - Error to throw when the overrides do not apply to the defaults;
+   *   stored overrides can conflict with defaults changed after they were saved
+   * @returns CompanyPolicyView - Overrides and the policy in effect
+   */
+  private view(
+    policy: CompanyPolicy,
+    onInvalid: (error: Error) => Error = error => new BusinessRuleError(
+      `Leasing policy of company ${policy.companyId} is invalid: ${error.message}`,
+      'COMPANY_POLICY',
+      'INVALID_COMPANY_POLICY'
+    )
+  ): CompanyPolicyView {
+    try {
+      return { policy, effective: createLeasingPolicy(this.defaults, policy).describe(policy.companyId) };
+    } catch (error) {
+      throw onInvalid(error as Error);
+    }
+  }
+
+  private notFound(companyId: string): NotFoundError {
+    return new NotFoundError(`Company ${companyId} has no policy overrides`, 'companyPolicy', 'POLICY_NOT_FOUND');
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Currency registry
+ * Currencies agreements can be priced in and the base currency of each company
+ */
+
+import { CurrencyCode, LeasingConfig } from '../types';
+import { isKnownCurrency } from '../utils/money';
+
+export type CurrencyRegistryConfig = Pick<LeasingConfig, 'supportedCurrencies' | 'baseCurrency' | 'companyBaseCurrencies'>;
+
+export class CurrencyRegistry {
+
+  private readonly supported: ReadonlySet<CurrencyCode>;
+
+  /**
+   * Invalid configuration is rejected so that startup fails
+   * @param config - Supported currencies and base currencies
+   */
+  constructor(private readonly config: CurrencyRegistryConfig) {
+    if (config.supportedCurrencies.length === 0) {
+      throw new Error('At least one currency must be supported');
+    }
+
+    const configured: Array<[string, CurrencyCode]> = [
+      ...config.supportedCurrencies.map((code): [string, CurrencyCode] => ['Supported currency', code]),
+      ['Base currency', config.baseCurrency],
+      ...Object.entries(config.companyBaseCurrencies)
+        .map(([companyId, code]): [string, CurrencyCode] => [`Base currency of company ${companyId}`, code])
+    ];
+
+    for (const [name, code] of configured) {
+      if (!isKnownCurrency(code)) {
+        throw new Error(`${name} ${code} is not a known ISO 4217 currency`);
+      }
+    }
+
+    this.supported = new Set(config.supportedCurrencies);
+  }
+
+  /**
+   * @returns CurrencyCode[] - Currencies agreements can be priced in, in configured order
+   */
+  get supportedCurrencies(): CurrencyCode[] {
+    return [...this.supported];
+  }
+
+  isSupported(currency: string): boolean {
+    return this.supported.has(currency);
+  }
+
+  /**
+   * Currency price limits and reports are evaluated in
+   * @param companyId - Company ID
+   * @returns CurrencyCode - Company's base currency, or the default base currency
+   */
+  baseCurrencyOf(companyId: string): CurrencyCode {
+    return this.config.companyBaseCurrencies[companyId] ?? this.config.baseCurrency;
+  }
+}
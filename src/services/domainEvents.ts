@@ -0,0 +1,63 @@
+/**
+ * Domain event factories
+ * Events are written to the outbox together with the agreement they describe
+ * and delivered later by the OutboxDispatcher
+ */
+
+import { randomUUID } from 'crypto';
+import { DomainEvent, DomainEventType, LeasingAgreement, PaymentSchedule } from '../types';
+
+/**
+ * Build an event about an agreement
+ * The payload always carries the employee and the agreement status at the time of the event
+ * @param type - Event type
+ * @param agreement - Agreement in the state the event describes
+ * @param payload - Additional payload fields
+ * @returns DomainEvent - Event ready to be stored
+ */
+export function createDomainEvent(
+  type: DomainEventType,
+  agreement: LeasingAgreement,
+  payload: Record<string, string | number> = {}
+): DomainEvent {
+  return {
+    id: `evt-${randomUUID()}`,
+    type,
+    agreementId: agreement.id,
+    payload: { employeeId: agreement.employeeId, status: agreement.status, ...payload },
+    occurredAt: new Date()
+  };
+}
+
+/**
+ * Build a PaymentDue event for one schedule entry
+ * @param agreement - Agreement the payment belongs to
+ * @param payment - Payment that is due
+ * @returns DomainEvent - Event ready to be stored
+ */
+export function createPaymentDueEvent(agreement: LeasingAgreement, payment: PaymentSchedule): DomainEvent {
+  return createDomainEvent('PaymentDue', agreement, {
+    paymentId: payment.id,
+    dueDate: payment.dueDate.toISOString(),
+    amount: payment.amount.toNumber(),
+    netAmount: payment.netAmount.toNumber(),
+    taxAmount: payment.taxAmount.toNumber(),
+    paidAmount: payment.paidAmount.toNumber(),
+    currency: payment.amount.currency,
+    paymentStatus: payment.status,
+    attemptCount: payment.attemptCount
+  });
+}
+
+/**
+ * Build an ItemReserved event for an agreement's confirmed reservation
+ * @param agreement - Agreement holding the reservation
+ * @returns DomainEvent - Event ready to be stored
+ */
+export function createItemReservedEvent(agreement: LeasingAgreement): DomainEvent {
+  return createDomainEvent('ItemReserved', agreement, {
+    itemId: agreement.itemId,
+    startDate: agreement.startDate.toISOString(),
+    endDate: agreement.endDate.toISOString()
+  });
+}
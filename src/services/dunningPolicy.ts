@@ -0,0 +1,103 @@
+/**
+ * Dunning rules
+ * Decides which reminder or dunning notice a schedule entry is due for and when it becomes overdue
+ */
+
+import { AppConfig } from '../config';
+import { PaymentSchedule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DunningNotice = 'REMINDER' | 'DUNNING';
+
+export interface DunningStage {
+  readonly notice: DunningNotice;
+  readonly offsetDays: number; // relative to the due date; negative before it
+}
+
+export interface DunningPolicy {
+  readonly gracePeriodDays: number;
+  readonly stages: DunningStage[]; // in offset order
+}
+
+export interface DunningStep {
+  readonly payment: PaymentSchedule; // entry with its new status, attempt count and attempt date
+  readonly notice?: DunningNotice; // notice for the stage reached; absent when the entry is only flagged
+  readonly flaggedOverdue: boolean;
+  readonly finalStage: boolean; // no further notices will be sent
+}
+
+/**
+ * Build the stage list from configuration
+ * Reminders are sent the configured number of days before the due date; dunning
+ * notices the configured number of days after the grace period has ended
+ * @param config - Dunning configuration
+ * @returns DunningPolicy - Grace period and stages in offset order
+ */
+export function createDunningPolicy(config: AppConfig['dunning']): DunningPolicy {
+  const reminders = [...config.reminderDays]
+    .sort((a, b) => b - a)
+    .map((days): DunningStage => ({ notice: 'REMINDER', offsetDays: -days }));
+
+  const escalations = [...config.escalationDays]
+    .sort((a, b) => a - b)
+    .map((days): DunningStage => ({ notice: 'DUNNING', offsetDays: config.gracePeriodDays + days }));
+
+  return { gracePeriodDays: config.gracePeriodDays, stages: [...reminders, ...escalations] };
+}
+
+/**
+ * Evaluate one schedule entry
+ *
+ * - Only unsettled entries (PENDING, OVERDUE) are dunned
+ * - A PENDING entry becomes OVERDUE once the grace period after its due date has passed
+ * - `attemptCount` is the number of the last stage reached. When a later stage is reached,
+ *   one notice is sent for it; stages passed while nothing was evaluated are skipped, so
+ *   an outage never results in a burst of notices
+ *
+ * @param payment - Schedule entry
+ * @param now - Evaluation time
+ * @param policy - Dunning policy
+ * @returns DunningStep | null - Change to apply, or null when the entry is up to date
+ */
+export function evaluateDunning(
+  payment: PaymentSchedule,
+  now: Date,
+  policy: DunningPolicy
+): DunningStep | null {
+
+  if (payment.status !== 'PENDING' && payment.status !== 'OVERDUE') {
+    return null;
+  }
+
+  const elapsedDays = (now.getTime() - payment.dueDate.getTime()) / DAY_MS;
+  const flaggedOverdue = payment.status === 'PENDING' && elapsedDays >= policy.gracePeriodDays;
+  const stageReached = policy.stages.filter(stage => stage.offsetDays <= elapsedDays).length;
+  const advanced = stageReached > payment.attemptCount;
+
+  if (!flaggedOverdue && !advanced) {
+    return null;
+  }
+
+  return {
+    payment: {
+      ...payment,
+      status: flaggedOverdue ? 'OVERDUE' : payment.status,
+      ...(advanced && { attemptCount: stageReached, lastAttemptDate: now })
+    },
+    notice: advanced ? policy.stages[stageReached - 1].notice : undefined,
+    flaggedOverdue,
+    finalStage: advanced && stageReached === policy.stages.length
+  };
+}
+
+/**
+ * Earliest due date, relative to now, that may need attention
+ * @param now - Evaluation time
+ * @param policy - Dunning policy
+ * @returns Date - Entries due before this date are candidates
+ */
+export function dunningHorizon(now: Date, policy: DunningPolicy): Date {
+  const earliestOffset = Math.min(policy.gracePeriodDays, ...policy.stages.map(stage => stage.offsetDays));
+  return new Date(now.getTime() - earliestOffset * DAY_MS + 1);
+}
@@ -0,0 +1,149 @@
+/**
+ * Dunning scheduler
+ * Periodically sends payment reminders, flags overdue payments and escalates
+ * through the dunning stages. Notices are PaymentDue events delivered by the OutboxDispatcher
+ */
+
+import { AppConfig } from '../config';
+import { IClock, ILeasingRepository } from '../types';
+import { Logger } from '../utils/logger';
+import { createPaymentDueEvent } from './domainEvents';
+import { DunningPolicy, createDunningPolicy, dunningHorizon, evaluateDunning } from './dunningPolicy';
+
+export interface DunningRunResult {
+  readonly reminded: number;
+  readonly flaggedOverdue: number;
+  readonly escalated: number;
+}
+
+/**
+ * Evaluates unsettled payments of active agreements against the dunning policy
+ * Safe to run on several instances: each entry is updated with a compare-and-set on
+ * its attempt count, and the notice is written in the same transaction
+ */
+export class DunningScheduler {
+
+  private readonly policy: DunningPolicy;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<DunningRunResult>;
+
+  constructor(
+    private readonly repository: ILeasingRepository,
+    private readonly config: AppConfig['dunning'],
+    private readonly clock: IClock,
+    private readonly logger: Logger
+  ) {
+    this.policy = createDunningPolicy(config);
+  }
+
+  /**
+   * Start running periodically; a run is skipped while the previous one is still running
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (!this.running) {
+        this.running = this.runOnce()
+          .catch(error => {
+            this.logger.error('Dunning run failed', {}, error as Error);
+            return { reminded: 0, flaggedOverdue: 0, escalated: 0 };
+          })
+          .finally(() => { this.running = undefined; });
+      }
+    }, this.config.intervalMs);
+
+    // Scheduling alone must not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Stop running and wait for a running pass to finish
+   */
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.running;
+  }
+
+  /**
+   * Evaluate every candidate entry once
+   * @returns Promise<DunningRunResult> - Counts of notices sent and entries flagged
+   */
+  async runOnce(): Promise<DunningRunResult> {
+    const now = this.clock.now();
+    const dueBefore = dunningHorizon(now, this.policy);
+    const result = { reminded: 0, flaggedOverdue: 0, escalated: 0 };
+
+    let afterId: string | undefined;
+    for (;;) {
+      const agreements = await this.repository.findWithUnsettledPaymentsDueBefore(
+        dueBefore,
+        afterId,
+        this.config.batchSize
+      );
+
+      for (const agreement of agreements) {
+        for (const payment of agreement.paymentSchedule) {
+          const step = evaluateDunning(payment, now, this.policy);
+          if (!step) {
+            continue;
+          }
+
+          try {
+            const events = step.notice
+              ? [{ ...createPaymentDueEvent(agreement, step.payment), occurredAt: now }]
+              : [];
+
+            // A concurrent change wins; the entry is evaluated again on the next run
+            const updated = await this.repository.updatePaymentDunning(
+              agreement.id,
+              step.payment,
+              payment.attemptCount,
+              events
+            );
+            if (!updated) {
+              continue;
+            }
+
+            if (step.flaggedOverdue) {
+              result.flaggedOverdue++;
+            }
+            if (step.notice === 'REMINDER') {
+              result.reminded++;
+            }
+            if (step.notice === 'DUNNING') {
+              result.escalated++;
+            }
+            if (step.finalStage) {
+              this.logger.warn('Final dunning stage reached', {
+                agreementId: agreement.id,
+                paymentId: payment.id,
+                attemptCount: step.payment.attemptCount
+              });
+            }
+
+          } catch (error) {
+            this.logger.error('Dunning failed for payment', {
+              agreementId: agreement.id,
+              paymentId: payment.id
+            }, error as Error);
+          }
+        }
+      }
+
+      if (agreements.length < this.config.batchSize) {
+        break;
+      }
+      afterId = agreements[agreements.length - 1].id;
+    }
+
+    if (result.reminded + result.flaggedOverdue + result.escalated > 0) {
+      this.logger.info('Dunning run completed', { ...result });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Exchange rates from a local rate table
+ * Tables are loaded from configuration; the latest table in effect at the requested time applies
+ */
+
+import { BusinessRuleError, CurrencyCode, ExchangeRate, ExchangeRateTable, IExchangeRateService } from '../types';
+import { isKnownCurrency } from '../utils/money';
+
+// Rates are stored with 10 decimal places; round cross rates the same way
+const RATE_PRECISION = 1e10;
+
+interface RateTable {
+  readonly asOf: Date;
+  readonly rates: ReadonlyMap<CurrencyCode, number>; // per unit of the table's base, which has rate 1
+}
+
+/**
+ * IExchangeRateService backed by configured rate tables
+ * Any two currencies of the same table can be converted through its base currency
+ */
+export class LocalExchangeRateService implements IExchangeRateService {
+
+  private readonly tables: RateTable[];
+
+  /**
+   * Invalid tables are rejected so that startup fails
+   * @param tables - Rate tables, in any order
+   * @param source - Recorded on every rate, e.g. the provider the tables were exported from
+   */
+  constructor(tables: ExchangeRateTable[], private readonly source = 'local') {
+    this.tables = tables
+      .map(table => toRateTable(table))
+      .sort((a, b) => b.asOf.getTime() - a.asOf.getTime());
+  }
+
+  /**
+   * @param from - Currency converted from
+   * @param to - Currency converted to
+   * @param at - Time the rate must be in effect
+   * @returns Promise<ExchangeRate> - Rate from the latest table in effect that has both currencies
+   */
+  async getRate(from: CurrencyCode, to: CurrencyCode, at: Date): Promise<ExchangeRate> {
+    if (from === to) {
+      return { from, to, rate: 1, asOf: at, source: this.source };
+    }
+
+    const table = this.tables.find(candidate =>
+      candidate.asOf <= at && candidate.rates.has(from) && candidate.rates.has(to));
+
+    if (!table) {
+      throw new BusinessRuleError(
+        `No exchange rate from ${from} to ${to} is available for ${at.toISOString()}`,
+        'EXCHANGE_RATE',
+        'EXCHANGE_RATE_UNAVAILABLE'
+      );
+    }
+
+    const rate = table.rates.get(to)! / table.rates.get(from)!;
+
+    return {
+      from,
+      to,
+      rate: Math.round(rate * RATE_PRECISION) / RATE_PRECISION,
+      asOf: table.asOf,
+      source: this.source
+    };
+  }
+}
+
+function toRateTable(table: ExchangeRateTable): RateTable {
+  const asOf = new Date(table.asOf);
+  if (Number.isNaN(asOf.getTime())) {
+    throw new Error(`Exchange rate table has an invalid date: ${table.asOf}`);
+  }
+
+  const rates = new Map<CurrencyCode, number>([[table.base, 1]]);
+  for (const [currency, rate] of Object.entries(table.rates)) {
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Exchange rate for ${currency} on ${table.asOf} must be a positive number`);
+    }
+    rates.set(currency, rate);
+  }
+
+  for (const currency of rates.keys()) {
+    if (!isKnownCurrency(currency)) {
+      throw new Error(`Exchange rate table for ${table.asOf} has unknown currency ${currency}`);
+    }
+  }
+
+  return { asOf, rates };
+}
@@ -11,15 +11,41 @@ import {
   EmployeeType,
   ValidationError,
   BusinessRuleError,
+  NotFoundError,
+  AuthenticatedUser,
+  AgreementListQuery,
+  AgreementPage,
+  CancelAgreementRequest,
+  QuoteAgreementRequest,
+  AgreementQuote,
+  CostBreakdown,
+  AppliedPricingRule,
+  PricingRuleType,
   LeasingConfig,
   ILeasingRepository,
-  INotificationService,
   IInventoryService,
   IBillingService,
-  IEmployeeService
+  IEmployeeService,
+  IExchangeRateService,
+  IItemReservationStore,
+  ISagaLog,
+  AgreementSagaRecord,
+  ExchangeRate,
+  ICompanyPolicyStore,
+  DayCountConvention
 } from '../types';
 import { Validator } from '../utils/validation';
+import { billingPeriods, monthsBetween } from '../utils/dayCount';
+import { Money } from '../utils/money';
 import { Logger } from '../utils/logger';
+import { currentCorrelationId } from '../utils/correlation';
+import { AccessPolicy } from '../auth/accessPolicy';
+import { AgreementStateMachine, AgreementTransition } from './agreementStateMachine';
+import { AgreementSaga, SagaRecoveryResult, reservationFor } from './agreementSaga';
+import { calculateCancellationSettlement } from './cancellationPolicy';
+import { calculateTax } from './taxPolicy';
+import { PricingContext } from './pricingEngine';
+import { LeasingPolicy, createLeasingPolicy } from './leasingPolicy';
 
 /**
  * Main service class for leasing agreement operations
@@ -27,15 +53,35 @@ import { Logger } from '../utils/logger';
  */
 export class LeasingAgreementService {
   
+  private readonly stateMachine: AgreementStateMachine;
+  private readonly saga: AgreementSaga;
+  private readonly defaultPolicy: LeasingPolicy;
+
   constructor(
     private readonly repository: ILeasingRepository,
-    private readonly notificationService: INotificationService,
     private readonly inventoryService: IInventoryService,
     private readonly billingService: IBillingService,
     private readonly employeeService: IEmployeeService,
     private readonly config: LeasingConfig,
-    private readonly logger: Logger
-  ) {}
+    private readonly logger: Logger,
+    private readonly accessPolicy: AccessPolicy,
+    private readonly sagaLog: ISagaLog,
+    private readonly exchangeRateService: IExchangeRateService,
+    private readonly reservations: IItemReservationStore,
+    private readonly companyPolicies: ICompanyPolicyStore
+  ) {
+    this.stateMachine = new AgreementStateMachine(repository, reservations, logger);
+    this.saga = new AgreementSaga(
+      sagaLog,
+      repository,
+      reservations,
+      billingService,
+      this.stateMachine,
+      logger,
+      config.reservationHoldMinutes.pending
+    );
+    this.defaultPolicy = createLeasingPolicy(config);
+  }
 
   /**
    * Process new leasing agreement with full transaction support
@@ -52,70 +98,419 @@ export class LeasingAgreementService {
         itemId: request.itemId 
       });
 
-      // Step 1: Validate input thoroughly
-      await Validator.validateCreateAgreementRequest(request);
+      // Step 1: Validate input thoroughly, against the company's negotiated terms
+      const policy = await this.policyFor(request.companyId);
+      await Validator.validateCreateAgreementRequest(request, policy.requestLimits);
       
       // Step 2: Business rule validation
       await this.validateBusinessRules(request);
       
-      // Step 3: Create agreement object
-      const agreement = await this.createAgreementFromRequest(request);
+      // Step 3: Create agreement object; checks the price limit in the company's base currency
+      const { agreement } = await this.createAgreementFromRequest(request, policy);
       
       // Step 4: Execute transaction with rollback capability
       return await this.executeAgreementTransaction(agreement, correlationId);
       
-    } catch (error:any) {
+    } catch (error: unknown) {
       this.logger.error('Failed to process leasing agreement', { 
         correlationId, 
-        error: error.message,
+        error: error instanceof Error ? error.message : String(error),
         request 
       });
       throw error;
     }
   }
 
+  /**
+   * Price an agreement request without reserving inventory
+   * Optionally stores the result as a DRAFT agreement that can be submitted later;
+   * a draft holds its item for the lease period until the draft hold lapses
+   * @param request - Agreement request to quote
+   * @returns Promise<{ quote: AgreementQuote; draft?: LeasingAgreement }> - Quote and saved draft
+   */
+  async quoteAgreement(
+    request: QuoteAgreementRequest
+  ): Promise<{ quote: AgreementQuote; draft?: LeasingAgreement }> {
+
+    const policy = await this.policyFor(request.companyId);
+    await Validator.validateCreateAgreementRequest(request, policy.requestLimits);
+    await this.validateEmployee(request.employeeId, request.companyId);
+
+    const { agreement, breakdown } = await this.createAgreementFromRequest(request, policy);
+    const itemAvailable = await this.checkItemAvailability(agreement.itemId, agreement.startDate, agreement.endDate);
+
+    const quote: AgreementQuote = {
+      breakdown,
+      currency: agreement.currency,
+      paymentFrequency: request.paymentFrequency,
+      paymentSchedule: agreement.paymentSchedule,
+      itemAvailable
+    };
+
+    if (!request.saveAsDraft) {
+      return { quote };
+    }
+
+    const draft = await this.repository.save(agreement);
+
+    // A draft is saved even without a hold; submitting it checks availability again
+    const now = new Date();
+    const itemHeld = itemAvailable && await this.reservations.reserve(
+      reservationFor(draft, new Date(now.getTime() + this.config.reservationHoldMinutes.draft * 60 * 1000)),
+      now
+    );
+
+    this.logger.info('Draft agreement saved', {
+      agreementId: draft.id,
+      employeeId: draft.employeeId,
+      itemHeld
+    });
+
+    return { quote: { ...quote, itemAvailable: itemHeld }, draft };
+  }
+
+  /**
+   * Submit a DRAFT agreement: reserve inventory, bill and activate it
+   * @param agreementId - Draft agreement ID
+   * @param user - Authenticated caller
+   * @returns Promise<LeasingAgreement> - Activated agreement
+   */
+  async submitAgreement(agreementId: string, user: AuthenticatedUser): Promise<LeasingAgreement> {
+    const correlationId = this.generateCorrelationId();
+    const draft = await this.getAgreement(agreementId, user);
+
+    if (draft.status !== 'DRAFT') {
+      throw new BusinessRuleError(
+        `Only draft agreements can be submitted; agreement is ${draft.status}`,
+        'AGREEMENT_LIFECYCLE',
+        'ILLEGAL_TRANSITION'
+      );
+    }
+
+    // Drafts may sit for a while; the lease must not have started yet
+    if (draft.startDate < new Date(new Date().toDateString())) {
+      throw new BusinessRuleError(
+        'Draft start date is in the past; request a new quote',
+        'DRAFT_VALIDITY',
+        'DRAFT_EXPIRED'
+      );
+    }
+
+    await this.validateEmployee(draft.employeeId, draft.companyId);
+    // The draft's own hold does not count against it
+    await this.assertItemAvailable(draft.itemId, draft.startDate, draft.endDate, draft.id);
+
+    return this.executeAgreementTransaction(draft, correlationId);
+  }
+
+  /**
+   * Check whether an item can be leased for a period
+   * @param itemId - Item ID
+   * @param startDate - Start of the period
+   * @param endDate - End of the period, exclusive
+   * @param excludeAgreementId - Agreement whose own reservation is ignored
+   * @returns Promise<boolean> - Whether the item is leasable and no reservation in effect overlaps the period
+   */
+  async checkItemAvailability(
+    itemId: string,
+    startDate: Date,
+    endDate: Date,
+    excludeAgreementId?: string
+  ): Promise<boolean> {
+    if (!await this.inventoryService.checkAvailability(itemId)) {
+      return false;
+    }
+
+    return this.reservations.isAvailable(itemId, startDate, endDate, new Date(), excludeAgreementId);
+  }
+
+  /**
+   * Retrieve a single agreement on behalf of an authenticated caller
+   * @param agreementId - Agreement ID
+   * @param user - Authenticated caller
+   * @returns Promise<LeasingAgreement> - Stored agreement with payment schedule
+   */
+  async getAgreement(agreementId: string, user: AuthenticatedUser): Promise<LeasingAgreement> {
+    const agreement = await this.repository.findById(agreementId);
+
+    if (!agreement) {
+      throw new NotFoundError(
+        `Agreement ${agreementId} not found`,
+        'agreement',
+        'AGREEMENT_NOT_FOUND'
+      );
+    }
+
+    await this.assertAgreementAccess(agreement, user);
+    return agreement;
+  }
+
+  /**
+   * Move an agreement through its lifecycle on behalf of an authenticated caller
+   * @param agreementId - Agreement ID
+   * @param transition - Requested lifecycle transition
+   * @param user - Authenticated caller
+   * @returns Promise<LeasingAgreement> - Agreement in its new state
+   */
+  async transitionAgreement(
+    agreementId: string,
+    transition: Extract<AgreementTransition, 'activate' | 'complete'>,
+    user: AuthenticatedUser
+  ): Promise<LeasingAgreement> {
+    const agreement = await this.getAgreement(agreementId, user);
+
+    return this.stateMachine.transition(agreement, transition, {
+      correlationId: this.generateCorrelationId()
+    });
+  }
+
+  /**
+   * Cancel an agreement, settling its payment schedule
+   * Unpaid payments are cancelled, unused paid periods are credited back and an
+   * early termination penalty is charged when requested
+   * @param agreementId - Agreement ID
+   * @param request - Cancellation reason and penalty option
+   * @param user - Authenticated caller
+   * @returns Promise<LeasingAgreement> - Cancelled agreement with its settlement
+   */
+  async cancelAgreement(
+    agreementId: string,
+    request: CancelAgreementRequest,
+    user: AuthenticatedUser
+  ): Promise<LeasingAgreement> {
+    Validator.validateCancelAgreementRequest(request);
+
+    const agreement = await this.getAgreement(agreementId, user);
+    const policy = await this.policyFor(agreement.companyId);
+    const cancelledAt = new Date();
+
+    const settlement = calculateCancellationSettlement(agreement, {
+      cancelledAt,
+      applyPenalty: request.applyPenalty === true,
+      penaltyRate: policy.config.earlyTerminationPenaltyRate
+    });
+
+    const cancelled = await this.stateMachine.transition(agreement, 'cancel', {
+      correlationId: this.generateCorrelationId(),
+      changes: {
+        paymentSchedule: settlement.paymentSchedule,
+        cancellation: {
+          reason: request.reason.trim(),
+          cancelledBy: user.id,
+          cancelledAt,
+          refundCredit: settlement.refundCredit,
+          penalty: settlement.penalty
+        }
+      }
+    });
+
+    this.logger.info('Agreement cancelled', {
+      agreementId,
+      cancelledBy: user.id,
+      earlyTermination: settlement.earlyTermination,
+      refundCredit: settlement.refundCredit,
+      penalty: settlement.penalty
+    });
+
+    return cancelled;
+  }
+
+  /**
+   * List agreements of an employee, one page at a time
+   * Employees see their own agreements, managers those of their direct reports;
+   * callers without cross-company access only see agreements of their own company
+   * @param employeeId - Employee ID
+   * @param query - Filters, sort order and pagination cursor
+   * @param user - Authenticated caller
+   * @returns Promise<AgreementPage> - Page of agreements and cursor for the next page
+   */
+  async getEmployeeAgreements(
+    employeeId: string,
+    query: AgreementListQuery,
+    user: AuthenticatedUser
+  ): Promise<AgreementPage> {
+    const decision = await this.accessPolicy.evaluateEmployeeAccess(user, employeeId);
+    if (!decision.allowed) {
+      this.logger.warn('Employee agreements access denied', { employeeId, userId: user.id, rule: decision.rule });
+    }
+    this.accessPolicy.assertAllowed(decision);
+
+    const scopedQuery: AgreementListQuery = this.accessPolicy.hasPermission(user, 'company:any')
+      ? query
+      : { ...query, companyId: user.companyId };
+
+    const page = await this.repository.findPageByEmployeeId(employeeId, scopedQuery);
+
+    this.logger.info('Employee agreements retrieved', {
+      employeeId,
+      count: page.items.length,
+      hasMore: page.nextCursor !== null
+    });
+
+    return page;
+  }
+
+  /**
+   * Resume or compensate creation sagas left incomplete by a previous process
+   * @returns Promise<SagaRecoveryResult> - Saga IDs by outcome
+   */
+  async recoverIncompleteSagas(): Promise<SagaRecoveryResult> {
+    const result = await this.saga.recover();
+
+    this.logger.info('Saga recovery finished', {
+      resumed: result.resumed.length,
+      compensated: result.compensated.length,
+      failed: result.failed.length
+    });
+
+    return result;
+  }
+
+  /**
+   * Creation sagas of an agreement, for diagnostics
+   * @param agreementId - Agreement ID
+   * @param user - Authenticated caller
+   * @returns Promise<AgreementSagaRecord[]> - Sagas, oldest first
+   */
+  async getAgreementSagas(agreementId: string, user: AuthenticatedUser): Promise<AgreementSagaRecord[]> {
+    const sagas = await this.sagaLog.findByAgreementId(agreementId);
+
+    if (sagas.length === 0) {
+      // Sagas of agreements that were never stored are only visible by ID
+      await this.getAgreement(agreementId, user);
+      return [];
+    }
+
+    // The snapshot is checked like the stored agreement, so own and direct-report rules apply
+    await this.assertAgreementAccess(sagas[0].agreement, user);
+    return sagas;
+  }
+
+  /**
+   * Check the caller may read an agreement, logging denials
+   * @param agreement - Agreement, or its saga snapshot
+   * @param user - Authenticated caller
+   */
+  private async assertAgreementAccess(agreement: LeasingAgreement, user: AuthenticatedUser): Promise<void> {
+    const decision = await this.accessPolicy.evaluateAgreementAccess(user, agreement);
+    if (!decision.allowed) {
+      this.logger.warn('Agreement access denied', {
+        agreementId: agreement.id,
+        userId: user.id,
+        userCompanyId: user.companyId,
+        rule: decision.rule
+      });
+    }
+    this.accessPolicy.assertAllowed(decision);
+  }
+
   /**
    * Calculate total leasing cost with business rules
    * @param price - Base price
    * @param startDate - Lease start date
    * @param endDate - Lease end date  
    * @param employeeType - Employee type for discounts
-   * @returns Promise<number> - Total calculated cost
+   * @param lease - Company and item category, for the rules that depend on them
+   * @returns Promise<Money> - Total payable cost, including the company's tax
    */
   async calculateLeasingCost(
-    price: number, 
+    price: Money, 
     startDate: Date, 
     endDate: Date, 
-    employeeType: EmployeeType
-  ): Promise<number> {
-    
-    // Calculate duration in months
-    const durationMonths = this.calculateDurationInMonths(startDate, endDate);
+    employeeType: EmployeeType,
+    lease: Pick<PricingContext, 'companyId' | 'itemCategory'> = {}
+  ): Promise<Money> {
+    const breakdown = await this.calculateCostBreakdown(price, startDate, endDate, employeeType, lease);
+    return breakdown.grossCost;
+  }
+
+  /**
+   * Calculate leasing cost together with the pricing rules that were applied
+   * and its split into net, tax and gross by the company's tax rule
+   * @param price - Base price
+   * @param startDate - Lease start date
+   * @param endDate - Lease end date  
+   * @param employeeType - Employee type for discounts
+   * @param lease - Company and item category, for the rules that depend on them
+   * @returns Promise<CostBreakdown> - Cost calculation details
+   */
+  async calculateCostBreakdown(
+    price: Money, 
+    startDate: Date, 
+    endDate: Date, 
+    employeeType: EmployeeType,
+    lease: Pick<PricingContext, 'companyId' | 'itemCategory'> = {}
+  ): Promise<CostBreakdown> {
+    const policy = await this.policyFor(lease.companyId);
+    return this.priceLease(policy, price, startDate, endDate, employeeType, lease);
+  }
+
+  /**
+   * Price a lease under a resolved policy
+   * @param policy - Policy of the lease's company
+   * @param price - Base price
+   * @param startDate - Lease start date
+   * @param endDate - Lease end date
+   * @param employeeType - Employee type for discounts
+   * @param lease - Company and item category, for the rules that depend on them
+   * @returns CostBreakdown - Cost calculation details
+   */
+  private priceLease(
+    policy: LeasingPolicy,
+    price: Money,
+    startDate: Date,
+    endDate: Date,
+    employeeType: EmployeeType,
+    lease: Pick<PricingContext, 'companyId' | 'itemCategory'>
+  ): CostBreakdown {
     
-    // Apply long-term discount if applicable
-    const longTermMultiplier = durationMonths >= this.config.longTermThreshold 
-      ? this.config.longTermDiscount 
-      : 1.0;
+    // Calculate duration in months, including part months
+    const durationMonths = this.calculateDurationInMonths(startDate, endDate, policy.config.dayCountConvention);
     
-    // Apply employee type discount
-    const employeeMultiplier = this.config.employeeDiscounts[employeeType] || 1.0;
+    const { multiplier, appliedRules } = policy.pricingEngine.price({
+      durationMonths,
+      employeeType,
+      companyId: lease.companyId,
+      itemCategory: lease.itemCategory,
+      pricedAt: new Date()
+    });
     
-    // Calculate final cost
-    const totalCost = price * longTermMultiplier * employeeMultiplier;
+    // Calculate final cost, rounded to the currency's minor unit
+    const totalCost = price.times(multiplier);
+    const tax = lease.companyId !== undefined ? policy.taxPolicy.ruleFor(lease.companyId) : undefined;
+    const amounts = calculateTax(totalCost, tax);
     
     this.logger.info('Cost calculation completed', {
       basePrice: price,
-      durationMonths,
-      longTermMultiplier,
-      employeeMultiplier,
-      totalCost
+      durationMonths: Math.round(durationMonths * 100) / 100,
+      appliedRules: appliedRules.map(rule => `${rule.type}:${rule.ruleId}`),
+      totalCost,
+      taxJurisdiction: tax?.jurisdiction
     });
     
-    return Math.round(totalCost * 100) / 100; // Round to 2 decimal places
+    return {
+      basePrice: price,
+      durationMonths: Math.round(durationMonths * 100) / 100,
+      employeeType,
+      longTermMultiplier: appliedMultiplier(appliedRules, 'DURATION_TIER'),
+      employeeMultiplier: appliedMultiplier(appliedRules, 'EMPLOYEE_TYPE'),
+      appliedRules,
+      totalCost,
+      netCost: amounts.net,
+      taxAmount: amounts.tax,
+      grossCost: amounts.gross,
+      ...(tax && { tax }),
+      policy: policy.describe(lease.companyId)
+    };
   }
 
   /**
    * Generate payment schedule based on frequency and duration
+   * Payments are due at the start of each billing period. Periods start on the first of
+   * the month; a lease starting or ending mid-month has a shorter first or last period
+   * whose payment is prorated by the company's day-count convention.
+   * Net amounts are split by period and tax in proportion to them, so that every
+   * entry's tax is non-negative and the entries add up to the agreement's totals
    * @param agreement - Leasing agreement
    * @param frequency - Payment frequency
    * @returns Promise<PaymentSchedule[]> - Generated payment schedule
@@ -124,46 +519,52 @@ export class LeasingAgreementService {
     agreement: LeasingAgreement, 
     frequency: PaymentFrequency
   ): Promise<PaymentSchedule[]> {
+    const policy = await this.policyFor(agreement.companyId);
+    return this.scheduleLease(agreement, frequency, policy.config.dayCountConvention);
+  }
+
+  /**
+   * Generate payment schedule under a day-count convention; see generatePaymentSchedule
+   * @param agreement - Leasing agreement
+   * @param frequency - Payment frequency
+   * @param convention - Day-count convention of the agreement's company
+   * @returns PaymentSchedule[] - Generated payment schedule
+   */
+  private scheduleLease(
+    agreement: LeasingAgreement,
+    frequency: PaymentFrequency,
+    convention: DayCountConvention
+  ): PaymentSchedule[] {
     
-    const schedules: PaymentSchedule[] = [];
-    const totalAmount = agreement.price;
-    
-    // Calculate payment intervals based on frequency
-    const intervalMonths = this.getIntervalMonths(frequency);
-    const totalPayments = Math.ceil(
-      this.calculateDurationInMonths(agreement.startDate, agreement.endDate) / intervalMonths
-    );
+    const totalAmount = calculateTax(agreement.price, agreement.tax);
+    const currency = agreement.price.currency;
     
-    // Calculate payment amount (distribute evenly)
-    const paymentAmount = Math.round((totalAmount / totalPayments) * 100) / 100;
-    let remainingAmount = totalAmount;
+    // Weigh each billing period by its length in months
+    const periods = billingPeriods(agreement.startDate, agreement.endDate, this.getIntervalMonths(frequency));
+    const weights = periods.map(period => monthsBetween(period.start, period.end, convention));
     
-    // Generate payment schedule
-    let currentDate = new Date(agreement.startDate);
+    // Split exactly; payments always add up to the total
+    const netAmounts = totalAmount.net.allocate(weights);
+    const taxAmounts = totalAmount.tax.isZero()
+      ? netAmounts.map(() => Money.zero(currency))
+      : totalAmount.tax.allocate(netAmounts.map(net => net.minorUnits));
     
-    for (let i = 0; i < totalPayments; i++) {
-      // Last payment gets any remainder due to rounding
-      const amount = i === totalPayments - 1 ? remainingAmount : paymentAmount;
-      
-      schedules.push({
-        id: `${agreement.id}-payment-${i + 1}`,
-        dueDate: new Date(currentDate),
-        amount,
-        status: 'PENDING',
-        attemptCount: 0
-      });
-      
-      remainingAmount -= amount;
-      
-      // Move to next payment date
-      currentDate.setMonth(currentDate.getMonth() + intervalMonths);
-    }
+    const schedules = periods.map((period, i): PaymentSchedule => ({
+      id: `${agreement.id}-payment-${i + 1}`,
+      dueDate: period.start,
+      amount: netAmounts[i].plus(taxAmounts[i]),
+      netAmount: netAmounts[i],
+      taxAmount: taxAmounts[i],
+      status: 'PENDING',
+      paidAmount: Money.zero(currency),
+      attemptCount: 0
+    }));
     
     this.logger.info('Payment schedule generated', {
       agreementId: agreement.id,
-      totalPayments,
+      totalPayments: schedules.length,
       frequency,
-      totalAmount
+      totalAmount: totalAmount.gross
     });
     
     return schedules;
@@ -174,12 +575,17 @@ export class LeasingAgreementService {
    * @param request - Agreement request to validate
    */
   private async validateBusinessRules(request: CreateAgreementRequest): Promise<void> {
-    
-    // Validate employee exists and belongs to company
-    const isValidEmployee = await this.employeeService.validateEmployee(
-      request.employeeId, 
-      request.companyId
-    );
+    await this.validateEmployee(request.employeeId, request.companyId);
+    await this.assertItemAvailable(request.itemId, new Date(request.startDate), new Date(request.endDate));
+  }
+
+  /**
+   * Validate employee exists and belongs to company
+   * @param employeeId - Employee ID
+   * @param companyId - Company ID
+   */
+  private async validateEmployee(employeeId: string, companyId: string): Promise<void> {
+    const isValidEmployee = await this.employeeService.validateEmployee(employeeId, companyId);
     
     if (!isValidEmployee) {
       throw new BusinessRuleError(
@@ -188,9 +594,23 @@ export class LeasingAgreementService {
         'INVALID_EMPLOYEE'
       );
     }
-    
-    // Check item availability
-    const isItemAvailable = await this.inventoryService.checkAvailability(request.itemId);
+  }
+
+  /**
+   * Check item availability for the lease period
+   * The saga's reserve step repeats the check atomically
+   * @param itemId - Item ID
+   * @param startDate - Lease start date
+   * @param endDate - Lease end date
+   * @param excludeAgreementId - Agreement whose own reservation is ignored
+   */
+  private async assertItemAvailable(
+    itemId: string,
+    startDate: Date,
+    endDate: Date,
+    excludeAgreementId?: string
+  ): Promise<void> {
+    const isItemAvailable = await this.checkItemAvailability(itemId, startDate, endDate, excludeAgreementId);
     
     if (!isItemAvailable) {
       throw new BusinessRuleError(
@@ -199,11 +619,43 @@ export class LeasingAgreementService {
         'ITEM_UNAVAILABLE'
       );
     }
-    
-    // Validate price limits
-    if (request.price > this.config.maxPrice) {
+  }
+
+  /**
+   * Resolve the policy a company's agreements are validated and priced by
+   * @param companyId - Company ID; the global policy when absent
+   * @returns Promise<LeasingPolicy> - Global configuration with the company's overrides
+   */
+  private async policyFor(companyId: string | undefined): Promise<LeasingPolicy> {
+    const companyPolicy = companyId ? await this.companyPolicies.findByCompanyId(companyId) : null;
+    if (!companyPolicy) {
+      return this.defaultPolicy;
+    }
+
+    try {
+      return createLeasingPolicy(this.config, companyPolicy);
+    } catch (error) {
+      // Overrides are checked when saved, but may conflict with defaults changed since
+      throw new BusinessRuleError(
+        `Leasing policy of company ${companyId} is invalid: ${(error as Error).message}`,
+        'COMPANY_POLICY',
+        'INVALID_COMPANY_POLICY'
+      );
+    }
+  }
+
+  /**
+   * Validate price limits in the company's base currency
+   * @param price - Requested base price
+   * @param exchangeRate - Rate from the price's currency to the company's base currency
+   * @param policy - Policy of the company
+   */
+  private validatePriceLimit(price: Money, exchangeRate: ExchangeRate, policy: LeasingPolicy): void {
+    const maxPrice = Money.of(policy.config.maxPrice, exchangeRate.to);
+
+    if (price.convert(exchangeRate).compareTo(maxPrice) > 0) {
       throw new BusinessRuleError(
-        `Price exceeds maximum allowed amount of ${this.config.maxPrice}`,
+        `Price exceeds maximum allowed amount of ${maxPrice}`,
         'PRICE_LIMIT',
         'PRICE_EXCEEDED'
       );
@@ -211,23 +663,40 @@ export class LeasingAgreementService {
   }
 
   /**
-   * Create agreement object from validated request
+   * Create DRAFT agreement object from validated request
+   * The exchange rate to the company's base currency is stored on the agreement
    * @param request - Validated request
-   * @returns Promise<LeasingAgreement> - Created agreement object
+   * @param policy - Policy of the request's company
+   * @returns Promise<{ agreement: LeasingAgreement; breakdown: CostBreakdown }> - Agreement and its pricing
    */
-  private async createAgreementFromRequest(request: CreateAgreementRequest): Promise<LeasingAgreement> {
+  private async createAgreementFromRequest(
+    request: CreateAgreementRequest,
+    policy: LeasingPolicy
+  ): Promise<{ agreement: LeasingAgreement; breakdown: CostBreakdown }> {
     
     const startDate = new Date(request.startDate);
     const endDate = new Date(request.endDate);
+    const basePrice = Money.of(request.price, request.currency);
+    const exchangeRate = await this.exchangeRateService.getRate(
+      request.currency,
+      policy.currencies.baseCurrencyOf(request.companyId),
+      new Date()
+    );
+    this.validatePriceLimit(basePrice, exchangeRate, policy);
+
     const employeeType = await this.employeeService.getEmployeeType(request.employeeId);
+    const itemCategory = await this.inventoryService.getItemCategory(request.itemId);
     
     // Calculate total cost with discounts
-    const totalCost = await this.calculateLeasingCost(
-      request.price, 
+    const breakdown = this.priceLease(
+      policy,
+      basePrice, 
       startDate, 
       endDate, 
-      employeeType
+      employeeType,
+      { companyId: request.companyId, itemCategory }
     );
+    const totalCost = breakdown.totalCost;
       // Generate payment schedule first
     const tempAgreement = {
       id: this.generateAgreementId(),
@@ -241,13 +710,16 @@ export class LeasingAgreementService {
       companyId: request.companyId,
       paymentSchedule: [] as PaymentSchedule[],
       metadata: request.metadata || {},
+      exchangeRate,
+      ...(breakdown.tax && { tax: breakdown.tax }),
       createdAt: new Date(),
       updatedAt: new Date()
     };
     
-    const paymentSchedule = await this.generatePaymentSchedule(
+    const paymentSchedule = this.scheduleLease(
       tempAgreement as LeasingAgreement, 
-      request.paymentFrequency
+      request.paymentFrequency,
+      policy.config.dayCountConvention
     );
     
     // Create final agreement with payment schedule
@@ -256,91 +728,41 @@ export class LeasingAgreementService {
       paymentSchedule
     };
     
-    return agreement;
+    return { agreement, breakdown };
   }
 
   /**
-   * Execute agreement creation transaction with rollback capability
-   * @param agreement - Agreement to create
-   * @param correlationId - Correlation ID for tracking
-   * @returns Promise<LeasingAgreement> - Created agreement
+   * Run the creation saga: reserve, save, bill, notify and activate
+   * Every step is persisted in the saga log so that a crash can be recovered
+   * @param agreement - Draft agreement
+   * @param correlationId - Correlation ID for logging
+   * @returns Promise<LeasingAgreement> - Activated agreement
    */
   private async executeAgreementTransaction(
     agreement: LeasingAgreement, 
     correlationId: string
   ): Promise<LeasingAgreement> {
     
-    const operations: (() => Promise<void>)[] = [];
+    const finalAgreement = await this.saga.run(agreement, correlationId);
     
-    try {
-      // Step 1: Reserve inventory item
-      await this.inventoryService.reserveItem(agreement.itemId);
-      operations.push(() => this.inventoryService.releaseItem(agreement.itemId));
-      
-      // Step 2: Save agreement to database
-      const savedAgreement = await this.repository.save({
-        ...agreement,
-        status: 'PENDING'
-      });
-      
-      // Step 3: Create billing record
-      const billingId = await this.billingService.createBillingRecord(savedAgreement);
-      this.logger.info('Billing record created', { agreementId: savedAgreement.id, billingId });
-      
-      // Step 4: Send notification (non-critical, don't rollback for this)
-      try {
-        await this.notificationService.sendAgreementCreated(
-          savedAgreement.employeeId, 
-          savedAgreement.id
-        );
-      } catch (notificationError:any) {
-        this.logger.warn('Notification failed but agreement created', { 
-          correlationId,
-          error: notificationError.message 
-        });
-      }
-      
-      // Update status to active
-      const finalAgreement = await this.repository.save({
-        ...savedAgreement,
-        status: 'ACTIVE',
-        updatedAt: new Date()
-      });
-      
-      this.logger.info('Agreement processed successfully', { 
-        correlationId,
-        agreementId: finalAgreement.id 
-      });
-      
-      return finalAgreement;
-      
-    } catch (error) {
-      // Rollback operations in reverse order
-      for (const rollback of operations.reverse()) {
-        try {
-          await rollback();
-        } catch (rollbackError:any) {
-          this.logger.error('Rollback failed', { 
-            correlationId,
-            error: rollbackError.message 
-          });
-        }
-      }
-      
-      throw error;
-    }
+    this.logger.info('Agreement processed successfully', { 
+      correlationId,
+      agreementId: finalAgreement.id 
+    });
+    
+    return finalAgreement;
   }
 
+
   /**
    * Calculate duration between dates in months
    * @param startDate - Start date
    * @param endDate - End date
-   * @returns number - Duration in months
+   * @param convention - Day-count convention of the lease's company
+   * @returns number - Duration in months, including part months
    */
-  private calculateDurationInMonths(startDate: Date, endDate: Date): number {
-    const yearDiff = endDate.getFullYear() - startDate.getFullYear();
-    const monthDiff = endDate.getMonth() - startDate.getMonth();
-    return yearDiff * 12 + monthDiff;
+  private calculateDurationInMonths(startDate: Date, endDate: Date, convention: DayCountConvention): number {
+    return monthsBetween(startDate, endDate, convention);
   }
 
   /**
@@ -366,10 +788,14 @@ export class LeasingAgreementService {
   }
 
   /**
-   * Generate correlation ID for request tracking
-   * @returns string - Unique correlation ID
+   * Correlation ID for request tracking: the one of the running request, or a new one
+   * @returns string - Correlation ID
    */
   private generateCorrelationId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    return currentCorrelationId() ?? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 }
+
+function appliedMultiplier(appliedRules: AppliedPricingRule[], type: PricingRuleType): number {
+  return appliedRules.find(rule => rule.type === type)?.multiplier ?? 1;
+}
@@ -0,0 +1,140 @@
+/**
+ * Leasing policy
+ * The global leasing configuration with one company's negotiated overrides layered on top
+ */
+
+import {
+  AppliedLeasingPolicy,
+  CompanyPolicy,
+  CompanyPolicyOverrides,
+  LeasingConfig,
+  PricingRulesConfig
+} from '../types';
+import { AgreementRequestLimits } from '../utils/validation';
+import { CurrencyRegistry } from './currencyRegistry';
+import { PricingEngine, createPricingEngine } from './pricingEngine';
+import { TaxPolicy, createTaxPolicy } from './taxPolicy';
+
+/**
+ * Rules one company's agreements are validated and priced by
+ */
+export class LeasingPolicy {
+
+  readonly pricingEngine: PricingEngine;
+  readonly currencies: CurrencyRegistry;
+  readonly taxPolicy: TaxPolicy;
+
+  /**
+   * Invalid configuration is rejected, so that neither startup nor saving an override succeeds with it
+   * @param config - Effective configuration
+   * @param companyPolicy - Company overrides the configuration includes, if any
+   */
+  constructor(
+    readonly config: LeasingConfig,
+    readonly companyPolicy?: CompanyPolicy
+  ) {
+    if (config.minLeasingDuration > config.maxLeasingDuration) {
+      throw new Error('Minimum lease duration must not exceed the maximum lease duration');
+    }
+    if (!(config.maxPrice > 0)) {
+      throw new Error('Maximum price must be positive');
+    }
+
+    this.pricingEngine = createPricingEngine(config.pricing);
+    this.currencies = new CurrencyRegistry(config);
+    this.taxPolicy = createTaxPolicy(config.tax);
+  }
+
+  /**
+   * @returns AgreementRequestLimits - Limits requests are validated against
+   */
+  get requestLimits(): AgreementRequestLimits {
+    return {
+      supportedCurrencies: this.currencies.supportedCurrencies,
+      minLeasingDuration: this.config.minLeasingDuration,
+      maxLeasingDuration: this.config.maxLeasingDuration
+    };
+  }
+
+  /**
+   * The policy as it applies to one company, without other companies' settings
+   * @param companyId - Company ID; the global defaults when absent
+   * @returns AppliedLeasingPolicy - Limits and rates in effect
+   */
+  describe(companyId?: string): AppliedLeasingPolicy {
+    const { config } = this;
+    return {
+      ...(companyId !== undefined && { companyId }),
+      overriddenFields: Object.keys(this.companyPolicy?.overrides ?? {}) as (keyof CompanyPolicyOverrides)[],
+      minLeasingDuration: config.minLeasingDuration,
+      maxLeasingDuration: config.maxLeasingDuration,
+      maxPrice: config.maxPrice,
+      baseCurrency: companyId !== undefined ? this.currencies.baseCurrencyOf(companyId) : config.baseCurrency,
+      employeeMultipliers: config.pricing.employeeMultipliers,
+      durationTiers: config.pricing.durationTiers,
+      earlyTerminationPenaltyRate: config.earlyTerminationPenaltyRate,
+      dayCountConvention: config.dayCountConvention
+    };
+  }
+}
+
+/**
+ * Layer a company's overrides on the global configuration
+ * Fields replace the defaults, except employee and category multipliers, which are merged
+ * by key. The company's base currency, rate and tax rule go into the per-company tables.
+ * @param defaults - Global configuration
+ * @param policy - Company overrides
+ * @returns LeasingConfig - Configuration in effect for the company
+ */
+export function applyCompanyPolicy(defaults: LeasingConfig, policy: CompanyPolicy): LeasingConfig {
+  const { companyId, overrides } = policy;
+  const { baseCurrency, pricing, tax, ...limits } = overrides;
+
+  return {
+    ...defaults,
+    ...limits,
+    companyBaseCurrencies: baseCurrency !== undefined
+      ? { ...defaults.companyBaseCurrencies, [companyId]: baseCurrency }
+      : defaults.companyBaseCurrencies,
+    pricing: pricing ? applyPricingOverrides(defaults.pricing, companyId, pricing) : defaults.pricing,
+    tax: tax ? { ...defaults.tax, companies: { ...defaults.tax.companies, [companyId]: tax } } : defaults.tax
+  };
+}
+
+/**
+ * @param defaults - Global pricing rules
+ * @param companyId - Company the overrides belong to
+ * @param overrides - Company's pricing overrides
+ * @returns PricingRulesConfig - Pricing rules in effect for the company
+ */
+function applyPricingOverrides(
+  defaults: PricingRulesConfig,
+  companyId: string,
+  overrides: NonNullable<CompanyPolicyOverrides['pricing']>
+): PricingRulesConfig {
+  const { employeeMultipliers, companyRate, categoryMultipliers, ...rules } = overrides;
+
+  return {
+    ...defaults,
+    ...rules,
+    employeeMultipliers: { ...defaults.employeeMultipliers, ...employeeMultipliers },
+    companyRates: companyRate !== undefined
+      ? { ...defaults.companyRates, [companyId]: companyRate }
+      : defaults.companyRates,
+    categoryMultipliers: categoryMultipliers
+      ? { ...defaults.categoryMultipliers, ...categoryMultipliers }
+      : defaults.categoryMultipliers
+  };
+}
+
+/**
+ * Build the policy for a company
+ * @param defaults - Global configuration
+ * @param companyPolicy - Company's overrides; the global policy when absent
+ * @returns LeasingPolicy - Policy in effect
+ */
+export function createLeasingPolicy(defaults: LeasingConfig, companyPolicy?: CompanyPolicy | null): LeasingPolicy {
+  return companyPolicy
+    ? new LeasingPolicy(applyCompanyPolicy(defaults, companyPolicy), companyPolicy)
+    : new LeasingPolicy(defaults);
+}
@@ -0,0 +1,213 @@
+/**
+ * Outbox dispatcher
+ * Delivers domain events written to the outbox to the notification, billing and inventory services.
+ * Delivery is at-least-once: a crash between delivery and acknowledgement repeats the event
+ */
+
+import { AppConfig } from '../config';
+import {
+  AgreementStatus,
+  CurrencyCode,
+  DomainEventType,
+  OutboxEntry,
+  PaymentStatus,
+  IOutboxStore,
+  INotificationService,
+  IBillingService,
+  IInventoryService,
+  IItemReservationStore
+} from '../types';
+import { Logger } from '../utils/logger';
+import { Money } from '../utils/money';
+import { withCorrelationId } from '../utils/correlation';
+
+/**
+ * Delivers one event; a rejection schedules a retry
+ */
+export type OutboxHandler = (event: OutboxEntry) => Promise<void>;
+
+export type OutboxHandlers = Partial<Record<DomainEventType, OutboxHandler>>;
+
+export interface OutboxDispatchResult {
+  readonly delivered: number;
+  readonly retried: number;
+  readonly deadLettered: number;
+}
+
+/**
+ * Route events to the external services
+ * - AgreementCreated and PaymentDue notify the employee
+ * - Status changes keep the billing record in sync
+ * - Confirmed reservations are forwarded to the inventory service and released when the agreement ends
+ * @param notificationService - Notification service
+ * @param billingService - Billing service
+ * @param inventoryService - Inventory service
+ * @param reservations - Reservations held by this service, checked before one is forwarded
+ * @returns OutboxHandlers - Handler per event type
+ */
+export function createOutboxHandlers(
+  notificationService: INotificationService,
+  billingService: IBillingService,
+  inventoryService: IInventoryService,
+  reservations: IItemReservationStore
+): OutboxHandlers {
+  const syncBilling: OutboxHandler = event =>
+    billingService.updateBillingRecord(event.agreementId, event.payload.status as AgreementStatus);
+
+  // Both calls are idempotent, so a retry after one of them failed repeats the other safely
+  const syncBillingAndRelease: OutboxHandler = async event => {
+    await syncBilling(event);
+    await inventoryService.releaseItem(event.agreementId);
+  };
+
+  return {
+    AgreementCreated: event =>
+      notificationService.sendAgreementCreated(String(event.payload.employeeId), event.agreementId),
+    AgreementSubmitted: syncBilling,
+    AgreementActivated: syncBilling,
+    AgreementCompleted: syncBillingAndRelease,
+    AgreementCancelled: syncBillingAndRelease,
+    ItemReserved: async event => {
+      // A dead letter requeued after the agreement ended would hold the item in inventory for good
+      if (!await reservations.findById(event.agreementId)) {
+        return;
+      }
+      await inventoryService.reserveItem({
+        id: event.agreementId,
+        itemId: String(event.payload.itemId),
+        startDate: new Date(String(event.payload.startDate)),
+        endDate: new Date(String(event.payload.endDate))
+      });
+    },
+    PaymentDue: event => {
+      // Events written before the payload carried a currency or tax are read as untaxed USD
+      const currency = (event.payload.currency ?? 'USD') as CurrencyCode;
+      const amount = Money.of(event.payload.amount, currency);
+      const taxAmount = Money.of(event.payload.taxAmount ?? 0, currency);
+      return notificationService.sendPaymentDue(String(event.payload.employeeId), {
+        id: String(event.payload.paymentId),
+        dueDate: new Date(String(event.payload.dueDate)),
+        amount,
+        netAmount: amount.minus(taxAmount),
+        taxAmount,
+        status: event.payload.paymentStatus as PaymentStatus,
+        paidAmount: Money.of(event.payload.paidAmount, currency),
+        attemptCount: Number(event.payload.attemptCount)
+      });
+    }
+  };
+}
+
+/**
+ * Polls the outbox and delivers due events
+ */
+export class OutboxDispatcher {
+
+  private timer?: NodeJS.Timeout;
+  private dispatching?: Promise<OutboxDispatchResult>;
+
+  constructor(
+    private readonly outbox: IOutboxStore,
+    private readonly handlers: OutboxHandlers,
+    private readonly config: AppConfig['outbox'],
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Start polling; a poll is skipped while the previous one is still running
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (!this.dispatching) {
+        this.dispatching = this.dispatchDue()
+          .catch(error => {
+            this.logger.error('Outbox poll failed', {}, error as Error);
+            return { delivered: 0, retried: 0, deadLettered: 0 };
+          })
+          .finally(() => { this.dispatching = undefined; });
+      }
+    }, this.config.pollIntervalMs);
+
+    // Polling alone must not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Stop polling and wait for a running poll to finish
+   */
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.dispatching;
+  }
+
+  /**
+   * Deliver one batch of due events
+   * @returns Promise<OutboxDispatchResult> - Counts by outcome
+   */
+  async dispatchDue(): Promise<OutboxDispatchResult> {
+    const now = new Date();
+    const entries = await this.outbox.claimDue(
+      now,
+      this.config.batchSize,
+      new Date(now.getTime() + this.config.leaseMs)
+    );
+
+    const result = { delivered: 0, retried: 0, deadLettered: 0 };
+
+    for (const entry of entries) {
+      const handler = this.handlers[entry.type];
+
+      try {
+        if (!handler) {
+          throw new Error(`No handler for event type ${entry.type}`);
+        }
+        await withCorrelationId(`outbox-${entry.id}`, () => handler(entry));
+        await this.outbox.markDelivered(entry.id, new Date());
+        result.delivered++;
+
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const message = (error as Error).message;
+
+        if (attempts >= this.config.maxAttempts) {
+          await this.outbox.markDead(entry.id, attempts, message);
+          result.deadLettered++;
+          this.logger.error('Outbox event dead-lettered', {
+            eventId: entry.id,
+            type: entry.type,
+            agreementId: entry.agreementId,
+            attempts
+          }, error as Error);
+          continue;
+        }
+
+        const nextAttemptAt = new Date(Date.now() + this.retryDelay(attempts));
+        await this.outbox.scheduleRetry(entry.id, attempts, nextAttemptAt, message);
+        result.retried++;
+        this.logger.warn('Outbox delivery failed, retry scheduled', {
+          eventId: entry.id,
+          type: entry.type,
+          attempts,
+          nextAttemptAt: nextAttemptAt.toISOString(),
+          error: message
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Exponential backoff: the base delay doubled per failed attempt, capped at the maximum
+   * @param attempts - Failed attempts so far
+   * @returns number - Delay in milliseconds
+   */
+  retryDelay(attempts: number): number {
+    return Math.min(this.config.retryMaxDelayMs, this.config.retryBaseDelayMs * 2 ** (attempts - 1));
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Payment allocation rules
+ * Computes how a received payment settles the entries of a payment schedule
+ */
+
+import { PaymentAllocation, PaymentSchedule } from '../types';
+import { Money } from '../utils/money';
+
+export interface PaymentApplication {
+  readonly paymentSchedule: PaymentSchedule[];
+  readonly allocations: PaymentAllocation[];
+  readonly unapplied: Money; // left over after every later entry is settled
+}
+
+export interface PaymentApplicationOptions {
+  readonly reference: string;
+  /** Entry to settle first; defaults to the first entry of the schedule */
+  readonly startPaymentId?: string;
+}
+
+/**
+ * Apply a payment to a schedule
+ *
+ * - Entries are settled in schedule order, starting at `startPaymentId`
+ * - Only unsettled entries (PENDING, OVERDUE) take money; PAID and CANCELLED ones are skipped
+ * - A payment smaller than the outstanding amount is recorded as a partial payment
+ * - Whatever exceeds an entry's outstanding amount is carried forward to the next entries
+ * - Every entry that takes money records the payment reference as its `paymentId`
+ *
+ * @param schedule - Current payment schedule, in due date order
+ * @param amount - Amount received, in the schedule's currency
+ * @param options - Payment reference and first entry
+ * @returns PaymentApplication - Updated schedule, allocations and unapplied remainder
+ */
+export function applyPayment(
+  schedule: PaymentSchedule[],
+  amount: Money,
+  options: PaymentApplicationOptions
+): PaymentApplication {
+
+  const startIndex = options.startPaymentId
+    ? schedule.findIndex(payment => payment.id === options.startPaymentId)
+    : 0;
+
+  if (startIndex < 0) {
+    throw new Error(`Payment ${options.startPaymentId} is not part of the schedule`);
+  }
+
+  let remaining = amount;
+  const allocations: PaymentAllocation[] = [];
+
+  const paymentSchedule = schedule.map((payment, index): PaymentSchedule => {
+    const settleable = payment.status === 'PENDING' || payment.status === 'OVERDUE';
+    if (index < startIndex || !settleable || remaining.isZero()) {
+      return payment;
+    }
+
+    const applied = remaining.min(payment.amount.minus(payment.paidAmount));
+    if (!applied.isPositive()) {
+      return payment;
+    }
+
+    remaining = remaining.minus(applied);
+    allocations.push({ paymentId: payment.id, amount: applied });
+
+    const paidAmount = payment.paidAmount.plus(applied);
+    return {
+      ...payment,
+      paidAmount,
+      status: paidAmount.compareTo(payment.amount) >= 0 ? 'PAID' : payment.status,
+      paymentId: options.reference
+    };
+  });
+
+  return { paymentSchedule, allocations, unapplied: remaining };
+}
+
+/**
+ * Amount of an entry that is still to be paid
+ * @param payment - Schedule entry
+ * @returns Money - Outstanding amount; zero for PAID and CANCELLED entries
+ */
+export function outstandingAmount(payment: PaymentSchedule): Money {
+  if (payment.status !== 'PENDING' && payment.status !== 'OVERDUE') {
+    return Money.zero(payment.amount.currency);
+  }
+  return payment.amount.minus(payment.paidAmount).max(Money.zero(payment.amount.currency));
+}
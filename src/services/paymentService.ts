@@ -0,0 +1,290 @@
+/**
+ * Payment recording and reconciliation
+ * Applies received payments to agreement payment schedules
+ */
+
+import {
+  AuthenticatedUser,
+  BusinessRuleError,
+  ILeasingRepository,
+  MatchedReconciliationLine,
+  NotFoundError,
+  PaymentRecord,
+  ReconciliationLine,
+  ReconciliationMatchType,
+  ReconciliationReport,
+  ReconciliationRequest,
+  RecordPaymentRequest,
+  UnmatchedReason,
+  UnmatchedReconciliationLine,
+  ValidationError
+} from '../types';
+import { AccessPolicy } from '../auth/accessPolicy';
+import { Logger } from '../utils/logger';
+import { KeyedMutex } from '../utils/keyedMutex';
+import { Validator } from '../utils/validation';
+import { Money, hasMinorUnitPrecision } from '../utils/money';
+import { applyPayment } from './paymentAllocation';
+
+type LineMatch =
+  | { readonly matched: true; readonly agreementId: string; readonly paymentId: string; readonly matchedBy: ReconciliationMatchType }
+  | { readonly matched: false; readonly reason: UnmatchedReason; readonly message: string };
+
+// Business rule failures that reconciliation reports instead of failing the import
+const UNMATCHED_REASONS: Record<string, UnmatchedReason> = {
+  DUPLICATE_PAYMENT: 'ALREADY_RECORDED',
+  AGREEMENT_NOT_PAYABLE: 'NOT_PAYABLE',
+  PAYMENT_EXCEEDS_BALANCE: 'EXCEEDS_BALANCE'
+};
+
+/**
+ * Records payments against payment schedules
+ * Payments to the same agreement are applied one at a time; the payment reference
+ * makes recording idempotent across processes
+ */
+export class PaymentService {
+
+  private readonly mutex = new KeyedMutex();
+
+  constructor(
+    private readonly repository: ILeasingRepository,
+    private readonly accessPolicy: AccessPolicy,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Record a payment received for an agreement
+   * The payment settles the named schedule entry, or the oldest outstanding one, and
+   * any excess is carried forward to the following entries
+   * @param agreementId - Agreement ID
+   * @param request - Payment reference, amount and optional schedule entry
+   * @param user - Authenticated caller
+   * @returns Promise<PaymentRecord> - Recorded payment and its allocations
+   */
+  async recordPayment(
+    agreementId: string,
+    request: RecordPaymentRequest,
+    user: AuthenticatedUser
+  ): Promise<PaymentRecord> {
+    Validator.validateRecordPaymentRequest(request);
+    return this.applyToAgreement(agreementId, request, user);
+  }
+
+  /**
+   * Record a batch of payments from a bank or payment provider statement
+   * Lines are matched by schedule entry ID when given, otherwise by outstanding amount
+   * and due date within the company. Every line is recorded on its own: a line that
+   * cannot be matched or applied is reported and does not affect the others
+   * @param request - Company and statement lines
+   * @param user - Authenticated caller
+   * @returns Promise<ReconciliationReport> - Matched and unmatched lines
+   */
+  async reconcile(request: ReconciliationRequest, user: AuthenticatedUser): Promise<ReconciliationReport> {
+    Validator.validateReconciliationRequest(request);
+    this.accessPolicy.assertCompanyAccess(user, request.companyId);
+
+    const matched: MatchedReconciliationLine[] = [];
+    const unmatched: UnmatchedReconciliationLine[] = [];
+
+    for (const [index, line] of request.lines.entries()) {
+      const reference = typeof line?.reference === 'string' ? line.reference : undefined;
+
+      try {
+        Validator.validateReconciliationLine(line);
+
+        const match = await this.matchLine(request.companyId, line);
+        if (!match.matched) {
+          unmatched.push({ line: index, reference, reason: match.reason, message: match.message });
+          continue;
+        }
+
+        const payment = await this.applyToAgreement(
+          match.agreementId,
+          { ...line, paymentId: match.paymentId },
+          user
+        );
+        matched.push({
+          line: index,
+          reference: payment.reference,
+          agreementId: payment.agreementId,
+          matchedBy: match.matchedBy,
+          allocations: payment.allocations
+        });
+
+      } catch (error) {
+        const reason = this.unmatchedReason(error);
+        if (!reason) {
+          throw error;
+        }
+        unmatched.push({ line: index, reference, reason, message: (error as Error).message });
+      }
+    }
+
+    this.logger.info('Payments reconciled', {
+      companyId: request.companyId,
+      reconciledBy: user.id,
+      matched: matched.length,
+      unmatched: unmatched.length
+    });
+
+    return { matched, unmatched };
+  }
+
+  /**
+   * Find the schedule entry a reconciliation line pays
+   * @param companyId - Company the statement belongs to
+   * @param line - Validated statement line
+   * @returns Promise<LineMatch> - Agreement and schedule entry, or why none was found
+   */
+  private async matchLine(companyId: string, line: ReconciliationLine): Promise<LineMatch> {
+    if (line.paymentId !== undefined) {
+      const agreement = await this.repository.findByPaymentId(line.paymentId);
+
+      // Entries of other companies are reported as unknown so that their existence is not disclosed
+      if (!agreement || agreement.companyId !== companyId) {
+        return { matched: false, reason: 'UNKNOWN_PAYMENT_ID', message: `Payment ${line.paymentId} not found` };
+      }
+      return { matched: true, agreementId: agreement.id, paymentId: line.paymentId, matchedBy: 'PAYMENT_ID' };
+    }
+
+    const candidates = await this.repository.findOutstandingPayments(
+      companyId,
+      new Date(line.dueDate as string),
+      line.amount
+    );
+
+    if (candidates.length === 0) {
+      return { matched: false, reason: 'NO_MATCH', message: 'No outstanding payment with this amount and due date' };
+    }
+
+    if (candidates.length > 1) {
+      return {
+        matched: false,
+        reason: 'AMBIGUOUS_MATCH',
+        message: `${candidates.length} outstanding payments have this amount and due date`
+      };
+    }
+
+    const [candidate] = candidates;
+    return { matched: true, ...candidate, matchedBy: 'AMOUNT_AND_DUE_DATE' };
+  }
+
+  /**
+   * Apply a validated payment to an agreement and record it
+   * @param agreementId - Agreement ID
+   * @param request - Validated payment
+   * @param user - Authenticated caller
+   * @returns Promise<PaymentRecord> - Recorded payment
+   */
+  private async applyToAgreement(
+    agreementId: string,
+    request: RecordPaymentRequest,
+    user: AuthenticatedUser
+  ): Promise<PaymentRecord> {
+    const release = await this.mutex.acquire(agreementId);
+
+    try {
+      const agreement = await this.repository.findById(agreementId);
+
+      if (!agreement) {
+        throw new NotFoundError(`Agreement ${agreementId} not found`, 'agreement', 'AGREEMENT_NOT_FOUND');
+      }
+
+      this.accessPolicy.assertCompanyAccess(user, agreement.companyId);
+
+      if (agreement.status !== 'ACTIVE') {
+        throw new BusinessRuleError(
+          `Payments can only be recorded for active agreements; agreement is ${agreement.status}`,
+          'PAYMENT_RECORDING',
+          'AGREEMENT_NOT_PAYABLE'
+        );
+      }
+
+      if (request.paymentId !== undefined && !agreement.paymentSchedule.some(payment => payment.id === request.paymentId)) {
+        throw new NotFoundError(
+          `Payment ${request.paymentId} not found on agreement ${agreementId}`,
+          'payment',
+          'PAYMENT_NOT_FOUND'
+        );
+      }
+
+      if (!hasMinorUnitPrecision(request.amount, agreement.currency)) {
+        throw new ValidationError(
+          `Amount has more decimal places than ${agreement.currency} allows`,
+          'amount',
+          'INVALID_PRECISION'
+        );
+      }
+
+      const now = new Date();
+      const receivedAt = request.receivedAt !== undefined ? new Date(request.receivedAt) : now;
+      const reference = request.reference.trim();
+      const amount = Money.of(request.amount, agreement.currency);
+
+      const application = applyPayment(agreement.paymentSchedule, amount, {
+        reference,
+        startPaymentId: request.paymentId
+      });
+
+      // Agreements hold no credit balance, so money beyond what is owed is refused
+      if (application.unapplied.isPositive()) {
+        throw new BusinessRuleError(
+          `Payment exceeds the outstanding balance by ${application.unapplied}`,
+          'PAYMENT_RECORDING',
+          'PAYMENT_EXCEEDS_BALANCE'
+        );
+      }
+
+      const payment: PaymentRecord = {
+        reference,
+        agreementId,
+        amount,
+        receivedAt,
+        allocations: application.allocations,
+        recordedBy: user.id,
+        recordedAt: now
+      };
+
+      const recorded = await this.repository.recordPayment(
+        { ...agreement, paymentSchedule: application.paymentSchedule, updatedAt: now },
+        payment
+      );
+
+      if (!recorded) {
+        throw new BusinessRuleError(
+          `Payment ${reference} has already been recorded`,
+          'PAYMENT_RECORDING',
+          'DUPLICATE_PAYMENT'
+        );
+      }
+
+      this.logger.info('Payment recorded', {
+        agreementId,
+        reference,
+        amount,
+        allocations: application.allocations.length,
+        recordedBy: user.id
+      });
+
+      return payment;
+
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Map a failure to apply a reconciliation line onto the reason reported for it
+   * @param error - Error raised for the line
+   * @returns UnmatchedReason | undefined - Reason, or undefined when the error must fail the import
+   */
+  private unmatchedReason(error: unknown): UnmatchedReason | undefined {
+    if (error instanceof ValidationError) {
+      return 'INVALID_LINE';
+    }
+    if (error instanceof BusinessRuleError) {
+      return UNMATCHED_REASONS[error.code];
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Pricing rules engine
+ * Turns the configured pricing rules into multipliers on the base price
+ */
+
+import { AppliedPricingRule, EmployeeType, PricingRuleType, PricingRulesConfig } from '../types';
+
+export interface PricingContext {
+  readonly durationMonths: number;
+  readonly employeeType: EmployeeType;
+  readonly companyId?: string;
+  readonly itemCategory?: string;
+  readonly pricedAt: Date; // campaigns are matched against this time
+}
+
+/**
+ * A single pricing rule; returns the multiplier it applies, or null when it does not match
+ */
+export interface PricingRule {
+  readonly type: PricingRuleType;
+  evaluate(context: PricingContext): AppliedPricingRule | null;
+}
+
+export interface PricingResult {
+  readonly multiplier: number;
+  readonly appliedRules: AppliedPricingRule[];
+}
+
+/**
+ * Applies pricing rules in order and caps the combined discount
+ */
+export class PricingEngine {
+
+  /**
+   * @param rules - Rules evaluated in order; their multipliers are combined
+   * @param combinedMultiplierFloor - Lowest combined multiplier; 0 leaves discounts uncapped
+   */
+  constructor(
+    private readonly rules: PricingRule[],
+    private readonly combinedMultiplierFloor = 0
+  ) {}
+
+  /**
+   * Evaluate every rule for a lease
+   * @param context - Lease being priced
+   * @returns PricingResult - Combined multiplier and the rules that applied
+   */
+  price(context: PricingContext): PricingResult {
+    const appliedRules: AppliedPricingRule[] = [];
+    let multiplier = 1;
+
+    for (const rule of this.rules) {
+      const applied = rule.evaluate(context);
+      if (applied) {
+        appliedRules.push(applied);
+        multiplier *= applied.multiplier;
+      }
+    }
+
+    if (multiplier < this.combinedMultiplierFloor) {
+      appliedRules.push({
+        type: 'DISCOUNT_CAP',
+        ruleId: String(this.combinedMultiplierFloor),
+        multiplier: this.combinedMultiplierFloor / multiplier
+      });
+      multiplier = this.combinedMultiplierFloor;
+    }
+
+    return { multiplier, appliedRules };
+  }
+}
+
+/**
+ * Build the engine from configuration
+ * Rules are evaluated in this order: employee type, duration tier, company rate,
+ * item category, campaign. Invalid configuration is rejected so that startup fails
+ * @param config - Pricing rules configuration
+ * @returns PricingEngine - Engine with the configured rules
+ */
+export function createPricingEngine(config: PricingRulesConfig): PricingEngine {
+  validatePricingRules(config);
+
+  const tiers = [...config.durationTiers].sort((a, b) => b.minMonths - a.minMonths);
+  const companyRates = config.companyRates ?? {};
+  const categoryMultipliers = config.categoryMultipliers ?? {};
+  const campaigns = (config.campaigns ?? []).map(campaign => ({
+    ...campaign,
+    starts: new Date(campaign.startsAt),
+    ends: new Date(campaign.endsAt)
+  }));
+
+  const rules: PricingRule[] = [
+    {
+      type: 'EMPLOYEE_TYPE',
+      evaluate: context => ({
+        type: 'EMPLOYEE_TYPE',
+        ruleId: context.employeeType,
+        multiplier: config.employeeMultipliers[context.employeeType] ?? 1
+      })
+    },
+    {
+      type: 'DURATION_TIER',
+      evaluate: context => {
+        const tier = tiers.find(candidate => context.durationMonths >= candidate.minMonths);
+        return tier
+          ? { type: 'DURATION_TIER', ruleId: String(tier.minMonths), multiplier: tier.multiplier }
+          : null;
+      }
+    },
+    {
+      type: 'COMPANY_RATE',
+      evaluate: context => context.companyId !== undefined && companyRates[context.companyId] !== undefined
+        ? { type: 'COMPANY_RATE', ruleId: context.companyId, multiplier: companyRates[context.companyId] }
+        : null
+    },
+    {
+      type: 'ITEM_CATEGORY',
+      evaluate: context => context.itemCategory !== undefined && categoryMultipliers[context.itemCategory] !== undefined
+        ? { type: 'ITEM_CATEGORY', ruleId: context.itemCategory, multiplier: categoryMultipliers[context.itemCategory] }
+        : null
+    },
+    {
+      type: 'CAMPAIGN',
+      evaluate: context => {
+        // Campaigns do not stack; the lowest multiplier wins
+        const best = campaigns
+          .filter(campaign =>
+            campaign.starts <= context.pricedAt
+            && context.pricedAt < campaign.ends
+            && (!campaign.companyIds || (context.companyId !== undefined && campaign.companyIds.includes(context.companyId)))
+            && (!campaign.itemCategories || (context.itemCategory !== undefined && campaign.itemCategories.includes(context.itemCategory))))
+          .sort((a, b) => a.multiplier - b.multiplier)[0];
+        return best ? { type: 'CAMPAIGN', ruleId: best.id, multiplier: best.multiplier } : null;
+      }
+    }
+  ];
+
+  return new PricingEngine(rules, config.combinedMultiplierFloor ?? 0);
+}
+
+function validatePricingRules(config: PricingRulesConfig): void {
+  const multipliers: Array<[string, number]> = [
+    ...Object.entries(config.employeeMultipliers).map(([type, value]): [string, number] => [`employee type ${type}`, value]),
+    ...config.durationTiers.map((tier): [string, number] => [`duration tier ${tier.minMonths}`, tier.multiplier]),
+    ...Object.entries(config.companyRates ?? {}).map(([id, value]): [string, number] => [`company ${id}`, value]),
+    ...Object.entries(config.categoryMultipliers ?? {}).map(([id, value]): [string, number] => [`category ${id}`, value]),
+    ...(config.campaigns ?? []).map((campaign): [string, number] => [`campaign ${campaign.id}`, campaign.multiplier])
+  ];
+
+  for (const [name, value] of multipliers) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new Error(`Pricing rule for ${name} must have a positive multiplier`);
+    }
+  }
+
+  for (const tier of config.durationTiers) {
+    if (typeof tier.minMonths !== 'number' || !(tier.minMonths >= 0)) {
+      throw new Error(`Duration tier ${tier.minMonths} must start at a non-negative number of months`);
+    }
+  }
+
+  for (const campaign of config.campaigns ?? []) {
+    const starts = Date.parse(campaign.startsAt);
+    const ends = Date.parse(campaign.endsAt);
+    if (Number.isNaN(starts) || Number.isNaN(ends) || ends <= starts) {
+      throw new Error(`Campaign ${campaign.id} must have a valid date window`);
+    }
+  }
+
+  const floor = config.combinedMultiplierFloor;
+  if (floor !== undefined && (typeof floor !== 'number' || !(floor >= 0 && floor <= 1))) {
+    throw new Error('Combined multiplier floor must be between 0 and 1');
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Tax rules
+ * Resolves the tax rule of a company and splits amounts into net, tax and gross
+ */
+
+import { AppliedTax, TaxAmounts, TaxRule, TaxRulesConfig } from '../types';
+import { Money } from '../utils/money';
+
+/**
+ * Looks up the tax rule of a company in the jurisdiction table
+ */
+export class TaxPolicy {
+
+  constructor(private readonly config: TaxRulesConfig) {}
+
+  /**
+   * A rule configured for the company itself takes precedence over the rule of its country
+   * @param companyId - Company ID
+   * @returns AppliedTax | undefined - Rule to apply; undefined when the company is not taxed
+   */
+  ruleFor(companyId: string): AppliedTax | undefined {
+    const companyRule = this.config.companies?.[companyId];
+    if (companyRule) {
+      return applied(companyId, companyRule);
+    }
+
+    const country = this.config.companyCountries[companyId];
+    const countryRule = country !== undefined ? this.config.countries[country] : undefined;
+    return countryRule ? applied(country, countryRule) : undefined;
+  }
+}
+
+/**
+ * Build the policy from configuration
+ * Invalid configuration is rejected so that startup fails
+ * @param config - Jurisdiction table
+ * @returns TaxPolicy - Policy for the configured jurisdictions
+ */
+export function createTaxPolicy(config: TaxRulesConfig): TaxPolicy {
+  const rules: Array<[string, TaxRule]> = [
+    ...Object.entries(config.countries).map(([country, rule]): [string, TaxRule] => [`country ${country}`, rule]),
+    ...Object.entries(config.companies ?? {}).map(([companyId, rule]): [string, TaxRule] => [`company ${companyId}`, rule])
+  ];
+
+  for (const [name, rule] of rules) {
+    if (typeof rule.rate !== 'number' || !(rule.rate >= 0 && rule.rate < 1)) {
+      throw new Error(`Tax rate for ${name} must be between 0 and 1`);
+    }
+    if (rule.pricing !== 'EXCLUSIVE' && rule.pricing !== 'INCLUSIVE') {
+      throw new Error(`Tax pricing for ${name} must be EXCLUSIVE or INCLUSIVE`);
+    }
+    // Under reverse charge no tax is invoiced, so prices cannot include it
+    if (rule.reverseCharge && rule.pricing === 'INCLUSIVE') {
+      throw new Error(`Reverse charge rule for ${name} must use EXCLUSIVE pricing`);
+    }
+  }
+
+  for (const [companyId, country] of Object.entries(config.companyCountries)) {
+    if (!config.countries[country] && !config.companies?.[companyId]) {
+      throw new Error(`Company ${companyId} is in country ${country}, which has no tax rule`);
+    }
+  }
+
+  return new TaxPolicy(config);
+}
+
+/**
+ * Split an amount into net, tax and gross
+ *
+ * - Exclusive pricing: the amount is net; tax is added on top
+ * - Inclusive pricing: the amount is gross; the tax is the part of it above net
+ * - Reverse charge, or no rule: no tax is charged
+ *
+ * @param amount - Amount as priced
+ * @param tax - Rule to apply; undefined when untaxed
+ * @returns TaxAmounts - Net, tax and gross, each rounded to the minor unit; net plus tax is gross
+ */
+export function calculateTax(amount: Money, tax: AppliedTax | undefined): TaxAmounts {
+  if (!tax || tax.reverseCharge || tax.rate === 0) {
+    return { net: amount, tax: Money.zero(amount.currency), gross: amount };
+  }
+
+  if (tax.pricing === 'INCLUSIVE') {
+    const net = amount.times(1 / (1 + tax.rate));
+    return { net, tax: amount.minus(net), gross: amount };
+  }
+
+  const taxAmount = amount.times(tax.rate);
+  return { net: amount, tax: taxAmount, gross: amount.plus(taxAmount) };
+}
+
+function applied(jurisdiction: string, rule: TaxRule): AppliedTax {
+  return {
+    jurisdiction,
+    rate: rule.rate,
+    pricing: rule.pricing,
+    reverseCharge: rule.reverseCharge === true
+  };
+}
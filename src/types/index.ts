@@ -3,6 +3,8 @@
  * Includes proper validation, error handling, and business rules
  */
 
+import { Money } from '../utils/money';
+
 // Core domain types with enhanced safety
 export interface LeasingAgreement {
   readonly id: string;
@@ -11,31 +13,91 @@ export interface LeasingAgreement {
   readonly startDate: Date;
   readonly endDate: Date;
   readonly status: AgreementStatus;
-  readonly price: number;
+  readonly price: Money; // total cost after discounts, in `currency`
   readonly currency: CurrencyCode;
   readonly companyId: string;
   readonly paymentSchedule: PaymentSchedule[];
   readonly metadata: Record<string, unknown>;
+  readonly cancellation?: AgreementCancellation;
+  readonly exchangeRate?: ExchangeRate; // `currency` to the company's base currency, when the agreement was created
+  readonly tax?: AppliedTax; // tax rule of the company when the agreement was created; absent when untaxed
+  readonly version?: number; // incremented by every write; absent until the agreement is first stored
   readonly createdAt: Date;
   readonly updatedAt: Date;
 }
 
+// Settlement recorded when an agreement is cancelled
+export interface AgreementCancellation {
+  readonly reason: string;
+  readonly cancelledBy: string;
+  readonly cancelledAt: Date;
+  readonly refundCredit: Money; // prorated credit for paid periods not yet used
+  readonly penalty: Money;      // early termination penalty, 0 when not applied
+}
+
 // Strict enum types for better type safety
 export type AgreementStatus = 'DRAFT' | 'PENDING' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
 export type PaymentStatus = 'PENDING' | 'PAID' | 'OVERDUE' | 'CANCELLED';
 export type PaymentFrequency = 'MONTHLY' | 'QUARTERLY' | 'ANNUALLY';
 export type EmployeeType = 'STANDARD' | 'PREMIUM' | 'VIP';
-export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'CAD';
+export type CurrencyCode = string; // ISO 4217 code; the supported codes are configured
+export type DayCountConvention = 'ACTUAL_ACTUAL' | 'THIRTY_360';
 
 // Payment schedule with enhanced tracking
 export interface PaymentSchedule {
   readonly id: string;
   readonly dueDate: Date;
-  readonly amount: number;
+  readonly amount: Money; // gross amount due: `netAmount` plus `taxAmount`
+  readonly netAmount: Money;
+  readonly taxAmount: Money;
   readonly status: PaymentStatus;
-  readonly paymentId?: string;
-  readonly attemptCount: number;
-  readonly lastAttemptDate?: Date;
+  readonly paidAmount: Money; // PAID once it reaches `amount`
+  readonly paymentId?: string; // reference of the last payment applied
+  readonly attemptCount: number; // dunning stage reached; 0 before the first reminder
+  readonly lastAttemptDate?: Date; // when the last reminder or dunning notice was sent
+}
+
+// Tax rules; the jurisdiction table is keyed by country, with overrides for single companies
+export type TaxPricing = 'EXCLUSIVE' | 'INCLUSIVE'; // whether prices are net or already include tax
+
+export interface TaxRule {
+  readonly rate: number; // e.g. 0.19 for 19%
+  readonly pricing: TaxPricing;
+  readonly reverseCharge?: boolean; // the customer accounts for the tax; none is charged
+}
+
+export interface TaxRulesConfig {
+  readonly countries: Record<string, TaxRule>; // by ISO 3166 country code
+  readonly companyCountries: Record<string, string>; // company ID to country code
+  readonly companies?: Record<string, TaxRule>; // by company ID; takes precedence over the country
+}
+
+// Tax rule as applied to an agreement
+export interface AppliedTax extends TaxRule {
+  readonly jurisdiction: string; // country code, or company ID for a company override
+  readonly reverseCharge: boolean;
+}
+
+export interface TaxAmounts {
+  readonly net: Money;
+  readonly tax: Money;
+  readonly gross: Money;
+}
+
+// Exchange rate between two currencies; `rate` units of `to` buy one unit of `from`
+export interface ExchangeRate {
+  readonly from: CurrencyCode;
+  readonly to: CurrencyCode;
+  readonly rate: number;
+  readonly asOf: Date; // when the rate took effect
+  readonly source: string;
+}
+
+// Rates taking effect at `asOf`, quoted against a single base currency
+export interface ExchangeRateTable {
+  readonly asOf: string; // ISO date
+  readonly base: CurrencyCode;
+  readonly rates: Record<CurrencyCode, number>; // units of each currency per unit of `base`
 }
 
 // Request/Response DTOs for API layer
@@ -51,10 +113,23 @@ export interface CreateAgreementRequest {
   readonly metadata?: Record<string, unknown>;
 }
 
+export interface QuoteAgreementRequest extends CreateAgreementRequest {
+  readonly saveAsDraft?: boolean;
+}
+
+export interface CancelAgreementRequest {
+  readonly reason: string;
+  readonly applyPenalty?: boolean;
+}
+
 export interface AgreementResponse {
   readonly id: string;
   readonly status: AgreementStatus;
-  readonly totalCost: number;
+  readonly totalCost: Money;
+  readonly netAmount: Money; // schedule totals; `grossAmount` is what is payable
+  readonly taxAmount: Money;
+  readonly grossAmount: Money;
+  readonly tax?: AppliedTax;
   readonly paymentSchedule: PaymentScheduleResponse[];
   readonly createdAt: string;
 }
@@ -62,10 +137,479 @@ export interface AgreementResponse {
 export interface PaymentScheduleResponse {
   readonly id: string;
   readonly dueDate: string;
-  readonly amount: number;
+  readonly amount: Money;
+  readonly netAmount: Money;
+  readonly taxAmount: Money;
   readonly status: PaymentStatus;
 }
 
+// Full agreement representation returned by GET /agreements/:id
+export interface AgreementDetailResponse {
+  readonly id: string;
+  readonly employeeId: string;
+  readonly itemId: string;
+  readonly companyId: string;
+  readonly status: AgreementStatus;
+  readonly startDate: string;
+  readonly endDate: string;
+  readonly totalCost: Money;
+  readonly currency: CurrencyCode;
+  readonly netAmount: Money;
+  readonly taxAmount: Money;
+  readonly grossAmount: Money;
+  readonly tax?: AppliedTax;
+  readonly paymentSchedule: PaymentScheduleDetailResponse[];
+  readonly metadata: Record<string, unknown>;
+  readonly cancellation?: AgreementCancellationResponse;
+  readonly exchangeRate?: ExchangeRateResponse;
+  readonly totalCostInBaseCurrency?: Money; // converted at `exchangeRate`
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+export interface ExchangeRateResponse {
+  readonly from: CurrencyCode;
+  readonly to: CurrencyCode;
+  readonly rate: number;
+  readonly asOf: string;
+  readonly source: string;
+}
+
+export interface AgreementCancellationResponse {
+  readonly reason: string;
+  readonly cancelledBy: string;
+  readonly cancelledAt: string;
+  readonly refundCredit: Money;
+  readonly penalty: Money;
+  readonly netRefund: Money; // refundCredit minus penalty; negative when the employee owes
+}
+
+export interface PaymentScheduleDetailResponse extends PaymentScheduleResponse {
+  readonly paidAmount: Money;
+  readonly outstandingAmount: Money;
+  readonly paymentId?: string;
+  readonly attemptCount: number;
+  readonly lastAttemptDate?: string;
+}
+
+// Payments recorded against the schedule; `reference` is the unique bank or PSP reference
+export interface RecordPaymentRequest {
+  readonly reference: string;
+  readonly amount: number;
+  readonly receivedAt?: string; // defaults to now
+  readonly paymentId?: string; // schedule entry to settle first; defaults to the oldest outstanding one
+}
+
+export interface PaymentAllocation {
+  readonly paymentId: string; // schedule entry ID
+  readonly amount: Money;
+}
+
+export interface PaymentRecord {
+  readonly reference: string;
+  readonly agreementId: string;
+  readonly amount: Money;
+  readonly receivedAt: Date;
+  readonly allocations: PaymentAllocation[]; // overpayments are carried forward to later entries
+  readonly recordedBy: string;
+  readonly recordedAt: Date;
+}
+
+export interface PaymentRecordResponse {
+  readonly reference: string;
+  readonly agreementId: string;
+  readonly amount: Money;
+  readonly receivedAt: string;
+  readonly allocations: PaymentAllocation[];
+}
+
+// Bulk reconciliation: lines match by schedule entry / payment ID, or by amount and due date
+export interface ReconciliationLine {
+  readonly reference: string;
+  readonly amount: number;
+  readonly receivedAt?: string;
+  readonly paymentId?: string;
+  readonly dueDate?: string;
+}
+
+export interface ReconciliationRequest {
+  readonly companyId: string;
+  readonly lines: ReconciliationLine[];
+}
+
+export type ReconciliationMatchType = 'PAYMENT_ID' | 'AMOUNT_AND_DUE_DATE';
+
+export type UnmatchedReason =
+  | 'INVALID_LINE'
+  | 'UNKNOWN_PAYMENT_ID'
+  | 'NO_MATCH'
+  | 'AMBIGUOUS_MATCH'
+  | 'ALREADY_RECORDED'
+  | 'NOT_PAYABLE'
+  | 'EXCEEDS_BALANCE';
+
+export interface MatchedReconciliationLine {
+  readonly line: number; // zero-based index in the request
+  readonly reference: string;
+  readonly agreementId: string;
+  readonly matchedBy: ReconciliationMatchType;
+  readonly allocations: PaymentAllocation[];
+}
+
+export interface UnmatchedReconciliationLine {
+  readonly line: number;
+  readonly reference?: string;
+  readonly reason: UnmatchedReason;
+  readonly message: string;
+}
+
+export interface ReconciliationReport {
+  readonly matched: MatchedReconciliationLine[];
+  readonly unmatched: UnmatchedReconciliationLine[];
+}
+
+// Schedule entry found by amount and due date during reconciliation
+export interface OutstandingPaymentMatch {
+  readonly agreementId: string;
+  readonly paymentId: string;
+}
+
+// Pricing rules; every rule multiplies the base price
+export type PricingRuleType =
+  | 'EMPLOYEE_TYPE'
+  | 'DURATION_TIER'
+  | 'COMPANY_RATE'
+  | 'ITEM_CATEGORY'
+  | 'CAMPAIGN'
+  | 'DISCOUNT_CAP';
+
+export interface AppliedPricingRule {
+  readonly type: PricingRuleType;
+  readonly ruleId: string; // employee type, tier threshold, company ID, category or campaign ID
+  readonly multiplier: number;
+}
+
+export interface DurationDiscountTier {
+  readonly minMonths: number;
+  readonly multiplier: number;
+}
+
+export interface PricingCampaign {
+  readonly id: string;
+  readonly multiplier: number;
+  readonly startsAt: string; // ISO date, inclusive
+  readonly endsAt: string;   // ISO date, exclusive
+  readonly companyIds?: string[]; // all companies when absent
+  readonly itemCategories?: string[]; // all items when absent
+}
+
+export interface PricingRulesConfig {
+  readonly employeeMultipliers: Record<EmployeeType, number>;
+  readonly durationTiers: DurationDiscountTier[]; // the highest tier reached applies
+  readonly companyRates?: Record<string, number>; // negotiated multiplier per company ID
+  readonly categoryMultipliers?: Record<string, number>;
+  readonly campaigns?: PricingCampaign[]; // the best active campaign applies
+  readonly combinedMultiplierFloor?: number; // lowest combined multiplier; caps stacked discounts
+}
+
+// Cost calculation details exposed by the quote endpoint
+export interface CostBreakdown {
+  readonly basePrice: Money;
+  readonly durationMonths: number;
+  readonly employeeType: EmployeeType;
+  readonly longTermMultiplier: number;
+  readonly employeeMultiplier: number;
+  readonly appliedRules: AppliedPricingRule[]; // in evaluation order
+  readonly totalCost: Money; // as priced: net for exclusive pricing, gross for inclusive pricing
+  readonly netCost: Money;
+  readonly taxAmount: Money;
+  readonly grossCost: Money; // payable, including tax
+  readonly tax?: AppliedTax;
+  readonly policy: AppliedLeasingPolicy;
+}
+
+// Terms a company negotiated; each field replaces the global default for that company
+export interface CompanyPricingOverrides {
+  readonly employeeMultipliers?: Partial<Record<EmployeeType, number>>; // merged with the defaults by employee type
+  readonly durationTiers?: DurationDiscountTier[];
+  readonly companyRate?: number; // the company's negotiated multiplier (see PricingRulesConfig.companyRates)
+  readonly categoryMultipliers?: Record<string, number>; // merged with the defaults by category
+  readonly campaigns?: PricingCampaign[];
+  readonly combinedMultiplierFloor?: number;
+}
+
+export interface CompanyPolicyOverrides {
+  readonly maxLeasingDuration?: number;
+  readonly minLeasingDuration?: number;
+  readonly maxPrice?: number; // in the company's base currency
+  readonly supportedCurrencies?: CurrencyCode[];
+  readonly baseCurrency?: CurrencyCode; // the company's base currency
+  readonly pricing?: CompanyPricingOverrides;
+  readonly earlyTerminationPenaltyRate?: number;
+  readonly dayCountConvention?: DayCountConvention;
+  readonly tax?: TaxRule; // takes precedence over the company's country
+}
+
+export interface CompanyPolicy {
+  readonly companyId: string;
+  readonly overrides: CompanyPolicyOverrides;
+  readonly updatedBy: string; // user ID
+  readonly updatedAt: Date;
+}
+
+// Leasing policy an agreement is priced under: the global defaults with its company's overrides
+export interface AppliedLeasingPolicy {
+  readonly companyId?: string;
+  readonly overriddenFields: (keyof CompanyPolicyOverrides)[]; // empty when the company has no overrides
+  readonly minLeasingDuration: number;
+  readonly maxLeasingDuration: number;
+  readonly maxPrice: number;
+  readonly baseCurrency: CurrencyCode; // currency of maxPrice
+  readonly employeeMultipliers: Record<EmployeeType, number>;
+  readonly durationTiers: DurationDiscountTier[];
+  readonly earlyTerminationPenaltyRate: number;
+  readonly dayCountConvention: DayCountConvention;
+}
+
+export interface CompanyPolicyResponse {
+  readonly companyId: string;
+  readonly overrides: CompanyPolicyOverrides;
+  readonly effective: AppliedLeasingPolicy;
+  readonly updatedBy: string;
+  readonly updatedAt: string;
+}
+
+export interface AgreementQuote {
+  readonly breakdown: CostBreakdown;
+  readonly currency: CurrencyCode;
+  readonly paymentFrequency: PaymentFrequency;
+  readonly paymentSchedule: PaymentSchedule[];
+  readonly itemAvailable: boolean;
+}
+
+export interface QuoteResponse {
+  readonly breakdown: CostBreakdown;
+  readonly currency: CurrencyCode;
+  readonly paymentFrequency: PaymentFrequency;
+  readonly paymentSchedule: PaymentScheduleResponse[];
+  readonly itemAvailable: boolean;
+  readonly draftAgreementId?: string;
+}
+
+// Summary representation used in agreement listings
+export interface AgreementSummaryResponse {
+  readonly id: string;
+  readonly employeeId: string;
+  readonly itemId: string;
+  readonly status: AgreementStatus;
+  readonly startDate: string;
+  readonly endDate: string;
+  readonly totalCost: Money;
+  readonly currency: CurrencyCode;
+  readonly baseCurrency?: CurrencyCode; // company's base currency when the agreement was created
+  readonly totalCostInBaseCurrency?: Money;
+  readonly createdAt: string;
+}
+
+export interface AgreementListResponse {
+  readonly items: AgreementSummaryResponse[];
+  readonly nextCursor: string | null;
+  readonly limit: number;
+}
+
+// Availability of an item for a period, as queried before quoting
+export interface ItemAvailabilityQuery {
+  readonly itemId: string;
+  readonly startDate: Date;
+  readonly endDate: Date;
+}
+
+export interface ItemAvailabilityResponse {
+  readonly itemId: string;
+  readonly startDate: string;
+  readonly endDate: string;
+  readonly available: boolean;
+}
+
+// Listing queries with keyset (cursor) pagination
+export type AgreementSortField = 'startDate' | 'createdAt';
+export type SortOrder = 'asc' | 'desc';
+
+export interface AgreementCursor {
+  readonly sortBy: AgreementSortField;
+  readonly sortOrder: SortOrder;
+  readonly sortValue: string; // ISO date of the last returned item's sort field
+  readonly id: string;
+}
+
+export interface AgreementListQuery {
+  readonly status?: AgreementStatus[];
+  readonly currency?: CurrencyCode;
+  readonly itemId?: string;
+  readonly companyId?: string;
+  readonly from?: Date; // lease period must end on or after this date
+  readonly to?: Date;   // lease period must start on or before this date
+  readonly sortBy: AgreementSortField;
+  readonly sortOrder: SortOrder;
+  readonly limit: number;
+  readonly cursor?: AgreementCursor;
+}
+
+export interface AgreementPage {
+  readonly items: LeasingAgreement[];
+  readonly nextCursor: AgreementCursor | null;
+}
+
+// Authenticated caller as resolved by the security middleware
+export interface AuthenticatedUser {
+  readonly id: string;
+  readonly email: string;
+  readonly companyId: string;
+  readonly role: string;
+}
+
+// Named permissions granted to roles; `:own`, `:reports` and `:company` scope reads by owner, manager and tenant
+export const PERMISSIONS = [
+  'agreement:create',
+  'agreement:read:own',
+  'agreement:read:reports',
+  'agreement:read:company',
+  'agreement:activate',
+  'agreement:complete',
+  'agreement:cancel',
+  'payment:record',
+  'policy:manage',
+  'company:any'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export type RolePermissions = Record<string, Permission[]>;
+
+// Token issuance
+export type GrantType = 'password' | 'client_credentials';
+
+export interface TokenRequest {
+  grantType: GrantType;
+  username?: string;
+  password?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export interface TokenResponse {
+  accessToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number; // seconds
+  refreshToken?: string;
+}
+
+// Refresh tokens are opaque; only their SHA-256 hash is stored
+export interface RefreshTokenRecord {
+  readonly tokenHash: string;
+  readonly familyId: string; // shared by every token rotated from the same login
+  readonly user: AuthenticatedUser;
+  readonly issuedAt: Date;
+  readonly expiresAt: Date;
+  readonly revokedAt?: Date;
+  readonly replacedBy?: string; // hash of the token issued on rotation
+}
+
+// Idempotent request handling; keys are scoped to the caller that sent them
+export type IdempotencyStatus = 'IN_PROGRESS' | 'COMPLETED';
+
+export interface StoredResponse {
+  readonly statusCode: number;
+  readonly body: unknown;
+}
+
+export interface IdempotencyRecord {
+  readonly key: string;
+  readonly requestHash: string; // fingerprint of method, path and body
+  readonly status: IdempotencyStatus;
+  readonly response?: StoredResponse;
+  readonly lockedUntil: Date; // an IN_PROGRESS claim is abandoned after this
+  readonly expiresAt: Date;
+}
+
+// Item reservations; an agreement holds at most one, under its own ID
+export interface ItemReservation {
+  readonly id: string; // agreement ID
+  readonly itemId: string;
+  readonly startDate: Date; // periods are half-open: a lease may start on the day another ends
+  readonly endDate: Date;
+  readonly expiresAt?: Date; // holds of DRAFT and PENDING agreements lapse; absent once confirmed
+}
+
+// Persisted saga log for agreement creation; each step is recorded before and after it runs
+export type AgreementSagaStep = 'reserve' | 'save' | 'bill' | 'activate';
+export type SagaStatus = 'RUNNING' | 'COMPLETED' | 'COMPENSATING' | 'COMPENSATED' | 'FAILED';
+export type SagaStepStatus = 'STARTED' | 'COMPLETED' | 'FAILED' | 'COMPENSATED';
+
+export interface SagaStepRecord {
+  readonly name: AgreementSagaStep;
+  readonly status: SagaStepStatus;
+  readonly data?: Record<string, string>; // values needed to compensate, e.g. the billing ID
+  readonly updatedAt: Date;
+}
+
+export interface AgreementSagaRecord {
+  readonly id: string;
+  readonly agreementId: string;
+  readonly status: SagaStatus;
+  readonly agreement: LeasingAgreement; // agreement as it was when the saga started
+  readonly storedDraft: boolean; // whether the draft was already stored, e.g. saved from a quote
+  readonly steps: SagaStepRecord[];
+  readonly error?: string;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+export interface SagaStepResponse {
+  name: AgreementSagaStep;
+  status: SagaStepStatus;
+  data?: Record<string, string>;
+  updatedAt: string;
+}
+
+export interface AgreementSagaResponse {
+  id: string;
+  agreementId: string;
+  status: SagaStatus;
+  steps: SagaStepResponse[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Domain events, written to the outbox in the same transaction as the agreement
+export type DomainEventType =
+  | 'AgreementCreated'
+  | 'AgreementSubmitted'
+  | 'AgreementActivated'
+  | 'AgreementCompleted'
+  | 'AgreementCancelled'
+  | 'ItemReserved'
+  | 'PaymentDue';
+
+export interface DomainEvent {
+  readonly id: string;
+  readonly type: DomainEventType;
+  readonly agreementId: string;
+  readonly payload: Record<string, string | number>;
+  readonly occurredAt: Date;
+}
+
+export type OutboxStatus = 'PENDING' | 'DELIVERED' | 'DEAD';
+
+export interface OutboxEntry extends DomainEvent {
+  readonly status: OutboxStatus;
+  readonly attempts: number;
+  readonly nextAttemptAt: Date; // also the lease of a claimed entry
+  readonly lastError?: string;
+  readonly deliveredAt?: Date;
+}
+
 // Error types for better error handling
 export class ValidationError extends Error {
   constructor(
@@ -89,22 +633,143 @@ export class BusinessRuleError extends Error {
   }
 }
 
+/**
+ * A record changed between being read and being written back
+ */
+export class ConcurrentModificationError extends BusinessRuleError {
+  constructor(resource: string, id: string) {
+    super(
+      `The ${resource} ${id} was changed by another request; reload it and retry`,
+      'CONCURRENT_MODIFICATION',
+      'VERSION_CONFLICT'
+    );
+    this.name = 'ConcurrentModificationError';
+  }
+}
+
+export class NotFoundError extends Error {
+  constructor(
+    message: string,
+    public readonly resource: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class AuthenticationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class AccessDeniedError extends Error {
+  constructor(
+    message: string,
+    public readonly rule: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+export class ConfigurationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n- ${problems.join('\n- ')}`);
+    this.name = 'ConfigurationError';
+  }
+}
+
+export class ExternalServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly service: string,
+    public readonly code: string,
+    public readonly status?: number // HTTP status of the last response, when one was received
+  ) {
+    super(message);
+    this.name = 'ExternalServiceError';
+  }
+}
+
 // Configuration interfaces
 export interface LeasingConfig {
   readonly maxLeasingDuration: number;
   readonly minLeasingDuration: number;
-  readonly maxPrice: number;
-  readonly supportedCurrencies: CurrencyCode[];
-  readonly employeeDiscounts: Record<EmployeeType, number>;
-  readonly longTermDiscount: number;
-  readonly longTermThreshold: number;
+  readonly maxPrice: number; // in the company's base currency
+  readonly supportedCurrencies: CurrencyCode[]; // currencies agreements can be priced in
+  readonly baseCurrency: CurrencyCode; // base currency of companies without their own
+  readonly companyBaseCurrencies: Record<string, CurrencyCode>; // by company ID
+  readonly pricing: PricingRulesConfig;
+  readonly earlyTerminationPenaltyRate: number; // share of the cancelled outstanding amount
+  readonly dayCountConvention: DayCountConvention; // used for lease duration and proration
+  readonly tax: TaxRulesConfig;
+  readonly reservationHoldMinutes: {
+    readonly draft: number; // how long a saved draft holds its item
+    readonly pending: number; // how long creation may take before the item is confirmed
+  };
+}
+
+export interface HttpClientConfig {
+  readonly timeoutMs: number; // per attempt
+  readonly maxRetries: number; // attempts after the first; only idempotent requests are retried
+  readonly retryBaseDelayMs: number; // doubled after every failed attempt, then jittered
+  readonly retryMaxDelayMs: number;
+  readonly circuitFailureThreshold: number; // consecutive failures that open the circuit
+  readonly circuitResetMs: number; // how long an open circuit rejects calls before a trial call
 }
 
 // Service interfaces for dependency injection
 export interface ILeasingRepository {
-  save(agreement: LeasingAgreement): Promise<LeasingAgreement>;
+  /**
+   * Store an agreement; events are written to the outbox in the same transaction
+   * An agreement without a version is inserted, one with a version replaces the stored
+   * agreement only if that still has the same version. Rejects with a
+   * ConcurrentModificationError otherwise. Resolves the agreement with its new version
+   */
+  save(agreement: LeasingAgreement, events?: DomainEvent[]): Promise<LeasingAgreement>;
   findById(id: string): Promise<LeasingAgreement | null>;
   findByEmployeeId(employeeId: string): Promise<LeasingAgreement[]>;
+  findPageByEmployeeId(employeeId: string, query: AgreementListQuery): Promise<AgreementPage>;
+  /** Agreement owning the schedule entry with this ID */
+  findByPaymentId(paymentId: string): Promise<LeasingAgreement | null>;
+  /** Unsettled schedule entries of a company due on the given UTC day with exactly this outstanding amount, in major units of any currency */
+  findOutstandingPayments(companyId: string, dueDate: Date, outstandingAmount: number): Promise<OutstandingPaymentMatch[]>;
+  /**
+   * Store a payment and the agreement it was applied to in one transaction
+   * Resolves false, writing nothing, when the payment reference was already recorded;
+   * the agreement is version-checked as by `save`
+   */
+  recordPayment(agreement: LeasingAgreement, payment: PaymentRecord): Promise<boolean>;
+  /** Active agreements with an unsettled entry due before the given date, in ID order after `afterId` */
+  findWithUnsettledPaymentsDueBefore(dueBefore: Date, afterId: string | undefined, limit: number): Promise<LeasingAgreement[]>;
+  /**
+   * Store the dunning state (status, attempt count and date) of one schedule entry and its events in one transaction
+   * Resolves false, writing nothing, when the entry was settled or its attempt count changed since it was read.
+   * Increments the agreement's version
+   */
+  updatePaymentDunning(
+    agreementId: string,
+    payment: PaymentSchedule,
+    expectedAttemptCount: number,
+    events: DomainEvent[]
+  ): Promise<boolean>;
+}
+
+export interface IExchangeRateService {
+  /** Rate in effect at the given time; rejects with a BusinessRuleError when none is known */
+  getRate(from: CurrencyCode, to: CurrencyCode, at: Date): Promise<ExchangeRate>;
+}
+
+// Source of the current time; injected where behaviour depends on it
+export interface IClock {
+  now(): Date;
 }
 
 export interface INotificationService {
@@ -113,17 +778,94 @@ export interface INotificationService {
 }
 
 export interface IInventoryService {
-  reserveItem(itemId: string): Promise<boolean>;
-  releaseItem(itemId: string): Promise<void>;
+  /** Whether the item exists and can be leased at all; periods are checked against reservations */
   checkAvailability(itemId: string): Promise<boolean>;
+  /** Pricing category of the item, undefined when it has none */
+  getItemCategory(itemId: string): Promise<string | undefined>;
+  /** Record a confirmed reservation; repeated calls with the same reservation ID replace it */
+  reserveItem(reservation: ItemReservation): Promise<void>;
+  /** Release a reservation by ID; releasing one that is unknown or already released succeeds */
+  releaseItem(reservationId: string): Promise<void>;
 }
 
 export interface IBillingService {
-  createBillingRecord(agreement: LeasingAgreement): Promise<string>;
+  /** Create an agreement's billing record; repeated calls with the same key return the same record */
+  createBillingRecord(agreement: LeasingAgreement, idempotencyKey: string): Promise<string>;
   updateBillingRecord(agreementId: string, status: AgreementStatus): Promise<void>;
+  cancelBillingRecord(billingId: string): Promise<void>;
 }
 
 export interface IEmployeeService {
   getEmployeeType(employeeId: string): Promise<EmployeeType>;
   validateEmployee(employeeId: string, companyId: string): Promise<boolean>;
+  getDirectReports(managerId: string): Promise<string[]>;
+}
+
+export interface IRefreshTokenStore {
+  save(record: RefreshTokenRecord): Promise<void>;
+  findByHash(tokenHash: string): Promise<RefreshTokenRecord | null>;
+  /** Revoke a token; resolves false when it was already revoked */
+  revoke(tokenHash: string, revokedAt: Date, replacedBy?: string): Promise<boolean>;
+  revokeFamily(familyId: string, revokedAt: Date): Promise<number>;
+}
+
+export interface ICredentialVerifier {
+  verify(identifier: string, secret: string): Promise<AuthenticatedUser | null>;
+  /** Current state of an account by user ID; null when it no longer exists */
+  findUser(userId: string): Promise<AuthenticatedUser | null>;
+}
+
+export interface IIdempotencyStore {
+  /** Claim a key; resolves the live record holding it, or null when the claim succeeded */
+  claim(record: IdempotencyRecord, now: Date): Promise<IdempotencyRecord | null>;
+  find(key: string, now: Date): Promise<IdempotencyRecord | null>;
+  complete(key: string, response: StoredResponse): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+export interface IItemReservationStore {
+  /**
+   * Store a reservation, replacing the one with the same ID; the overlap check
+   * and the write are atomic, so concurrent overlapping reservations cannot both succeed
+   * Resolves false, storing nothing, when another reservation in effect overlaps the period
+   */
+  reserve(reservation: ItemReservation, now: Date): Promise<boolean>;
+  release(id: string): Promise<void>;
+  findById(id: string): Promise<ItemReservation | null>;
+  /** Whether no reservation in effect other than `excludeId` overlaps the period */
+  isAvailable(itemId: string, startDate: Date, endDate: Date, now: Date, excludeId?: string): Promise<boolean>;
+}
+
+export interface ICompanyPolicyStore {
+  findByCompanyId(companyId: string): Promise<CompanyPolicy | null>;
+  /** Every stored policy, in company ID order */
+  findAll(): Promise<CompanyPolicy[]>;
+  /** Store a policy, replacing the company's previous one */
+  save(policy: CompanyPolicy): Promise<void>;
+  /** Remove a company's policy; resolves false when it had none */
+  delete(companyId: string): Promise<boolean>;
+}
+
+export interface ISagaLog {
+  save(saga: AgreementSagaRecord): Promise<void>;
+  findById(id: string): Promise<AgreementSagaRecord | null>;
+  findByAgreementId(agreementId: string): Promise<AgreementSagaRecord[]>;
+  /** Sagas left RUNNING or COMPENSATING, e.g. by a crash */
+  findIncomplete(): Promise<AgreementSagaRecord[]>;
+}
+
+export interface IOutboxStore {
+  /**
+   * Lease due PENDING entries so that no other dispatcher picks them up
+   * before `leaseUntil`; resolves only the entries this call won
+   * Only the oldest PENDING entry of each agreement is due, so an agreement's events are delivered in order
+   */
+  claimDue(now: Date, limit: number, leaseUntil: Date): Promise<OutboxEntry[]>;
+  markDelivered(id: string, deliveredAt: Date): Promise<void>;
+  scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void>;
+  markDead(id: string, attempts: number, error: string): Promise<void>;
+  /** Dead-letter list, oldest first */
+  findDead(): Promise<OutboxEntry[]>;
+  /** Move a dead entry back to PENDING; resolves false when it is not dead */
+  requeue(id: string, now: Date): Promise<boolean>;
 }
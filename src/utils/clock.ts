@@ -0,0 +1,12 @@
+/**
+ * Wall clock
+ */
+
+import { IClock } from '../types';
+
+/**
+ * Clock backed by the system time; tests inject a fixed or manually advanced clock instead
+ */
+export const systemClock: IClock = {
+  now: () => new Date()
+};
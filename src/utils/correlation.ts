@@ -0,0 +1,40 @@
+/**
+ * Correlation ID of the work in progress
+ * Carried across awaits so outgoing calls can forward it without threading it through every signature
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+
+// Incoming IDs are echoed into logs and outgoing headers, so only plain tokens are accepted
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * Run work with a correlation ID; calls made from it, directly or after awaits, see the ID
+ * @param correlationId - Correlation ID
+ * @param work - Work to run
+ * @returns T - Result of the work
+ */
+export function withCorrelationId<T>(correlationId: string, work: () => T): T {
+  return storage.run(correlationId, work);
+}
+
+/**
+ * Correlation ID of the running work
+ * @returns string | undefined - Correlation ID, or undefined outside withCorrelationId
+ */
+export function currentCorrelationId(): string | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Check a correlation ID received from a caller
+ * @param value - Header value
+ * @returns boolean - Whether the ID can be adopted
+ */
+export function isValidCorrelationId(value: unknown): value is string {
+  return typeof value === 'string' && CORRELATION_ID_PATTERN.test(value);
+}
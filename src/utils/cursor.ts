@@ -0,0 +1,59 @@
+/**
+ * Opaque pagination cursor encoding
+ * Cursors are base64url-encoded JSON so clients treat them as opaque tokens
+ */
+
+import { AgreementCursor, ValidationError } from '../types';
+
+/**
+ * Encode cursor for transport in API responses
+ * @param cursor - Cursor to encode
+ * @returns string - Opaque cursor token
+ */
+export function encodeCursor(cursor: AgreementCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode cursor token received from a client
+ * @param token - Opaque cursor token
+ * @returns AgreementCursor - Decoded cursor
+ */
+export function decodeCursor(token: string): AgreementCursor {
+  let decoded: unknown;
+
+  try {
+    decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Cursor is malformed', 'cursor', 'INVALID_CURSOR');
+  }
+
+  if (!isAgreementCursor(decoded)) {
+    throw new ValidationError('Cursor is malformed', 'cursor', 'INVALID_CURSOR');
+  }
+
+  return {
+    sortBy: decoded.sortBy,
+    sortOrder: decoded.sortOrder,
+    sortValue: decoded.sortValue,
+    id: decoded.id
+  };
+}
+
+/**
+ * Check the shape of a parsed cursor token
+ * @param value - Parsed JSON
+ * @returns boolean - Whether the value is a cursor
+ */
+function isAgreementCursor(value: unknown): value is AgreementCursor {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const cursor = value as Partial<Record<keyof AgreementCursor, unknown>>;
+  return (cursor.sortBy === 'startDate' || cursor.sortBy === 'createdAt')
+    && (cursor.sortOrder === 'asc' || cursor.sortOrder === 'desc')
+    && typeof cursor.sortValue === 'string'
+    && !isNaN(new Date(cursor.sortValue).getTime())
+    && typeof cursor.id === 'string';
+}
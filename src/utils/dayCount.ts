@@ -0,0 +1,164 @@
+/**
+ * Day-count conventions and calendar arithmetic for lease periods
+ * All calculations use UTC calendar dates; the time of day is ignored
+ */
+
+import { DayCountConvention } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BillingPeriod {
+  readonly start: Date; // inclusive
+  readonly end: Date; // exclusive
+}
+
+/**
+ * Midnight UTC of the date's calendar day
+ * @param date - Any instant
+ * @returns Date - Start of its UTC day
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Add calendar months, keeping the day of month where it exists
+ * A day that does not exist in the target month is clamped to its last day,
+ * so Jan 31 + 1 month is Feb 28 (Feb 29 in leap years), never a day in March.
+ * Add to the original date rather than chaining calls to avoid drifting: Jan 31 + 2 months is Mar 31
+ * @param date - Start date
+ * @param months - Months to add; may be negative
+ * @returns Date - Shifted date at midnight UTC
+ */
+export function addMonths(date: Date, months: number): Date {
+  const monthIndex = date.getUTCMonth() + months;
+  const year = date.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+  const day = Math.min(date.getUTCDate(), daysInMonth(year, month));
+  return new Date(Date.UTC(year, month, day));
+}
+
+/**
+ * Days between two dates under a day-count convention
+ * - ACTUAL_ACTUAL: calendar days
+ * - THIRTY_360: every month has 30 days (ISDA 30/360 bond basis); a 31st counts as the 30th
+ *   when the period starts on the 30th or 31st
+ * @param start - Period start
+ * @param end - Period end
+ * @param convention - Day-count convention
+ * @returns number - Day count; negative when end is before start
+ */
+export function daysBetween(start: Date, end: Date, convention: DayCountConvention): number {
+  if (convention === 'THIRTY_360') {
+    let startDay = start.getUTCDate();
+    let endDay = end.getUTCDate();
+    if (startDay === 31) {
+      startDay = 30;
+    }
+    if (endDay === 31 && startDay === 30) {
+      endDay = 30;
+    }
+    return 360 * (end.getUTCFullYear() - start.getUTCFullYear())
+      + 30 * (end.getUTCMonth() - start.getUTCMonth())
+      + (endDay - startDay);
+  }
+
+  return Math.round((startOfUtcDay(end).getTime() - startOfUtcDay(start).getTime()) / DAY_MS);
+}
+
+/**
+ * Length of a period in years
+ * - ACTUAL_ACTUAL (ISDA): days falling in each calendar year divided by that year's length
+ * - THIRTY_360: days divided by 360
+ * @param start - Period start
+ * @param end - Period end
+ * @param convention - Day-count convention
+ * @returns number - Year fraction; 0 when end is not after start
+ */
+export function yearFraction(start: Date, end: Date, convention: DayCountConvention): number {
+  if (end <= start) {
+    return 0;
+  }
+
+  if (convention === 'THIRTY_360') {
+    return daysBetween(start, end, convention) / 360;
+  }
+
+  let fraction = 0;
+  for (let year = start.getUTCFullYear(); year <= end.getUTCFullYear(); year++) {
+    const yearStart = new Date(Date.UTC(year, 0, 1));
+    const yearEnd = new Date(Date.UTC(year + 1, 0, 1));
+    const days = daysBetween(start > yearStart ? start : yearStart, end < yearEnd ? end : yearEnd, convention);
+    fraction += days / daysBetween(yearStart, yearEnd, convention);
+  }
+  return fraction;
+}
+
+/**
+ * Length of a period in months
+ * - ACTUAL_ACTUAL: whole calendar months, plus the remaining days as a share of the
+ *   actual length of the month they fall in. Jan 31 to Mar 1 is 1 month and 1 day of 31
+ * - THIRTY_360: 30/360 days divided by 30
+ * @param start - Period start
+ * @param end - Period end
+ * @param convention - Day-count convention
+ * @returns number - Fractional months; 0 when end is not after start
+ */
+export function monthsBetween(start: Date, end: Date, convention: DayCountConvention): number {
+  if (end <= start) {
+    return 0;
+  }
+
+  if (convention === 'THIRTY_360') {
+    return daysBetween(start, end, convention) / 30;
+  }
+
+  const from = startOfUtcDay(start);
+  const to = startOfUtcDay(end);
+
+  let wholeMonths = 0;
+  while (addMonths(from, wholeMonths + 1) <= to) {
+    wholeMonths++;
+  }
+
+  const partStart = addMonths(from, wholeMonths);
+  const partEnd = addMonths(from, wholeMonths + 1);
+  return wholeMonths + daysBetween(partStart, to, convention) / daysBetween(partStart, partEnd, convention);
+}
+
+/**
+ * Split a lease into billing periods that start on the first of the month
+ * A lease that does not start on the 1st gets a shorter first period up to the next 1st;
+ * the last period ends with the lease. Both are prorated by the caller
+ * @param start - Lease start
+ * @param end - Lease end
+ * @param intervalMonths - Months per full period
+ * @returns BillingPeriod[] - Consecutive periods covering the lease
+ */
+export function billingPeriods(start: Date, end: Date, intervalMonths: number): BillingPeriod[] {
+  const first = startOfUtcDay(start);
+  const last = startOfUtcDay(end);
+  const anchor = first.getUTCDate() === 1
+    ? first
+    : new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 1));
+
+  const periods: BillingPeriod[] = [];
+  if (anchor > first) {
+    periods.push({ start: first, end: anchor < last ? anchor : last });
+  }
+
+  for (let index = 0; ; index++) {
+    const periodStart = addMonths(anchor, index * intervalMonths);
+    if (periodStart >= last) {
+      break;
+    }
+    const periodEnd = addMonths(anchor, (index + 1) * intervalMonths);
+    periods.push({ start: periodStart, end: periodEnd < last ? periodEnd : last });
+  }
+
+  return periods;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
@@ -0,0 +1,39 @@
+/**
+ * Per-key mutual exclusion for async work within one process
+ */
+
+/**
+ * Serializes holders of the same key in arrival order; different keys never wait for each other
+ */
+export class KeyedMutex {
+
+  private readonly tails: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Wait until the key is free and take it
+   * @param key - Key to lock
+   * @returns Promise<() => void> - Release function; calling it more than once has no effect
+   */
+  async acquire(key: string): Promise<() => void> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+
+    let unlock!: () => void;
+    const held = new Promise<void>(resolve => { unlock = resolve; });
+    const tail = previous.then(() => held);
+    this.tails.set(key, tail);
+
+    await previous;
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      unlock();
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    };
+  }
+}
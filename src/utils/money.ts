@@ -0,0 +1,235 @@
+/**
+ * Money value object
+ * Amounts are held as integer minor units (cents) together with their currency,
+ * so sums and splits are exact
+ */
+
+import { CurrencyCode, ExchangeRate, ValidationError } from '../types';
+
+/**
+ * Number of decimal places of each currency Money can hold (ISO 4217)
+ * Which of them agreements can use is configured separately
+ */
+export const CURRENCY_MINOR_UNITS: Readonly<Record<CurrencyCode, number>> = {
+  AUD: 2,
+  BHD: 3,
+  BRL: 2,
+  CAD: 2,
+  CHF: 2,
+  CNY: 2,
+  CZK: 2,
+  DKK: 2,
+  EUR: 2,
+  GBP: 2,
+  HKD: 2,
+  HUF: 2,
+  INR: 2,
+  ISK: 0,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  MXN: 2,
+  NOK: 2,
+  NZD: 2,
+  PLN: 2,
+  SEK: 2,
+  SGD: 2,
+  USD: 2,
+  ZAR: 2
+};
+
+/**
+ * @param currency - Currency code
+ * @returns boolean - Whether Money knows the currency's minor units
+ */
+export function isKnownCurrency(currency: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CURRENCY_MINOR_UNITS, currency);
+}
+
+/**
+ * Check that an amount has no more decimal places than its currency allows
+ * @param amount - Amount in major units
+ * @param currency - Currency of the amount
+ * @returns boolean - Whether the amount is representable in minor units
+ */
+export function hasMinorUnitPrecision(amount: number, currency: CurrencyCode): boolean {
+  const factor = minorUnitFactor(currency);
+  return Number.isFinite(amount) && Math.round(amount * factor) / factor === amount;
+}
+
+export class Money {
+
+  private constructor(
+    readonly minorUnits: number,
+    readonly currency: CurrencyCode
+  ) {}
+
+  /**
+   * @param amount - Amount in major units, e.g. 12.34; numeric strings are accepted for stored values
+   * @param currency - Currency of the amount
+   * @returns Money - Exact amount
+   * @throws ValidationError - When the amount has more decimal places than the currency allows
+   */
+  static of(amount: number | string, currency: CurrencyCode): Money {
+    const value = Number(amount);
+    if (!hasMinorUnitPrecision(value, currency)) {
+      throw new ValidationError(`${amount} is not a valid ${currency} amount`, 'amount', 'INVALID_PRECISION');
+    }
+    return new Money(Math.round(value * minorUnitFactor(currency)), currency);
+  }
+
+  /**
+   * @param minorUnits - Integer amount in minor units, e.g. 1234 for 12.34
+   * @param currency - Currency of the amount
+   * @returns Money - Exact amount
+   */
+  static ofMinor(minorUnits: number, currency: CurrencyCode): Money {
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new Error(`${minorUnits} is not a whole number of ${currency} minor units`);
+    }
+    return new Money(minorUnits, currency);
+  }
+
+  static zero(currency: CurrencyCode): Money {
+    return new Money(0, currency);
+  }
+
+  /**
+   * @param amounts - Amounts in the same currency
+   * @param currency - Currency of the sum, needed when the list is empty
+   * @returns Money - Sum of the amounts
+   */
+  static sum(amounts: Money[], currency: CurrencyCode): Money {
+    return amounts.reduce((total, amount) => total.plus(amount), Money.zero(currency));
+  }
+
+  plus(other: Money): Money {
+    return new Money(this.minorUnits + this.sameCurrency(other).minorUnits, this.currency);
+  }
+
+  minus(other: Money): Money {
+    return new Money(this.minorUnits - this.sameCurrency(other).minorUnits, this.currency);
+  }
+
+  /**
+   * @param factor - Multiplier, e.g. a discount or a prorated share
+   * @returns Money - Product rounded half up to the nearest minor unit
+   */
+  times(factor: number): Money {
+    return new Money(Math.round(this.minorUnits * factor), this.currency);
+  }
+
+  /**
+   * @param rate - Rate from this amount's currency
+   * @returns Money - Amount in the rate's target currency, rounded half up to its minor unit
+   */
+  convert(rate: ExchangeRate): Money {
+    if (rate.from !== this.currency) {
+      throw new Error(`Cannot convert ${this.currency} with a ${rate.from} rate`);
+    }
+    const scale = minorUnitFactor(rate.to) / minorUnitFactor(this.currency);
+    return new Money(Math.round(this.minorUnits * rate.rate * scale), rate.to);
+  }
+
+  /**
+   * Split the amount in proportion to weights without losing a minor unit
+   * Every share gets its rounded-down part; the units left over go to the shares with
+   * the largest remainders (the later share on a tie), so the shares always add up to the amount
+   * @param weights - Non-negative weights, at least one positive
+   * @returns Money[] - One share per weight
+   */
+  allocate(weights: number[]): Money[] {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (weights.length === 0 || !(totalWeight > 0) || weights.some(weight => weight < 0)) {
+      throw new Error('Allocation needs non-negative weights with a positive total');
+    }
+
+    const exact = weights.map(weight => this.minorUnits * weight / totalWeight);
+    const shares = exact.map(Math.floor);
+    let leftover = this.minorUnits - shares.reduce((sum, share) => sum + share, 0);
+
+    const byRemainder = exact
+      .map((value, index) => ({ index, remainder: value - shares[index] }))
+      .sort((a, b) => b.remainder - a.remainder || b.index - a.index);
+
+    for (const { index } of byRemainder) {
+      if (leftover <= 0) {
+        break;
+      }
+      shares[index]++;
+      leftover--;
+    }
+
+    return shares.map(share => new Money(share, this.currency));
+  }
+
+  min(other: Money): Money {
+    return this.compareTo(other) <= 0 ? this : other;
+  }
+
+  max(other: Money): Money {
+    return this.compareTo(other) >= 0 ? this : other;
+  }
+
+  /**
+   * @returns number - Negative, zero or positive as this amount is less than, equal to or greater than the other
+   */
+  compareTo(other: Money): number {
+    return this.minorUnits - this.sameCurrency(other).minorUnits;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minorUnits === other.minorUnits;
+  }
+
+  isZero(): boolean {
+    return this.minorUnits === 0;
+  }
+
+  isPositive(): boolean {
+    return this.minorUnits > 0;
+  }
+
+  isNegative(): boolean {
+    return this.minorUnits < 0;
+  }
+
+  /**
+   * @returns number - Amount in major units, e.g. 12.34
+   */
+  toNumber(): number {
+    return this.minorUnits / minorUnitFactor(this.currency);
+  }
+
+  /**
+   * @returns string - Amount with all decimal places, e.g. "12.30"; used for storage
+   */
+  toDecimalString(): string {
+    return this.toNumber().toFixed(CURRENCY_MINOR_UNITS[this.currency]);
+  }
+
+  toString(): string {
+    return `${this.toDecimalString()} ${this.currency}`;
+  }
+
+  /**
+   * API responses carry the amount in major units; the currency is a separate field
+   */
+  toJSON(): number {
+    return this.toNumber();
+  }
+
+  private sameCurrency(other: Money): Money {
+    if (other.currency !== this.currency) {
+      throw new Error(`Cannot combine ${this.currency} and ${other.currency} amounts`);
+    }
+    return other;
+  }
+}
+
+function minorUnitFactor(currency: CurrencyCode): number {
+  if (!isKnownCurrency(currency)) {
+    throw new Error(`Unknown currency ${currency}`);
+  }
+  return 10 ** CURRENCY_MINOR_UNITS[currency];
+}
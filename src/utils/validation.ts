@@ -3,17 +3,96 @@
  * Provides type-safe validation with detailed error messages
  */
 
-import { ValidationError, CreateAgreementRequest, CurrencyCode, PaymentFrequency } from '../types';
+import {
+  ValidationError,
+  CreateAgreementRequest,
+  CancelAgreementRequest,
+  CurrencyCode,
+  PaymentFrequency,
+  AgreementStatus,
+  AgreementListQuery,
+  AgreementSortField,
+  ItemAvailabilityQuery,
+  SortOrder,
+  GrantType,
+  TokenRequest,
+  RecordPaymentRequest,
+  ReconciliationRequest,
+  ReconciliationLine,
+  LeasingConfig,
+  CompanyPolicyOverrides
+} from '../types';
+import Joi from 'joi';
+import { decodeCursor } from './cursor';
+import { addMonths } from './dayCount';
+import { CURRENCY_MINOR_UNITS, hasMinorUnitPrecision, isKnownCurrency } from './money';
+
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 100;
+const MAX_RECONCILIATION_LINES = 1000;
+
+/**
+ * Business limits an agreement request is checked against, taken from LeasingConfig
+ */
+export type AgreementRequestLimits = Pick<LeasingConfig, 'supportedCurrencies' | 'minLeasingDuration' | 'maxLeasingDuration'>;
+
+// Shape of a company's policy overrides; whether they are consistent with the defaults is checked when they are applied
+const multiplier = Joi.number().positive();
+const currencyCode = Joi.string().pattern(/^[A-Z]{3}$/, 'currency code');
+// In the base currency the overrides set, else the company's current one; unknown currencies are reported when applied
+const basePrice = Joi.number().positive().custom((value: number, helpers) => {
+  const currency: string = helpers.state.ancestors[0].baseCurrency ?? helpers.prefs.context?.baseCurrency;
+  return !isKnownCurrency(currency) || hasMinorUnitPrecision(value, currency)
+    ? value
+    : helpers.error('number.precision', { limit: CURRENCY_MINOR_UNITS[currency], currency });
+}).messages({ 'number.precision': '{#label} cannot have more than {#limit} decimal places in {#currency}' });
+const companyPolicyOverridesSchema = Joi.object<CompanyPolicyOverrides>({
+  maxLeasingDuration: Joi.number().integer().min(1),
+  minLeasingDuration: Joi.number().integer().min(1),
+  maxPrice: basePrice,
+  supportedCurrencies: Joi.array().items(currencyCode).min(1).unique(),
+  baseCurrency: currencyCode,
+  pricing: Joi.object({
+    employeeMultipliers: Joi.object({ STANDARD: multiplier, PREMIUM: multiplier, VIP: multiplier }),
+    durationTiers: Joi.array().items(Joi.object({
+      minMonths: Joi.number().min(0).required(),
+      multiplier: multiplier.required()
+    })),
+    companyRate: multiplier,
+    categoryMultipliers: Joi.object().pattern(Joi.string(), multiplier),
+    campaigns: Joi.array().items(Joi.object({
+      id: Joi.string().required(),
+      multiplier: multiplier.required(),
+      startsAt: Joi.string().isoDate().required(),
+      endsAt: Joi.string().isoDate().required(),
+      companyIds: Joi.array().items(Joi.string()),
+      itemCategories: Joi.array().items(Joi.string())
+    })),
+    combinedMultiplierFloor: Joi.number().min(0).max(1)
+  }),
+  earlyTerminationPenaltyRate: Joi.number().min(0).max(1),
+  dayCountConvention: Joi.string().valid('ACTUAL_ACTUAL', 'THIRTY_360'),
+  tax: Joi.object({
+    rate: Joi.number().min(0).less(1).required(),
+    pricing: Joi.string().valid('EXCLUSIVE', 'INCLUSIVE').required(),
+    reverseCharge: Joi.boolean()
+  })
+}).required();
 
 // Core validation utilities
 export class Validator {
   
   /**
    * Validates create agreement request with comprehensive checks
+   * The price limit depends on the company's base currency and is checked when the agreement is priced
    * @param request - The request to validate
+   * @param limits - Supported currencies and lease duration limits
    * @returns Promise<void> - Throws ValidationError if invalid
    */
-  static async validateCreateAgreementRequest(request: CreateAgreementRequest): Promise<void> {
+  static async validateCreateAgreementRequest(
+    request: CreateAgreementRequest,
+    limits: AgreementRequestLimits
+  ): Promise<void> {
     // Basic required field validation
     if (!request.employeeId?.trim()) {
       throw new ValidationError('Employee ID is required', 'employeeId', 'REQUIRED');
@@ -31,11 +110,11 @@ export class Validator {
     const startDate = this.validateAndParseDate(request.startDate, 'startDate');
     const endDate = this.validateAndParseDate(request.endDate, 'endDate');
     
-    this.validateDateRange(startDate, endDate);
+    this.validateDateRange(startDate, endDate, limits);
     
     // Financial validation
-    this.validatePrice(request.price);
-    this.validateCurrency(request.currency);
+    this.validateCurrency(request.currency, limits.supportedCurrencies);
+    this.validatePrice(request.price, request.currency);
     this.validatePaymentFrequency(request.paymentFrequency);
     
     // ID format validation
@@ -44,6 +123,317 @@ export class Validator {
     this.validateIdFormat(request.companyId, 'companyId');
   }
 
+  /**
+   * Reads the agreement fields of a request body
+   * Only checks field types; validateCreateAgreementRequest checks presence and values
+   * @param body - Parsed JSON body
+   * @returns CreateAgreementRequest - Request with the body's agreement fields
+   */
+  static parseAgreementRequestBody(body: unknown): CreateAgreementRequest {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new ValidationError('Request body must be a JSON object', 'body', 'INVALID_TYPE');
+    }
+
+    const fields = body as Record<string, unknown>;
+    const stringFields = ['employeeId', 'itemId', 'startDate', 'endDate', 'currency', 'companyId', 'paymentFrequency'];
+    for (const field of stringFields) {
+      if (fields[field] !== undefined && typeof fields[field] !== 'string') {
+        throw new ValidationError(`${field} must be a string`, field, 'INVALID_TYPE');
+      }
+    }
+
+    if (fields.metadata !== undefined &&
+      (typeof fields.metadata !== 'object' || fields.metadata === null || Array.isArray(fields.metadata))) {
+      throw new ValidationError('metadata must be an object', 'metadata', 'INVALID_TYPE');
+    }
+
+    return {
+      employeeId: fields.employeeId as string,
+      itemId: fields.itemId as string,
+      startDate: fields.startDate as string,
+      endDate: fields.endDate as string,
+      price: fields.price as number,
+      currency: fields.currency as CurrencyCode,
+      companyId: fields.companyId as string,
+      paymentFrequency: fields.paymentFrequency as PaymentFrequency,
+      metadata: fields.metadata as Record<string, unknown> | undefined
+    };
+  }
+
+  /**
+   * Validates cancel agreement request
+   * @param request - The request to validate
+   */
+  static validateCancelAgreementRequest(request: CancelAgreementRequest): void {
+    if (typeof request.reason !== 'string' || !request.reason.trim()) {
+      throw new ValidationError('Cancellation reason is required', 'reason', 'REQUIRED');
+    }
+
+    if (request.reason.length > 500) {
+      throw new ValidationError('Cancellation reason cannot exceed 500 characters', 'reason', 'INVALID_LENGTH');
+    }
+
+    if (request.applyPenalty !== undefined && typeof request.applyPenalty !== 'boolean') {
+      throw new ValidationError('applyPenalty must be a boolean', 'applyPenalty', 'INVALID_TYPE');
+    }
+  }
+
+  /**
+   * Validates a payment recording request
+   * @param request - The request to validate
+   */
+  static validateRecordPaymentRequest(request: RecordPaymentRequest): void {
+    this.validatePaymentReference(request.reference);
+    this.validatePaymentAmount(request.amount);
+
+    if (request.receivedAt !== undefined) {
+      const receivedAt = this.validateAndParseDate(request.receivedAt, 'receivedAt');
+      if (receivedAt > new Date()) {
+        throw new ValidationError('receivedAt cannot be in the future', 'receivedAt', 'FUTURE_DATE');
+      }
+    }
+
+    if (request.paymentId !== undefined) {
+      this.validateIdFormat(String(request.paymentId), 'paymentId');
+    }
+  }
+
+  /**
+   * Validates the envelope of a reconciliation import; lines are validated one by one
+   * so that an invalid line is reported without rejecting the whole import
+   * @param request - The request to validate
+   */
+  static validateReconciliationRequest(request: ReconciliationRequest): void {
+    if (typeof request.companyId !== 'string' || !request.companyId.trim()) {
+      throw new ValidationError('Company ID is required', 'companyId', 'REQUIRED');
+    }
+
+    if (!Array.isArray(request.lines) || request.lines.length === 0) {
+      throw new ValidationError('lines must be a non-empty array', 'lines', 'REQUIRED');
+    }
+
+    if (request.lines.length > MAX_RECONCILIATION_LINES) {
+      throw new ValidationError(
+        `lines cannot contain more than ${MAX_RECONCILIATION_LINES} entries`,
+        'lines',
+        'SIZE_EXCEEDED'
+      );
+    }
+  }
+
+  /**
+   * Validates a single reconciliation line
+   * A line must name its schedule entry, or give the due date to match by amount and due date
+   * @param line - The line to validate
+   */
+  static validateReconciliationLine(line: ReconciliationLine): void {
+    if (typeof line !== 'object' || line === null) {
+      throw new ValidationError('Line must be an object', 'line', 'INVALID_TYPE');
+    }
+
+    this.validateRecordPaymentRequest(line);
+
+    if (line.paymentId === undefined && line.dueDate === undefined) {
+      throw new ValidationError('Either paymentId or dueDate is required', 'paymentId', 'REQUIRED');
+    }
+
+    if (line.dueDate !== undefined) {
+      this.validateAndParseDate(line.dueDate, 'dueDate');
+    }
+  }
+
+  /**
+   * Validates a token endpoint request body
+   * @param body - Raw request body
+   * @returns TokenRequest - Request with the fields its grant type needs
+   */
+  static validateTokenRequest(body: Record<string, unknown>): TokenRequest {
+    if (body.grantType === undefined) {
+      throw new ValidationError('grantType is required', 'grantType', 'REQUIRED');
+    }
+
+    const grantType = Validator.parseEnumParam<GrantType>(
+      body.grantType,
+      'grantType',
+      ['password', 'client_credentials'],
+      'password'
+    );
+
+    const fields = grantType === 'password' ? ['username', 'password'] : ['clientId', 'clientSecret'];
+    for (const field of fields) {
+      if (typeof body[field] !== 'string' || !body[field]) {
+        throw new ValidationError(`${field} is required`, field, 'REQUIRED');
+      }
+    }
+
+    return grantType === 'password'
+      ? { grantType, username: body.username as string, password: body.password as string }
+      : { grantType, clientId: body.clientId as string, clientSecret: body.clientSecret as string };
+  }
+
+  /**
+   * Validates and parses agreement listing query parameters
+   * @param query - Raw query string parameters
+   * @returns AgreementListQuery - Parsed listing query
+   */
+  static validateAgreementListQuery(query: Record<string, unknown>): AgreementListQuery {
+    const sortBy = this.parseEnumParam<AgreementSortField>(
+      query.sortBy, 'sortBy', ['startDate', 'createdAt'], 'createdAt'
+    );
+    const sortOrder = this.parseEnumParam<SortOrder>(
+      query.sortOrder, 'sortOrder', ['asc', 'desc'], 'desc'
+    );
+
+    let limit = DEFAULT_PAGE_LIMIT;
+    if (query.limit !== undefined) {
+      limit = Number(query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+        throw new ValidationError(
+          `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`,
+          'limit',
+          'INVALID_VALUE'
+        );
+      }
+    }
+
+    let status: AgreementStatus[] | undefined;
+    if (query.status !== undefined) {
+      const validStatuses: AgreementStatus[] = ['DRAFT', 'PENDING', 'ACTIVE', 'COMPLETED', 'CANCELLED'];
+      status = String(query.status).split(',').map(value => value.trim()) as AgreementStatus[];
+
+      const invalid = status.find(value => !validStatuses.includes(value));
+      if (invalid) {
+        throw new ValidationError(
+          `status must be one of: ${validStatuses.join(', ')}`,
+          'status',
+          'INVALID_STATUS'
+        );
+      }
+    }
+
+    // Any known currency may be filtered on, including ones no longer configured for new agreements
+    if (query.currency !== undefined && !isKnownCurrency(String(query.currency))) {
+      throw new ValidationError('currency must be an ISO 4217 currency code', 'currency', 'UNSUPPORTED_CURRENCY');
+    }
+
+    if (query.itemId !== undefined) {
+      this.validateIdFormat(String(query.itemId), 'itemId');
+    }
+
+    const from = query.from !== undefined ? this.validateAndParseDate(String(query.from), 'from') : undefined;
+    const to = query.to !== undefined ? this.validateAndParseDate(String(query.to), 'to') : undefined;
+
+    if (from && to && from > to) {
+      throw new ValidationError('from must not be after to', 'from', 'INVALID_RANGE');
+    }
+
+    const cursor = query.cursor !== undefined ? decodeCursor(String(query.cursor)) : undefined;
+
+    // A cursor is only meaningful for the ordering it was issued for
+    if (cursor && (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder)) {
+      throw new ValidationError(
+        'Cursor does not match the requested sort order',
+        'cursor',
+        'INVALID_CURSOR'
+      );
+    }
+
+    return {
+      status,
+      currency: query.currency as CurrencyCode | undefined,
+      itemId: query.itemId as string | undefined,
+      from,
+      to,
+      sortBy,
+      sortOrder,
+      limit,
+      cursor
+    };
+  }
+
+  /**
+   * Validates and parses an item availability query
+   * @param itemId - Item ID from the route
+   * @param query - Raw query string parameters
+   * @returns ItemAvailabilityQuery - Item and period to check
+   */
+  static validateItemAvailabilityQuery(itemId: string, query: Record<string, unknown>): ItemAvailabilityQuery {
+    this.validateIdFormat(itemId, 'itemId');
+
+    const startDate = this.validateAndParseDate(String(query.startDate ?? ''), 'startDate');
+    const endDate = this.validateAndParseDate(String(query.endDate ?? ''), 'endDate');
+
+    if (endDate <= startDate) {
+      throw new ValidationError('End date must be after start date', 'endDate', 'INVALID_RANGE');
+    }
+
+    return { itemId, startDate, endDate };
+  }
+
+  /**
+   * Validates a company ID taken from a route
+   * @param companyId - Company ID
+   */
+  static validateCompanyId(companyId: string): void {
+    this.validateIdFormat(companyId, 'companyId');
+  }
+
+  /**
+   * Validates the overrides of a company's leasing policy
+   * Unknown fields are rejected, so that a misspelt override is not silently ignored
+   * @param overrides - Raw overrides from the request body
+   * @param baseCurrency - Company's base currency without the overrides
+   * @returns CompanyPolicyOverrides - Validated overrides
+   */
+  static validateCompanyPolicyOverrides(overrides: unknown, baseCurrency: CurrencyCode): CompanyPolicyOverrides {
+    const { value, error } = companyPolicyOverridesSchema.validate(overrides, {
+      context: { baseCurrency },
+      errors: { wrap: { label: false } }
+    });
+
+    if (error) {
+      const [detail] = error.details;
+      throw new ValidationError(
+        detail.message,
+        ['overrides', ...detail.path].join('.'),
+        detail.type === 'object.unknown' ? 'UNKNOWN_FIELD'
+          : detail.type === 'number.precision' ? 'INVALID_PRECISION'
+            : 'INVALID_VALUE'
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Parses an optional enumerated query parameter
+   * @param value - Raw parameter value
+   * @param fieldName - Field name for error reporting
+   * @param allowed - Allowed values
+   * @param defaultValue - Value used when the parameter is absent
+   * @returns T - Parsed value
+   */
+  private static parseEnumParam<T extends string>(
+    value: unknown,
+    fieldName: string,
+    allowed: T[],
+    defaultValue: T
+  ): T {
+    if (value === undefined) {
+      return defaultValue;
+    }
+
+    if (!allowed.includes(value as T)) {
+      throw new ValidationError(
+        `${fieldName} must be one of: ${allowed.join(', ')}`,
+        fieldName,
+        'INVALID_VALUE'
+      );
+    }
+
+    return value as T;
+  }
+
   /**
    * Validates and parses ISO date string
    * @param dateString - ISO date string to parse
@@ -67,11 +457,10 @@ export class Validator {
    * Validates date range follows business rules
    * @param startDate - Agreement start date
    * @param endDate - Agreement end date
+   * @param limits - Lease duration limits in months
    */
-  private static validateDateRange(startDate: Date, endDate: Date): void {
+  private static validateDateRange(startDate: Date, endDate: Date, limits: AgreementRequestLimits): void {
     const now = new Date();
-    const maxFutureDate = new Date();
-    maxFutureDate.setFullYear(now.getFullYear() + 5); // Max 5 years in future
 
     // Start date cannot be in the past (allow same day)
     if (startDate < new Date(now.toDateString())) {
@@ -83,25 +472,29 @@ export class Validator {
       throw new ValidationError('End date must be after start date', 'endDate', 'INVALID_RANGE');
     }
 
-    // Maximum lease duration is 5 years
-    if (endDate > maxFutureDate) {
-      throw new ValidationError('Lease duration cannot exceed 5 years', 'endDate', 'DURATION_EXCEEDED');
+    if (endDate > addMonths(startDate, limits.maxLeasingDuration)) {
+      throw new ValidationError(
+        `Lease duration cannot exceed ${limits.maxLeasingDuration} months`,
+        'endDate',
+        'DURATION_EXCEEDED'
+      );
     }
 
-    // Minimum lease duration is 30 days
-    const minEndDate = new Date(startDate);
-    minEndDate.setDate(startDate.getDate() + 30);
-    
-    if (endDate < minEndDate) {
-      throw new ValidationError('Minimum lease duration is 30 days', 'endDate', 'DURATION_TOO_SHORT');
+    if (endDate < addMonths(startDate, limits.minLeasingDuration)) {
+      throw new ValidationError(
+        `Minimum lease duration is ${limits.minLeasingDuration} months`,
+        'endDate',
+        'DURATION_TOO_SHORT'
+      );
     }
   }
 
   /**
    * Validates price follows business rules
    * @param price - Price to validate
+   * @param currency - Validated currency of the price
    */
-  private static validatePrice(price: number): void {
+  private static validatePrice(price: number, currency: CurrencyCode): void {
     if (typeof price !== 'number' || isNaN(price)) {
       throw new ValidationError('Price must be a valid number', 'price', 'INVALID_TYPE');
     }
@@ -110,24 +503,52 @@ export class Validator {
       throw new ValidationError('Price must be greater than zero', 'price', 'INVALID_VALUE');
     }
 
-    if (price > 1000000) { // Max $1M
-      throw new ValidationError('Price cannot exceed $1,000,000', 'price', 'EXCEEDS_LIMIT');
+    if (!hasMinorUnitPrecision(price, currency)) {
+      throw new ValidationError(
+        `Price cannot have more than ${CURRENCY_MINOR_UNITS[currency]} decimal places in ${currency}`,
+        'price',
+        'INVALID_PRECISION'
+      );
     }
+  }
 
-    // Check for reasonable decimal places (max 2)
-    if (price.toString().includes('.') && price.toString().split('.')[1].length > 2) {
-      throw new ValidationError('Price cannot have more than 2 decimal places', 'price', 'INVALID_PRECISION');
+  /**
+   * Validates a payment reference, the key that makes recording a payment idempotent
+   * @param reference - Reference to validate
+   */
+  private static validatePaymentReference(reference: string): void {
+    if (typeof reference !== 'string' || !reference.trim()) {
+      throw new ValidationError('Payment reference is required', 'reference', 'REQUIRED');
+    }
+
+    if (reference.length > 100) {
+      throw new ValidationError('Payment reference cannot exceed 100 characters', 'reference', 'INVALID_LENGTH');
     }
   }
 
+  /**
+   * Validates a received payment amount
+   * @param amount - Amount to validate
+   */
+  private static validatePaymentAmount(amount: number): void {
+    if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+      throw new ValidationError('Amount must be a valid number', 'amount', 'INVALID_TYPE');
+    }
+
+    if (amount <= 0) {
+      throw new ValidationError('Amount must be greater than zero', 'amount', 'INVALID_VALUE');
+    }
+
+    // Precision depends on the agreement's currency and is checked once it is known
+  }
+
   /**
    * Validates currency code
    * @param currency - Currency code to validate
+   * @param supportedCurrencies - Configured currencies
    */
-  private static validateCurrency(currency: string): void {
-    const supportedCurrencies: CurrencyCode[] = ['USD', 'EUR', 'GBP', 'CAD'];
-    
-    if (!supportedCurrencies.includes(currency as CurrencyCode)) {
+  private static validateCurrency(currency: string, supportedCurrencies: CurrencyCode[]): void {
+    if (!supportedCurrencies.includes(currency)) {
       throw new ValidationError(
         `Currency must be one of: ${supportedCurrencies.join(', ')}`, 
         'currency', 
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the permission-based access policy
+ */
+
+import { AccessPolicy } from '../src/auth/accessPolicy';
+import { DEFAULT_ROLE_PERMISSIONS } from '../src/config';
+import { AccessDeniedError, AuthenticatedUser, IEmployeeService, Permission } from '../src/types';
+
+const user: AuthenticatedUser = { id: 'emp1', email: 'emp1@example.com', companyId: 'comp1', role: 'user' };
+const manager: AuthenticatedUser = { ...user, id: 'mgr1', role: 'manager' };
+const admin: AuthenticatedUser = { ...user, id: 'adm1', companyId: 'comp9', role: 'admin' };
+
+const employeeService: IEmployeeService = {
+  async getEmployeeType() { return 'STANDARD'; },
+  async validateEmployee() { return true; },
+  async getDirectReports(managerId) { return managerId === 'mgr1' ? ['emp1'] : []; }
+};
+
+describe('AccessPolicy', () => {
+  const policy = new AccessPolicy(DEFAULT_ROLE_PERMISSIONS, employeeService);
+
+  it('should grant permissions by role', () => {
+    expect(policy.hasPermission(user, 'agreement:create')).toBe(true);
+    expect(policy.hasPermission(user, 'agreement:cancel')).toBe(false);
+    expect(policy.hasPermission(manager, 'agreement:cancel')).toBe(true);
+    expect(policy.hasPermission({ ...user, role: 'unknown' }, 'agreement:create')).toBe(false);
+  });
+
+  it('should scope agreement reads by owner, direct reports and company', async () => {
+    const own = { employeeId: 'emp1', companyId: 'comp1' };
+    const colleague = { employeeId: 'emp2', companyId: 'comp1' };
+    const otherCompany = { employeeId: 'emp1', companyId: 'comp2' };
+
+    expect(await policy.evaluateAgreementAccess(user, own)).toEqual({ allowed: true, rule: 'OWN_AGREEMENTS' });
+    expect(await policy.evaluateAgreementAccess(user, colleague)).toMatchObject({ allowed: false, rule: 'OWN_AGREEMENTS' });
+    expect(await policy.evaluateAgreementAccess(user, otherCompany)).toMatchObject({ allowed: false, rule: 'COMPANY_ACCESS' });
+    expect(await policy.evaluateAgreementAccess(manager, own)).toEqual({ allowed: true, rule: 'DIRECT_REPORTS' });
+    expect(await policy.evaluateAgreementAccess(manager, colleague)).toMatchObject({ allowed: false, rule: 'DIRECT_REPORTS' });
+    expect(await policy.evaluateAgreementAccess(admin, otherCompany)).toEqual({ allowed: true, rule: 'COMPANY_AGREEMENTS' });
+  });
+
+  it('should raise the failed rule on denial', async () => {
+    const decision = await policy.evaluateEmployeeAccess(manager, 'emp2');
+
+    expect(() => policy.assertAllowed(decision))
+      .toThrow(expect.objectContaining({ rule: 'DIRECT_REPORTS', code: 'AGREEMENT_ACCESS_DENIED' }));
+  });
+
+  it('should report the missing permission when asserting', () => {
+    expect(() => policy.assertPermission(user, 'agreement:cancel')).toThrow(AccessDeniedError);
+    expect(() => policy.assertPermission(user, 'agreement:cancel'))
+      .toThrow(expect.objectContaining({ rule: 'agreement:cancel', code: 'INSUFFICIENT_PERMISSIONS' }));
+    expect(() => policy.assertCompanyAccess(manager, 'comp2'))
+      .toThrow(expect.objectContaining({ code: 'COMPANY_ACCESS_DENIED' }));
+  });
+
+  it('should use configured role mappings', async () => {
+    const custom = new AccessPolicy({ auditor: ['agreement:read:company', 'company:any'] }, employeeService);
+
+    expect(await custom.evaluateAgreementAccess({ ...user, role: 'auditor' }, { employeeId: 'emp2', companyId: 'comp2' }))
+      .toMatchObject({ allowed: true });
+    expect(custom.hasPermission(manager, 'agreement:cancel')).toBe(false);
+  });
+
+  it('should reject unknown permission names', () => {
+    expect(() => new AccessPolicy({ user: ['agreement:delete' as Permission] }, employeeService))
+      .toThrow('Role user has unknown permissions: agreement:delete');
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Unit tests for the agreement creation saga and its recovery
+ */
+
+import { AgreementSaga } from '../src/services/agreementSaga';
+import { AgreementStateMachine } from '../src/services/agreementStateMachine';
+import { InMemoryLeasingRepository } from '../src/repositories/inMemoryLeasingRepository';
+import { InMemorySagaLog } from '../src/repositories/inMemorySagaLog';
+import { InMemoryReservationStore } from '../src/repositories/inMemoryReservationStore';
+import { SqliteClient } from '../src/repositories/sql/sqliteClient';
+import { MigrationRunner } from '../src/repositories/sql/migrationRunner';
+import { SqlSagaLog } from '../src/repositories/sql/sqlSagaLog';
+import { StubServer } from '../src/clients/stubServer';
+import { HttpClient } from '../src/clients/httpClient';
+import { HttpBillingService } from '../src/clients/httpBillingService';
+import {
+  LeasingAgreement,
+  AgreementSagaRecord,
+  AgreementStatus,
+  BusinessRuleError,
+  ItemReservation,
+  IBillingService
+} from '../src/types';
+import { Logger } from '../src/utils/logger';
+import { Money } from '../src/utils/money';
+
+const usd = (amount: number) => Money.of(amount, 'USD');
+
+const buildAgreement = (status: AgreementStatus = 'DRAFT'): LeasingAgreement => ({
+  id: 'LA-1',
+  employeeId: 'emp1',
+  itemId: 'item1',
+  startDate: new Date('2025-07-01T00:00:00.000Z'),
+  endDate: new Date('2025-09-01T00:00:00.000Z'),
+  status,
+  price: usd(200),
+  currency: 'USD',
+  companyId: 'comp1',
+  paymentSchedule: [
+    { id: 'LA-1-payment-1', dueDate: new Date('2025-07-01T00:00:00.000Z'), amount: usd(100), netAmount: usd(100), taxAmount: usd(0), status: 'PENDING', paidAmount: usd(0), attemptCount: 0 },
+    { id: 'LA-1-payment-2', dueDate: new Date('2025-08-01T00:00:00.000Z'), amount: usd(100), netAmount: usd(100), taxAmount: usd(0), status: 'PENDING', paidAmount: usd(0), attemptCount: 0 }
+  ],
+  metadata: {},
+  createdAt: new Date('2025-06-15T00:00:00.000Z'),
+  updatedAt: new Date('2025-06-15T00:00:00.000Z')
+});
+
+const buildSaga = (steps: AgreementSagaRecord['steps']): AgreementSagaRecord => ({
+  id: 'saga-LA-1',
+  agreementId: 'LA-1',
+  status: 'RUNNING',
+  agreement: buildAgreement(),
+  storedDraft: false,
+  steps,
+  createdAt: new Date('2025-06-15T00:00:00.000Z'),
+  updatedAt: new Date('2025-06-15T00:00:00.000Z')
+});
+
+const at = new Date('2025-06-15T00:00:00.000Z');
+
+describe('AgreementSaga', () => {
+  let repository: InMemoryLeasingRepository;
+  let sagaLog: InMemorySagaLog;
+  let billingService: jest.Mocked<IBillingService>;
+  let reservations: InMemoryReservationStore;
+  let saga: AgreementSaga;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-06-15T00:00:00.000Z'), advanceTimers: true });
+
+    repository = new InMemoryLeasingRepository();
+    sagaLog = new InMemorySagaLog();
+    billingService = {
+      createBillingRecord: jest.fn().mockResolvedValue('bill-1'),
+      updateBillingRecord: jest.fn().mockResolvedValue(undefined),
+      cancelBillingRecord: jest.fn().mockResolvedValue(undefined)
+    };
+    reservations = new InMemoryReservationStore();
+
+    const logger = new Logger('TestAgreementSaga');
+    saga = new AgreementSaga(
+      sagaLog,
+      repository,
+      reservations,
+      billingService,
+      new AgreementStateMachine(repository, reservations, logger),
+      logger,
+      15
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should record every step of a successful saga', async () => {
+    const activated = await saga.run(buildAgreement(), 'test');
+
+    expect(activated.status).toBe('ACTIVE');
+    const [record] = await sagaLog.findByAgreementId('LA-1');
+    expect(record.status).toBe('COMPLETED');
+    expect(record.steps.map(step => [step.name, step.status])).toEqual([
+      ['reserve', 'COMPLETED'],
+      ['save', 'COMPLETED'],
+      ['bill', 'COMPLETED'],
+      ['activate', 'COMPLETED']
+    ]);
+    expect(record.steps[2].data).toEqual({ billingId: 'bill-1' });
+    expect(billingService.createBillingRecord).toHaveBeenCalledWith(expect.objectContaining({ id: 'LA-1' }), record.id);
+  });
+
+  it('should hold the item while pending and confirm the reservation on activation', async () => {
+    let hold: ItemReservation | null = null;
+    billingService.createBillingRecord.mockImplementation(async () => {
+      hold = await reservations.findById('LA-1');
+      return 'bill-1';
+    });
+
+    await saga.run(buildAgreement(), 'test');
+
+    expect(hold).toMatchObject({ itemId: 'item1', expiresAt: new Date(Date.now() + 15 * 60 * 1000) });
+    expect(await reservations.findById('LA-1')).toEqual({
+      id: 'LA-1',
+      itemId: 'item1',
+      startDate: new Date('2025-07-01T00:00:00.000Z'),
+      endDate: new Date('2025-09-01T00:00:00.000Z')
+    });
+  });
+
+  it('should fail without side effects when the period is reserved by another agreement', async () => {
+    const other = { id: 'LA-2', itemId: 'item1', startDate: new Date('2025-08-01T00:00:00.000Z'), endDate: new Date('2025-10-01T00:00:00.000Z') };
+    await reservations.reserve(other, at);
+
+    await expect(saga.run(buildAgreement(), 'test'))
+      .rejects.toThrow(new BusinessRuleError('Item item1 could not be reserved', 'ITEM_AVAILABILITY', 'ITEM_RESERVATION_FAILED'));
+
+    const [record] = await sagaLog.findByAgreementId('LA-1');
+    expect(record.steps.map(step => [step.name, step.status])).toEqual([['reserve', 'FAILED']]);
+    expect(billingService.createBillingRecord).not.toHaveBeenCalled();
+    expect(await reservations.findById('LA-2')).toEqual(other);
+  });
+
+  it('should compensate when the hold lapsed and the period was taken before activation', async () => {
+    billingService.createBillingRecord.mockImplementation(async () => {
+      jest.setSystemTime(new Date('2025-06-15T00:16:00.000Z'));
+      await reservations.reserve(
+        { id: 'LA-2', itemId: 'item1', startDate: new Date('2025-08-01T00:00:00.000Z'), endDate: new Date('2025-10-01T00:00:00.000Z') },
+        new Date()
+      );
+      return 'bill-1';
+    });
+
+    await expect(saga.run(buildAgreement(), 'test')).rejects.toThrow('Item item1 could not be reserved');
+
+    expect(billingService.cancelBillingRecord).toHaveBeenCalledWith('bill-1');
+    expect(await reservations.findById('LA-1')).toBeNull();
+    expect(await reservations.findById('LA-2')).not.toBeNull();
+    expect((await repository.findById('LA-1'))?.status).toBe('CANCELLED');
+  });
+
+  it('should compensate completed steps when billing fails', async () => {
+    billingService.createBillingRecord.mockRejectedValue(new Error('Billing unavailable'));
+
+    await expect(saga.run(buildAgreement(), 'test')).rejects.toThrow('Billing unavailable');
+
+    const [record] = await sagaLog.findByAgreementId('LA-1');
+    expect(record.status).toBe('COMPENSATED');
+    expect(record.error).toBe('Billing unavailable');
+    expect(record.steps.map(step => [step.name, step.status])).toEqual([
+      ['reserve', 'COMPENSATED'],
+      ['save', 'COMPENSATED'],
+      ['bill', 'FAILED']
+    ]);
+    expect(await reservations.findById('LA-1')).toBeNull();
+    expect((await repository.findById('LA-1'))?.status).toBe('CANCELLED');
+  });
+
+  it('should restore a stored draft instead of cancelling it', async () => {
+    const draft = await repository.save(buildAgreement());
+    billingService.createBillingRecord.mockRejectedValue(new Error('Billing unavailable'));
+
+    await expect(saga.run(draft, 'test')).rejects.toThrow('Billing unavailable');
+
+    expect(await repository.findById('LA-1')).toMatchObject({ status: 'DRAFT', version: 3 });
+  });
+
+  it('should bill a resubmitted draft again after its first billing record was cancelled', async () => {
+    const stub = new StubServer({});
+    const http = new HttpClient('billing', await stub.start(), {
+      timeoutMs: 1000,
+      maxRetries: 0,
+      retryBaseDelayMs: 10,
+      retryMaxDelayMs: 10,
+      circuitFailureThreshold: 5,
+      circuitResetMs: 30000
+    }, new Logger('Test'));
+    const billing = new HttpBillingService(http);
+    const taken = { id: 'LA-2', itemId: 'item1', startDate: new Date('2025-08-01T00:00:00.000Z'), endDate: new Date('2025-10-01T00:00:00.000Z') };
+    const logger = new Logger('TestAgreementSaga');
+    const stateMachine = new AgreementStateMachine(repository, reservations, logger);
+
+    try {
+      // The first attempt's hold lapses and the period is taken before activation
+      jest.spyOn(billing, 'createBillingRecord').mockImplementationOnce(async (agreement, key) => {
+        const billingId = await HttpBillingService.prototype.createBillingRecord.call(billing, agreement, key);
+        jest.setSystemTime(new Date('2025-06-15T00:16:00.000Z'));
+        await reservations.reserve(taken, new Date());
+        return billingId;
+      });
+      const httpSaga = new AgreementSaga(sagaLog, repository, reservations, billing, stateMachine, logger, 15);
+      const draft = await repository.save(buildAgreement());
+
+      await expect(httpSaga.run(draft, 'test')).rejects.toThrow('Item item1 could not be reserved');
+      expect(stub.billingRecords.size).toBe(0);
+      expect((await repository.findById('LA-1'))?.status).toBe('DRAFT');
+
+      await reservations.release('LA-2');
+      const activated = await httpSaga.run((await repository.findById('LA-1'))!, 'test');
+
+      expect(activated.status).toBe('ACTIVE');
+      const [, resubmitted] = await sagaLog.findByAgreementId('LA-1');
+      const billingId = resubmitted.steps.find(step => step.name === 'bill')?.data?.billingId;
+      expect(stub.billingRecords.size).toBe(1);
+      expect(stub.billingRecords.get(billingId!)).toMatchObject({ agreementId: 'LA-1' });
+    } finally {
+      await stub.stop();
+    }
+  });
+
+  it('should enqueue the creation notification and the confirmed reservation together with the activation', async () => {
+    await saga.run(buildAgreement(), 'test');
+
+    expect(repository.outbox.all().map(entry => entry.type)).toEqual([
+      'AgreementSubmitted',
+      'AgreementActivated',
+      'AgreementCreated',
+      'ItemReserved'
+    ]);
+    expect(repository.outbox.all()[2]).toMatchObject({
+      agreementId: 'LA-1',
+      payload: { employeeId: 'emp1', status: 'ACTIVE' }
+    });
+    expect(repository.outbox.all()[3]).toMatchObject({
+      agreementId: 'LA-1',
+      payload: { itemId: 'item1', startDate: buildAgreement().startDate.toISOString() }
+    });
+  });
+
+  it('should not enqueue the creation notification for a compensated saga', async () => {
+    billingService.createBillingRecord.mockRejectedValue(new Error('Billing unavailable'));
+
+    await expect(saga.run(buildAgreement(), 'test')).rejects.toThrow();
+
+    expect(repository.outbox.all().map(entry => entry.type)).not.toContain('AgreementCreated');
+    expect(repository.outbox.all().map(entry => entry.type)).not.toContain('ItemReserved');
+  });
+
+  describe('recover', () => {
+
+    it('should resume a saga interrupted after billing', async () => {
+      await repository.save(buildAgreement('PENDING'));
+      await sagaLog.save(buildSaga([
+        { name: 'reserve', status: 'COMPLETED', updatedAt: at },
+        { name: 'save', status: 'COMPLETED', updatedAt: at },
+        { name: 'bill', status: 'COMPLETED', data: { billingId: 'bill-1' }, updatedAt: at },
+        { name: 'activate', status: 'STARTED', updatedAt: at }
+      ]));
+
+      const result = await saga.recover();
+
+      expect(result).toEqual({ resumed: ['saga-LA-1'], compensated: [], failed: [] });
+      expect(billingService.createBillingRecord).not.toHaveBeenCalled();
+      expect((await repository.findById('LA-1'))?.status).toBe('ACTIVE');
+      expect((await sagaLog.findById('saga-LA-1'))?.status).toBe('COMPLETED');
+    });
+
+    it('should compensate a saga interrupted before billing', async () => {
+      await reservations.reserve(
+        { id: 'LA-1', itemId: 'item1', startDate: new Date('2025-07-01T00:00:00.000Z'), endDate: new Date('2025-09-01T00:00:00.000Z') },
+        at
+      );
+      await sagaLog.save(buildSaga([
+        { name: 'reserve', status: 'COMPLETED', updatedAt: at },
+        { name: 'save', status: 'STARTED', updatedAt: at }
+      ]));
+
+      const result = await saga.recover();
+
+      expect(result).toEqual({ resumed: [], compensated: ['saga-LA-1'], failed: [] });
+      expect(await reservations.findById('LA-1')).toBeNull();
+      expect(await sagaLog.findIncomplete()).toEqual([]);
+    });
+
+    it('should look up and cancel the billing record of a saga interrupted while billing', async () => {
+      await sagaLog.save(buildSaga([
+        { name: 'reserve', status: 'COMPLETED', updatedAt: at },
+        { name: 'save', status: 'COMPLETED', updatedAt: at },
+        { name: 'bill', status: 'STARTED', updatedAt: at }
+      ]));
+
+      const result = await saga.recover();
+
+      expect(result).toEqual({ resumed: [], compensated: ['saga-LA-1'], failed: [] });
+      expect(billingService.createBillingRecord).toHaveBeenCalledWith(expect.objectContaining({ id: 'LA-1' }), 'saga-LA-1');
+      expect(billingService.cancelBillingRecord).toHaveBeenCalledWith('bill-1');
+      expect((await sagaLog.findById('saga-LA-1'))?.status).toBe('COMPENSATED');
+    });
+
+    it('should report a saga whose billing record cannot be looked up as failed', async () => {
+      billingService.createBillingRecord.mockRejectedValue(new Error('Billing service unavailable'));
+      await sagaLog.save(buildSaga([
+        { name: 'reserve', status: 'COMPLETED', updatedAt: at },
+        { name: 'save', status: 'COMPLETED', updatedAt: at },
+        { name: 'bill', status: 'STARTED', updatedAt: at }
+      ]));
+
+      const result = await saga.recover();
+
+      expect(result.failed).toEqual(['saga-LA-1']);
+      expect(billingService.cancelBillingRecord).not.toHaveBeenCalled();
+      expect((await sagaLog.findById('saga-LA-1'))?.status).toBe('FAILED');
+    });
+  });
+});
+
+describe('SqlSagaLog', () => {
+  let client: SqliteClient;
+  let sagaLog: SqlSagaLog;
+
+  beforeEach(async () => {
+    client = new SqliteClient({ filename: ':memory:' });
+    await new MigrationRunner(client, new Logger('TestMigrations')).migrate();
+    sagaLog = new SqlSagaLog(client);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should round-trip a saga including the agreement snapshot', async () => {
+    const record = buildSaga([{ name: 'bill', status: 'COMPLETED', data: { billingId: 'bill-1' }, updatedAt: at }]);
+
+    await sagaLog.save(record);
+
+    expect(await sagaLog.findById(record.id)).toEqual(record);
+  });
+
+  it('should update sagas in place and list only incomplete ones', async () => {
+    await sagaLog.save(buildSaga([]));
+    await sagaLog.save({ ...buildSaga([]), id: 'saga-LA-1-retry', createdAt: new Date('2025-06-15T01:00:00.000Z') });
+    await sagaLog.save({ ...buildSaga([]), status: 'COMPENSATED' });
+
+    expect((await sagaLog.findIncomplete()).map(saga => saga.id)).toEqual(['saga-LA-1-retry']);
+    expect((await sagaLog.findByAgreementId('LA-1')).map(saga => saga.id)).toEqual(['saga-LA-1', 'saga-LA-1-retry']);
+  });
+});
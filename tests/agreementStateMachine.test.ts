@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the agreement lifecycle state machine
+ */
+
+import { AgreementStateMachine } from '../src/services/agreementStateMachine';
+import { InMemoryLeasingRepository } from '../src/repositories/inMemoryLeasingRepository';
+import {
+  LeasingAgreement,
+  AgreementStatus,
+  BusinessRuleError,
+  ConcurrentModificationError,
+  IItemReservationStore
+} from '../src/types';
+import { Logger } from '../src/utils/logger';
+import { Money } from '../src/utils/money';
+
+const usd = (amount: number) => Money.of(amount, 'USD');
+
+const buildAgreement = (status: AgreementStatus, overrides: Partial<LeasingAgreement> = {}): LeasingAgreement => ({
+  id: 'LA-1',
+  employeeId: 'emp1',
+  itemId: 'item1',
+  startDate: new Date('2025-07-01T00:00:00.000Z'),
+  endDate: new Date('2025-09-01T00:00:00.000Z'),
+  status,
+  price: usd(200),
+  currency: 'USD',
+  companyId: 'comp1',
+  paymentSchedule: [
+    { id: 'LA-1-payment-1', dueDate: new Date('2025-07-01T00:00:00.000Z'), amount: usd(100), netAmount: usd(100), taxAmount: usd(0), status: 'PAID', paidAmount: usd(100), attemptCount: 1 },
+    { id: 'LA-1-payment-2', dueDate: new Date('2025-08-01T00:00:00.000Z'), amount: usd(100), netAmount: usd(100), taxAmount: usd(0), status: 'PENDING', paidAmount: usd(0), attemptCount: 0 }
+  ],
+  metadata: {},
+  createdAt: new Date('2025-06-01T00:00:00.000Z'),
+  updatedAt: new Date('2025-06-01T00:00:00.000Z'),
+  ...overrides
+});
+
+describe('AgreementStateMachine', () => {
+  let repository: InMemoryLeasingRepository;
+  let reservations: jest.Mocked<IItemReservationStore>;
+  let stateMachine: AgreementStateMachine;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-08-15T00:00:00.000Z'), advanceTimers: true });
+
+    repository = new InMemoryLeasingRepository();
+    reservations = {
+      reserve: jest.fn().mockResolvedValue(true),
+      release: jest.fn().mockResolvedValue(undefined),
+      findById: jest.fn().mockResolvedValue(null),
+      isAvailable: jest.fn().mockResolvedValue(true)
+    };
+    stateMachine = new AgreementStateMachine(
+      repository,
+      reservations,
+      new Logger('TestStateMachine')
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should activate a pending agreement and persist it with its outbox event', async () => {
+    const result = await stateMachine.transition(buildAgreement('PENDING'), 'activate');
+
+    expect(result.status).toBe('ACTIVE');
+    expect(result.updatedAt).toEqual(new Date('2025-08-15T00:00:00.000Z'));
+    expect((await repository.findById('LA-1'))?.status).toBe('ACTIVE');
+    expect(repository.outbox.all()).toEqual([
+      expect.objectContaining({
+        type: 'AgreementActivated',
+        agreementId: 'LA-1',
+        payload: { employeeId: 'emp1', status: 'ACTIVE' },
+        status: 'PENDING'
+      })
+    ]);
+  });
+
+  it.each([
+    ['COMPLETED', 'cancel'],
+    ['CANCELLED', 'activate'],
+    ['DRAFT', 'complete'],
+    ['ACTIVE', 'submit']
+  ] as const)('should reject illegal transition from %s via %s', async (status, transition) => {
+    await expect(stateMachine.transition(buildAgreement(status), transition))
+      .rejects.toThrow(BusinessRuleError);
+    expect(repository.outbox.all()).toEqual([]);
+  });
+
+  it('should refuse completion while the lease is running with unsettled payments', async () => {
+    await expect(stateMachine.transition(buildAgreement('ACTIVE'), 'complete'))
+      .rejects.toThrow('Agreement can only be completed after the lease ends or all payments are settled');
+  });
+
+  it('should complete once the lease has ended', async () => {
+    const agreement = buildAgreement('ACTIVE', { endDate: new Date('2025-08-01T00:00:00.000Z') });
+
+    const result = await stateMachine.transition(agreement, 'complete');
+
+    expect(result.status).toBe('COMPLETED');
+  });
+
+  it('should persist additional changes together with the transition', async () => {
+    const result = await stateMachine.transition(buildAgreement('ACTIVE'), 'cancel', {
+      changes: { metadata: { reason: 'test' } }
+    });
+
+    expect(result.status).toBe('CANCELLED');
+    expect(result.metadata).toEqual({ reason: 'test' });
+  });
+
+  it('should release the reserved item when cancelling', async () => {
+    await stateMachine.transition(buildAgreement('ACTIVE'), 'cancel');
+
+    expect(reservations.release).toHaveBeenCalledWith('LA-1');
+  });
+
+  it('should release the hold of a draft when cancelling it', async () => {
+    await stateMachine.transition(buildAgreement('DRAFT'), 'cancel');
+
+    expect(reservations.release).toHaveBeenCalledWith('LA-1');
+  });
+
+  it('should refuse a transition computed from an agreement that changed meanwhile', async () => {
+    const pending = await repository.save(buildAgreement('PENDING'));
+
+    await stateMachine.transition(pending, 'activate');
+    const cancel = stateMachine.transition(pending, 'cancel');
+
+    await expect(cancel).rejects.toThrow(ConcurrentModificationError);
+    await expect(cancel).rejects.toBeInstanceOf(BusinessRuleError);
+    expect(await repository.findById('LA-1')).toMatchObject({ status: 'ACTIVE', version: 2 });
+    expect(reservations.release).not.toHaveBeenCalled();
+    expect(repository.outbox.all().map(event => event.type)).toEqual(['AgreementActivated']);
+  });
+});
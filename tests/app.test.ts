@@ -0,0 +1,220 @@
+/**
+ * Tests for adapter selection and application composition
+ */
+
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { App } from '../src/app';
+import { AppConfig, loadConfig } from '../src/config';
+import { createDependencies } from '../src/container';
+import { HttpInventoryService } from '../src/clients/httpInventoryService';
+import { InMemoryLeasingRepository } from '../src/repositories/inMemoryLeasingRepository';
+import { SqlLeasingRepository } from '../src/repositories/sql/sqlLeasingRepository';
+import { IInventoryService } from '../src/types';
+
+const baseConfig = loadConfig();
+
+const config = (overrides: Partial<AppConfig['adapters']> = {}): AppConfig => ({
+  ...baseConfig,
+  auth: { ...baseConfig.auth, jwtSecret: 'test-secret-with-enough-entropy', algorithm: 'HS256', jwksPath: undefined },
+  adapters: {
+    storage: 'memory',
+    inventory: 'mock',
+    billing: 'mock',
+    notification: 'mock',
+    employee: 'mock',
+    ...overrides
+  },
+  externalServices: { ...baseConfig.externalServices, inventoryUrl: undefined }
+});
+
+describe('createDependencies', () => {
+  it('should keep state in memory with the memory storage adapter', () => {
+    const dependencies = createDependencies(config());
+
+    expect(dependencies.sqlClient).toBeUndefined();
+    expect(dependencies.repository).toBeInstanceOf(InMemoryLeasingRepository);
+  });
+
+  it('should share one SQL client between the stores with the sql storage adapter', async () => {
+    const dependencies = createDependencies({
+      ...config({ storage: 'sql' }),
+      database: { ...baseConfig.database, driver: 'sqlite', filename: ':memory:' }
+    });
+
+    expect(dependencies.sqlClient).toBeDefined();
+    expect(dependencies.repository).toBeInstanceOf(SqlLeasingRepository);
+    await dependencies.sqlClient!.close();
+  });
+
+  it('should call services over HTTP when selected', () => {
+    const selected = config({ inventory: 'http' });
+
+    expect(() => createDependencies(selected))
+      .toThrow('INVENTORY_SERVICE_URL is required for the http inventory adapter');
+
+    const dependencies = createDependencies({
+      ...selected,
+      externalServices: { ...selected.externalServices, inventoryUrl: 'http://127.0.0.1:4000' }
+    });
+    expect(dependencies.inventoryService).toBeInstanceOf(HttpInventoryService);
+  });
+
+  it('should use overrides instead of the configured adapters', () => {
+    const inventoryService: IInventoryService = {
+      checkAvailability: jest.fn().mockResolvedValue(false),
+      getItemCategory: jest.fn().mockResolvedValue(undefined),
+      reserveItem: jest.fn().mockResolvedValue(undefined),
+      releaseItem: jest.fn().mockResolvedValue(undefined)
+    };
+
+    // The override wins even though the configured adapter could not be built
+    const dependencies = createDependencies(config({ inventory: 'http' }), { inventoryService });
+
+    expect(dependencies.inventoryService).toBe(inventoryService);
+  });
+});
+
+describe('App', () => {
+  const token = jwt.sign(
+    { sub: 'emp1', email: 'emp1@example.com', companyId: 'comp1', role: 'user' },
+    'test-secret-with-enough-entropy',
+    { issuer: baseConfig.auth.issuer, audience: baseConfig.auth.audience, expiresIn: '5m' }
+  );
+
+  const request = {
+    employeeId: 'emp1',
+    itemId: 'item1',
+    startDate: '2030-07-01T00:00:00.000Z',
+    endDate: '2030-12-01T00:00:00.000Z',
+    price: 1000,
+    currency: 'USD',
+    companyId: 'comp1',
+    paymentFrequency: 'MONTHLY'
+  };
+
+  let apps: App[];
+  let urls: string[];
+
+  beforeEach(async () => {
+    apps = [new App(config()), new App(config())];
+    const servers = await Promise.all(apps.map(app => app.start(0)));
+    urls = servers.map(server => `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`);
+  });
+
+  afterEach(async () => {
+    await Promise.all(apps.map(app => app.stop()));
+  });
+
+  it('should keep the state of apps in one process apart', async () => {
+    const created = await fetch(`${urls[0]}/agreements`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+    expect(created.status).toBe(201);
+    const { data } = await created.json() as { data: { id: string } };
+
+    const read = (url: string) => fetch(`${url}/agreements/${data.id}`, { headers: { Authorization: `Bearer ${token}` } });
+    expect((await read(urls[0])).status).toBe(200);
+    expect((await read(urls[1])).status).toBe(404);
+  });
+
+  it('should apply a company\'s policy once an admin saved it', async () => {
+    const adminToken = jwt.sign(
+      { sub: 'admin1', email: 'admin1@example.com', companyId: 'comp1', role: 'admin' },
+      'test-secret-with-enough-entropy',
+      { issuer: baseConfig.auth.issuer, audience: baseConfig.auth.audience, expiresIn: '5m' }
+    );
+    const policyUrl = `${urls[0]}/companies/comp1/policy`;
+    const quote = () => fetch(`${urls[0]}/agreements/quote`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+
+    const forbidden = await fetch(policyUrl, {
+      method: 'PUT',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ overrides: { maxLeasingDuration: 3 } })
+    });
+    expect(forbidden.status).toBe(403);
+
+    const saved = await fetch(policyUrl, {
+      method: 'PUT',
+      headers: { Authorization: `Bearer ${adminToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ overrides: { maxLeasingDuration: 3 } })
+    });
+    expect(saved.status).toBe(201);
+    expect((await quote()).status).toBe(400);
+
+    const deleted = await fetch(policyUrl, { method: 'DELETE', headers: { Authorization: `Bearer ${adminToken}` } });
+    expect(deleted.status).toBe(204);
+    const { data } = await (await quote()).json() as { data: { breakdown: { policy: { overriddenFields: string[] } } } };
+    expect(data.breakdown.policy.overriddenFields).toEqual([]);
+  });
+
+  it('should answer 409 when an agreement changed between being read and written', async () => {
+    const dependencies = createDependencies(config());
+    const app = new App(config(), dependencies);
+    const server = await app.start(0);
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+    const adminToken = jwt.sign(
+      { sub: 'admin1', email: 'admin1@example.com', companyId: 'comp1', role: 'admin' },
+      'test-secret-with-enough-entropy',
+      { issuer: baseConfig.auth.issuer, audience: baseConfig.auth.audience, expiresIn: '5m' }
+    );
+
+    try {
+      const created = await fetch(`${url}/agreements`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+      const { data } = await created.json() as { data: { id: string } };
+
+      // Another request changes the agreement after the cancellation has read it
+      const stale = (await dependencies.repository.findById(data.id))!;
+      await dependencies.repository.save({ ...stale, metadata: { note: 'changed' } });
+      jest.spyOn(dependencies.repository, 'findById').mockResolvedValueOnce(stale);
+
+      const cancelled = await fetch(`${url}/agreements/${data.id}/cancel`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${adminToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: 'Employee left' })
+      });
+
+      expect(cancelled.status).toBe(409);
+      expect((await cancelled.json() as { error: unknown }).error).toMatchObject({
+        code: 'BUSINESS_RULE_ERROR',
+        message: `The agreement ${data.id} was changed by another request; reload it and retry`
+      });
+      expect((await dependencies.repository.findById(data.id))?.status).toBe('ACTIVE');
+    } finally {
+      await app.stop();
+    }
+  });
+
+  it('should answer 400 to a malformed cursor', async () => {
+    const cursor = Buffer.from(JSON.stringify({ sortBy: 'createdAt' }), 'utf8').toString('base64url');
+
+    const response = await fetch(`${urls[0]}/employees/emp1/agreements?cursor=${cursor}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json() as { error: unknown }).error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      field: 'cursor',
+      message: 'Cursor is malformed'
+    });
+  });
+
+  it('should adopt the caller\'s correlation ID', async () => {
+    const response = await fetch(`${urls[0]}/agreements/LA-1`, {
+      headers: { Authorization: `Bearer ${token}`, 'X-Correlation-ID': 'caller-123' }
+    });
+
+    expect(response.headers.get('x-correlation-id')).toBe('caller-123');
+  });
+});
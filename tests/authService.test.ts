@@ -0,0 +1,259 @@
+/**
+ * Unit tests for token issuance and refresh token rotation
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateKeyPairSync } from 'crypto';
+import { AuthService, hashRefreshToken } from '../src/services/authService';
+import { TokenIssuer } from '../src/auth/tokenIssuer';
+import { JwtVerifier } from '../src/auth/jwtVerifier';
+import { JwksKeyStore } from '../src/auth/jwksKeyStore';
+import {
+  LocalUserCredentialVerifier,
+  ClientCredentialsVerifier,
+  hashSecret,
+  verifySecret
+} from '../src/auth/credentialVerifiers';
+import { InMemoryRefreshTokenStore } from '../src/repositories/inMemoryRefreshTokenStore';
+import { SqliteClient } from '../src/repositories/sql/sqliteClient';
+import { MigrationRunner } from '../src/repositories/sql/migrationRunner';
+import { SqlRefreshTokenStore } from '../src/repositories/sql/sqlRefreshTokenStore';
+import { AppConfig } from '../src/config';
+import { AuthenticationError, ValidationError, IRefreshTokenStore } from '../src/types';
+import { Logger } from '../src/utils/logger';
+
+const authConfig: AppConfig['auth'] = {
+  jwtSecret: 'test-secret-with-enough-entropy',
+  jwtExpiresIn: '15m',
+  algorithm: 'HS256',
+  issuer: 'leasing-agreement-system',
+  audience: 'leasing-api',
+  clockToleranceSeconds: 0,
+  refreshTokenTtlSeconds: 3600
+};
+
+describe('AuthService', () => {
+  let users: LocalUserCredentialVerifier;
+  let clients: ClientCredentialsVerifier;
+  let store: InMemoryRefreshTokenStore;
+  let service: AuthService;
+  const verifier = new JwtVerifier(authConfig);
+
+  beforeAll(async () => {
+    users = new LocalUserCredentialVerifier([{
+      id: 'user1',
+      username: 'jane',
+      email: 'jane@example.com',
+      companyId: 'comp1',
+      role: 'manager',
+      passwordHash: await hashSecret('correct horse')
+    }]);
+    clients = new ClientCredentialsVerifier([{
+      clientId: 'billing-sync',
+      companyId: 'comp1',
+      role: 'service',
+      secretHash: await hashSecret('client-secret')
+    }]);
+  });
+
+  beforeEach(() => {
+    store = new InMemoryRefreshTokenStore();
+    service = new AuthService(
+      new TokenIssuer(authConfig),
+      store,
+      { password: users, client_credentials: clients },
+      authConfig.refreshTokenTtlSeconds,
+      new Logger('TestAuthService')
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('issueToken', () => {
+
+    it('should issue a verifiable access token and a refresh token for the password grant', async () => {
+      const tokens = await service.issueToken({ grantType: 'password', username: 'jane', password: 'correct horse' });
+
+      expect(tokens.tokenType).toBe('Bearer');
+      expect(tokens.expiresIn).toBe(900);
+      expect(tokens.refreshToken).toBeDefined();
+      await expect(verifier.verify(tokens.accessToken)).resolves.toEqual({
+        id: 'user1',
+        email: 'jane@example.com',
+        companyId: 'comp1',
+        role: 'manager'
+      });
+    });
+
+    it('should not issue a refresh token to service accounts', async () => {
+      const tokens = await service.issueToken({
+        grantType: 'client_credentials',
+        clientId: 'billing-sync',
+        clientSecret: 'client-secret'
+      });
+
+      expect(tokens.refreshToken).toBeUndefined();
+      await expect(verifier.verify(tokens.accessToken)).resolves.toMatchObject({ id: 'billing-sync', role: 'service' });
+    });
+
+    it('should reject wrong passwords and unknown users alike', async () => {
+      await expect(service.issueToken({ grantType: 'password', username: 'jane', password: 'wrong' }))
+        .rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+      await expect(service.issueToken({ grantType: 'password', username: 'nobody', password: 'correct horse' }))
+        .rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+    });
+
+    it('should reject grants without a configured verifier', async () => {
+      const passwordOnly = new AuthService(
+        new TokenIssuer(authConfig), store, { password: users }, 3600, new Logger('TestAuthService')
+      );
+
+      await expect(passwordOnly.issueToken({ grantType: 'client_credentials', clientId: 'billing-sync', clientSecret: 'client-secret' }))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should sign RS256 tokens with the configured key ID', async () => {
+      const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const rsConfig: AppConfig['auth'] = { ...authConfig, algorithm: 'RS256', signingKeyId: 'key-2025' };
+      // A PEM key's ID is its file name
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'jwks-'));
+      await fs.writeFile(path.join(directory, 'key-2025.pem'), publicKey.export({ format: 'pem', type: 'spki' }));
+      const keyStore = new JwksKeyStore(directory, new Logger('TestKeyStore'));
+      const getKey = jest.spyOn(keyStore, 'getKey');
+      const rsVerifier = new JwtVerifier(rsConfig, keyStore);
+
+      try {
+        const issued = new TokenIssuer(rsConfig, privateKey).issue({
+          id: 'user1', email: 'jane@example.com', companyId: 'comp1', role: 'manager'
+        });
+
+        await expect(rsVerifier.verify(issued.token)).resolves.toMatchObject({ id: 'user1' });
+        expect(getKey).toHaveBeenCalledWith('key-2025');
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('refresh', () => {
+
+    const login = () => service.issueToken({ grantType: 'password', username: 'jane', password: 'correct horse' });
+
+    it('should rotate the refresh token and revoke the presented one', async () => {
+      const first = await login();
+      const second = await service.refresh(first.refreshToken!);
+
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      await expect(verifier.verify(second.accessToken)).resolves.toMatchObject({ id: 'user1' });
+
+      const revoked = await store.findByHash(hashRefreshToken(first.refreshToken!));
+      expect(revoked?.revokedAt).toBeInstanceOf(Date);
+      expect(revoked?.replacedBy).toBe(hashRefreshToken(second.refreshToken!));
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const first = await login();
+      const second = await service.refresh(first.refreshToken!);
+
+      await expect(service.refresh(first.refreshToken!)).rejects.toThrow(AuthenticationError);
+      await expect(service.refresh(second.refreshToken!)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    });
+
+    it('should keep other logins usable after reuse is detected', async () => {
+      const stolen = await login();
+      const other = await login();
+      await service.refresh(stolen.refreshToken!);
+
+      await expect(service.refresh(stolen.refreshToken!)).rejects.toThrow(AuthenticationError);
+      await expect(service.refresh(other.refreshToken!)).resolves.toHaveProperty('accessToken');
+    });
+
+    it('should revoke the family once the account was removed or demoted', async () => {
+      const removed = await login();
+      const demoted = await login();
+      const findUser = jest.spyOn(users, 'findUser');
+
+      findUser.mockResolvedValueOnce(null);
+      await expect(service.refresh(removed.refreshToken!)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+      findUser.mockResolvedValueOnce({ id: 'user1', email: 'jane@example.com', companyId: 'comp1', role: 'user' });
+      await expect(service.refresh(demoted.refreshToken!)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+
+      expect(findUser).toHaveBeenCalledWith('user1');
+      expect((await store.findByHash(hashRefreshToken(removed.refreshToken!)))?.revokedAt).toBeInstanceOf(Date);
+      await expect(service.refresh(demoted.refreshToken!)).rejects.toThrow('Refresh token has been revoked');
+    });
+
+    it('should reject expired and unknown refresh tokens', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-15T00:00:00.000Z') });
+      const tokens = await login();
+
+      jest.setSystemTime(new Date('2025-06-15T01:00:00.000Z'));
+
+      await expect(service.refresh(tokens.refreshToken!)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+      await expect(service.refresh('not-a-token')).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    });
+  });
+});
+
+describe('credential hashing', () => {
+
+  it('should verify only the original secret', async () => {
+    const hash = await hashSecret('s3cret');
+
+    expect(await verifySecret('s3cret', hash)).toBe(true);
+    expect(await verifySecret('S3cret', hash)).toBe(false);
+    expect(await verifySecret('s3cret', 'plain-text')).toBe(false);
+  });
+});
+
+describe('SqlRefreshTokenStore', () => {
+  let client: SqliteClient;
+  let store: IRefreshTokenStore;
+
+  const record = {
+    tokenHash: hashRefreshToken('token-1'),
+    familyId: 'family-1',
+    user: { id: 'user1', email: 'jane@example.com', companyId: 'comp1', role: 'manager' },
+    issuedAt: new Date('2025-06-15T00:00:00.000Z'),
+    expiresAt: new Date('2025-06-29T00:00:00.000Z')
+  };
+
+  beforeEach(async () => {
+    client = new SqliteClient({ filename: ':memory:' });
+    await new MigrationRunner(client, new Logger('TestMigrations')).migrate();
+    store = new SqlRefreshTokenStore(client);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should round-trip a token record', async () => {
+    await store.save(record);
+
+    expect(await store.findByHash(record.tokenHash)).toEqual({
+      ...record,
+      revokedAt: undefined,
+      replacedBy: undefined
+    });
+  });
+
+  it('should revoke a token only once and track revoked families', async () => {
+    const revokedAt = new Date('2025-06-16T00:00:00.000Z');
+    await store.save(record);
+    await store.save({ ...record, tokenHash: hashRefreshToken('token-2') });
+
+    expect(await store.revoke(record.tokenHash, revokedAt, hashRefreshToken('token-2'))).toBe(true);
+    expect(await store.revoke(record.tokenHash, revokedAt)).toBe(false);
+    expect(await store.revokeFamily('family-1', revokedAt)).toBe(1);
+
+    expect(await store.findByHash(record.tokenHash)).toMatchObject({
+      revokedAt,
+      replacedBy: hashRefreshToken('token-2')
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for cancellation settlement rules
+ */
+
+import { calculateCancellationSettlement } from '../src/services/cancellationPolicy';
+import { LeasingAgreement, PaymentSchedule } from '../src/types';
+import { Money } from '../src/utils/money';
+
+const usd = (amount: number) => Money.of(amount, 'USD');
+
+const payment = (index: number, dueDate: string, status: PaymentSchedule['status']): PaymentSchedule => ({
+  id: `LA-1-payment-${index}`,
+  dueDate: new Date(dueDate),
+  amount: usd(100),
+  netAmount: usd(100),
+  taxAmount: usd(0),
+  status,
+  paidAmount: usd(status === 'PAID' ? 100 : 0),
+  attemptCount: status === 'PAID' ? 1 : 0
+});
+
+const agreement: LeasingAgreement = {
+  id: 'LA-1',
+  employeeId: 'emp1',
+  itemId: 'item1',
+  startDate: new Date('2025-01-01T00:00:00.000Z'),
+  endDate: new Date('2025-04-01T00:00:00.000Z'),
+  status: 'ACTIVE',
+  price: usd(300),
+  currency: 'USD',
+  companyId: 'comp1',
+  paymentSchedule: [
+    payment(1, '2025-01-01T00:00:00.000Z', 'PAID'),
+    payment(2, '2025-02-01T00:00:00.000Z', 'PAID'),
+    payment(3, '2025-03-01T00:00:00.000Z', 'PENDING')
+  ],
+  metadata: {},
+  createdAt: new Date('2024-12-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-12-01T00:00:00.000Z')
+};
+
+describe('calculateCancellationSettlement', () => {
+
+  it('should cancel unpaid entries and keep paid ones', () => {
+    const settlement = calculateCancellationSettlement(agreement, {
+      cancelledAt: new Date('2025-02-15T00:00:00.000Z'),
+      applyPenalty: false,
+      penaltyRate: 0.1
+    });
+
+    expect(settlement.paymentSchedule.map(p => p.status)).toEqual(['PAID', 'PAID', 'CANCELLED']);
+    expect(settlement.penalty).toEqual(usd(0));
+  });
+
+  it('should credit the unused share of the current paid period', () => {
+    // February has 28 days; cancelling on Feb 15 leaves 14 unused days
+    const settlement = calculateCancellationSettlement(agreement, {
+      cancelledAt: new Date('2025-02-15T00:00:00.000Z'),
+      applyPenalty: false,
+      penaltyRate: 0.1
+    });
+
+    expect(settlement.refundCredit).toEqual(usd(50));
+    expect(settlement.earlyTermination).toBe(true);
+  });
+
+  it('should credit paid periods that have not started yet in full', () => {
+    const settlement = calculateCancellationSettlement(agreement, {
+      cancelledAt: new Date('2025-01-01T00:00:00.000Z'),
+      applyPenalty: false,
+      penaltyRate: 0.1
+    });
+
+    expect(settlement.refundCredit).toEqual(usd(200));
+  });
+
+  it('should charge the penalty on the cancelled outstanding amount when requested', () => {
+    const settlement = calculateCancellationSettlement(agreement, {
+      cancelledAt: new Date('2025-02-15T00:00:00.000Z'),
+      applyPenalty: true,
+      penaltyRate: 0.1
+    });
+
+    expect(settlement.penalty).toEqual(usd(10));
+  });
+
+  it('should credit the paid part of a partially paid entry and charge the penalty on the rest', () => {
+    const partiallyPaid: LeasingAgreement = {
+      ...agreement,
+      paymentSchedule: [
+        payment(1, '2025-01-01T00:00:00.000Z', 'PAID'),
+        payment(2, '2025-02-01T00:00:00.000Z', 'PAID'),
+        { ...payment(3, '2025-03-01T00:00:00.000Z', 'PENDING'), paidAmount: usd(40) }
+      ]
+    };
+
+    const settlement = calculateCancellationSettlement(partiallyPaid, {
+      cancelledAt: new Date('2025-03-01T00:00:00.000Z'),
+      applyPenalty: true,
+      penaltyRate: 0.1
+    });
+
+    expect(settlement.paymentSchedule[2]).toMatchObject({ status: 'CANCELLED', paidAmount: usd(40) });
+    expect(settlement.refundCredit).toEqual(usd(40));
+    expect(settlement.penalty).toEqual(usd(6));
+  });
+
+  it('should not charge a penalty once the lease has ended', () => {
+    const settlement = calculateCancellationSettlement(agreement, {
+      cancelledAt: new Date('2025-04-02T00:00:00.000Z'),
+      applyPenalty: true,
+      penaltyRate: 0.1
+    });
+
+    expect(settlement.earlyTermination).toBe(false);
+    expect(settlement.penalty).toEqual(usd(0));
+    expect(settlement.refundCredit).toEqual(usd(0));
+  });
+});
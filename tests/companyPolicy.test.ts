@@ -0,0 +1,198 @@
+/**
+ * Tests for company policy overrides: merging, administration and storage
+ */
+
+import { InMemoryCompanyPolicyStore } from '../src/repositories/inMemoryCompanyPolicyStore';
+import { SqliteClient } from '../src/repositories/sql/sqliteClient';
+import { MigrationRunner } from '../src/repositories/sql/migrationRunner';
+import { SqlCompanyPolicyStore } from '../src/repositories/sql/sqlCompanyPolicyStore';
+import { CompanyPolicyService } from '../src/services/companyPolicyService';
+import { applyCompanyPolicy } from '../src/services/leasingPolicy';
+import { AccessPolicy } from '../src/auth/accessPolicy';
+import { DEFAULT_ROLE_PERMISSIONS } from '../src/config';
+import { createMockEmployeeService } from '../src/clients/mockServices';
+import {
+  AccessDeniedError,
+  AuthenticatedUser,
+  CompanyPolicy,
+  ICompanyPolicyStore,
+  LeasingConfig,
+  NotFoundError,
+  ValidationError
+} from '../src/types';
+import { Logger } from '../src/utils/logger';
+
+const defaults: LeasingConfig = {
+  maxLeasingDuration: 60,
+  minLeasingDuration: 1,
+  maxPrice: 1000000,
+  supportedCurrencies: ['USD', 'EUR'],
+  baseCurrency: 'USD',
+  companyBaseCurrencies: { comp2: 'EUR' },
+  pricing: {
+    employeeMultipliers: { STANDARD: 1.0, PREMIUM: 0.9, VIP: 0.8 },
+    durationTiers: [{ minMonths: 12, multiplier: 0.8 }],
+    companyRates: { comp2: 0.9 },
+    categoryMultipliers: { laptop: 0.95 }
+  },
+  tax: { countries: { DE: { rate: 0.19, pricing: 'EXCLUSIVE' } }, companyCountries: { comp1: 'DE' } },
+  earlyTerminationPenaltyRate: 0.1,
+  dayCountConvention: 'ACTUAL_ACTUAL',
+  reservationHoldMinutes: { draft: 1440, pending: 15 }
+};
+
+const policy = (companyId: string, overrides: CompanyPolicy['overrides']): CompanyPolicy => ({
+  companyId,
+  overrides,
+  updatedBy: 'admin1',
+  updatedAt: new Date('2025-06-15T00:00:00.000Z')
+});
+
+describe('applyCompanyPolicy', () => {
+
+  it('should replace the overridden fields and keep the other defaults', () => {
+    const config = applyCompanyPolicy(defaults, policy('comp1', {
+      maxLeasingDuration: 24,
+      maxPrice: 50000,
+      earlyTerminationPenaltyRate: 0.05,
+      pricing: { durationTiers: [{ minMonths: 6, multiplier: 0.85 }] }
+    }));
+
+    expect(config).toMatchObject({
+      maxLeasingDuration: 24,
+      minLeasingDuration: 1,
+      maxPrice: 50000,
+      earlyTerminationPenaltyRate: 0.05,
+      dayCountConvention: 'ACTUAL_ACTUAL'
+    });
+    expect(config.pricing.durationTiers).toEqual([{ minMonths: 6, multiplier: 0.85 }]);
+    expect(config.pricing.employeeMultipliers).toEqual(defaults.pricing.employeeMultipliers);
+  });
+
+  it('should merge multipliers by key', () => {
+    const { pricing } = applyCompanyPolicy(defaults, policy('comp1', {
+      pricing: { employeeMultipliers: { VIP: 0.7 }, categoryMultipliers: { phone: 0.9 } }
+    }));
+
+    expect(pricing.employeeMultipliers).toEqual({ STANDARD: 1.0, PREMIUM: 0.9, VIP: 0.7 });
+    expect(pricing.categoryMultipliers).toEqual({ laptop: 0.95, phone: 0.9 });
+  });
+
+  it('should put the company\'s base currency, rate and tax rule into the per-company tables', () => {
+    const config = applyCompanyPolicy(defaults, policy('comp1', {
+      baseCurrency: 'EUR',
+      pricing: { companyRate: 0.85 },
+      tax: { rate: 0, pricing: 'EXCLUSIVE', reverseCharge: true }
+    }));
+
+    expect(config.baseCurrency).toBe('USD');
+    expect(config.companyBaseCurrencies).toEqual({ comp2: 'EUR', comp1: 'EUR' });
+    expect(config.pricing.companyRates).toEqual({ comp2: 0.9, comp1: 0.85 });
+    expect(config.tax.companies).toEqual({ comp1: { rate: 0, pricing: 'EXCLUSIVE', reverseCharge: true } });
+    expect(config.tax.countries).toBe(defaults.tax.countries);
+  });
+});
+
+describe('CompanyPolicyService', () => {
+  const admin: AuthenticatedUser = { id: 'admin1', email: 'admin1@example.com', companyId: 'comp1', role: 'admin' };
+  const companyAdmin: AuthenticatedUser = { ...admin, id: 'admin2', role: 'company-admin' };
+  const accessPolicy = new AccessPolicy(
+    { ...DEFAULT_ROLE_PERMISSIONS, 'company-admin': ['policy:manage'] },
+    createMockEmployeeService()
+  );
+
+  let store: InMemoryCompanyPolicyStore;
+  let service: CompanyPolicyService;
+
+  beforeEach(() => {
+    store = new InMemoryCompanyPolicyStore();
+    service = new CompanyPolicyService(store, defaults, accessPolicy, new Logger('Test'));
+  });
+
+  it('should create, replace, read and delete a company\'s policy', async () => {
+    const first = await service.setPolicy('comp2', { maxLeasingDuration: 24 }, admin);
+    expect(first.created).toBe(true);
+    expect(first.view.effective).toMatchObject({
+      companyId: 'comp2',
+      overriddenFields: ['maxLeasingDuration'],
+      maxLeasingDuration: 24,
+      baseCurrency: 'EUR'
+    });
+
+    const second = await service.setPolicy('comp2', { maxPrice: 5000 }, admin);
+    expect(second.created).toBe(false);
+    expect((await service.getPolicy('comp2', admin)).effective).toMatchObject({
+      overriddenFields: ['maxPrice'],
+      maxLeasingDuration: 60,
+      maxPrice: 5000
+    });
+
+    await service.deletePolicy('comp2', admin);
+    await expect(service.getPolicy('comp2', admin)).rejects.toThrow(NotFoundError);
+    await expect(service.deletePolicy('comp2', admin)).rejects.toThrow('Company comp2 has no policy overrides');
+  });
+
+  it('should reject malformed overrides and overrides that conflict with the defaults', async () => {
+    await expect(service.setPolicy('comp1', { maxLeasingDurations: 24 }, admin))
+      .rejects.toMatchObject({ field: 'overrides.maxLeasingDurations', code: 'UNKNOWN_FIELD' });
+    await expect(service.setPolicy('comp1', { pricing: { employeeMultipliers: { VIP: -1 } } }, admin))
+      .rejects.toMatchObject({ field: 'overrides.pricing.employeeMultipliers.VIP', code: 'INVALID_VALUE' });
+    await expect(service.setPolicy('comp1', { minLeasingDuration: 72 }, admin))
+      .rejects.toThrow(new ValidationError('Minimum lease duration must not exceed the maximum lease duration', 'overrides', 'INVALID_POLICY'));
+    await expect(service.setPolicy('comp1', { maxPrice: 5000.005 }, admin))
+      .rejects.toThrow(new ValidationError('maxPrice cannot have more than 2 decimal places in USD', 'overrides.maxPrice', 'INVALID_PRECISION'));
+    await expect(service.setPolicy('comp1', { maxPrice: 5000.5, baseCurrency: 'JPY' }, admin))
+      .rejects.toMatchObject({ field: 'overrides.maxPrice', code: 'INVALID_PRECISION' });
+    await expect(service.setPolicy('comp1', { baseCurrency: 'XYZ' }, admin))
+      .rejects.toThrow('Base currency of company comp1 XYZ is not a known ISO 4217 currency');
+
+    expect(await store.findAll()).toEqual([]);
+  });
+
+  it('should only let callers manage companies they may access', async () => {
+    await service.setPolicy('comp1', { maxPrice: 5000 }, companyAdmin);
+    await service.setPolicy('comp2', { maxPrice: 8000 }, admin);
+
+    await expect(service.setPolicy('comp2', { maxPrice: 1 }, companyAdmin)).rejects.toThrow(AccessDeniedError);
+    await expect(service.deletePolicy('comp2', companyAdmin)).rejects.toThrow(AccessDeniedError);
+
+    expect((await service.listPolicies(companyAdmin)).map(view => view.policy.companyId)).toEqual(['comp1']);
+    expect((await service.listPolicies(admin)).map(view => view.policy.companyId)).toEqual(['comp1', 'comp2']);
+  });
+});
+
+const stores: Array<[string, () => Promise<{ store: ICompanyPolicyStore; close: () => Promise<void> }>]> = [
+  ['InMemoryCompanyPolicyStore', async () => ({ store: new InMemoryCompanyPolicyStore(), close: async () => {} })],
+  ['SqlCompanyPolicyStore', async () => {
+    const client = new SqliteClient({ filename: ':memory:' });
+    await new MigrationRunner(client, new Logger('TestMigrations')).migrate();
+    return { store: new SqlCompanyPolicyStore(client), close: () => client.close() };
+  }]
+];
+
+describe.each(stores)('%s', (_name, create) => {
+  let store: ICompanyPolicyStore;
+  let close: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ store, close } = await create());
+  });
+
+  afterEach(async () => {
+    await close();
+  });
+
+  it('should store, replace and delete policies', async () => {
+    const negotiated = policy('comp2', { maxPrice: 5000, pricing: { employeeMultipliers: { VIP: 0.7 } } });
+    await store.save(policy('comp3', { maxLeasingDuration: 12 }));
+    await store.save(policy('comp2', { maxPrice: 1 }));
+    await store.save(negotiated);
+
+    expect(await store.findByCompanyId('comp2')).toEqual(negotiated);
+    expect((await store.findAll()).map(stored => stored.companyId)).toEqual(['comp2', 'comp3']);
+
+    expect(await store.delete('comp2')).toBe(true);
+    expect(await store.delete('comp2')).toBe(false);
+    expect(await store.findByCompanyId('comp2')).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for loading and validating configuration from the environment
+ */
+
+import { loadConfig } from '../src/config';
+import { ConfigurationError } from '../src/types';
+
+const problemsOf = (env: NodeJS.ProcessEnv): string[] => {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      return error.problems;
+    }
+    throw error;
+  }
+  return [];
+};
+
+// Production calls every external service over HTTP
+const serviceUrls = {
+  INVENTORY_SERVICE_URL: 'https://inventory.example.com',
+  BILLING_SERVICE_URL: 'https://billing.example.com',
+  NOTIFICATION_SERVICE_URL: 'https://notifications.example.com',
+  EMPLOYEE_SERVICE_URL: 'https://employees.example.com'
+};
+
+describe('loadConfig', () => {
+
+  it('should apply defaults and treat empty variables as unset', () => {
+    const config = loadConfig({ PORT: '', MAX_PRICE: '2500.50', CORS_CREDENTIALS: 'true' });
+
+    expect(config.port).toBe(3000);
+    expect(config.leasing.maxPrice).toBe(2500.5);
+    expect(config.leasing.maxLeasingDuration).toBe(60);
+    expect(config.leasing.supportedCurrencies).toEqual(['USD', 'EUR', 'GBP', 'CAD']);
+    expect(config.dunning.reminderDays).toEqual([7, 1]);
+    expect(config.cors.credentials).toBe(true);
+    expect(config.adapters.inventory).toBe('mock');
+    expect(config.database.driver).toBe('postgres');
+  });
+
+  it('should report every invalid variable at once', () => {
+    expect(problemsOf({
+      PORT: 'eighty',
+      OUTBOX_BATCH_SIZE: '0',
+      EARLY_TERMINATION_PENALTY_RATE: '1.5',
+      MIN_LEASING_DURATION: '24',
+      MAX_LEASING_DURATION: '12',
+      DB_DRIVER: 'mysql',
+      DUNNING_REMINDER_DAYS: '7,soon',
+      INVENTORY_ADAPTER: 'http',
+      ROLE_PERMISSIONS_FILE: '/nonexistent/roles.json'
+    })).toEqual([
+      'PORT must be a number',
+      'DB_DRIVER must be one of [postgres, sqlite]',
+      'MIN_LEASING_DURATION must not exceed MAX_LEASING_DURATION',
+      'EARLY_TERMINATION_PENALTY_RATE must be less than or equal to 1',
+      'OUTBOX_BATCH_SIZE must be greater than or equal to 1',
+      expect.stringContaining('DUNNING_REMINDER_DAYS'),
+      'INVENTORY_SERVICE_URL is required when INVENTORY_ADAPTER is http',
+      expect.stringContaining('ROLE_PERMISSIONS_FILE could not be read from /nonexistent/roles.json')
+    ]);
+  });
+
+  it('should refuse insecure defaults in production', () => {
+    // The database driver defaults to postgres
+    expect(problemsOf({ NODE_ENV: 'production', ...serviceUrls })).toEqual([
+      'DB_PASSWORD is required',
+      'JWT_SECRET is required'
+    ]);
+    expect(problemsOf({
+      NODE_ENV: 'production',
+      ...serviceUrls,
+      DB_DRIVER: 'postgres',
+      DB_PASSWORD: 'password',
+      JWT_SECRET: 'your-secret-key'
+    })).toEqual([
+      'DB_PASSWORD must not be a default password in production',
+      'JWT_SECRET must not be a default secret in production',
+      'JWT_SECRET must be at least 32 characters in production'
+    ]);
+    expect(problemsOf({
+      NODE_ENV: 'production',
+      ...serviceUrls,
+      DB_DRIVER: 'postgres',
+      DB_PASSWORD: 'a-real-database-password',
+      JWT_SECRET: 'a-production-secret-of-at-least-32-characters'
+    })).toEqual([]);
+  });
+
+  it('should refuse state that does not survive a restart in production', () => {
+    const production = {
+      NODE_ENV: 'production',
+      ...serviceUrls,
+      DB_PASSWORD: 'a-real-database-password',
+      JWT_SECRET: 'a-production-secret-of-at-least-32-characters'
+    };
+
+    expect(problemsOf({ ...production, STORAGE_ADAPTER: 'memory' })).toEqual([
+      'STORAGE_ADAPTER must be sql in production'
+    ]);
+    expect(problemsOf({ ...production, DB_DRIVER: 'sqlite' })).toEqual([
+      'DB_FILE is required with DB_DRIVER=sqlite in production'
+    ]);
+    expect(problemsOf({ ...production, DB_DRIVER: 'sqlite', DB_FILE: ':memory:' })).toEqual([
+      'DB_FILE must not be :memory: in production'
+    ]);
+    expect(problemsOf({ ...production, DB_DRIVER: 'sqlite', DB_FILE: '/var/lib/leasing/leasing.db' })).toEqual([]);
+  });
+
+  it('should refuse mock services in production', () => {
+    const production = {
+      NODE_ENV: 'production',
+      DB_PASSWORD: 'a-real-database-password',
+      JWT_SECRET: 'a-production-secret-of-at-least-32-characters'
+    };
+
+    expect(problemsOf({ ...production, ...serviceUrls, BILLING_ADAPTER: 'mock' })).toEqual([
+      'BILLING_ADAPTER must be http in production'
+    ]);
+    expect(problemsOf({ ...production, ...serviceUrls, INVENTORY_SERVICE_URL: undefined })).toEqual([
+      'INVENTORY_SERVICE_URL is required in production'
+    ]);
+    expect(loadConfig({ ...production, ...serviceUrls }).adapters).toMatchObject({
+      inventory: 'http', billing: 'http', notification: 'http', employee: 'http'
+    });
+  });
+
+  it('should not require a shared secret in production when tokens are verified with RS256', () => {
+    const production = {
+      NODE_ENV: 'production',
+      ...serviceUrls,
+      DB_PASSWORD: 'a-real-database-password',
+      JWT_ALGORITHM: 'RS256'
+    };
+
+    expect(problemsOf(production)).toEqual(['JWT_JWKS_PATH is required']);
+    expect(problemsOf({ ...production, JWT_JWKS_PATH: 'keys/jwks.json' })).toEqual([]);
+  });
+
+  it('should throw a ConfigurationError listing the problems', () => {
+    expect(() => loadConfig({ PORT: 'eighty', RATE_LIMIT_MAX: '-1' }))
+      .toThrow('Invalid configuration:\n- PORT must be a number\n- RATE_LIMIT_MAX must be greater than or equal to 1');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for day-count conventions and month arithmetic
+ */
+
+import { addMonths, billingPeriods, daysBetween, monthsBetween, yearFraction } from '../src/utils/dayCount';
+
+const utc = (isoDate: string) => new Date(`${isoDate}T00:00:00.000Z`);
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+describe('addMonths', () => {
+
+  it('should clamp to the end of shorter months', () => {
+    expect(isoDay(addMonths(utc('2025-01-31'), 1))).toBe('2025-02-28');
+    expect(isoDay(addMonths(utc('2024-01-31'), 1))).toBe('2024-02-29');
+    expect(isoDay(addMonths(utc('2025-01-31'), 2))).toBe('2025-03-31');
+  });
+
+  it('should cross year boundaries in both directions', () => {
+    expect(isoDay(addMonths(utc('2025-11-30'), 3))).toBe('2026-02-28');
+    expect(isoDay(addMonths(utc('2025-03-31'), -13))).toBe('2024-02-29');
+  });
+
+  it('should ignore the time of day', () => {
+    expect(addMonths(new Date('2025-01-15T23:30:00.000Z'), 1)).toEqual(utc('2025-02-15'));
+  });
+});
+
+describe('daysBetween', () => {
+
+  it('should count calendar days for actual/actual', () => {
+    expect(daysBetween(utc('2024-02-01'), utc('2024-03-01'), 'ACTUAL_ACTUAL')).toBe(29);
+    expect(daysBetween(utc('2025-01-31'), utc('2025-03-01'), 'ACTUAL_ACTUAL')).toBe(29);
+  });
+
+  it('should count 30-day months for 30/360', () => {
+    expect(daysBetween(utc('2024-02-01'), utc('2024-03-01'), 'THIRTY_360')).toBe(30);
+    expect(daysBetween(utc('2025-01-31'), utc('2025-03-31'), 'THIRTY_360')).toBe(60);
+    expect(daysBetween(utc('2025-01-15'), utc('2025-03-31'), 'THIRTY_360')).toBe(76);
+  });
+});
+
+describe('yearFraction', () => {
+
+  it('should split actual/actual periods by calendar year', () => {
+    expect(yearFraction(utc('2024-01-01'), utc('2025-01-01'), 'ACTUAL_ACTUAL')).toBe(1);
+    expect(yearFraction(utc('2024-07-01'), utc('2025-07-01'), 'ACTUAL_ACTUAL'))
+      .toBeCloseTo(184 / 366 + 181 / 365, 10);
+  });
+
+  it('should divide 30/360 days by 360', () => {
+    expect(yearFraction(utc('2025-01-15'), utc('2025-07-15'), 'THIRTY_360')).toBe(0.5);
+  });
+});
+
+describe('monthsBetween', () => {
+
+  it('should count whole months from month ends without rolling over', () => {
+    expect(monthsBetween(utc('2025-01-31'), utc('2025-02-28'), 'ACTUAL_ACTUAL')).toBe(1);
+    expect(monthsBetween(utc('2025-01-01'), utc('2026-06-01'), 'ACTUAL_ACTUAL')).toBe(17);
+  });
+
+  it('should add remaining days as a share of the month they fall in', () => {
+    expect(monthsBetween(utc('2025-01-31'), utc('2025-03-01'), 'ACTUAL_ACTUAL')).toBeCloseTo(1 + 1 / 31, 10);
+    expect(monthsBetween(utc('2025-02-10'), utc('2025-02-24'), 'ACTUAL_ACTUAL')).toBe(0.5);
+  });
+
+  it('should use 30-day months for 30/360', () => {
+    expect(monthsBetween(utc('2025-02-10'), utc('2025-02-25'), 'THIRTY_360')).toBe(0.5);
+  });
+
+  it('should return 0 for empty periods', () => {
+    expect(monthsBetween(utc('2025-03-01'), utc('2025-02-01'), 'ACTUAL_ACTUAL')).toBe(0);
+  });
+});
+
+describe('billingPeriods', () => {
+
+  const periods = (start: string, end: string, intervalMonths: number) =>
+    billingPeriods(utc(start), utc(end), intervalMonths).map(period => [isoDay(period.start), isoDay(period.end)]);
+
+  it('should use full periods for leases starting on the first', () => {
+    expect(periods('2025-01-01', '2025-07-01', 3)).toEqual([
+      ['2025-01-01', '2025-04-01'],
+      ['2025-04-01', '2025-07-01']
+    ]);
+  });
+
+  it('should add a short first period and cut the last one at the end date', () => {
+    expect(periods('2025-01-15', '2025-08-10', 3)).toEqual([
+      ['2025-01-15', '2025-02-01'],
+      ['2025-02-01', '2025-05-01'],
+      ['2025-05-01', '2025-08-01'],
+      ['2025-08-01', '2025-08-10']
+    ]);
+  });
+
+  it('should return a single period for a lease within one month', () => {
+    expect(periods('2025-03-05', '2025-03-25', 1)).toEqual([['2025-03-05', '2025-03-25']]);
+  });
+});
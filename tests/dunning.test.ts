@@ -0,0 +1,235 @@
+/**
+ * Tests for payment reminders, overdue detection and dunning
+ */
+
+import { DunningScheduler } from '../src/services/dunningScheduler';
+import { createDunningPolicy, evaluateDunning } from '../src/services/dunningPolicy';
+import { createPaymentDueEvent } from '../src/services/domainEvents';
+import { InMemoryLeasingRepository } from '../src/repositories/inMemoryLeasingRepository';
+import { SqliteClient } from '../src/repositories/sql/sqliteClient';
+import { MigrationRunner } from '../src/repositories/sql/migrationRunner';
+import { SqlLeasingRepository } from '../src/repositories/sql/sqlLeasingRepository';
+import { AgreementStatus, ConcurrentModificationError, IClock, LeasingAgreement, PaymentSchedule } from '../src/types';
+import { Logger } from '../src/utils/logger';
+import { Money } from '../src/utils/money';
+
+const usd = (amount: number) => Money.of(amount, 'USD');
+
+const config = {
+  intervalMs: 60000,
+  batchSize: 2,
+  reminderDays: [7, 1],
+  gracePeriodDays: 3,
+  escalationDays: [0, 7]
+};
+
+const policy = createDunningPolicy(config);
+
+const entry = (overrides: Partial<PaymentSchedule> = {}): PaymentSchedule => ({
+  id: 'LA-1-payment-1',
+  dueDate: new Date('2025-07-01T00:00:00.000Z'),
+  amount: usd(100),
+  netAmount: usd(100),
+  taxAmount: usd(0),
+  status: 'PENDING',
+  paidAmount: usd(0),
+  attemptCount: 0,
+  ...overrides
+});
+
+const buildAgreement = (id = 'LA-1', status: AgreementStatus = 'ACTIVE'): LeasingAgreement => ({
+  id,
+  employeeId: 'emp1',
+  itemId: 'item1',
+  startDate: new Date('2025-07-01T00:00:00.000Z'),
+  endDate: new Date('2025-09-01T00:00:00.000Z'),
+  status,
+  price: usd(200),
+  currency: 'USD',
+  companyId: 'comp1',
+  paymentSchedule: [
+    entry({ id: `${id}-payment-1` }),
+    entry({ id: `${id}-payment-2`, dueDate: new Date('2025-08-01T00:00:00.000Z') })
+  ],
+  metadata: {},
+  createdAt: new Date('2025-06-01T00:00:00.000Z'),
+  updatedAt: new Date('2025-06-01T00:00:00.000Z')
+});
+
+describe('evaluateDunning', () => {
+
+  it('should order reminders before dunning stages', () => {
+    expect(policy.stages).toEqual([
+      { notice: 'REMINDER', offsetDays: -7 },
+      { notice: 'REMINDER', offsetDays: -1 },
+      { notice: 'DUNNING', offsetDays: 3 },
+      { notice: 'DUNNING', offsetDays: 10 }
+    ]);
+  });
+
+  it('should leave entries alone until their next stage', () => {
+    expect(evaluateDunning(entry(), new Date('2025-06-23T23:59:59.000Z'), policy)).toBeNull();
+    expect(evaluateDunning(entry({ attemptCount: 1 }), new Date('2025-06-29T00:00:00.000Z'), policy)).toBeNull();
+  });
+
+  it('should send a reminder once the first offset is reached', () => {
+    const now = new Date('2025-06-24T00:00:00.000Z');
+
+    expect(evaluateDunning(entry(), now, policy)).toEqual({
+      payment: entry({ attemptCount: 1, lastAttemptDate: now }),
+      notice: 'REMINDER',
+      flaggedOverdue: false,
+      finalStage: false
+    });
+  });
+
+  it('should flag the entry overdue after the grace period and escalate', () => {
+    const step = evaluateDunning(entry({ attemptCount: 2 }), new Date('2025-07-04T00:00:00.000Z'), policy);
+
+    expect(step).toMatchObject({
+      payment: { status: 'OVERDUE', attemptCount: 3 },
+      notice: 'DUNNING',
+      flaggedOverdue: true
+    });
+  });
+
+  it('should skip stages that were missed and send one notice for the latest', () => {
+    const step = evaluateDunning(entry(), new Date('2025-07-20T00:00:00.000Z'), policy);
+
+    expect(step).toMatchObject({ payment: { attemptCount: 4 }, notice: 'DUNNING', finalStage: true });
+  });
+
+  it('should flag an entry overdue even when no dunning notice is configured', () => {
+    const quiet = createDunningPolicy({ ...config, reminderDays: [], escalationDays: [] });
+
+    expect(evaluateDunning(entry(), new Date('2025-07-04T00:00:00.000Z'), quiet)).toEqual({
+      payment: entry({ status: 'OVERDUE' }),
+      notice: undefined,
+      flaggedOverdue: true,
+      finalStage: false
+    });
+  });
+
+  it('should ignore settled entries', () => {
+    const now = new Date('2025-07-20T00:00:00.000Z');
+
+    expect(evaluateDunning(entry({ status: 'PAID', paidAmount: usd(100) }), now, policy)).toBeNull();
+    expect(evaluateDunning(entry({ status: 'CANCELLED' }), now, policy)).toBeNull();
+  });
+});
+
+describe('DunningScheduler', () => {
+  let repository: InMemoryLeasingRepository;
+  let now: Date;
+  let scheduler: DunningScheduler;
+
+  const clock: IClock = { now: () => now };
+
+  beforeEach(async () => {
+    repository = new InMemoryLeasingRepository();
+    scheduler = new DunningScheduler(repository, config, clock, new Logger('TestDunning'));
+    await repository.save(buildAgreement());
+  });
+
+  const runAt = (isoDate: string) => {
+    now = new Date(isoDate);
+    return scheduler.runOnce();
+  };
+
+  it('should remind, flag and escalate as the clock advances', async () => {
+    expect(await runAt('2025-06-20T00:00:00.000Z')).toEqual({ reminded: 0, flaggedOverdue: 0, escalated: 0 });
+    expect(await runAt('2025-06-24T00:00:00.000Z')).toEqual({ reminded: 1, flaggedOverdue: 0, escalated: 0 });
+    expect(await runAt('2025-06-25T00:00:00.000Z')).toEqual({ reminded: 0, flaggedOverdue: 0, escalated: 0 });
+    expect(await runAt('2025-06-30T00:00:00.000Z')).toEqual({ reminded: 1, flaggedOverdue: 0, escalated: 0 });
+    expect(await runAt('2025-07-04T00:00:00.000Z')).toEqual({ reminded: 0, flaggedOverdue: 1, escalated: 1 });
+    expect(await runAt('2025-07-11T00:00:00.000Z')).toEqual({ reminded: 0, flaggedOverdue: 0, escalated: 1 });
+    expect(await runAt('2025-07-20T00:00:00.000Z')).toEqual({ reminded: 0, flaggedOverdue: 0, escalated: 0 });
+
+    const [payment] = (await repository.findById('LA-1'))!.paymentSchedule;
+    expect(payment).toMatchObject({
+      status: 'OVERDUE',
+      attemptCount: 4,
+      lastAttemptDate: new Date('2025-07-11T00:00:00.000Z')
+    });
+  });
+
+  it('should write a PaymentDue event for every notice', async () => {
+    await runAt('2025-06-24T00:00:00.000Z');
+    await runAt('2025-07-04T00:00:00.000Z');
+
+    expect(repository.outbox.all().map(event => [event.type, event.payload.paymentStatus, event.payload.attemptCount]))
+      .toEqual([
+        ['PaymentDue', 'PENDING', 1],
+        ['PaymentDue', 'OVERDUE', 3]
+      ]);
+    expect(repository.outbox.all()[1].occurredAt).toEqual(new Date('2025-07-04T00:00:00.000Z'));
+  });
+
+  it('should page through every active agreement', async () => {
+    await repository.save(buildAgreement('LA-2'));
+    await repository.save(buildAgreement('LA-3'));
+    await repository.save(buildAgreement('LA-4', 'CANCELLED'));
+
+    expect(await runAt('2025-06-24T00:00:00.000Z')).toMatchObject({ reminded: 3 });
+  });
+
+  it('should not dun an entry that was paid or dunned concurrently', async () => {
+    now = new Date('2025-06-24T00:00:00.000Z');
+    const stale = (await repository.findById('LA-1'))!;
+
+    const paid = await repository.save({
+      ...stale,
+      paymentSchedule: [{ ...stale.paymentSchedule[0], status: 'PAID', paidAmount: usd(100) }, stale.paymentSchedule[1]]
+    });
+    expect(await repository.updatePaymentDunning('LA-1', entry({ attemptCount: 1 }), 0, [])).toBe(false);
+
+    await repository.save({ ...stale, version: paid.version });
+    expect(await repository.updatePaymentDunning('LA-1', entry({ attemptCount: 1 }), 0, [])).toBe(true);
+    expect(await repository.updatePaymentDunning('LA-1', entry({ attemptCount: 1 }), 0, [])).toBe(false);
+  });
+});
+
+describe('SqlLeasingRepository dunning', () => {
+  let client: SqliteClient;
+  let repository: SqlLeasingRepository;
+
+  beforeEach(async () => {
+    client = new SqliteClient({ filename: ':memory:' });
+    await new MigrationRunner(client, new Logger('TestMigrations')).migrate();
+    repository = new SqlLeasingRepository(client);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should page through active agreements with unsettled entries due before a date', async () => {
+    await repository.save(buildAgreement('LA-1'));
+    await repository.save(buildAgreement('LA-2'));
+    await repository.save(buildAgreement('LA-3', 'COMPLETED'));
+
+    const dueBefore = new Date('2025-07-02T00:00:00.000Z');
+    const firstPage = await repository.findWithUnsettledPaymentsDueBefore(dueBefore, undefined, 1);
+    const secondPage = await repository.findWithUnsettledPaymentsDueBefore(dueBefore, 'LA-1', 1);
+
+    expect(firstPage.map(agreement => agreement.id)).toEqual(['LA-1']);
+    expect(secondPage.map(agreement => agreement.id)).toEqual(['LA-2']);
+    expect(await repository.findWithUnsettledPaymentsDueBefore(new Date('2025-07-01T00:00:00.000Z'), undefined, 10))
+      .toEqual([]);
+  });
+
+  it('should update the dunning state with its notice only if the entry is unchanged', async () => {
+    const agreement = await repository.save(buildAgreement());
+    const dunned = entry({ status: 'OVERDUE', attemptCount: 3, lastAttemptDate: new Date('2025-07-04T00:00:00.000Z') });
+
+    expect(await repository.updatePaymentDunning('LA-1', dunned, 0, [createPaymentDueEvent(agreement, dunned)])).toBe(true);
+    expect(await repository.updatePaymentDunning('LA-1', dunned, 0, [createPaymentDueEvent(agreement, dunned)])).toBe(false);
+
+    const stored = await repository.findById('LA-1');
+    expect(stored?.paymentSchedule[0]).toEqual(dunned);
+    const [{ count }] = await client.query<{ count: number }>('SELECT COUNT(*) AS count FROM outbox_events');
+    expect(Number(count)).toBe(1);
+    // A save computed before the dunning update would overwrite it
+    await expect(repository.save(agreement)).rejects.toThrow(ConcurrentModificationError);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for the local exchange rate tables and the currency registry
+ */
+
+import { LocalExchangeRateService } from '../src/services/exchangeRateService';
+import { CurrencyRegistry } from '../src/services/currencyRegistry';
+import { BusinessRuleError, ExchangeRateTable } from '../src/types';
+
+const tables: ExchangeRateTable[] = [
+  { asOf: '2025-01-01T00:00:00.000Z', base: 'USD', rates: { EUR: 0.9, GBP: 0.8 } },
+  { asOf: '2025-03-01T00:00:00.000Z', base: 'EUR', rates: { USD: 1.2, JPY: 160 } }
+];
+
+describe('LocalExchangeRateService', () => {
+  const service = new LocalExchangeRateService(tables, 'ecb-export');
+
+  it('should use the latest table in effect', async () => {
+    expect(await service.getRate('USD', 'EUR', new Date('2025-02-01T00:00:00.000Z'))).toEqual({
+      from: 'USD',
+      to: 'EUR',
+      rate: 0.9,
+      asOf: new Date('2025-01-01T00:00:00.000Z'),
+      source: 'ecb-export'
+    });
+    expect(await service.getRate('USD', 'EUR', new Date('2025-03-01T00:00:00.000Z')))
+      .toMatchObject({ rate: 0.8333333333, asOf: new Date('2025-03-01T00:00:00.000Z') });
+  });
+
+  it('should cross rates through the table base and fall back to older tables', async () => {
+    const at = new Date('2025-04-01T00:00:00.000Z');
+
+    expect(await service.getRate('USD', 'JPY', at)).toMatchObject({ rate: 133.3333333333 });
+    // GBP is only quoted in the January table
+    expect(await service.getRate('GBP', 'EUR', at))
+      .toMatchObject({ rate: 1.125, asOf: new Date('2025-01-01T00:00:00.000Z') });
+  });
+
+  it('should return 1 for the same currency', async () => {
+    const at = new Date('2024-01-01T00:00:00.000Z');
+
+    expect(await service.getRate('CHF', 'CHF', at)).toEqual({ from: 'CHF', to: 'CHF', rate: 1, asOf: at, source: 'ecb-export' });
+  });
+
+  it('should reject conversions without a table in effect', async () => {
+    await expect(service.getRate('USD', 'EUR', new Date('2024-12-31T00:00:00.000Z')))
+      .rejects.toThrow(BusinessRuleError);
+    await expect(service.getRate('GBP', 'JPY', new Date('2025-04-01T00:00:00.000Z')))
+      .rejects.toThrow('No exchange rate from GBP to JPY is available for 2025-04-01T00:00:00.000Z');
+  });
+
+  it('should reject invalid tables', () => {
+    expect(() => new LocalExchangeRateService([{ asOf: 'soon', base: 'USD', rates: {} }]))
+      .toThrow('Exchange rate table has an invalid date: soon');
+    expect(() => new LocalExchangeRateService([{ asOf: '2025-01-01', base: 'USD', rates: { EUR: 0 } }]))
+      .toThrow('Exchange rate for EUR on 2025-01-01 must be a positive number');
+    expect(() => new LocalExchangeRateService([{ asOf: '2025-01-01', base: 'USD', rates: { XYZ: 2 } }]))
+      .toThrow('Exchange rate table for 2025-01-01 has unknown currency XYZ');
+  });
+});
+
+describe('CurrencyRegistry', () => {
+  const registry = new CurrencyRegistry({
+    supportedCurrencies: ['USD', 'EUR', 'JPY'],
+    baseCurrency: 'USD',
+    companyBaseCurrencies: { comp2: 'EUR' }
+  });
+
+  it('should list the configured currencies', () => {
+    expect(registry.supportedCurrencies).toEqual(['USD', 'EUR', 'JPY']);
+    expect(registry.isSupported('JPY')).toBe(true);
+    expect(registry.isSupported('GBP')).toBe(false);
+  });
+
+  it('should resolve the base currency of a company', () => {
+    expect(registry.baseCurrencyOf('comp2')).toBe('EUR');
+    expect(registry.baseCurrencyOf('comp1')).toBe('USD');
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => new CurrencyRegistry({ supportedCurrencies: [], baseCurrency: 'USD', companyBaseCurrencies: {} }))
+      .toThrow('At least one currency must be supported');
+    expect(() => new CurrencyRegistry({ supportedCurrencies: ['USD', 'US'], baseCurrency: 'USD', companyBaseCurrencies: {} }))
+      .toThrow('Supported currency US is not a known ISO 4217 currency');
+    expect(() => new CurrencyRegistry({ supportedCurrencies: ['USD'], baseCurrency: 'USD', companyBaseCurrencies: { comp1: 'EURO' } }))
+      .toThrow('Base currency of company comp1 EURO is not a known ISO 4217 currency');
+  });
+});
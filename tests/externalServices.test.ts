@@ -0,0 +1,342 @@
+/**
+ * Contract tests for the external service adapters, run against the local stub server
+ */
+
+import { StubServer } from '../src/clients/stubServer';
+import { HttpClient } from '../src/clients/httpClient';
+import { CircuitBreaker, CircuitOpenError } from '../src/clients/circuitBreaker';
+import { HttpInventoryService } from '../src/clients/httpInventoryService';
+import { HttpBillingService } from '../src/clients/httpBillingService';
+import { HttpNotificationService } from '../src/clients/httpNotificationService';
+import { HttpEmployeeService } from '../src/clients/httpEmployeeService';
+import { ExternalServiceError, HttpClientConfig, IClock, LeasingAgreement, NotFoundError } from '../src/types';
+import { withCorrelationId } from '../src/utils/correlation';
+import { Logger } from '../src/utils/logger';
+import { Money } from '../src/utils/money';
+
+const usd = (amount: number) => Money.of(amount, 'USD');
+
+const httpConfig: HttpClientConfig = {
+  timeoutMs: 200,
+  maxRetries: 2,
+  retryBaseDelayMs: 10,
+  retryMaxDelayMs: 50,
+  circuitFailureThreshold: 3,
+  circuitResetMs: 30000
+};
+
+const agreement: LeasingAgreement = {
+  id: 'LA-1',
+  employeeId: 'emp1',
+  itemId: 'item1',
+  startDate: new Date('2025-07-01T00:00:00.000Z'),
+  endDate: new Date('2025-09-01T00:00:00.000Z'),
+  status: 'PENDING',
+  price: usd(238),
+  currency: 'USD',
+  companyId: 'comp1',
+  paymentSchedule: [
+    { id: 'LA-1-payment-1', dueDate: new Date('2025-07-01T00:00:00.000Z'), amount: usd(119), netAmount: usd(100), taxAmount: usd(19), status: 'PENDING', paidAmount: usd(0), attemptCount: 0 },
+    { id: 'LA-1-payment-2', dueDate: new Date('2025-08-01T00:00:00.000Z'), amount: usd(119), netAmount: usd(100), taxAmount: usd(19), status: 'PENDING', paidAmount: usd(0), attemptCount: 0 }
+  ],
+  metadata: {},
+  createdAt: new Date('2025-06-15T00:00:00.000Z'),
+  updatedAt: new Date('2025-06-15T00:00:00.000Z')
+};
+
+describe('external service adapters', () => {
+  let stub: StubServer;
+  let baseUrl: string;
+  let clock: IClock & { time: number };
+
+  const client = (config: Partial<HttpClientConfig> = {}) =>
+    new HttpClient('test', baseUrl, { ...httpConfig, ...config }, new Logger('Test'), () => 0.5, clock);
+
+  beforeEach(async () => {
+    stub = new StubServer({
+      items: [
+        { id: 'item1', leasable: true, category: 'laptop' },
+        { id: 'item2', leasable: false }
+      ],
+      employees: [
+        { id: 'emp1', companyId: 'comp1', type: 'PREMIUM', active: true },
+        { id: 'emp2', companyId: 'comp1', type: 'STANDARD', active: false },
+        { id: 'mgr1', companyId: 'comp1', type: 'VIP', active: true }
+      ],
+      directReports: { mgr1: ['emp1', 'emp2'] }
+    });
+    baseUrl = await stub.start();
+    clock = { time: Date.parse('2025-06-15T00:00:00.000Z'), now() { return new Date(this.time); } };
+  });
+
+  afterEach(async () => {
+    await stub.stop();
+  });
+
+  describe('HttpInventoryService', () => {
+    it('should report leasable items and their category', async () => {
+      const inventory = new HttpInventoryService(client());
+
+      expect(await inventory.checkAvailability('item1')).toBe(true);
+      expect(await inventory.getItemCategory('item1')).toBe('laptop');
+      expect(await inventory.checkAvailability('item2')).toBe(false);
+      expect(await inventory.getItemCategory('item2')).toBeUndefined();
+    });
+
+    it('should treat unknown items as unavailable', async () => {
+      const inventory = new HttpInventoryService(client());
+
+      expect(await inventory.checkAvailability('missing')).toBe(false);
+      expect(await inventory.getItemCategory('missing')).toBeUndefined();
+    });
+
+    it('should forward reservations and release them once', async () => {
+      const inventory = new HttpInventoryService(client());
+      const reservation = {
+        id: 'LA-1',
+        itemId: 'item1',
+        startDate: new Date('2025-07-01T00:00:00.000Z'),
+        endDate: new Date('2025-09-01T00:00:00.000Z')
+      };
+
+      await inventory.reserveItem(reservation);
+      await inventory.reserveItem(reservation);
+      expect([...stub.reservations]).toEqual([
+        ['LA-1', { itemId: 'item1', startDate: '2025-07-01T00:00:00.000Z', endDate: '2025-09-01T00:00:00.000Z' }]
+      ]);
+
+      await inventory.releaseItem('LA-1');
+      await inventory.releaseItem('LA-1');
+      expect(stub.reservations.size).toBe(0);
+    });
+  });
+
+  describe('HttpEmployeeService', () => {
+    it('should read employee types and direct reports', async () => {
+      const employees = new HttpEmployeeService(client());
+
+      expect(await employees.getEmployeeType('emp1')).toBe('PREMIUM');
+      expect(await employees.getDirectReports('mgr1')).toEqual(['emp1', 'emp2']);
+      expect(await employees.getDirectReports('missing')).toEqual([]);
+      await expect(employees.getEmployeeType('missing')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should only validate active employees of the company', async () => {
+      const employees = new HttpEmployeeService(client());
+
+      expect(await employees.validateEmployee('emp1', 'comp1')).toBe(true);
+      expect(await employees.validateEmployee('emp1', 'comp2')).toBe(false);
+      expect(await employees.validateEmployee('emp2', 'comp1')).toBe(false);
+      expect(await employees.validateEmployee('missing', 'comp1')).toBe(false);
+    });
+  });
+
+  describe('HttpBillingService', () => {
+    it('should create one billing record per idempotency key', async () => {
+      const billing = new HttpBillingService(client());
+
+      const billingId = await billing.createBillingRecord(agreement, 'saga-1');
+      expect(await billing.createBillingRecord(agreement, 'saga-1')).toBe(billingId);
+
+      expect(stub.billingRecords.size).toBe(1);
+      expect(stub.billingRecords.get(billingId)).toMatchObject({
+        agreementId: 'LA-1',
+        currency: 'USD',
+        totalAmount: 238,
+        startDate: '2025-07-01T00:00:00.000Z',
+        payments: [
+          { id: 'LA-1-payment-1', dueDate: '2025-07-01T00:00:00.000Z', amount: 119, netAmount: 100, taxAmount: 19 },
+          { id: 'LA-1-payment-2', dueDate: '2025-08-01T00:00:00.000Z', amount: 119, netAmount: 100, taxAmount: 19 }
+        ]
+      });
+      expect(stub.requests.map(request => request.idempotencyKey)).toEqual(['saga-1', 'saga-1']);
+    });
+
+    it('should fail with a service error when the created record has no ID', async () => {
+      const http = client();
+      jest.spyOn(http, 'request').mockResolvedValue({ status: 201, body: undefined });
+
+      await expect(new HttpBillingService(http).createBillingRecord(agreement, 'saga-1'))
+        .rejects.toMatchObject({ name: 'ExternalServiceError', service: 'billing', code: 'SERVICE_ERROR' });
+    });
+
+    it('should update the billing status and cancel records idempotently', async () => {
+      const billing = new HttpBillingService(client());
+      const billingId = await billing.createBillingRecord(agreement, 'saga-1');
+
+      await billing.updateBillingRecord('LA-1', 'ACTIVE');
+      expect(stub.billingStatuses.get('LA-1')).toBe('ACTIVE');
+
+      await billing.cancelBillingRecord(billingId);
+      await billing.cancelBillingRecord(billingId);
+      expect(stub.billingRecords.size).toBe(0);
+    });
+  });
+
+  describe('HttpNotificationService', () => {
+    it('should send each notice once', async () => {
+      const notifications = new HttpNotificationService(client());
+      const reminder = { ...agreement.paymentSchedule[0], attemptCount: 1 };
+
+      await notifications.sendAgreementCreated('emp1', 'LA-1');
+      await notifications.sendAgreementCreated('emp1', 'LA-1');
+      await notifications.sendPaymentDue('emp1', reminder);
+      await notifications.sendPaymentDue('emp1', { ...reminder, attemptCount: 2 });
+
+      expect(stub.notifications).toEqual([
+        { type: 'agreement-created', body: { employeeId: 'emp1', agreementId: 'LA-1' } },
+        {
+          type: 'payment-due',
+          body: {
+            employeeId: 'emp1',
+            payment: {
+              id: 'LA-1-payment-1',
+              dueDate: '2025-07-01T00:00:00.000Z',
+              currency: 'USD',
+              amount: 119,
+              netAmount: 100,
+              taxAmount: 19,
+              paidAmount: 0,
+              status: 'PENDING',
+              attemptCount: 1
+            }
+          }
+        },
+        expect.objectContaining({ type: 'payment-due' })
+      ]);
+    });
+  });
+
+  describe('HttpClient', () => {
+    it('should forward the correlation ID of the running work', async () => {
+      const inventory = new HttpInventoryService(client());
+
+      await withCorrelationId('req-123', () => inventory.checkAvailability('item1'));
+      await inventory.checkAvailability('item1');
+
+      expect(stub.requests[0].correlationId).toBe('req-123');
+      expect(stub.requests[1].correlationId).toMatch(/^out-/);
+    });
+
+    it('should retry server errors until the service recovers', async () => {
+      stub.failNext(2, 503);
+
+      expect(await new HttpInventoryService(client()).checkAvailability('item1')).toBe(true);
+      expect(stub.requests).toHaveLength(3);
+    });
+
+    it('should give up after the configured retries', async () => {
+      stub.failNext(3, 502);
+
+      await expect(new HttpInventoryService(client()).checkAvailability('item1'))
+        .rejects.toMatchObject({ name: 'ExternalServiceError', service: 'test', code: 'SERVICE_ERROR', status: 502 });
+      expect(stub.requests).toHaveLength(3);
+    });
+
+    it('should retry attempts that time out', async () => {
+      stub.delayNext(1, 500);
+
+      expect(await new HttpInventoryService(client({ timeoutMs: 100 })).checkAvailability('item1')).toBe(true);
+      expect(stub.requests).toHaveLength(2);
+    });
+
+    it('should not retry client errors or POSTs without an idempotency key', async () => {
+      stub.failNext(1, 400);
+      await expect(new HttpInventoryService(client()).checkAvailability('item1')).rejects.toMatchObject({ status: 400 });
+      expect(stub.requests).toHaveLength(1);
+
+      stub.failNext(1, 503);
+      await expect(client().request({ method: 'POST', path: '/notifications/agreement-created', body: {} }))
+        .rejects.toMatchObject({ status: 503 });
+      expect(stub.requests).toHaveLength(2);
+    });
+
+    it('should fail fast while the circuit is open', async () => {
+      const inventory = new HttpInventoryService(client({ maxRetries: 0 }));
+      stub.failNext(3, 500);
+
+      for (let call = 0; call < 3; call++) {
+        await expect(inventory.checkAvailability('item1')).rejects.toMatchObject({ code: 'SERVICE_ERROR' });
+      }
+      await expect(inventory.checkAvailability('item1')).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+      expect(stub.requests).toHaveLength(3);
+
+      clock.time += httpConfig.circuitResetMs;
+      expect(await inventory.checkAvailability('item1')).toBe(true);
+      expect(await inventory.checkAvailability('item1')).toBe(true);
+      expect(stub.requests).toHaveLength(5);
+    });
+
+    it('should report unreachable services', async () => {
+      await stub.stop();
+
+      await expect(new HttpInventoryService(client({ maxRetries: 0 })).checkAvailability('item1'))
+        .rejects.toMatchObject({ code: 'SERVICE_UNREACHABLE' });
+    });
+
+    it('should jitter retry delays below the doubled base delay', () => {
+      const http = client();
+
+      expect(http.retryDelay(1)).toBe(5);
+      expect(http.retryDelay(2)).toBe(10);
+      expect(http.retryDelay(4)).toBe(25); // capped at the maximum delay
+    });
+  });
+});
+
+describe('CircuitBreaker', () => {
+  let clock: IClock & { time: number };
+  let breaker: CircuitBreaker;
+
+  const fail = () => Promise.reject(new Error('down'));
+  const succeed = () => Promise.resolve('ok');
+
+  beforeEach(() => {
+    clock = { time: 0, now() { return new Date(this.time); } };
+    breaker = new CircuitBreaker({ failureThreshold: 2, resetMs: 1000 }, clock);
+  });
+
+  it('should open after consecutive failures only', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    await breaker.execute(succeed);
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    expect(breaker.state).toBe('CLOSED');
+
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    expect(breaker.state).toBe('OPEN');
+    await expect(breaker.execute(succeed)).rejects.toThrow(CircuitOpenError);
+  });
+
+  it('should not count errors that are not failures', async () => {
+    const notFound = () => Promise.reject(new ExternalServiceError('missing', 'test', 'SERVICE_ERROR', 404));
+
+    for (let call = 0; call < 3; call++) {
+      await expect(breaker.execute(notFound, () => false)).rejects.toThrow('missing');
+    }
+    expect(breaker.state).toBe('CLOSED');
+  });
+
+  it('should let one trial call through after the reset time', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    clock.time = 1000;
+    expect(breaker.state).toBe('HALF_OPEN');
+
+    let finishTrial!: (value: string) => void;
+    const trial = breaker.execute(() => new Promise<string>(resolve => { finishTrial = resolve; }));
+    await expect(breaker.execute(succeed)).rejects.toThrow(CircuitOpenError);
+
+    finishTrial('ok');
+    expect(await trial).toBe('ok');
+    expect(breaker.state).toBe('CLOSED');
+  });
+
+  it('should open again when the trial call fails', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    clock.time = 1000;
+
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    expect(breaker.state).toBe('OPEN');
+  });
+});
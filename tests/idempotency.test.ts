@@ -0,0 +1,197 @@
+/**
+ * Tests for Idempotency-Key handling
+ * Requests go through a real Express server on an ephemeral port
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { IdempotencyMiddleware, fingerprintRequest } from '../src/middleware/idempotency';
+import { InMemoryIdempotencyStore } from '../src/repositories/inMemoryIdempotencyStore';
+import { SqliteClient } from '../src/repositories/sql/sqliteClient';
+import { MigrationRunner } from '../src/repositories/sql/migrationRunner';
+import { SqlIdempotencyStore } from '../src/repositories/sql/sqlIdempotencyStore';
+import { IdempotencyRecord, IIdempotencyStore } from '../src/types';
+import { Logger } from '../src/utils/logger';
+
+const config = { store: 'memory' as const, ttlSeconds: 60, lockTimeoutMs: 1000 };
+
+describe('IdempotencyMiddleware', () => {
+  let server: Server;
+  let baseUrl: string;
+  let handlerCalls: number;
+  let failNext: boolean;
+
+  beforeEach(async () => {
+    handlerCalls = 0;
+    failNext = false;
+
+    const app = express();
+    app.use(express.json());
+    app.use((req: Request, res: Response, next: NextFunction) => {
+      req.user = { id: String(req.header('X-User') ?? 'user1'), email: '', companyId: 'comp1', role: 'user' };
+      next();
+    });
+
+    const middleware = new IdempotencyMiddleware(new InMemoryIdempotencyStore(), config);
+    app.post('/agreements', middleware.handle, async (req: Request, res: Response) => {
+      handlerCalls++;
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      if (failNext) {
+        failNext = false;
+        res.status(409).json({ error: { code: 'BUSINESS_RULE_ERROR' } });
+        return;
+      }
+      res.status(201).json({ success: true, data: { id: `agreement-${handlerCalls}` } });
+    });
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/agreements`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+
+  it('should replay the original 201 response for a repeated request', async () => {
+    const first = await post({ itemId: 'item1', price: 1000 }, { 'Idempotency-Key': 'key-1' });
+    const second = await post({ price: 1000, itemId: 'item1' }, { 'Idempotency-Key': 'key-1' });
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(201);
+    expect(second.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await second.json()).toEqual(await first.json());
+    expect(handlerCalls).toBe(1);
+  });
+
+  it('should reject reusing a key with a different body', async () => {
+    await post({ itemId: 'item1' }, { 'Idempotency-Key': 'key-1' });
+    const reused = await post({ itemId: 'item2' }, { 'Idempotency-Key': 'key-1' });
+
+    expect(reused.status).toBe(422);
+    expect(((await reused.json()) as { error: { code: string } }).error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(handlerCalls).toBe(1);
+  });
+
+  it('should serialize concurrent requests with the same key', async () => {
+    const responses = await Promise.all([
+      post({ itemId: 'item1' }, { 'Idempotency-Key': 'key-1' }),
+      post({ itemId: 'item1' }, { 'Idempotency-Key': 'key-1' }),
+      post({ itemId: 'item1' }, { 'Idempotency-Key': 'key-1' })
+    ]);
+
+    expect(responses.map(r => r.status)).toEqual([201, 201, 201]);
+    expect(new Set(await Promise.all(responses.map(async r => ((await r.json()) as { data: { id: string } }).data.id))).size).toBe(1);
+    expect(handlerCalls).toBe(1);
+  });
+
+  it('should free the key when the request fails', async () => {
+    failNext = true;
+    const failed = await post({ itemId: 'item1' }, { 'Idempotency-Key': 'key-1' });
+    const retried = await post({ itemId: 'item1' }, { 'Idempotency-Key': 'key-1' });
+
+    expect(failed.status).toBe(409);
+    expect(retried.status).toBe(201);
+    expect(handlerCalls).toBe(2);
+  });
+
+  it('should scope keys to the caller and ignore requests without a key', async () => {
+    await post({ itemId: 'item1' }, { 'Idempotency-Key': 'key-1', 'X-User': 'user1' });
+    await post({ itemId: 'item1' }, { 'Idempotency-Key': 'key-1', 'X-User': 'user2' });
+    await post({ itemId: 'item1' });
+    await post({ itemId: 'item1' });
+
+    expect(handlerCalls).toBe(4);
+  });
+
+  it('should reject malformed keys', async () => {
+    const response = await post({}, { 'Idempotency-Key': 'k'.repeat(256) });
+
+    expect(response.status).toBe(400);
+    expect(handlerCalls).toBe(0);
+  });
+});
+
+describe('SqlIdempotencyStore', () => {
+  let client: SqliteClient;
+  let store: IIdempotencyStore;
+
+  const now = new Date('2025-06-15T00:00:00.000Z');
+  const record: IdempotencyRecord = {
+    key: 'user1:key-1',
+    requestHash: fingerprintRequest('POST', '/api/v1/agreements', { itemId: 'item1' }),
+    status: 'IN_PROGRESS',
+    lockedUntil: new Date('2025-06-15T00:00:30.000Z'),
+    expiresAt: new Date('2025-06-16T00:00:00.000Z')
+  };
+
+  beforeEach(async () => {
+    client = new SqliteClient({ filename: ':memory:' });
+    await new MigrationRunner(client, new Logger('TestMigrations')).migrate();
+    store = new SqlIdempotencyStore(client);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should let only the first claim win and keep the completed response', async () => {
+    expect(await store.claim(record, now)).toBeNull();
+    expect(await store.claim(record, now)).toMatchObject({ status: 'IN_PROGRESS' });
+
+    await store.complete(record.key, { statusCode: 201, body: { success: true } });
+
+    expect(await store.claim(record, now)).toMatchObject({
+      status: 'COMPLETED',
+      response: { statusCode: 201, body: { success: true } }
+    });
+  });
+
+  it('should hand abandoned and expired keys to a new claim', async () => {
+    await store.claim(record, now);
+    expect(await store.claim(record, new Date('2025-06-15T00:01:00.000Z'))).toBeNull();
+
+    await store.complete(record.key, { statusCode: 201, body: {} });
+    expect(await store.find(record.key, new Date('2025-06-16T00:00:00.000Z'))).toBeNull();
+    expect(await store.claim(record, new Date('2025-06-16T00:00:00.000Z'))).toBeNull();
+  });
+
+  it('should free a released key', async () => {
+    await store.claim(record, now);
+    await store.release(record.key);
+
+    expect(await store.find(record.key, now)).toBeNull();
+  });
+});
+
+describe('InMemoryIdempotencyStore', () => {
+  const record = (key: string, expiresAt: string): IdempotencyRecord => ({
+    key,
+    requestHash: fingerprintRequest('POST', '/api/v1/agreements', { itemId: 'item1' }),
+    status: 'COMPLETED',
+    lockedUntil: new Date('2025-06-15T00:00:30.000Z'),
+    expiresAt: new Date(expiresAt)
+  });
+
+  it('should sweep expired keys that are never used again', async () => {
+    const store = new InMemoryIdempotencyStore();
+    await store.claim(record('user1:key-1', '2025-06-15T01:00:00.000Z'), new Date('2025-06-15T00:00:00.000Z'));
+    await store.claim(record('user1:key-2', '2025-06-16T00:00:00.000Z'), new Date('2025-06-15T00:00:00.000Z'));
+
+    // Within the sweep interval of the last sweep nothing is scanned
+    await store.claim(record('user1:key-3', '2025-06-16T00:00:00.000Z'), new Date('2025-06-15T00:00:30.000Z'));
+    expect(store.size()).toBe(3);
+
+    await store.claim(record('user1:key-4', '2025-06-16T00:00:00.000Z'), new Date('2025-06-15T02:00:00.000Z'));
+    expect(store.size()).toBe(3);
+    expect(await store.find('user1:key-1', new Date('2025-06-15T00:00:00.000Z'))).toBeNull();
+  });
+});
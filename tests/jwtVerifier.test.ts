@@ -0,0 +1,161 @@
+/**
+ * Unit tests for JWT verification and file-based key rotation
+ * Keys are generated locally; no network access is needed
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { JwtVerifier } from '../src/auth/jwtVerifier';
+import { JwksKeyStore } from '../src/auth/jwksKeyStore';
+import { AppConfig } from '../src/config';
+import { AuthenticationError, IClock } from '../src/types';
+import { Logger } from '../src/utils/logger';
+
+const baseConfig: AppConfig['auth'] = {
+  jwtSecret: 'test-secret-with-enough-entropy',
+  jwtExpiresIn: '15m',
+  algorithm: 'HS256',
+  issuer: 'leasing-agreement-system',
+  audience: 'leasing-api',
+  clockToleranceSeconds: 0,
+  refreshTokenTtlSeconds: 3600
+};
+
+const claims = { sub: 'user1', email: 'user1@example.com', companyId: 'comp1', role: 'manager' };
+
+const signOptions = (overrides: jwt.SignOptions = {}): jwt.SignOptions => ({
+  issuer: baseConfig.issuer,
+  audience: baseConfig.audience,
+  expiresIn: '5m',
+  ...overrides
+});
+
+const generateRsaKey = (): { privateKey: KeyObject; publicKey: KeyObject } =>
+  generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+describe('JwtVerifier', () => {
+
+  describe('HS256', () => {
+    const verifier = new JwtVerifier(baseConfig);
+
+    it('should map verified claims onto the user', async () => {
+      const token = jwt.sign(claims, baseConfig.jwtSecret, signOptions());
+
+      await expect(verifier.verify(token)).resolves.toEqual({
+        id: 'user1',
+        email: 'user1@example.com',
+        companyId: 'comp1',
+        role: 'manager'
+      });
+    });
+
+    it('should accept the snake_case company claim', async () => {
+      const token = jwt.sign(
+        { sub: 'user1', company_id: 'comp9', role: 'user' },
+        baseConfig.jwtSecret,
+        signOptions()
+      );
+
+      expect((await verifier.verify(token)).companyId).toBe('comp9');
+    });
+
+    it.each([
+      ['a wrong secret', () => jwt.sign(claims, 'another-secret', signOptions())],
+      ['a wrong issuer', () => jwt.sign(claims, baseConfig.jwtSecret, signOptions({ issuer: 'someone-else' }))],
+      ['a wrong audience', () => jwt.sign(claims, baseConfig.jwtSecret, signOptions({ audience: 'other-api' }))],
+      ['missing claims', () => jwt.sign({ sub: 'user1' }, baseConfig.jwtSecret, signOptions())],
+      ['an unsigned token', () => jwt.sign(claims, '', { ...signOptions(), algorithm: 'none' })],
+      ['garbage', () => 'not-a-jwt']
+    ])('should reject a token with %s', async (_label, buildToken) => {
+      await expect(verifier.verify(buildToken())).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+
+    it('should reject expired tokens with a dedicated code', async () => {
+      const token = jwt.sign(
+        { ...claims, exp: Math.floor(Date.now() / 1000) - 60 },
+        baseConfig.jwtSecret,
+        { issuer: baseConfig.issuer, audience: baseConfig.audience }
+      );
+
+      await expect(verifier.verify(token)).rejects.toMatchObject({ code: 'TOKEN_EXPIRED' });
+    });
+  });
+
+  describe('RS256 with JWKS directory', () => {
+    let directory: string;
+    let keyStore: JwksKeyStore;
+    let verifier: JwtVerifier;
+    let clock: IClock & { time: number };
+    const config: AppConfig['auth'] = { ...baseConfig, algorithm: 'RS256' };
+    const first = generateRsaKey();
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'jwks-'));
+      await fs.writeFile(
+        path.join(directory, 'keys.json'),
+        JSON.stringify({ keys: [{ ...first.publicKey.export({ format: 'jwk' }), kid: 'key-1' }] })
+      );
+
+      clock = { time: Date.parse('2025-06-15T00:00:00.000Z'), now() { return new Date(this.time); } };
+      keyStore = new JwksKeyStore(directory, new Logger('TestKeyStore'), 30000, clock);
+      verifier = new JwtVerifier(config, keyStore);
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should verify tokens signed with a key from the set', async () => {
+      const token = jwt.sign(claims, first.privateKey, signOptions({ algorithm: 'RS256', keyid: 'key-1' }));
+
+      expect((await verifier.verify(token)).id).toBe('user1');
+    });
+
+    it('should pick up rotated keys added to the directory', async () => {
+      const second = generateRsaKey();
+      const token = jwt.sign(claims, second.privateKey, signOptions({ algorithm: 'RS256', keyid: 'key-2' }));
+
+      // Prime the cache before the new key is added
+      await verifier.verify(jwt.sign(claims, first.privateKey, signOptions({ algorithm: 'RS256', keyid: 'key-1' })));
+      await fs.writeFile(
+        path.join(directory, 'key-2.pem'),
+        second.publicKey.export({ format: 'pem', type: 'spki' })
+      );
+      clock.time += 30000;
+
+      expect((await verifier.verify(token)).id).toBe('user1');
+    });
+
+    it('should reload at most once per interval for unknown key IDs', async () => {
+      const stranger = generateRsaKey();
+      const unknown = (kid: string) => jwt.sign(claims, stranger.privateKey, signOptions({ algorithm: 'RS256', keyid: kid }));
+
+      await verifier.verify(jwt.sign(claims, first.privateKey, signOptions({ algorithm: 'RS256', keyid: 'key-1' })));
+      clock.time += 30000;
+      const reload = jest.spyOn(keyStore, 'reload');
+
+      await Promise.all(['key-7', 'key-8'].map(kid => expect(verifier.verify(unknown(kid))).rejects.toThrow(AuthenticationError)));
+      await expect(verifier.verify(unknown('key-9'))).rejects.toThrow(AuthenticationError);
+      clock.time += 29999;
+      await expect(verifier.verify(unknown('key-10'))).rejects.toThrow(AuthenticationError);
+
+      expect(reload).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject tokens signed with an unknown key', async () => {
+      const stranger = generateRsaKey();
+      const token = jwt.sign(claims, stranger.privateKey, signOptions({ algorithm: 'RS256', keyid: 'key-9' }));
+
+      await expect(verifier.verify(token)).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should reject HS256 tokens when RS256 is configured', async () => {
+      const token = jwt.sign(claims, baseConfig.jwtSecret, signOptions({ keyid: 'key-1' }));
+
+      await expect(verifier.verify(token)).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+  });
+});
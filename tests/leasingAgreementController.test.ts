@@ -0,0 +1,41 @@
+/**
+ * Unit tests for the leasing agreement controller's request checks
+ */
+
+import { Request, Response } from 'express';
+import { LeasingAgreementController } from '../src/controllers/leasingAgreementController';
+import { LeasingAgreementService } from '../src/services/leasingAgreementService';
+import { AccessPolicy } from '../src/auth/accessPolicy';
+import { DEFAULT_ROLE_PERMISSIONS } from '../src/config';
+import { createMockEmployeeService } from '../src/clients/mockServices';
+
+describe('LeasingAgreementController', () => {
+  // The checks under test answer before the service is called
+  const controller = new LeasingAgreementController(
+    {} as LeasingAgreementService,
+    new AccessPolicy(DEFAULT_ROLE_PERMISSIONS, createMockEmployeeService())
+  );
+
+  const response = () => {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    return res;
+  };
+
+  it.each([
+    ['submitAgreement'],
+    ['cancelAgreement'],
+    ['getAgreement'],
+    ['activateAgreement']
+  ] as const)('should answer 400 when %s is called without an agreement ID', async handler => {
+    const req = { params: {}, query: {}, body: {}, user: { id: 'emp1', companyId: 'comp1', role: 'user' } };
+    const res = response();
+
+    await controller[handler](req as unknown as Request, res as unknown as Response, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      error: expect.objectContaining({ code: 'BAD_REQUEST', message: 'Agreement ID is required' })
+    });
+  });
+});
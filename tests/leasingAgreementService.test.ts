@@ -6,25 +6,47 @@
 import { LeasingAgreementService } from '../src/services/leasingAgreementService';
 import { 
   CreateAgreementRequest, 
+  QuoteAgreementRequest,
   LeasingAgreement,
+  AgreementStatus,
   EmployeeType,
   ValidationError,
   BusinessRuleError,
+  NotFoundError,
+  AccessDeniedError,
+  AuthenticatedUser,
+  AgreementListQuery,
+  AgreementPage,
+  DomainEvent,
+  OutstandingPaymentMatch,
   LeasingConfig,
   ILeasingRepository,
-  INotificationService,
   IInventoryService,
   IBillingService,
-  IEmployeeService
+  IEmployeeService,
+  ItemReservation,
+  CompanyPolicy
 } from '../src/types';
 import { Logger } from '../src/utils/logger';
+import { AccessPolicy } from '../src/auth/accessPolicy';
+import { DEFAULT_ROLE_PERMISSIONS } from '../src/config';
+import { applyAgreementQuery } from '../src/repositories/inMemoryLeasingRepository';
+import { InMemorySagaLog } from '../src/repositories/inMemorySagaLog';
+import { InMemoryReservationStore } from '../src/repositories/inMemoryReservationStore';
+import { InMemoryCompanyPolicyStore } from '../src/repositories/inMemoryCompanyPolicyStore';
+import { LocalExchangeRateService } from '../src/services/exchangeRateService';
+import { Money } from '../src/utils/money';
+
+const usd = (amount: number) => Money.of(amount, 'USD');
 
 // Mock implementations for dependencies
 class MockLeasingRepository implements ILeasingRepository {
   private agreements: Map<string, LeasingAgreement> = new Map();
+  public events: DomainEvent[] = [];
   
-  async save(agreement: LeasingAgreement): Promise<LeasingAgreement> {
+  async save(agreement: LeasingAgreement, events: DomainEvent[] = []): Promise<LeasingAgreement> {
     this.agreements.set(agreement.id, agreement);
+    this.events.push(...events);
     return agreement;
   }
   
@@ -36,40 +58,48 @@ class MockLeasingRepository implements ILeasingRepository {
     return Array.from(this.agreements.values())
       .filter(a => a.employeeId === employeeId);
   }
-}
 
-class MockNotificationService implements INotificationService {
-  public sentNotifications: Array<{ employeeId: string; agreementId: string }> = [];
-  public sentPaymentNotifications: Array<{ employeeId: string; paymentId: string }> = [];
-  
-  async sendAgreementCreated(employeeId: string, agreementId: string): Promise<void> {
-    this.sentNotifications.push({ employeeId, agreementId });
+  async findPageByEmployeeId(employeeId: string, query: AgreementListQuery): Promise<AgreementPage> {
+    return applyAgreementQuery(await this.findByEmployeeId(employeeId), query);
   }
-  
-  async sendPaymentDue(employeeId: string, payment: any): Promise<void> {
-    this.sentPaymentNotifications.push({ employeeId, paymentId: payment.id });
+
+  async findByPaymentId(paymentId: string): Promise<LeasingAgreement | null> {
+    return Array.from(this.agreements.values())
+      .find(a => a.paymentSchedule.some(payment => payment.id === paymentId)) || null;
+  }
+
+  async findOutstandingPayments(): Promise<OutstandingPaymentMatch[]> {
+    return [];
+  }
+
+  async recordPayment(agreement: LeasingAgreement): Promise<boolean> {
+    this.agreements.set(agreement.id, agreement);
+    return true;
+  }
+
+  async findWithUnsettledPaymentsDueBefore(): Promise<LeasingAgreement[]> {
+    return [];
+  }
+
+  async updatePaymentDunning(): Promise<boolean> {
+    return false;
   }
 }
 
 class MockInventoryService implements IInventoryService {
-  private reservedItems: Set<string> = new Set();
   private availableItems: Set<string> = new Set(['item1', 'item2', 'item3']);
   
-  async reserveItem(itemId: string): Promise<boolean> {
-    if (this.availableItems.has(itemId) && !this.reservedItems.has(itemId)) {
-      this.reservedItems.add(itemId);
-      return true;
-    }
-    return false;
-  }
-  
-  async releaseItem(itemId: string): Promise<void> {
-    this.reservedItems.delete(itemId);
-  }
-  
   async checkAvailability(itemId: string): Promise<boolean> {
-    return this.availableItems.has(itemId) && !this.reservedItems.has(itemId);
+    return this.availableItems.has(itemId);
+  }
+
+  async getItemCategory(itemId: string): Promise<string | undefined> {
+    return itemId === 'item2' ? 'monitor' : 'laptop';
   }
+
+  async reserveItem(reservation: ItemReservation): Promise<void> {}
+
+  async releaseItem(reservationId: string): Promise<void> {}
 }
 
 class MockBillingService implements IBillingService {
@@ -81,17 +111,21 @@ class MockBillingService implements IBillingService {
     return billingId;
   }
   
-  async updateBillingRecord(agreementId: string, status: any): Promise<void> {
+  async cancelBillingRecord(billingId: string): Promise<void> {
+    this.billingRecords = this.billingRecords.filter(record => record.billingId !== billingId);
+  }
+
+  async updateBillingRecord(agreementId: string, status: AgreementStatus): Promise<void> {
     // Mock implementation
   }
 }
 
 class MockEmployeeService implements IEmployeeService {
-  private employees: Map<string, { type: EmployeeType; companyId: string }> = new Map();
+  private employees: Map<string, { type: EmployeeType; companyId: string; managerId?: string }> = new Map();
   
   constructor() {
-    this.employees.set('emp1', { type: 'STANDARD', companyId: 'comp1' });
-    this.employees.set('emp2', { type: 'PREMIUM', companyId: 'comp1' });
+    this.employees.set('emp1', { type: 'STANDARD', companyId: 'comp1', managerId: 'mgr1' });
+    this.employees.set('emp2', { type: 'PREMIUM', companyId: 'comp1', managerId: 'mgr2' });
     this.employees.set('emp3', { type: 'VIP', companyId: 'comp2' });
   }
   
@@ -103,6 +137,12 @@ class MockEmployeeService implements IEmployeeService {
     const employee = this.employees.get(employeeId);
     return employee?.companyId === companyId;
   }
+
+  async getDirectReports(managerId: string): Promise<string[]> {
+    return Array.from(this.employees.entries())
+      .filter(([, employee]) => employee.managerId === managerId)
+      .map(([employeeId]) => employeeId);
+  }
 }
 
 // Test configuration
@@ -111,40 +151,66 @@ const testConfig: LeasingConfig = {
   minLeasingDuration: 1,
   maxPrice: 1000000,
   supportedCurrencies: ['USD', 'EUR', 'GBP', 'CAD'],
-  employeeDiscounts: {
-    STANDARD: 1.0,
-    PREMIUM: 0.9,
-    VIP: 0.8
+  baseCurrency: 'USD',
+  companyBaseCurrencies: { comp2: 'EUR' },
+  pricing: {
+    employeeMultipliers: {
+      STANDARD: 1.0,
+      PREMIUM: 0.9,
+      VIP: 0.8
+    },
+    durationTiers: [{ minMonths: 12, multiplier: 0.8 }]
   },
-  longTermDiscount: 0.8,
-  longTermThreshold: 12
+  tax: { countries: {}, companyCountries: {} },
+  earlyTerminationPenaltyRate: 0.1,
+  dayCountConvention: 'ACTUAL_ACTUAL',
+  reservationHoldMinutes: { draft: 1440, pending: 15 }
 };
 
+const testRates = new LocalExchangeRateService([
+  { asOf: '2025-01-01T00:00:00.000Z', base: 'USD', rates: { EUR: 0.9, GBP: 0.8 } }
+]);
+
+// Fixture dates below are in 2025; pin the clock so they stay in the future
+beforeAll(() => {
+  jest.useFakeTimers({ now: new Date('2025-06-15T00:00:00.000Z'), advanceTimers: true });
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+});
+
 describe('LeasingAgreementService', () => {
   let service: LeasingAgreementService;
   let mockRepository: MockLeasingRepository;
-  let mockNotificationService: MockNotificationService;
   let mockInventoryService: MockInventoryService;
   let mockBillingService: MockBillingService;
   let mockEmployeeService: MockEmployeeService;
   let mockLogger: Logger;
+  let reservations: InMemoryReservationStore;
+  let companyPolicies: InMemoryCompanyPolicyStore;
 
   beforeEach(() => {
     mockRepository = new MockLeasingRepository();
-    mockNotificationService = new MockNotificationService();
     mockInventoryService = new MockInventoryService();
     mockBillingService = new MockBillingService();
     mockEmployeeService = new MockEmployeeService();
     mockLogger = new Logger('TestService');
+    reservations = new InMemoryReservationStore();
+    companyPolicies = new InMemoryCompanyPolicyStore();
     
     service = new LeasingAgreementService(
       mockRepository,
-      mockNotificationService,
       mockInventoryService,
       mockBillingService,
       mockEmployeeService,
       testConfig,
-      mockLogger
+      mockLogger,
+      new AccessPolicy(DEFAULT_ROLE_PERMISSIONS, mockEmployeeService),
+      new InMemorySagaLog(),
+      testRates,
+      reservations,
+      companyPolicies
     );
   });
 
@@ -168,8 +234,14 @@ describe('LeasingAgreementService', () => {
       expect(result.employeeId).toBe('emp1');
       expect(result.status).toBe('ACTIVE');
       expect(result.paymentSchedule.length).toBeGreaterThan(0);
-      expect(mockNotificationService.sentNotifications).toHaveLength(1);
       expect(mockBillingService.billingRecords).toHaveLength(1);
+      // Notification, billing and inventory sync are left to the outbox dispatcher
+      expect(mockRepository.events.map(event => event.type)).toEqual([
+        'AgreementSubmitted',
+        'AgreementActivated',
+        'AgreementCreated',
+        'ItemReserved'
+      ]);
     });
 
     it('should throw ValidationError for invalid employee ID', async () => {
@@ -221,51 +293,453 @@ describe('LeasingAgreementService', () => {
     });
   });
 
+  describe('getAgreement', () => {
+    const user: AuthenticatedUser = {
+      id: 'emp1',
+      email: 'emp1@example.com',
+      companyId: 'comp1',
+      role: 'user'
+    };
+
+    const request: CreateAgreementRequest = {
+      employeeId: 'emp1',
+      itemId: 'item1',
+      startDate: '2025-07-01T00:00:00.000Z',
+      endDate: '2025-12-01T00:00:00.000Z',
+      price: 1000,
+      currency: 'USD',
+      companyId: 'comp1',
+      paymentFrequency: 'MONTHLY',
+      metadata: { department: 'Engineering' }
+    };
+
+    it('should return stored agreement with schedule and metadata', async () => {
+      const created = await service.processLeasingAgreement(request);
+
+      const result = await service.getAgreement(created.id, user);
+
+      expect(result.id).toBe(created.id);
+      expect(result.paymentSchedule).toHaveLength(created.paymentSchedule.length);
+      expect(result.metadata).toEqual({ department: 'Engineering' });
+    });
+
+    it('should throw NotFoundError for unknown agreement', async () => {
+      await expect(service.getAgreement('missing-id', user))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should deny access to agreements of another company', async () => {
+      const created = await service.processLeasingAgreement(request);
+
+      await expect(service.getAgreement(created.id, { ...user, companyId: 'comp2' }))
+        .rejects.toThrow(AccessDeniedError);
+    });
+
+    it('should deny users reading agreements of colleagues', async () => {
+      const created = await service.processLeasingAgreement(request);
+
+      await expect(service.getAgreement(created.id, { ...user, id: 'emp2' }))
+        .rejects.toMatchObject({ rule: 'OWN_AGREEMENTS', code: 'AGREEMENT_ACCESS_DENIED' });
+    });
+
+    it('should allow managers to read agreements of their direct reports only', async () => {
+      const created = await service.processLeasingAgreement(request);
+
+      const result = await service.getAgreement(created.id, { ...user, id: 'mgr1', role: 'manager' });
+
+      expect(result.id).toBe(created.id);
+      await expect(service.getAgreement(created.id, { ...user, id: 'mgr2', role: 'manager' }))
+        .rejects.toMatchObject({ rule: 'DIRECT_REPORTS' });
+    });
+
+    it('should allow admins to read agreements of any company', async () => {
+      const created = await service.processLeasingAgreement(request);
+
+      const result = await service.getAgreement(created.id, { ...user, companyId: 'comp2', role: 'admin' });
+
+      expect(result.id).toBe(created.id);
+    });
+  });
+
+  describe('getAgreementSagas', () => {
+    const user: AuthenticatedUser = {
+      id: 'emp1',
+      email: 'emp1@example.com',
+      companyId: 'comp1',
+      role: 'user'
+    };
+
+    it('should apply the same access rules as reading the agreement', async () => {
+      const created = await service.processLeasingAgreement({
+        employeeId: 'emp1',
+        itemId: 'item1',
+        startDate: '2025-07-01T00:00:00.000Z',
+        endDate: '2025-12-01T00:00:00.000Z',
+        price: 1000,
+        currency: 'USD',
+        companyId: 'comp1',
+        paymentFrequency: 'MONTHLY'
+      });
+
+      expect(await service.getAgreementSagas(created.id, user)).toHaveLength(1);
+      expect(await service.getAgreementSagas(created.id, { ...user, id: 'mgr1', role: 'manager' })).toHaveLength(1);
+      await expect(service.getAgreementSagas(created.id, { ...user, id: 'emp2' }))
+        .rejects.toMatchObject({ rule: 'OWN_AGREEMENTS', code: 'AGREEMENT_ACCESS_DENIED' });
+      await expect(service.getAgreementSagas(created.id, { ...user, id: 'mgr2', role: 'manager' }))
+        .rejects.toMatchObject({ rule: 'DIRECT_REPORTS' });
+      await expect(service.getAgreementSagas(created.id, { ...user, companyId: 'comp2', role: 'admin' }))
+        .resolves.toHaveLength(1);
+    });
+  });
+
+  describe('quoteAgreement', () => {
+
+    afterEach(() => {
+      jest.setSystemTime(new Date('2025-06-15T00:00:00.000Z'));
+    });
+
+    const user: AuthenticatedUser = {
+      id: 'emp2',
+      email: 'emp2@example.com',
+      companyId: 'comp1',
+      role: 'user'
+    };
+
+    const request: CreateAgreementRequest = {
+      employeeId: 'emp2',
+      itemId: 'item1',
+      startDate: '2025-07-01T00:00:00.000Z',
+      endDate: '2025-10-01T00:00:00.000Z',
+      price: 1000,
+      currency: 'USD',
+      companyId: 'comp1',
+      paymentFrequency: 'MONTHLY'
+    };
+
+    it('should return cost breakdown and schedule without reserving inventory', async () => {
+      const { quote, draft } = await service.quoteAgreement(request);
+
+      expect(quote.breakdown).toEqual({
+        basePrice: usd(1000),
+        durationMonths: 3,
+        employeeType: 'PREMIUM',
+        longTermMultiplier: 1.0,
+        employeeMultiplier: 0.9,
+        appliedRules: [{ type: 'EMPLOYEE_TYPE', ruleId: 'PREMIUM', multiplier: 0.9 }],
+        totalCost: usd(900),
+        netCost: usd(900),
+        taxAmount: usd(0),
+        grossCost: usd(900),
+        policy: {
+          companyId: 'comp1',
+          overriddenFields: [],
+          minLeasingDuration: 1,
+          maxLeasingDuration: 60,
+          maxPrice: 1000000,
+          baseCurrency: 'USD',
+          employeeMultipliers: { STANDARD: 1.0, PREMIUM: 0.9, VIP: 0.8 },
+          durationTiers: [{ minMonths: 12, multiplier: 0.8 }],
+          earlyTerminationPenaltyRate: 0.1,
+          dayCountConvention: 'ACTUAL_ACTUAL'
+        }
+      });
+      expect(quote.paymentSchedule).toHaveLength(3);
+      expect(quote.itemAvailable).toBe(true);
+      expect(draft).toBeUndefined();
+      expect(await reservations.isAvailable('item1', new Date(request.startDate), new Date(request.endDate), new Date())).toBe(true);
+      expect(mockBillingService.billingRecords).toHaveLength(0);
+    });
+
+    it('should save a draft that can be submitted later', async () => {
+      const { quote, draft } = await service.quoteAgreement({ ...request, saveAsDraft: true });
+
+      expect(draft?.status).toBe('DRAFT');
+      expect(quote.itemAvailable).toBe(true);
+      // Held for a day while the draft is open
+      expect(await reservations.findById(draft!.id)).toMatchObject({
+        itemId: 'item1',
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      });
+
+      const submitted = await service.submitAgreement(draft!.id, user);
+
+      expect(submitted.status).toBe('ACTIVE');
+      expect(await reservations.findById(draft!.id)).toEqual({
+        id: draft!.id,
+        itemId: 'item1',
+        startDate: new Date(request.startDate),
+        endDate: new Date(request.endDate)
+      });
+      expect(mockBillingService.billingRecords).toHaveLength(1);
+    });
+
+    it('should refuse to submit an agreement that is not a draft', async () => {
+      const created = await service.processLeasingAgreement(request);
+
+      await expect(service.submitAgreement(created.id, user))
+        .rejects.toThrow(BusinessRuleError);
+    });
+
+    it('should refuse to submit a draft whose item has been leased meanwhile', async () => {
+      const { draft } = await service.quoteAgreement({ ...request, saveAsDraft: true });
+      await expect(service.processLeasingAgreement(request))
+        .rejects.toThrow('Requested item is not available for leasing');
+
+      // Once the draft's hold has lapsed the item can be leased by others
+      jest.setSystemTime(new Date('2025-06-16T01:00:00.000Z'));
+      await service.processLeasingAgreement(request);
+
+      await expect(service.submitAgreement(draft!.id, user))
+        .rejects.toThrow('Requested item is not available for leasing');
+    });
+  });
+
+  describe('cancelAgreement', () => {
+    const manager: AuthenticatedUser = {
+      id: 'mgr1',
+      email: 'mgr1@example.com',
+      companyId: 'comp1',
+      role: 'manager'
+    };
+
+    const request: CreateAgreementRequest = {
+      employeeId: 'emp1',
+      itemId: 'item1',
+      startDate: '2025-07-01T00:00:00.000Z',
+      endDate: '2025-12-01T00:00:00.000Z',
+      price: 1000,
+      currency: 'USD',
+      companyId: 'comp1',
+      paymentFrequency: 'MONTHLY'
+    };
+
+    it('should cancel agreement, release the item and record the settlement', async () => {
+      const created = await service.processLeasingAgreement(request);
+      expect(await service.checkItemAvailability('item1', new Date(request.startDate), new Date(request.endDate))).toBe(false);
+
+      const cancelled = await service.cancelAgreement(
+        created.id,
+        { reason: 'Employee left the company', applyPenalty: true },
+        manager
+      );
+
+      expect(cancelled.status).toBe('CANCELLED');
+      expect(cancelled.paymentSchedule.every(p => p.status === 'CANCELLED')).toBe(true);
+      expect(cancelled.cancellation).toMatchObject({
+        reason: 'Employee left the company',
+        cancelledBy: 'mgr1',
+        refundCredit: usd(0),
+        penalty: usd(100)
+      });
+      expect(await service.checkItemAvailability('item1', new Date(request.startDate), new Date(request.endDate))).toBe(true);
+    });
+
+    it('should require a cancellation reason', async () => {
+      const created = await service.processLeasingAgreement(request);
+
+      await expect(service.cancelAgreement(created.id, { reason: ' ' }, manager))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should reject cancelling an agreement twice', async () => {
+      const created = await service.processLeasingAgreement(request);
+      await service.cancelAgreement(created.id, { reason: 'First' }, manager);
+
+      await expect(service.cancelAgreement(created.id, { reason: 'Second' }, manager))
+        .rejects.toThrow(BusinessRuleError);
+    });
+  });
+
+  describe('getEmployeeAgreements', () => {
+    const manager: AuthenticatedUser = {
+      id: 'mgr1',
+      email: 'mgr1@example.com',
+      companyId: 'comp1',
+      role: 'manager'
+    };
+
+    const baseQuery: AgreementListQuery = {
+      sortBy: 'startDate',
+      sortOrder: 'asc',
+      limit: 2
+    };
+
+    const buildAgreement = (id: string, overrides: Partial<LeasingAgreement> = {}): LeasingAgreement => ({
+      id,
+      employeeId: 'emp1',
+      itemId: 'item1',
+      startDate: new Date('2025-07-01'),
+      endDate: new Date('2025-12-01'),
+      status: 'ACTIVE',
+      price: usd(1000),
+      currency: 'USD',
+      companyId: 'comp1',
+      paymentSchedule: [],
+      metadata: {},
+      createdAt: new Date('2025-06-01'),
+      updatedAt: new Date('2025-06-01'),
+      ...overrides
+    });
+
+    beforeEach(async () => {
+      await mockRepository.save(buildAgreement('a1', { startDate: new Date('2025-07-01') }));
+      await mockRepository.save(buildAgreement('a2', { startDate: new Date('2025-08-01'), currency: 'EUR' }));
+      await mockRepository.save(buildAgreement('a3', { startDate: new Date('2025-09-01'), status: 'CANCELLED' }));
+      await mockRepository.save(buildAgreement('a4', { startDate: new Date('2025-09-01'), itemId: 'item2' }));
+      await mockRepository.save(buildAgreement('a5', { companyId: 'comp2' }));
+      await mockRepository.save(buildAgreement('other', { employeeId: 'emp2' }));
+    });
+
+    it('should walk through all pages using the returned cursor', async () => {
+      const first = await service.getEmployeeAgreements('emp1', baseQuery, manager);
+      expect(first.items.map(a => a.id)).toEqual(['a1', 'a2']);
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = await service.getEmployeeAgreements(
+        'emp1',
+        { ...baseQuery, cursor: first.nextCursor! },
+        manager
+      );
+      expect(second.items.map(a => a.id)).toEqual(['a3', 'a4']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should filter by status, currency and item', async () => {
+      const byStatus = await service.getEmployeeAgreements('emp1', { ...baseQuery, status: ['CANCELLED'] }, manager);
+      const byCurrency = await service.getEmployeeAgreements('emp1', { ...baseQuery, currency: 'EUR' }, manager);
+      const byItem = await service.getEmployeeAgreements('emp1', { ...baseQuery, itemId: 'item2' }, manager);
+
+      expect(byStatus.items.map(a => a.id)).toEqual(['a3']);
+      expect(byCurrency.items.map(a => a.id)).toEqual(['a2']);
+      expect(byItem.items.map(a => a.id)).toEqual(['a4']);
+    });
+
+    it('should sort descending by start date', async () => {
+      const page = await service.getEmployeeAgreements(
+        'emp1',
+        { ...baseQuery, sortOrder: 'desc', limit: 10 },
+        manager
+      );
+
+      expect(page.items.map(a => a.id)).toEqual(['a4', 'a3', 'a2', 'a1']);
+    });
+
+    it('should let employees list their own agreements', async () => {
+      const employee: AuthenticatedUser = { ...manager, id: 'emp1', role: 'user' };
+
+      const page = await service.getEmployeeAgreements('emp1', { ...baseQuery, limit: 10 }, employee);
+
+      expect(page.items.map(a => a.id)).toEqual(['a1', 'a2', 'a3', 'a4']);
+      await expect(service.getEmployeeAgreements('emp2', baseQuery, employee))
+        .rejects.toMatchObject({ rule: 'OWN_AGREEMENTS' });
+    });
+
+    it('should deny managers listing agreements of employees outside their reports', async () => {
+      await expect(service.getEmployeeAgreements('emp2', baseQuery, manager))
+        .rejects.toThrow(AccessDeniedError);
+    });
+
+    it('should include agreements of other companies for admins only', async () => {
+      const page = await service.getEmployeeAgreements(
+        'emp1',
+        { ...baseQuery, limit: 10 },
+        { ...manager, role: 'admin' }
+      );
+
+      expect(page.items.map(a => a.id)).toContain('a5');
+    });
+  });
+
   describe('calculateLeasingCost', () => {
     
     it('should calculate cost correctly for standard employee', async () => {
       const startDate = new Date('2025-07-01');
       const endDate = new Date('2025-12-01');
       
-      const cost = await service.calculateLeasingCost(1000, startDate, endDate, 'STANDARD');
+      const cost = await service.calculateLeasingCost(usd(1000), startDate, endDate, 'STANDARD');
       
-      expect(cost).toBe(1000); // No discounts for standard employee, short term
+      expect(cost).toEqual(usd(1000)); // No discounts for standard employee, short term
     });
 
     it('should apply premium employee discount', async () => {
       const startDate = new Date('2025-07-01');
       const endDate = new Date('2025-12-01');
       
-      const cost = await service.calculateLeasingCost(1000, startDate, endDate, 'PREMIUM');
+      const cost = await service.calculateLeasingCost(usd(1000), startDate, endDate, 'PREMIUM');
       
-      expect(cost).toBe(900); // 10% discount for premium employee
+      expect(cost).toEqual(usd(900)); // 10% discount for premium employee
     });
 
     it('should apply VIP employee discount', async () => {
       const startDate = new Date('2025-07-01');
       const endDate = new Date('2025-12-01');
       
-      const cost = await service.calculateLeasingCost(1000, startDate, endDate, 'VIP');
+      const cost = await service.calculateLeasingCost(usd(1000), startDate, endDate, 'VIP');
       
-      expect(cost).toBe(800); // 20% discount for VIP employee
+      expect(cost).toEqual(usd(800)); // 20% discount for VIP employee
     });
 
     it('should apply long-term discount for leases over 12 months', async () => {
       const startDate = new Date('2025-01-01');
       const endDate = new Date('2026-06-01'); // 17 months
       
-      const cost = await service.calculateLeasingCost(1000, startDate, endDate, 'STANDARD');
+      const cost = await service.calculateLeasingCost(usd(1000), startDate, endDate, 'STANDARD');
       
-      expect(cost).toBe(800); // 20% long-term discount
+      expect(cost).toEqual(usd(800)); // 20% long-term discount
     });
 
     it('should apply both employee and long-term discounts', async () => {
       const startDate = new Date('2025-01-01');
       const endDate = new Date('2026-06-01'); // 17 months
       
-      const cost = await service.calculateLeasingCost(1000, startDate, endDate, 'PREMIUM');
+      const cost = await service.calculateLeasingCost(usd(1000), startDate, endDate, 'PREMIUM');
       
-      expect(cost).toBe(720); // 10% employee discount + 20% long-term discount
+      expect(cost).toEqual(usd(720)); // 10% employee discount + 20% long-term discount
+    });
+
+    it('should count part months towards the long-term threshold', async () => {
+      const shortOfAYear = await service.calculateCostBreakdown(
+        usd(1000), new Date('2025-01-15'), new Date('2026-01-10'), 'STANDARD'
+      );
+      const fullYear = await service.calculateCostBreakdown(
+        usd(1000), new Date('2025-01-31'), new Date('2026-01-31'), 'STANDARD'
+      );
+
+      expect(shortOfAYear).toMatchObject({ durationMonths: 11.84, totalCost: usd(1000) });
+      expect(fullYear).toMatchObject({ durationMonths: 12, totalCost: usd(800) });
+    });
+
+    it('should price with the rules for the company and item category', async () => {
+      const negotiated = new LeasingAgreementService(
+        mockRepository,
+        mockInventoryService,
+        mockBillingService,
+        mockEmployeeService,
+        {
+          ...testConfig,
+          pricing: { ...testConfig.pricing, companyRates: { comp1: 0.95 }, categoryMultipliers: { laptop: 1.1 } }
+        },
+        mockLogger,
+        new AccessPolicy(DEFAULT_ROLE_PERMISSIONS, mockEmployeeService),
+        new InMemorySagaLog(),
+        testRates,
+        reservations,
+        companyPolicies
+      );
+
+      const { quote } = await negotiated.quoteAgreement({
+        employeeId: 'emp1',
+        itemId: 'item1',
+        startDate: '2025-07-01T00:00:00.000Z',
+        endDate: '2025-10-01T00:00:00.000Z',
+        price: 1000,
+        currency: 'USD',
+        companyId: 'comp1',
+        paymentFrequency: 'MONTHLY'
+      });
+
+      expect(quote.breakdown.appliedRules.map(rule => rule.type)).toEqual(['EMPLOYEE_TYPE', 'COMPANY_RATE', 'ITEM_CATEGORY']);
+      expect(quote.breakdown.totalCost).toEqual(usd(1045));
     });
   });
 
@@ -279,7 +753,7 @@ describe('LeasingAgreementService', () => {
         startDate: new Date('2025-01-01'),
         endDate: new Date('2025-06-01'), // 5 months
         status: 'DRAFT',
-        price: 1000,
+        price: usd(1000),
         currency: 'USD',
         companyId: 'comp1',
         paymentSchedule: [],
@@ -291,7 +765,7 @@ describe('LeasingAgreementService', () => {
       const schedule = await service.generatePaymentSchedule(agreement, 'MONTHLY');
       
       expect(schedule).toHaveLength(5); // 5 monthly payments
-      expect(schedule[0].amount).toBe(200); // 1000 / 5
+      expect(schedule[0].amount).toEqual(usd(200)); // 1000 / 5
       expect(schedule.every(p => p.status === 'PENDING')).toBe(true);
     });
 
@@ -303,7 +777,7 @@ describe('LeasingAgreementService', () => {
         startDate: new Date('2025-01-01'),
         endDate: new Date('2026-01-01'), // 12 months
         status: 'DRAFT',
-        price: 1200,
+        price: usd(1200),
         currency: 'USD',
         companyId: 'comp1',
         paymentSchedule: [],
@@ -315,7 +789,7 @@ describe('LeasingAgreementService', () => {
       const schedule = await service.generatePaymentSchedule(agreement, 'QUARTERLY');
       
       expect(schedule).toHaveLength(4); // 4 quarterly payments
-      expect(schedule[0].amount).toBe(300); // 1200 / 4
+      expect(schedule[0].amount).toEqual(usd(300)); // 1200 / 4
     });
 
     it('should handle payment amount rounding correctly', async () => {
@@ -326,7 +800,7 @@ describe('LeasingAgreementService', () => {
         startDate: new Date('2025-01-01'),
         endDate: new Date('2025-04-01'), // 3 months
         status: 'DRAFT',
-        price: 100, // Will create payments of 33.33 each
+        price: usd(100), // Will create payments of 33.33 each
         currency: 'USD',
         companyId: 'comp1',
         paymentSchedule: [],
@@ -340,13 +814,354 @@ describe('LeasingAgreementService', () => {
       expect(schedule).toHaveLength(3);
       
       // First two payments should be 33.33, last payment gets remainder
-      expect(schedule[0].amount).toBe(33.33);
-      expect(schedule[1].amount).toBe(33.33);
-      expect(schedule[2].amount).toBe(33.34); // Gets the extra cent
+      expect(schedule[0].amount).toEqual(usd(33.33));
+      expect(schedule[1].amount).toEqual(usd(33.33));
+      expect(schedule[2].amount).toEqual(usd(33.34)); // Gets the extra cent
       
       // Total should equal original price
-      const total = schedule.reduce((sum, p) => sum + p.amount, 0);
-      expect(total).toBe(100);
+      const total = Money.sum(schedule.map(p => p.amount), 'USD');
+      expect(total).toEqual(usd(100));
+    });
+
+    const midMonthAgreement = (): LeasingAgreement => ({
+      id: 'test-id',
+      employeeId: 'emp1',
+      itemId: 'item1',
+      startDate: new Date('2025-01-15'),
+      endDate: new Date('2025-04-15'),
+      status: 'DRAFT',
+      price: usd(300),
+      currency: 'USD',
+      companyId: 'comp1',
+      paymentSchedule: [],
+      metadata: {},
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    it('should prorate the first and last period of a mid-month lease', async () => {
+      const schedule = await service.generatePaymentSchedule(midMonthAgreement(), 'MONTHLY');
+
+      expect(schedule.map(p => [p.dueDate.toISOString().slice(0, 10), p.amount.toNumber()])).toEqual([
+        ['2025-01-15', 54.57], // 17 of 31 days
+        ['2025-02-01', 99.5],
+        ['2025-03-01', 99.5],
+        ['2025-04-01', 46.43] // 14 of 30 days
+      ]);
+    });
+
+    it('should prorate with the 30/360 convention when configured', async () => {
+      const thirty360 = new LeasingAgreementService(
+        mockRepository,
+        mockInventoryService,
+        mockBillingService,
+        mockEmployeeService,
+        { ...testConfig, dayCountConvention: 'THIRTY_360' },
+        mockLogger,
+        new AccessPolicy(DEFAULT_ROLE_PERMISSIONS, mockEmployeeService),
+        new InMemorySagaLog(),
+        testRates,
+        reservations,
+        companyPolicies
+      );
+
+      const schedule = await thirty360.generatePaymentSchedule(midMonthAgreement(), 'MONTHLY');
+
+      // 16 and 14 of 30 days
+      expect(schedule.map(p => p.amount.toNumber())).toEqual([53.33, 100, 100, 46.67]);
+    });
+  });
+
+  describe('currencies', () => {
+
+    const request = (overrides: Partial<QuoteAgreementRequest>): QuoteAgreementRequest => ({
+      employeeId: 'emp1',
+      itemId: 'item1',
+      startDate: '2025-07-01T00:00:00.000Z',
+      endDate: '2025-10-01T00:00:00.000Z',
+      price: 900,
+      currency: 'EUR',
+      companyId: 'comp1',
+      paymentFrequency: 'MONTHLY',
+      ...overrides
+    });
+
+    it('should store the rate to the company base currency on the agreement', async () => {
+      const result = await service.processLeasingAgreement(request({}));
+
+      expect(result.price).toEqual(Money.of(900, 'EUR'));
+      expect(result.exchangeRate).toEqual({
+        from: 'EUR',
+        to: 'USD',
+        rate: 1.1111111111,
+        asOf: new Date('2025-01-01T00:00:00.000Z'),
+        source: 'local'
+      });
+    });
+
+    it('should check the price limit in the company base currency', async () => {
+      // 850,000 GBP is 1,062,500 USD but 956,250 EUR
+      await expect(service.quoteAgreement(request({ price: 850000, currency: 'GBP' })))
+        .rejects.toThrow('Price exceeds maximum allowed amount of 1000000.00 USD');
+
+      const { draft } = await service.quoteAgreement(
+        request({ employeeId: 'emp3', companyId: 'comp2', price: 850000, currency: 'GBP', saveAsDraft: true })
+      );
+      expect(draft?.exchangeRate).toMatchObject({ from: 'GBP', to: 'EUR', rate: 1.125 });
+    });
+
+    it('should only accept configured currencies', async () => {
+      const usdOnly = new LeasingAgreementService(
+        mockRepository,
+        mockInventoryService,
+        mockBillingService,
+        mockEmployeeService,
+        { ...testConfig, supportedCurrencies: ['USD'] },
+        mockLogger,
+        new AccessPolicy(DEFAULT_ROLE_PERMISSIONS, mockEmployeeService),
+        new InMemorySagaLog(),
+        testRates,
+        reservations,
+        companyPolicies
+      );
+
+      await expect(usdOnly.quoteAgreement(request({})))
+        .rejects.toThrow('Currency must be one of: USD');
+    });
+
+    it('should reject currencies without a rate to the company base currency', async () => {
+      await expect(service.processLeasingAgreement(request({ currency: 'CAD' })))
+        .rejects.toThrow(new BusinessRuleError('No exchange rate from CAD to USD is available for 2025-06-15T00:00:00.000Z', 'EXCHANGE_RATE', 'EXCHANGE_RATE_UNAVAILABLE'));
+      expect(mockBillingService.billingRecords).toHaveLength(0);
+    });
+  });
+
+  describe('item reservations', () => {
+
+    const request = (overrides: Partial<CreateAgreementRequest> = {}): CreateAgreementRequest => ({
+      employeeId: 'emp1',
+      itemId: 'item1',
+      startDate: '2025-07-01T00:00:00.000Z',
+      endDate: '2025-10-01T00:00:00.000Z',
+      price: 1000,
+      currency: 'USD',
+      companyId: 'comp1',
+      paymentFrequency: 'MONTHLY',
+      ...overrides
+    });
+
+    afterEach(() => {
+      jest.setSystemTime(new Date('2025-06-15T00:00:00.000Z'));
+    });
+
+    it('should lease an item for periods that do not overlap', async () => {
+      await service.processLeasingAgreement(request());
+      // Periods are half-open; the next lease may start on the day the first ends
+      const next = await service.processLeasingAgreement(request({
+        startDate: '2025-10-01T00:00:00.000Z',
+        endDate: '2026-01-01T00:00:00.000Z'
+      }));
+
+      expect(next.status).toBe('ACTIVE');
+      await expect(service.processLeasingAgreement(request({
+        startDate: '2025-09-01T00:00:00.000Z',
+        endDate: '2025-11-01T00:00:00.000Z'
+      }))).rejects.toThrow('Requested item is not available for leasing');
+    });
+
+    it('should answer availability for a period', async () => {
+      await service.processLeasingAgreement(request());
+
+      expect(await service.checkItemAvailability('item1', new Date('2025-08-01T00:00:00.000Z'), new Date('2025-09-01T00:00:00.000Z'))).toBe(false);
+      expect(await service.checkItemAvailability('item1', new Date('2025-10-01T00:00:00.000Z'), new Date('2025-11-01T00:00:00.000Z'))).toBe(true);
+      expect(await service.checkItemAvailability('item2', new Date('2025-08-01T00:00:00.000Z'), new Date('2025-09-01T00:00:00.000Z'))).toBe(true);
+      expect(await service.checkItemAvailability('unknown-item', new Date('2025-08-01T00:00:00.000Z'), new Date('2025-09-01T00:00:00.000Z'))).toBe(false);
+    });
+
+    it('should let only one of two concurrent overlapping creates succeed', async () => {
+      const results = await Promise.allSettled([
+        service.processLeasingAgreement(request()),
+        service.processLeasingAgreement(request({ employeeId: 'emp2' }))
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find(result => result.status === 'rejected')).toMatchObject({
+        reason: expect.objectContaining({ message: 'Item item1 could not be reserved' })
+      });
+      expect(mockBillingService.billingRecords).toHaveLength(1);
+    });
+
+    it('should let a draft hold lapse', async () => {
+      const { draft } = await service.quoteAgreement({ ...request(), saveAsDraft: true });
+
+      expect(await service.checkItemAvailability('item1', draft!.startDate, draft!.endDate)).toBe(false);
+
+      jest.setSystemTime(new Date('2025-06-16T00:00:01.000Z'));
+      expect(await service.checkItemAvailability('item1', draft!.startDate, draft!.endDate)).toBe(true);
+
+      // A lapsed draft that is still free can be submitted and takes the item again
+      const submitted = await service.submitAgreement(draft!.id, { id: 'emp1', email: 'emp1@example.com', companyId: 'comp1', role: 'user' });
+      expect(submitted.status).toBe('ACTIVE');
+      expect((await reservations.findById(draft!.id))?.expiresAt).toBeUndefined();
+    });
+
+    it('should not hold the item for a draft when it is taken', async () => {
+      await service.processLeasingAgreement(request());
+
+      const { quote, draft } = await service.quoteAgreement({ ...request({ employeeId: 'emp2' }), saveAsDraft: true });
+
+      expect(draft?.status).toBe('DRAFT');
+      expect(quote.itemAvailable).toBe(false);
+      expect(await reservations.findById(draft!.id)).toBeNull();
+    });
+  });
+
+  describe('tax', () => {
+
+    const taxedService = (tax: LeasingConfig['tax']) => new LeasingAgreementService(
+      mockRepository,
+      mockInventoryService,
+      mockBillingService,
+      mockEmployeeService,
+      { ...testConfig, tax },
+      mockLogger,
+      new AccessPolicy(DEFAULT_ROLE_PERMISSIONS, mockEmployeeService),
+      new InMemorySagaLog(),
+      testRates,
+      reservations,
+      companyPolicies
+    );
+
+    const request: QuoteAgreementRequest = {
+      employeeId: 'emp1',
+      itemId: 'item1',
+      startDate: '2025-07-01T00:00:00.000Z',
+      endDate: '2025-10-01T00:00:00.000Z',
+      price: 1000,
+      currency: 'USD',
+      companyId: 'comp1',
+      paymentFrequency: 'MONTHLY'
+    };
+
+    it('should add tax to exclusive prices and split it over the schedule', async () => {
+      const taxed = taxedService({
+        countries: { DE: { rate: 0.19, pricing: 'EXCLUSIVE' } },
+        companyCountries: { comp1: 'DE' }
+      });
+
+      const { quote } = await taxed.quoteAgreement(request);
+      expect(quote.breakdown).toMatchObject({ totalCost: usd(1000), netCost: usd(1000), taxAmount: usd(190), grossCost: usd(1190) });
+
+      const result = await taxed.processLeasingAgreement(request);
+      expect(result.tax).toEqual({ jurisdiction: 'DE', rate: 0.19, pricing: 'EXCLUSIVE', reverseCharge: false });
+      expect(result.paymentSchedule.map(p => [p.netAmount.toNumber(), p.taxAmount.toNumber(), p.amount.toNumber()]))
+        .toEqual([[333.33, 63.33, 396.66], [333.33, 63.33, 396.66], [333.34, 63.34, 396.68]]);
+      expect(Money.sum(result.paymentSchedule.map(p => p.amount), 'USD')).toEqual(usd(1190));
+    });
+
+    it('should take tax out of inclusive prices', async () => {
+      const taxed = taxedService({
+        countries: {},
+        companyCountries: {},
+        companies: { comp1: { rate: 0.2, pricing: 'INCLUSIVE' } }
+      });
+
+      const result = await taxed.processLeasingAgreement(request);
+
+      expect(Money.sum(result.paymentSchedule.map(p => p.netAmount), 'USD')).toEqual(usd(833.33));
+      expect(Money.sum(result.paymentSchedule.map(p => p.taxAmount), 'USD')).toEqual(usd(166.67));
+      expect(Money.sum(result.paymentSchedule.map(p => p.amount), 'USD')).toEqual(usd(1000));
+    });
+
+    it('should record reverse charge without charging tax', async () => {
+      const taxed = taxedService({
+        countries: { IE: { rate: 0.23, pricing: 'EXCLUSIVE', reverseCharge: true } },
+        companyCountries: { comp1: 'IE' }
+      });
+
+      const result = await taxed.processLeasingAgreement(request);
+
+      expect(result.tax).toMatchObject({ jurisdiction: 'IE', reverseCharge: true });
+      expect(result.paymentSchedule.every(p => p.taxAmount.isZero() && p.amount.equals(p.netAmount))).toBe(true);
+    });
+
+    it('should not tax companies without a rule', async () => {
+      const result = await service.processLeasingAgreement(request);
+
+      expect(result.tax).toBeUndefined();
+      expect(result.paymentSchedule[0]).toMatchObject({ amount: usd(333.33), netAmount: usd(333.33), taxAmount: usd(0) });
+    });
+  });
+
+  describe('company policies', () => {
+
+    const request: CreateAgreementRequest = {
+      employeeId: 'emp2',
+      itemId: 'item1',
+      startDate: '2025-07-01T00:00:00.000Z',
+      endDate: '2026-01-01T00:00:00.000Z',
+      price: 1000,
+      currency: 'USD',
+      companyId: 'comp1',
+      paymentFrequency: 'MONTHLY'
+    };
+
+    const negotiate = (overrides: CompanyPolicy['overrides']) => companyPolicies.save({
+      companyId: 'comp1',
+      overrides,
+      updatedBy: 'admin1',
+      updatedAt: new Date()
+    });
+
+    it('should validate and price agreements under the company\'s overrides', async () => {
+      await negotiate({
+        maxLeasingDuration: 3,
+        maxPrice: 500,
+        pricing: { employeeMultipliers: { PREMIUM: 0.5 } }
+      });
+
+      await expect(service.processLeasingAgreement(request))
+        .rejects.toThrow('Lease duration cannot exceed 3 months');
+      await expect(service.processLeasingAgreement({ ...request, endDate: '2025-10-01T00:00:00.000Z' }))
+        .rejects.toThrow('Price exceeds maximum allowed amount of 500.00 USD');
+
+      const created = await service.processLeasingAgreement({
+        ...request,
+        endDate: '2025-10-01T00:00:00.000Z',
+        price: 400
+      });
+      expect(created.price).toEqual(usd(200));
+    });
+
+    it('should show the policy in effect in the quote breakdown', async () => {
+      await negotiate({ minLeasingDuration: 2, dayCountConvention: 'THIRTY_360', pricing: { companyRate: 0.95 } });
+
+      const { quote } = await service.quoteAgreement(request);
+
+      expect(quote.breakdown.policy).toMatchObject({
+        companyId: 'comp1',
+        overriddenFields: ['minLeasingDuration', 'dayCountConvention', 'pricing'],
+        minLeasingDuration: 2,
+        maxLeasingDuration: 60,
+        dayCountConvention: 'THIRTY_360'
+      });
+      expect(quote.breakdown.appliedRules).toContainEqual({ type: 'COMPANY_RATE', ruleId: 'comp1', multiplier: 0.95 });
+    });
+
+    it('should leave other companies on the defaults', async () => {
+      await negotiate({ maxLeasingDuration: 3 });
+
+      const { quote } = await service.quoteAgreement({ ...request, employeeId: 'emp3', companyId: 'comp2', currency: 'EUR' });
+
+      expect(quote.breakdown.policy).toMatchObject({ companyId: 'comp2', overriddenFields: [], maxLeasingDuration: 60 });
+    });
+
+    it('should reject agreements of a company whose overrides conflict with the defaults', async () => {
+      // Stored overrides are only checked against the defaults in effect when they were saved
+      await negotiate({ supportedCurrencies: ['XYZ'] });
+
+      await expect(service.processLeasingAgreement(request))
+        .rejects.toThrow('Leasing policy of company comp1 is invalid: Supported currency XYZ is not a known ISO 4217 currency');
     });
   });
 
@@ -371,7 +1186,7 @@ describe('LeasingAgreementService', () => {
         .rejects.toThrow('Billing failed');
       
       // Item should be available again after rollback
-      const isAvailable = await mockInventoryService.checkAvailability('item1');
+      const isAvailable = await service.checkItemAvailability('item1', new Date(request.startDate), new Date(request.endDate));
       expect(isAvailable).toBe(true);
     });
   });
@@ -382,10 +1197,10 @@ describe('LeasingAgreementService', () => {
       const startDate = new Date('2024-02-29'); // Leap year
       const endDate = new Date('2025-02-28');
       
-      const cost = await service.calculateLeasingCost(1000, startDate, endDate, 'STANDARD');
+      const cost = await service.calculateLeasingCost(usd(1000), startDate, endDate, 'STANDARD');
       
-      expect(cost).toBeGreaterThan(0);
-      expect(typeof cost).toBe('number');
+      expect(cost.isPositive()).toBe(true);
+      expect(cost.currency).toBe('USD');
     });
 
     it('should handle very short lease periods', async () => {
@@ -403,7 +1218,7 @@ describe('LeasingAgreementService', () => {
       const result = await service.processLeasingAgreement(request);
       
       expect(result.paymentSchedule).toHaveLength(1);
-      expect(result.paymentSchedule[0].amount).toBe(100);
+      expect(result.paymentSchedule[0].amount).toEqual(usd(100));
     });
   });
 });
@@ -0,0 +1,70 @@
+/**
+ * Tests for the Money value object
+ */
+
+import { Money, hasMinorUnitPrecision } from '../src/utils/money';
+import { ValidationError } from '../src/types';
+
+const usd = (amount: number) => Money.of(amount, 'USD');
+
+describe('Money', () => {
+
+  it('should hold amounts as exact minor units', () => {
+    expect(usd(0.1).plus(usd(0.2))).toEqual(usd(0.3));
+    expect(Money.of('1234.50', 'EUR').minorUnits).toBe(123450);
+    expect(Money.sum([usd(10.01), usd(20.02), usd(30.03)], 'USD').toNumber()).toBe(60.06);
+  });
+
+  it('should reject amounts finer than the currency minor unit', () => {
+    expect(() => usd(10.005)).toThrow(new ValidationError('10.005 is not a valid USD amount', 'amount', 'INVALID_PRECISION'));
+    expect(() => Money.ofMinor(1.5, 'USD')).toThrow('1.5 is not a whole number of USD minor units');
+    expect(hasMinorUnitPrecision(10.05, 'GBP')).toBe(true);
+    expect(hasMinorUnitPrecision(10.051, 'GBP')).toBe(false);
+    expect(hasMinorUnitPrecision(Number.NaN, 'GBP')).toBe(false);
+    expect(() => Money.of(10, 'JPY').plus(Money.of(10.5, 'JPY'))).toThrow('10.5 is not a valid JPY amount');
+    expect(() => Money.of(1, 'XYZ')).toThrow('Unknown currency XYZ');
+  });
+
+  it('should round products half up to the minor unit', () => {
+    expect(usd(1000).times(0.85).toNumber()).toBe(850);
+    expect(usd(0.05).times(0.5).toNumber()).toBe(0.03);
+    expect(usd(33.33).times(1 / 3).toNumber()).toBe(11.11);
+  });
+
+  it('should allocate by largest remainder so shares add up to the amount', () => {
+    expect(usd(100).allocate([1, 1, 1]).map(share => share.toNumber())).toEqual([33.33, 33.33, 33.34]);
+    expect(usd(0.05).allocate([3, 7]).map(share => share.toNumber())).toEqual([0.01, 0.04]);
+    expect(usd(0.1).allocate([1, 2, 3, 4]).map(share => share.toNumber())).toEqual([0.01, 0.02, 0.03, 0.04]);
+
+    const shares = usd(1000).allocate([17 / 31, 1, 1, 14 / 30]);
+    expect(Money.sum(shares, 'USD')).toEqual(usd(1000));
+  });
+
+  it('should reject allocation without a positive total weight', () => {
+    expect(() => usd(10).allocate([])).toThrow('Allocation needs non-negative weights with a positive total');
+    expect(() => usd(10).allocate([0, 0])).toThrow('Allocation needs non-negative weights with a positive total');
+    expect(() => usd(10).allocate([2, -1])).toThrow('Allocation needs non-negative weights with a positive total');
+  });
+
+  it('should convert at an exchange rate to the minor unit of the target currency', () => {
+    const rate = (from: string, to: string, value: number) => ({ from, to, rate: value, asOf: new Date(), source: 'test' });
+
+    expect(usd(100).convert(rate('USD', 'EUR', 0.92346))).toEqual(Money.of(92.35, 'EUR'));
+    expect(usd(10.5).convert(rate('USD', 'JPY', 151.237))).toEqual(Money.of(1588, 'JPY'));
+    expect(Money.of(1000, 'JPY').convert(rate('JPY', 'USD', 0.006612))).toEqual(usd(6.61));
+    expect(Money.of(1000, 'JPY').convert(rate('JPY', 'KWD', 0.002034))).toEqual(Money.of(2.034, 'KWD'));
+    expect(() => usd(1).convert(rate('EUR', 'USD', 1.1))).toThrow('Cannot convert USD with a EUR rate');
+  });
+
+  it('should not combine different currencies', () => {
+    expect(() => usd(10).plus(Money.of(10, 'EUR'))).toThrow('Cannot combine USD and EUR amounts');
+    expect(() => usd(10).compareTo(Money.of(10, 'GBP'))).toThrow('Cannot combine USD and GBP amounts');
+    expect(usd(10).equals(Money.of(10, 'CAD'))).toBe(false);
+  });
+
+  it('should format for storage, logs and API responses', () => {
+    expect(usd(12.3).toDecimalString()).toBe('12.30');
+    expect(`${usd(12.3)}`).toBe('12.30 USD');
+    expect(JSON.stringify({ amount: usd(12.3) })).toBe('{"amount":12.3}');
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Tests for the transactional outbox and its dispatcher
+ */
+
+import { OutboxDispatcher, createOutboxHandlers } from '../src/services/outboxDispatcher';
+import { createDomainEvent, createItemReservedEvent, createPaymentDueEvent } from '../src/services/domainEvents';
+import { InMemoryOutbox } from '../src/repositories/inMemoryOutbox';
+import { InMemoryReservationStore } from '../src/repositories/inMemoryReservationStore';
+import { reservationFor } from '../src/services/agreementSaga';
+import { SqliteClient } from '../src/repositories/sql/sqliteClient';
+import { MigrationRunner } from '../src/repositories/sql/migrationRunner';
+import { SqlOutboxStore } from '../src/repositories/sql/sqlOutboxStore';
+import { SqlLeasingRepository } from '../src/repositories/sql/sqlLeasingRepository';
+import { LeasingAgreement, INotificationService, IBillingService, IInventoryService } from '../src/types';
+import { Logger } from '../src/utils/logger';
+import { Money } from '../src/utils/money';
+
+const usd = (amount: number) => Money.of(amount, 'USD');
+
+const config = {
+  pollIntervalMs: 1000,
+  batchSize: 10,
+  maxAttempts: 3,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 5000,
+  leaseMs: 30000
+};
+
+const agreement: LeasingAgreement = {
+  id: 'LA-1',
+  employeeId: 'emp1',
+  itemId: 'item1',
+  startDate: new Date('2025-07-01T00:00:00.000Z'),
+  endDate: new Date('2025-09-01T00:00:00.000Z'),
+  status: 'ACTIVE',
+  price: usd(200),
+  currency: 'USD',
+  companyId: 'comp1',
+  paymentSchedule: [
+    { id: 'LA-1-payment-1', dueDate: new Date('2025-07-01T00:00:00.000Z'), amount: usd(100), netAmount: usd(100), taxAmount: usd(0), status: 'PENDING', paidAmount: usd(0), attemptCount: 0 }
+  ],
+  metadata: {},
+  createdAt: new Date('2025-06-15T00:00:00.000Z'),
+  updatedAt: new Date('2025-06-15T00:00:00.000Z')
+};
+
+describe('OutboxDispatcher', () => {
+  let outbox: InMemoryOutbox;
+  let notificationService: jest.Mocked<INotificationService>;
+  let billingService: jest.Mocked<IBillingService>;
+  let inventoryService: jest.Mocked<IInventoryService>;
+  let reservations: InMemoryReservationStore;
+  let dispatcher: OutboxDispatcher;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2025-06-15T00:00:00.000Z'), advanceTimers: true });
+
+    outbox = new InMemoryOutbox();
+    reservations = new InMemoryReservationStore();
+    await reservations.reserve(reservationFor(agreement), new Date());
+    notificationService = {
+      sendAgreementCreated: jest.fn().mockResolvedValue(undefined),
+      sendPaymentDue: jest.fn().mockResolvedValue(undefined)
+    };
+    billingService = {
+      createBillingRecord: jest.fn().mockResolvedValue('bill-1'),
+      updateBillingRecord: jest.fn().mockResolvedValue(undefined),
+      cancelBillingRecord: jest.fn().mockResolvedValue(undefined)
+    };
+    inventoryService = {
+      checkAvailability: jest.fn().mockResolvedValue(true),
+      getItemCategory: jest.fn().mockResolvedValue(undefined),
+      reserveItem: jest.fn().mockResolvedValue(undefined),
+      releaseItem: jest.fn().mockResolvedValue(undefined)
+    };
+    dispatcher = new OutboxDispatcher(
+      outbox,
+      createOutboxHandlers(notificationService, billingService, inventoryService, reservations),
+      config,
+      new Logger('TestOutbox')
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should deliver events to the notification and billing services', async () => {
+    outbox.add([
+      createDomainEvent('AgreementActivated', agreement),
+      createDomainEvent('AgreementCreated', agreement),
+      createPaymentDueEvent(agreement, agreement.paymentSchedule[0])
+    ]);
+
+    // One event of the agreement per poll, in the order they were written
+    for (let poll = 0; poll < 3; poll++) {
+      expect(await dispatcher.dispatchDue()).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+    }
+
+    expect(billingService.updateBillingRecord).toHaveBeenCalledWith('LA-1', 'ACTIVE');
+    expect(notificationService.sendAgreementCreated).toHaveBeenCalledWith('emp1', 'LA-1');
+    expect(notificationService.sendPaymentDue).toHaveBeenCalledWith('emp1', agreement.paymentSchedule[0]);
+    expect(outbox.all().every(entry => entry.status === 'DELIVERED')).toBe(true);
+    expect(await dispatcher.dispatchDue()).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+  });
+
+  it('should forward confirmed reservations to the inventory service and release them when the agreement ends', async () => {
+    outbox.add([
+      createItemReservedEvent(agreement),
+      createDomainEvent('AgreementCancelled', { ...agreement, status: 'CANCELLED' })
+    ]);
+
+    expect(await dispatcher.dispatchDue()).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+    expect(await dispatcher.dispatchDue()).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+
+    expect(inventoryService.reserveItem).toHaveBeenCalledWith({
+      id: 'LA-1',
+      itemId: 'item1',
+      startDate: agreement.startDate,
+      endDate: agreement.endDate
+    });
+    expect(billingService.updateBillingRecord).toHaveBeenCalledWith('LA-1', 'CANCELLED');
+    expect(inventoryService.releaseItem).toHaveBeenCalledWith('LA-1');
+  });
+
+  it('should not forward a retried reservation once the agreement released the item', async () => {
+    inventoryService.reserveItem.mockRejectedValueOnce(new Error('Inventory down'));
+    outbox.add([createItemReservedEvent(agreement)]);
+    expect(await dispatcher.dispatchDue()).toMatchObject({ retried: 1 });
+
+    await reservations.release('LA-1');
+    outbox.add([createDomainEvent('AgreementCancelled', { ...agreement, status: 'CANCELLED' })]);
+    jest.setSystemTime(new Date('2025-06-15T00:00:01.000Z'));
+    await dispatcher.dispatchDue();
+    await dispatcher.dispatchDue();
+
+    expect(inventoryService.reserveItem).toHaveBeenCalledTimes(1);
+    expect(inventoryService.releaseItem).toHaveBeenCalledWith('LA-1');
+  });
+
+  it('should not forward a requeued reservation of an agreement that has ended', async () => {
+    const deadOnFirstAttempt = new OutboxDispatcher(
+      outbox,
+      createOutboxHandlers(notificationService, billingService, inventoryService, reservations),
+      { ...config, maxAttempts: 1 },
+      new Logger('TestOutbox')
+    );
+    inventoryService.reserveItem.mockRejectedValueOnce(new Error('Inventory down'));
+    const event = createItemReservedEvent(agreement);
+    outbox.add([event, createDomainEvent('AgreementCancelled', { ...agreement, status: 'CANCELLED' })]);
+    await deadOnFirstAttempt.dispatchDue();
+    await reservations.release('LA-1');
+    await deadOnFirstAttempt.dispatchDue();
+
+    await outbox.requeue(event.id, new Date());
+    expect(await deadOnFirstAttempt.dispatchDue()).toMatchObject({ delivered: 1 });
+    expect(inventoryService.reserveItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deliver an agreement\'s events in order when an earlier one is retried', async () => {
+    billingService.updateBillingRecord.mockRejectedValueOnce(new Error('Billing down'));
+    const other = { ...agreement, id: 'LA-2' };
+    outbox.add([
+      createDomainEvent('AgreementSubmitted', { ...agreement, status: 'PENDING' }),
+      createDomainEvent('AgreementActivated', agreement),
+      createDomainEvent('AgreementCreated', other)
+    ]);
+
+    // The failed event holds back the agreement's later events, not those of other agreements
+    expect(await dispatcher.dispatchDue()).toEqual({ delivered: 1, retried: 1, deadLettered: 0 });
+    outbox.add([createDomainEvent('AgreementCancelled', { ...agreement, status: 'CANCELLED' })]);
+    expect(await dispatcher.dispatchDue()).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+
+    jest.setSystemTime(new Date('2025-06-15T00:00:01.000Z'));
+    for (let poll = 0; poll < 3; poll++) {
+      expect(await dispatcher.dispatchDue()).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+    }
+
+    expect(billingService.updateBillingRecord.mock.calls.map(([, status]) => status))
+      .toEqual(['PENDING', 'PENDING', 'ACTIVE', 'CANCELLED']);
+    expect(inventoryService.releaseItem).toHaveBeenCalledWith('LA-1');
+  });
+
+  it('should retry a release the inventory service rejected', async () => {
+    inventoryService.releaseItem.mockRejectedValueOnce(new Error('Inventory down'));
+    outbox.add([createDomainEvent('AgreementCompleted', { ...agreement, status: 'COMPLETED' })]);
+
+    expect(await dispatcher.dispatchDue()).toMatchObject({ retried: 1 });
+
+    jest.setSystemTime(new Date('2025-06-15T00:00:01.000Z'));
+    expect(await dispatcher.dispatchDue()).toMatchObject({ delivered: 1 });
+    expect(inventoryService.releaseItem).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry with exponential backoff and dead-letter after the last attempt', async () => {
+    notificationService.sendAgreementCreated.mockRejectedValue(new Error('SMTP down'));
+    outbox.add([createDomainEvent('AgreementCreated', agreement)]);
+
+    expect(await dispatcher.dispatchDue()).toMatchObject({ retried: 1 });
+    expect(outbox.all()[0]).toMatchObject({
+      attempts: 1,
+      nextAttemptAt: new Date('2025-06-15T00:00:01.000Z'),
+      lastError: 'SMTP down'
+    });
+
+    // Not due yet
+    expect(await dispatcher.dispatchDue()).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+
+    jest.setSystemTime(new Date('2025-06-15T00:00:01.000Z'));
+    await dispatcher.dispatchDue();
+    expect(outbox.all()[0].nextAttemptAt).toEqual(new Date('2025-06-15T00:00:03.000Z'));
+
+    jest.setSystemTime(new Date('2025-06-15T00:00:03.000Z'));
+    expect(await dispatcher.dispatchDue()).toMatchObject({ deadLettered: 1 });
+
+    const [dead] = await outbox.findDead();
+    expect(dead).toMatchObject({ status: 'DEAD', attempts: 3, lastError: 'SMTP down' });
+  });
+
+  it('should deliver a requeued dead letter', async () => {
+    notificationService.sendAgreementCreated.mockRejectedValueOnce(new Error('SMTP down'));
+    const deadOnFirstAttempt = new OutboxDispatcher(
+      outbox,
+      createOutboxHandlers(notificationService, billingService, inventoryService, reservations),
+      { ...config, maxAttempts: 1 },
+      new Logger('TestOutbox')
+    );
+    const event = createDomainEvent('AgreementCreated', agreement);
+    outbox.add([event]);
+    await deadOnFirstAttempt.dispatchDue();
+
+    expect(await outbox.requeue(event.id, new Date())).toBe(true);
+    expect(await deadOnFirstAttempt.dispatchDue()).toMatchObject({ delivered: 1 });
+    expect(await outbox.requeue(event.id, new Date())).toBe(false);
+  });
+
+  it('should cap the retry delay', () => {
+    expect([1, 2, 3, 4, 10].map(attempts => dispatcher.retryDelay(attempts))).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+});
+
+describe('SQL outbox', () => {
+  let client: SqliteClient;
+  let repository: SqlLeasingRepository;
+  let outbox: SqlOutboxStore;
+
+  const now = new Date('2025-06-15T00:00:00.000Z');
+  const event = { ...createDomainEvent('AgreementActivated', agreement), occurredAt: now };
+
+  beforeEach(async () => {
+    client = new SqliteClient({ filename: ':memory:' });
+    await new MigrationRunner(client, new Logger('TestMigrations')).migrate();
+    repository = new SqlLeasingRepository(client);
+    outbox = new SqlOutboxStore(client);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should store events in the agreement transaction', async () => {
+    await repository.save(agreement, [event]);
+
+    const claimed = await outbox.claimDue(now, 10, new Date('2025-06-15T00:01:00.000Z'));
+    expect(claimed).toEqual([{ ...event, status: 'PENDING', attempts: 0, nextAttemptAt: now }]);
+  });
+
+  it('should roll back the agreement when its events cannot be stored', async () => {
+    await repository.save(agreement, [event]);
+
+    await expect(repository.save({ ...agreement, status: 'COMPLETED' }, [event])).rejects.toThrow();
+
+    expect((await repository.findById('LA-1'))?.status).toBe('ACTIVE');
+  });
+
+  it('should hide leased events from other dispatchers until the lease ends', async () => {
+    await repository.save(agreement, [event]);
+    const leaseUntil = new Date('2025-06-15T00:01:00.000Z');
+
+    expect(await outbox.claimDue(now, 10, leaseUntil)).toHaveLength(1);
+    expect(await outbox.claimDue(now, 10, leaseUntil)).toEqual([]);
+    expect(await outbox.claimDue(leaseUntil, 10, new Date('2025-06-15T00:02:00.000Z'))).toHaveLength(1);
+  });
+
+  it('should hold back an agreement\'s later events until the earlier one is delivered', async () => {
+    const submitted = { ...createDomainEvent('AgreementSubmitted', agreement), occurredAt: now };
+    const saved = await repository.save(agreement, [submitted]);
+    await repository.save({ ...saved, status: 'COMPLETED' }, [event]);
+
+    expect(await outbox.claimDue(now, 10, now)).toEqual([expect.objectContaining({ id: submitted.id })]);
+    await outbox.scheduleRetry(submitted.id, 1, new Date('2025-06-15T00:00:01.000Z'), 'Billing down');
+    expect(await outbox.claimDue(now, 10, now)).toEqual([]);
+
+    await outbox.markDelivered(submitted.id, now);
+    expect(await outbox.claimDue(now, 10, now)).toEqual([expect.objectContaining({ id: event.id })]);
+  });
+
+  it('should keep dead letters until they are requeued', async () => {
+    await repository.save(agreement, [event]);
+    await outbox.markDead(event.id, 8, 'Billing unavailable');
+
+    expect(await outbox.findDead()).toEqual([
+      expect.objectContaining({ id: event.id, status: 'DEAD', attempts: 8, lastError: 'Billing unavailable' })
+    ]);
+    expect(await outbox.claimDue(now, 10, now)).toEqual([]);
+
+    expect(await outbox.requeue(event.id, now)).toBe(true);
+    expect(await outbox.claimDue(now, 10, now)).toEqual([expect.objectContaining({ attempts: 0 })]);
+  });
+});
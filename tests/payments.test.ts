@@ -0,0 +1,317 @@
+/**
+ * Tests for payment allocation, recording and reconciliation
+ */
+
+import { applyPayment, outstandingAmount } from '../src/services/paymentAllocation';
+import { PaymentService } from '../src/services/paymentService';
+import { InMemoryLeasingRepository } from '../src/repositories/inMemoryLeasingRepository';
+import { SqliteClient } from '../src/repositories/sql/sqliteClient';
+import { MigrationRunner } from '../src/repositories/sql/migrationRunner';
+import { SqlLeasingRepository } from '../src/repositories/sql/sqlLeasingRepository';
+import { AccessPolicy } from '../src/auth/accessPolicy';
+import { DEFAULT_ROLE_PERMISSIONS } from '../src/config';
+import {
+  AccessDeniedError,
+  AgreementStatus,
+  AuthenticatedUser,
+  BusinessRuleError,
+  IEmployeeService,
+  LeasingAgreement,
+  PaymentRecord,
+  ValidationError
+} from '../src/types';
+import { Logger } from '../src/utils/logger';
+import { Money } from '../src/utils/money';
+
+const usd = (amount: number) => Money.of(amount, 'USD');
+
+const buildAgreement = (
+  id = 'LA-1',
+  status: AgreementStatus = 'ACTIVE',
+  companyId = 'comp1'
+): LeasingAgreement => ({
+  id,
+  employeeId: 'emp1',
+  itemId: 'item1',
+  startDate: new Date('2025-05-01T00:00:00.000Z'),
+  endDate: new Date('2025-08-01T00:00:00.000Z'),
+  status,
+  price: usd(300),
+  currency: 'USD',
+  companyId,
+  paymentSchedule: [1, 2, 3].map(month => ({
+    id: `${id}-payment-${month}`,
+    dueDate: new Date(Date.UTC(2025, 3 + month, 1)),
+    amount: usd(100),
+    netAmount: usd(100),
+    taxAmount: usd(0),
+    status: 'PENDING' as const,
+    paidAmount: usd(0),
+    attemptCount: 0
+  })),
+  metadata: {},
+  createdAt: new Date('2025-04-15T00:00:00.000Z'),
+  updatedAt: new Date('2025-04-15T00:00:00.000Z')
+});
+
+const receivedAt = new Date('2025-06-10T00:00:00.000Z');
+
+const admin: AuthenticatedUser = { id: 'admin1', email: 'admin@example.com', companyId: 'comp1', role: 'admin' };
+
+describe('applyPayment', () => {
+
+  it('should record a partial payment without settling the entry', () => {
+    const result = applyPayment(buildAgreement().paymentSchedule, usd(40), { reference: 'bank-1' });
+
+    expect(result.allocations).toEqual([{ paymentId: 'LA-1-payment-1', amount: usd(40) }]);
+    expect(result.paymentSchedule[0]).toMatchObject({
+      status: 'PENDING',
+      paidAmount: usd(40),
+      paymentId: 'bank-1',
+      attemptCount: 0
+    });
+    expect(outstandingAmount(result.paymentSchedule[0])).toEqual(usd(60));
+  });
+
+  it('should carry an overpayment forward to the following entries', () => {
+    const first = applyPayment(buildAgreement().paymentSchedule, usd(60.1), { reference: 'bank-1' });
+    const second = applyPayment(first.paymentSchedule, usd(139.9), { reference: 'bank-2' });
+
+    expect(second.allocations).toEqual([
+      { paymentId: 'LA-1-payment-1', amount: usd(39.9) },
+      { paymentId: 'LA-1-payment-2', amount: usd(100) }
+    ]);
+    expect(second.paymentSchedule.map(p => p.status)).toEqual(['PAID', 'PAID', 'PENDING']);
+    expect(second.unapplied).toEqual(usd(0));
+  });
+
+  it('should start at the named entry and report what cannot be applied', () => {
+    const result = applyPayment(buildAgreement().paymentSchedule, usd(250), {
+      reference: 'bank-1',
+      startPaymentId: 'LA-1-payment-2'
+    });
+
+    expect(result.paymentSchedule.map(p => p.status)).toEqual(['PENDING', 'PAID', 'PAID']);
+    expect(result.unapplied).toEqual(usd(50));
+  });
+});
+
+describe('PaymentService', () => {
+  let repository: InMemoryLeasingRepository;
+  let service: PaymentService;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2025-06-15T00:00:00.000Z'), advanceTimers: true });
+
+    repository = new InMemoryLeasingRepository();
+    const employeeService: IEmployeeService = {
+      getEmployeeType: async () => 'STANDARD',
+      validateEmployee: async () => true,
+      getDirectReports: async () => []
+    };
+    service = new PaymentService(
+      repository,
+      new AccessPolicy(DEFAULT_ROLE_PERMISSIONS, employeeService),
+      new Logger('TestPayments')
+    );
+
+    await repository.save(buildAgreement());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('recordPayment', () => {
+
+    it('should apply the payment and return its allocations', async () => {
+      const payment = await service.recordPayment('LA-1', { reference: 'bank-1', amount: 150 }, admin);
+
+      expect(payment).toMatchObject({
+        reference: 'bank-1',
+        agreementId: 'LA-1',
+        recordedBy: 'admin1',
+        receivedAt: new Date('2025-06-15T00:00:00.000Z'),
+        allocations: [
+          { paymentId: 'LA-1-payment-1', amount: usd(100) },
+          { paymentId: 'LA-1-payment-2', amount: usd(50) }
+        ]
+      });
+
+      const stored = await repository.findById('LA-1');
+      expect(stored?.paymentSchedule.map(p => p.paidAmount)).toEqual([usd(100), usd(50), usd(0)]);
+    });
+
+    it('should reject a payment reference that was already recorded', async () => {
+      await service.recordPayment('LA-1', { reference: 'bank-1', amount: 50 }, admin);
+
+      await expect(service.recordPayment('LA-1', { reference: 'bank-1', amount: 50 }, admin))
+        .rejects.toMatchObject({ code: 'DUPLICATE_PAYMENT' });
+
+      const stored = await repository.findById('LA-1');
+      expect(stored?.paymentSchedule[0].paidAmount).toEqual(usd(50));
+    });
+
+    it('should reject a payment larger than the remaining balance and record nothing', async () => {
+      await expect(service.recordPayment('LA-1', { reference: 'bank-1', amount: 300.01 }, admin))
+        .rejects.toMatchObject({ code: 'PAYMENT_EXCEEDS_BALANCE' });
+      // Only entries from paymentId onwards count towards the balance
+      await expect(service.recordPayment('LA-1', { reference: 'bank-1', amount: 200.01, paymentId: 'LA-1-payment-2' }, admin))
+        .rejects.toMatchObject({ code: 'PAYMENT_EXCEEDS_BALANCE' });
+
+      const stored = await repository.findById('LA-1');
+      expect(stored?.paymentSchedule.map(p => p.paidAmount)).toEqual([usd(0), usd(0), usd(0)]);
+      expect((await service.recordPayment('LA-1', { reference: 'bank-1', amount: 300 }, admin)).allocations).toHaveLength(3);
+    });
+
+    it('should only record payments for active agreements', async () => {
+      await repository.save(buildAgreement('LA-2', 'CANCELLED'));
+
+      await expect(service.recordPayment('LA-2', { reference: 'bank-1', amount: 10 }, admin))
+        .rejects.toThrow(BusinessRuleError);
+    });
+
+    it('should deny payments to agreements of another company', async () => {
+      await expect(service.recordPayment('LA-1', { reference: 'bank-1', amount: 10 }, { ...admin, companyId: 'comp2', role: 'manager' }))
+        .rejects.toThrow(AccessDeniedError);
+    });
+
+    it('should validate the request', async () => {
+      await expect(service.recordPayment('LA-1', { reference: '', amount: 10 }, admin))
+        .rejects.toThrow(ValidationError);
+      await expect(service.recordPayment('LA-1', { reference: 'bank-1', amount: 10.001 }, admin))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should apply concurrent payments one after the other', async () => {
+      await Promise.all([
+        service.recordPayment('LA-1', { reference: 'bank-1', amount: 100 }, admin),
+        service.recordPayment('LA-1', { reference: 'bank-2', amount: 100 }, admin)
+      ]);
+
+      const stored = await repository.findById('LA-1');
+      expect(stored?.paymentSchedule.map(p => p.status)).toEqual(['PAID', 'PAID', 'PENDING']);
+    });
+  });
+
+  describe('reconcile', () => {
+
+    it('should match lines by payment ID and by amount and due date', async () => {
+      await repository.save(buildAgreement('LA-2'));
+
+      const report = await service.reconcile({
+        companyId: 'comp1',
+        lines: [
+          { reference: 'stmt-1', amount: 100, paymentId: 'LA-1-payment-2' },
+          { reference: 'stmt-2', amount: 100, dueDate: '2025-05-01' }
+        ]
+      }, admin);
+
+      expect(report.matched).toEqual([
+        {
+          line: 0,
+          reference: 'stmt-1',
+          agreementId: 'LA-1',
+          matchedBy: 'PAYMENT_ID',
+          allocations: [{ paymentId: 'LA-1-payment-2', amount: usd(100) }]
+        }
+      ]);
+      // Both agreements have an entry of 100 due on May 1st
+      expect(report.unmatched).toEqual([
+        expect.objectContaining({ line: 1, reference: 'stmt-2', reason: 'AMBIGUOUS_MATCH' })
+      ]);
+    });
+
+    it('should report lines that cannot be matched or applied', async () => {
+      await repository.save(buildAgreement('LA-3', 'ACTIVE', 'comp2'));
+
+      const report = await service.reconcile({
+        companyId: 'comp1',
+        lines: [
+          { reference: 'stmt-1', amount: 40, dueDate: '2025-05-01' },
+          { reference: 'stmt-2', amount: 100, dueDate: '2025-05-01' },
+          { reference: 'stmt-2', amount: 100, paymentId: 'LA-1-payment-2' },
+          { reference: 'stmt-3', amount: 10, paymentId: 'LA-3-payment-1' },
+          { reference: 'stmt-4', amount: 500, paymentId: 'LA-1-payment-3' },
+          { reference: 'stmt-5', amount: -1, paymentId: 'LA-1-payment-3' },
+          { reference: 'stmt-6', amount: 10 }
+        ]
+      }, admin);
+
+      expect(report.matched.map(line => line.reference)).toEqual(['stmt-2']);
+      expect(report.unmatched.map(line => [line.line, line.reason])).toEqual([
+        [0, 'NO_MATCH'],
+        [2, 'ALREADY_RECORDED'],
+        [3, 'UNKNOWN_PAYMENT_ID'],
+        [4, 'EXCEEDS_BALANCE'],
+        [5, 'INVALID_LINE'],
+        [6, 'INVALID_LINE']
+      ]);
+    });
+
+    it('should reject an import for another company', async () => {
+      await expect(service.reconcile({ companyId: 'comp2', lines: [] }, { ...admin, role: 'manager' }))
+        .rejects.toThrow(ValidationError);
+      await expect(service.reconcile(
+        { companyId: 'comp2', lines: [{ reference: 'stmt-1', amount: 10, dueDate: '2025-05-01' }] },
+        { ...admin, role: 'manager' }
+      )).rejects.toThrow(AccessDeniedError);
+    });
+  });
+});
+
+describe('SqlLeasingRepository payments', () => {
+  let client: SqliteClient;
+  let repository: SqlLeasingRepository;
+
+  const payment = (reference: string): PaymentRecord => ({
+    reference,
+    agreementId: 'LA-1',
+    amount: usd(40),
+    receivedAt,
+    allocations: [{ paymentId: 'LA-1-payment-1', amount: usd(40) }],
+    recordedBy: 'admin1',
+    recordedAt: receivedAt
+  });
+
+  beforeEach(async () => {
+    client = new SqliteClient({ filename: ':memory:' });
+    await new MigrationRunner(client, new Logger('TestMigrations')).migrate();
+    repository = new SqlLeasingRepository(client);
+    await repository.save(buildAgreement());
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should store the payment with the updated schedule only once', async () => {
+    const agreement = (await repository.findById('LA-1'))!;
+    const { paymentSchedule } = applyPayment(agreement.paymentSchedule, usd(40), { reference: 'bank-1' });
+
+    expect(await repository.recordPayment({ ...agreement, paymentSchedule }, payment('bank-1'))).toBe(true);
+    expect((await repository.findById('LA-1'))?.paymentSchedule[0]).toMatchObject({ paidAmount: usd(40), paymentId: 'bank-1' });
+
+    const twice = applyPayment(paymentSchedule, usd(40), { reference: 'bank-1' }).paymentSchedule;
+    expect(await repository.recordPayment({ ...agreement, paymentSchedule: twice }, payment('bank-1'))).toBe(false);
+    expect((await repository.findById('LA-1'))?.paymentSchedule[0].paidAmount).toEqual(usd(40));
+  });
+
+  it('should find agreements by schedule entry', async () => {
+    expect((await repository.findByPaymentId('LA-1-payment-2'))?.id).toBe('LA-1');
+    expect(await repository.findByPaymentId('LA-9-payment-1')).toBeNull();
+  });
+
+  it('should find outstanding entries by company, due day and outstanding amount', async () => {
+    const agreement = (await repository.findById('LA-1'))!;
+    const { paymentSchedule } = applyPayment(agreement.paymentSchedule, usd(40), { reference: 'bank-1' });
+    await repository.recordPayment({ ...agreement, paymentSchedule }, payment('bank-1'));
+
+    const dueDate = new Date('2025-05-01T00:00:00.000Z');
+    expect(await repository.findOutstandingPayments('comp1', dueDate, 60)).toEqual([
+      { agreementId: 'LA-1', paymentId: 'LA-1-payment-1' }
+    ]);
+    expect(await repository.findOutstandingPayments('comp1', dueDate, 100)).toEqual([]);
+    expect(await repository.findOutstandingPayments('comp2', dueDate, 60)).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for the pricing rules engine
+ */
+
+import { PricingContext, PricingEngine, createPricingEngine } from '../src/services/pricingEngine';
+import { PricingRulesConfig } from '../src/types';
+
+const rules: PricingRulesConfig = {
+  employeeMultipliers: { STANDARD: 1, PREMIUM: 0.9, VIP: 0.8 },
+  durationTiers: [
+    { minMonths: 24, multiplier: 0.85 },
+    { minMonths: 12, multiplier: 0.9 },
+    { minMonths: 36, multiplier: 0.8 }
+  ],
+  companyRates: { comp1: 0.95 },
+  categoryMultipliers: { laptop: 1.1 },
+  campaigns: [
+    { id: 'spring', multiplier: 0.9, startsAt: '2025-03-01T00:00:00.000Z', endsAt: '2025-06-01T00:00:00.000Z' },
+    {
+      id: 'spring-laptops',
+      multiplier: 0.8,
+      startsAt: '2025-03-01T00:00:00.000Z',
+      endsAt: '2025-04-01T00:00:00.000Z',
+      itemCategories: ['laptop']
+    },
+    {
+      id: 'comp2-only',
+      multiplier: 0.5,
+      startsAt: '2025-01-01T00:00:00.000Z',
+      endsAt: '2026-01-01T00:00:00.000Z',
+      companyIds: ['comp2']
+    }
+  ]
+};
+
+const context = (overrides: Partial<PricingContext> = {}): PricingContext => ({
+  durationMonths: 6,
+  employeeType: 'STANDARD',
+  pricedAt: new Date('2025-01-15T00:00:00.000Z'),
+  ...overrides
+});
+
+describe('PricingEngine', () => {
+  const engine = createPricingEngine(rules);
+
+  it('should apply the highest duration tier reached', () => {
+    const tierOf = (durationMonths: number) => engine.price(context({ durationMonths })).appliedRules
+      .find(rule => rule.type === 'DURATION_TIER');
+
+    expect(tierOf(11.9)).toBeUndefined();
+    expect(tierOf(12)).toEqual({ type: 'DURATION_TIER', ruleId: '12', multiplier: 0.9 });
+    expect(tierOf(30)).toMatchObject({ ruleId: '24', multiplier: 0.85 });
+    expect(tierOf(60)).toMatchObject({ ruleId: '36', multiplier: 0.8 });
+  });
+
+  it('should combine employee, company and category rules', () => {
+    const result = engine.price(context({ employeeType: 'PREMIUM', companyId: 'comp1', itemCategory: 'laptop' }));
+
+    expect(result.appliedRules).toEqual([
+      { type: 'EMPLOYEE_TYPE', ruleId: 'PREMIUM', multiplier: 0.9 },
+      { type: 'COMPANY_RATE', ruleId: 'comp1', multiplier: 0.95 },
+      { type: 'ITEM_CATEGORY', ruleId: 'laptop', multiplier: 1.1 }
+    ]);
+    expect(result.multiplier).toBeCloseTo(0.9 * 0.95 * 1.1, 10);
+  });
+
+  it('should apply the best campaign active at pricing time', () => {
+    const campaignAt = (pricedAt: string, itemCategory?: string) =>
+      engine.price(context({ pricedAt: new Date(pricedAt), itemCategory })).appliedRules
+        .find(rule => rule.type === 'CAMPAIGN')?.ruleId;
+
+    expect(campaignAt('2025-02-28T23:59:59.999Z')).toBeUndefined();
+    expect(campaignAt('2025-03-01T00:00:00.000Z')).toBe('spring');
+    expect(campaignAt('2025-03-15T00:00:00.000Z', 'laptop')).toBe('spring-laptops');
+    expect(campaignAt('2025-04-15T00:00:00.000Z', 'laptop')).toBe('spring');
+    expect(campaignAt('2025-06-01T00:00:00.000Z')).toBeUndefined();
+  });
+
+  it('should restrict campaigns to their companies', () => {
+    const result = engine.price(context({ companyId: 'comp2' }));
+
+    expect(result.appliedRules).toContainEqual({ type: 'CAMPAIGN', ruleId: 'comp2-only', multiplier: 0.5 });
+  });
+
+  it('should cap the combined discount', () => {
+    const capped = createPricingEngine({ ...rules, combinedMultiplierFloor: 0.6 });
+
+    const result = capped.price(context({ employeeType: 'VIP', durationMonths: 36, companyId: 'comp2' }));
+
+    expect(result.multiplier).toBe(0.6);
+    expect(result.appliedRules[result.appliedRules.length - 1]).toMatchObject({ type: 'DISCOUNT_CAP', ruleId: '0.6' });
+  });
+
+  it('should evaluate custom rules', () => {
+    const custom = new PricingEngine([
+      { type: 'CAMPAIGN', evaluate: ({ durationMonths }) => durationMonths > 1 ? { type: 'CAMPAIGN', ruleId: 'custom', multiplier: 0.5 } : null }
+    ]);
+
+    expect(custom.price(context()).multiplier).toBe(0.5);
+    expect(custom.price(context({ durationMonths: 1 }))).toEqual({ multiplier: 1, appliedRules: [] });
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => createPricingEngine({ ...rules, companyRates: { comp1: 0 } }))
+      .toThrow('Pricing rule for company comp1 must have a positive multiplier');
+    expect(() => createPricingEngine({
+      ...rules,
+      campaigns: [{ id: 'broken', multiplier: 0.9, startsAt: '2025-06-01', endsAt: '2025-05-01' }]
+    })).toThrow('Campaign broken must have a valid date window');
+    expect(() => createPricingEngine({ ...rules, combinedMultiplierFloor: 2 }))
+      .toThrow('Combined multiplier floor must be between 0 and 1');
+  });
+});
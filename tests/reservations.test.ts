@@ -0,0 +1,90 @@
+/**
+ * Tests for the item reservation stores
+ */
+
+import { InMemoryReservationStore } from '../src/repositories/inMemoryReservationStore';
+import { SqliteClient } from '../src/repositories/sql/sqliteClient';
+import { MigrationRunner } from '../src/repositories/sql/migrationRunner';
+import { SqlReservationStore } from '../src/repositories/sql/sqlReservationStore';
+import { IItemReservationStore, ItemReservation } from '../src/types';
+import { Logger } from '../src/utils/logger';
+
+const now = new Date('2025-06-15T00:00:00.000Z');
+
+const reservation = (id: string, startDate: string, endDate: string, overrides: Partial<ItemReservation> = {}): ItemReservation => ({
+  id,
+  itemId: 'item1',
+  startDate: new Date(startDate),
+  endDate: new Date(endDate),
+  ...overrides
+});
+
+const stores: Array<[string, () => Promise<{ store: IItemReservationStore; close: () => Promise<void> }>]> = [
+  ['InMemoryReservationStore', async () => ({ store: new InMemoryReservationStore(), close: async () => {} })],
+  ['SqlReservationStore', async () => {
+    const client = new SqliteClient({ filename: ':memory:' });
+    await new MigrationRunner(client, new Logger('TestMigrations')).migrate();
+    return { store: new SqlReservationStore(client), close: () => client.close() };
+  }]
+];
+
+describe.each(stores)('%s', (_name, create) => {
+  let store: IItemReservationStore;
+  let close: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ store, close } = await create());
+    await store.reserve(reservation('LA-1', '2025-07-01T00:00:00.000Z', '2025-10-01T00:00:00.000Z'), now);
+  });
+
+  afterEach(async () => {
+    await close();
+  });
+
+  it('should reject reservations overlapping one in effect', async () => {
+    expect(await store.reserve(reservation('LA-2', '2025-09-15T00:00:00.000Z', '2025-11-01T00:00:00.000Z'), now)).toBe(false);
+    expect(await store.findById('LA-2')).toBeNull();
+  });
+
+  it('should accept adjacent periods and other items', async () => {
+    expect(await store.reserve(reservation('LA-2', '2025-10-01T00:00:00.000Z', '2025-11-01T00:00:00.000Z'), now)).toBe(true);
+    expect(await store.reserve(reservation('LA-3', '2025-08-01T00:00:00.000Z', '2025-09-01T00:00:00.000Z', { itemId: 'item2' }), now)).toBe(true);
+  });
+
+  it('should ignore lapsed holds', async () => {
+    const hold = reservation('LA-2', '2025-10-01T00:00:00.000Z', '2025-12-01T00:00:00.000Z', {
+      expiresAt: new Date('2025-06-15T00:15:00.000Z')
+    });
+    await store.reserve(hold, now);
+
+    expect(await store.findById('LA-2')).toEqual(hold);
+    expect(await store.isAvailable('item1', new Date('2025-11-01T00:00:00.000Z'), new Date('2025-12-01T00:00:00.000Z'), now)).toBe(false);
+
+    const later = new Date('2025-06-15T00:15:00.000Z');
+    expect(await store.isAvailable('item1', new Date('2025-11-01T00:00:00.000Z'), new Date('2025-12-01T00:00:00.000Z'), later)).toBe(true);
+    expect(await store.reserve(reservation('LA-3', '2025-11-01T00:00:00.000Z', '2025-12-01T00:00:00.000Z'), later)).toBe(true);
+  });
+
+  it('should replace a reservation with the same ID without conflicting with itself', async () => {
+    const confirmed = reservation('LA-1', '2025-07-01T00:00:00.000Z', '2025-11-01T00:00:00.000Z');
+
+    expect(await store.reserve(confirmed, now)).toBe(true);
+    expect(await store.findById('LA-1')).toEqual(confirmed);
+    expect(await store.isAvailable('item1', new Date('2025-08-01T00:00:00.000Z'), new Date('2025-09-01T00:00:00.000Z'), now, 'LA-1')).toBe(true);
+  });
+
+  it('should free the period on release', async () => {
+    await store.release('LA-1');
+
+    expect(await store.findById('LA-1')).toBeNull();
+    expect(await store.isAvailable('item1', new Date('2025-07-01T00:00:00.000Z'), new Date('2025-10-01T00:00:00.000Z'), now)).toBe(true);
+  });
+
+  it('should let only one of concurrent overlapping reservations succeed', async () => {
+    const results = await Promise.all(['LA-2', 'LA-3', 'LA-4'].map(id =>
+      store.reserve(reservation(id, '2025-10-15T00:00:00.000Z', '2025-12-01T00:00:00.000Z'), now)
+    ));
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+});
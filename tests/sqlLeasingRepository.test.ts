@@ -0,0 +1,256 @@
+/**
+ * Integration tests for the SQL-backed leasing repository
+ * Runs against the embedded SQLite driver, so no database server is needed
+ */
+
+import { SqliteClient } from '../src/repositories/sql/sqliteClient';
+import { MigrationRunner } from '../src/repositories/sql/migrationRunner';
+import { MIGRATIONS } from '../src/repositories/sql/migrations';
+import { SqlLeasingRepository } from '../src/repositories/sql/sqlLeasingRepository';
+import { LeasingAgreement, AgreementListQuery, ConcurrentModificationError } from '../src/types';
+import { Logger } from '../src/utils/logger';
+import { Money } from '../src/utils/money';
+
+const usd = (amount: number) => Money.of(amount, 'USD');
+
+const buildAgreement = (id: string, overrides: Partial<LeasingAgreement> = {}): LeasingAgreement => ({
+  id,
+  employeeId: 'emp1',
+  itemId: 'item1',
+  startDate: new Date('2025-07-01T00:00:00.000Z'),
+  endDate: new Date('2025-10-01T00:00:00.000Z'),
+  status: 'ACTIVE',
+  price: usd(300.5),
+  currency: 'USD',
+  companyId: 'comp1',
+  paymentSchedule: [
+    {
+      id: `${id}-payment-1`,
+      dueDate: new Date('2025-07-01T00:00:00.000Z'),
+      amount: usd(150.25),
+      netAmount: usd(150.25),
+      taxAmount: usd(0),
+      status: 'PAID',
+      paidAmount: usd(150.25),
+      paymentId: 'pay-1',
+      attemptCount: 1,
+      lastAttemptDate: new Date('2025-07-01T08:00:00.000Z')
+    },
+    {
+      id: `${id}-payment-2`,
+      dueDate: new Date('2025-08-01T00:00:00.000Z'),
+      amount: usd(150.25),
+      netAmount: usd(150.25),
+      taxAmount: usd(0),
+      status: 'PENDING',
+      paidAmount: usd(0),
+      attemptCount: 0
+    }
+  ],
+  metadata: { department: 'Engineering' },
+  createdAt: new Date('2025-06-01T00:00:00.000Z'),
+  updatedAt: new Date('2025-06-01T00:00:00.000Z'),
+  ...overrides
+});
+
+describe('SqlLeasingRepository', () => {
+  let client: SqliteClient;
+  let repository: SqlLeasingRepository;
+
+  beforeEach(async () => {
+    client = new SqliteClient({ filename: ':memory:' });
+    await new MigrationRunner(client, new Logger('TestMigrations')).migrate();
+    repository = new SqlLeasingRepository(client);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  describe('migrations', () => {
+
+    it('should apply every migration once', async () => {
+      const runner = new MigrationRunner(client, new Logger('TestMigrations'));
+
+      expect(await runner.getAppliedVersions()).toEqual(MIGRATIONS.map(m => m.version));
+      expect(await runner.migrate()).toEqual([]);
+    });
+
+    it('should keep stored amounts when widening them to three decimals', async () => {
+      const older = new SqliteClient({ filename: ':memory:' });
+      try {
+        const runner = (migrations = MIGRATIONS) => new MigrationRunner(older, new Logger('TestMigrations'), migrations);
+        // Amount columns stay NOT NULL where they were, so a missing amount is still refused
+        const constraints = () => older.query(
+          `SELECT m.name AS table_name, c.name, c."notnull", c.dflt_value
+           FROM sqlite_master m, pragma_table_info(m.name) c
+           WHERE m.type = 'table' AND c.type LIKE 'NUMERIC(15, _)' ORDER BY m.name, c.cid`
+        );
+        await runner(MIGRATIONS.filter(migration => migration.version < 13)).migrate();
+        const before = await constraints();
+        const saved = await new SqlLeasingRepository(older).save(buildAgreement('a1', {
+          status: 'CANCELLED',
+          cancellation: {
+            reason: 'Employee left',
+            cancelledBy: 'mgr1',
+            cancelledAt: new Date('2025-07-15T00:00:00.000Z'),
+            refundCredit: usd(75.5),
+            penalty: usd(15.03)
+          }
+        }));
+
+        expect(await runner().migrate()).toEqual(MIGRATIONS.filter(migration => migration.version >= 13).map(m => m.version));
+        expect(await new SqlLeasingRepository(older).findById('a1')).toEqual(saved);
+        expect(await constraints()).toEqual(before);
+      } finally {
+        await older.close();
+      }
+    });
+  });
+
+  describe('save and findById', () => {
+
+    it('should round-trip an agreement with its payment schedule', async () => {
+      const agreement = buildAgreement('a1');
+
+      const saved = await repository.save(agreement);
+
+      expect(await repository.findById('a1')).toEqual(saved);
+      expect(saved).toEqual({ ...agreement, version: 1 });
+    });
+
+    it('should replace the payment schedule on update', async () => {
+      const agreement = await repository.save(buildAgreement('a1'));
+
+      await repository.save({
+        ...agreement,
+        status: 'COMPLETED',
+        paymentSchedule: agreement.paymentSchedule.slice(0, 1),
+        updatedAt: new Date('2025-10-01T00:00:00.000Z')
+      });
+
+      const stored = await repository.findById('a1');
+      expect(stored?.status).toBe('COMPLETED');
+      expect(stored?.paymentSchedule).toHaveLength(1);
+      expect(stored?.version).toBe(2);
+    });
+
+    it('should reject writes based on an outdated version', async () => {
+      const agreement = await repository.save(buildAgreement('a1'));
+      await repository.save({ ...agreement, status: 'COMPLETED' });
+
+      await expect(repository.save({ ...agreement, status: 'CANCELLED' }))
+        .rejects.toMatchObject({ name: 'ConcurrentModificationError', code: 'VERSION_CONFLICT' });
+      await expect(repository.save(buildAgreement('a1'))).rejects.toThrow(ConcurrentModificationError);
+      expect((await repository.findById('a1'))?.status).toBe('COMPLETED');
+    });
+
+    it('should round-trip the cancellation settlement', async () => {
+      const agreement = buildAgreement('a1', {
+        status: 'CANCELLED',
+        cancellation: {
+          reason: 'Employee left',
+          cancelledBy: 'mgr1',
+          cancelledAt: new Date('2025-07-15T00:00:00.000Z'),
+          refundCredit: usd(75.5),
+          penalty: usd(15.03)
+        }
+      });
+
+      const saved = await repository.save(agreement);
+
+      expect(await repository.findById('a1')).toEqual(saved);
+    });
+
+    it('should round-trip the exchange rate snapshot', async () => {
+      const agreement = buildAgreement('a1', {
+        exchangeRate: {
+          from: 'USD',
+          to: 'EUR',
+          rate: 0.9234567891,
+          asOf: new Date('2025-06-01T00:00:00.000Z'),
+          source: 'local'
+        }
+      });
+
+      const saved = await repository.save(agreement);
+
+      expect(await repository.findById('a1')).toEqual(saved);
+    });
+
+    it('should round-trip the applied tax and taxed payment amounts', async () => {
+      const base = buildAgreement('a1');
+      const agreement = buildAgreement('a1', {
+        tax: { jurisdiction: 'DE', rate: 0.19, pricing: 'EXCLUSIVE', reverseCharge: false },
+        paymentSchedule: base.paymentSchedule.map(payment => ({
+          ...payment,
+          amount: usd(178.8),
+          taxAmount: usd(28.55)
+        }))
+      });
+
+      const saved = await repository.save(agreement);
+
+      expect(await repository.findById('a1')).toEqual(saved);
+    });
+
+    it('should round-trip amounts in currencies with three decimal places', async () => {
+      const kwd = (amount: number) => Money.of(amount, 'KWD');
+      const base = buildAgreement('a1');
+      const agreement = buildAgreement('a1', {
+        price: kwd(300.505),
+        currency: 'KWD',
+        paymentSchedule: base.paymentSchedule.map(payment => ({
+          ...payment,
+          amount: kwd(150.253),
+          netAmount: kwd(150.253),
+          taxAmount: kwd(0),
+          paidAmount: payment.status === 'PAID' ? kwd(150.253) : kwd(0)
+        }))
+      });
+
+      const saved = await repository.save(agreement);
+
+      expect(await repository.findById('a1')).toEqual(saved);
+    });
+
+    it('should return null for unknown agreements', async () => {
+      expect(await repository.findById('missing')).toBeNull();
+    });
+  });
+
+  describe('findPageByEmployeeId', () => {
+    const baseQuery: AgreementListQuery = { sortBy: 'startDate', sortOrder: 'desc', limit: 2 };
+
+    beforeEach(async () => {
+      await repository.save(buildAgreement('a1', { startDate: new Date('2025-07-01T00:00:00.000Z') }));
+      await repository.save(buildAgreement('a2', { startDate: new Date('2025-08-01T00:00:00.000Z'), currency: 'EUR' }));
+      await repository.save(buildAgreement('a3', { startDate: new Date('2025-08-01T00:00:00.000Z'), status: 'CANCELLED' }));
+      await repository.save(buildAgreement('a4', { endDate: new Date('2025-07-15T00:00:00.000Z') }));
+      await repository.save(buildAgreement('b1', { employeeId: 'emp2' }));
+    });
+
+    it('should paginate with a stable order across equal sort values', async () => {
+      const first = await repository.findPageByEmployeeId('emp1', baseQuery);
+      const second = await repository.findPageByEmployeeId('emp1', { ...baseQuery, cursor: first.nextCursor! });
+
+      expect(first.items.map(a => a.id)).toEqual(['a3', 'a2']);
+      expect(second.items.map(a => a.id)).toEqual(['a4', 'a1']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should apply status, currency and date range filters', async () => {
+      const byStatus = await repository.findPageByEmployeeId('emp1', { ...baseQuery, status: ['ACTIVE'], limit: 10 });
+      const byCurrency = await repository.findPageByEmployeeId('emp1', { ...baseQuery, currency: 'EUR' });
+      const byRange = await repository.findPageByEmployeeId('emp1', {
+        ...baseQuery,
+        from: new Date('2025-08-01T00:00:00.000Z'),
+        limit: 10
+      });
+
+      expect(byStatus.items.map(a => a.id)).toEqual(['a2', 'a4', 'a1']);
+      expect(byCurrency.items.map(a => a.id)).toEqual(['a2']);
+      expect(byRange.items.map(a => a.id)).not.toContain('a4');
+    });
+  });
+});
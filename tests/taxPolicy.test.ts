@@ -0,0 +1,69 @@
+/**
+ * Tests for the tax rules
+ */
+
+import { calculateTax, createTaxPolicy } from '../src/services/taxPolicy';
+import { TaxRulesConfig } from '../src/types';
+import { Money } from '../src/utils/money';
+
+const eur = (amount: number) => Money.of(amount, 'EUR');
+
+const rules: TaxRulesConfig = {
+  countries: {
+    DE: { rate: 0.19, pricing: 'EXCLUSIVE' },
+    FR: { rate: 0.2, pricing: 'INCLUSIVE' },
+    IE: { rate: 0.23, pricing: 'EXCLUSIVE', reverseCharge: true }
+  },
+  companyCountries: { comp1: 'DE', comp2: 'FR', comp3: 'IE', comp4: 'DE' },
+  companies: { comp4: { rate: 0.07, pricing: 'EXCLUSIVE' } }
+};
+
+describe('TaxPolicy', () => {
+  const policy = createTaxPolicy(rules);
+
+  it('should apply the rule of the company country', () => {
+    expect(policy.ruleFor('comp1')).toEqual({ jurisdiction: 'DE', rate: 0.19, pricing: 'EXCLUSIVE', reverseCharge: false });
+    expect(policy.ruleFor('comp3')).toEqual({ jurisdiction: 'IE', rate: 0.23, pricing: 'EXCLUSIVE', reverseCharge: true });
+  });
+
+  it('should prefer a rule configured for the company', () => {
+    expect(policy.ruleFor('comp4')).toEqual({ jurisdiction: 'comp4', rate: 0.07, pricing: 'EXCLUSIVE', reverseCharge: false });
+  });
+
+  it('should not tax companies without a country', () => {
+    expect(policy.ruleFor('comp9')).toBeUndefined();
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => createTaxPolicy({ ...rules, countries: { ...rules.countries, DE: { rate: 19, pricing: 'EXCLUSIVE' } } }))
+      .toThrow('Tax rate for country DE must be between 0 and 1');
+    // Rules are read from a configuration file, where nothing stops an unknown pricing
+    // @ts-expect-error NET is not a TaxPricing
+    expect(() => createTaxPolicy({ ...rules, companies: { comp4: { rate: 0.07, pricing: 'NET' } } }))
+      .toThrow('Tax pricing for company comp4 must be EXCLUSIVE or INCLUSIVE');
+    expect(() => createTaxPolicy({ ...rules, companies: { comp4: { rate: 0.07, pricing: 'INCLUSIVE', reverseCharge: true } } }))
+      .toThrow('Reverse charge rule for company comp4 must use EXCLUSIVE pricing');
+    expect(() => createTaxPolicy({ ...rules, companyCountries: { comp5: 'NL' } }))
+      .toThrow('Company comp5 is in country NL, which has no tax rule');
+  });
+});
+
+describe('calculateTax', () => {
+  const rule = (pricing: 'EXCLUSIVE' | 'INCLUSIVE', reverseCharge = false) =>
+    ({ jurisdiction: 'XX', rate: 0.19, pricing, reverseCharge });
+
+  it('should add tax on top of exclusive prices', () => {
+    expect(calculateTax(eur(100), rule('EXCLUSIVE'))).toEqual({ net: eur(100), tax: eur(19), gross: eur(119) });
+  });
+
+  it('should take tax out of inclusive prices', () => {
+    expect(calculateTax(eur(119), rule('INCLUSIVE'))).toEqual({ net: eur(100), tax: eur(19), gross: eur(119) });
+    // 100 / 1.19 = 84.0336...; net and tax still add up to the price
+    expect(calculateTax(eur(100), rule('INCLUSIVE'))).toEqual({ net: eur(84.03), tax: eur(15.97), gross: eur(100) });
+  });
+
+  it('should charge no tax under reverse charge or without a rule', () => {
+    expect(calculateTax(eur(100), rule('EXCLUSIVE', true))).toEqual({ net: eur(100), tax: eur(0), gross: eur(100) });
+    expect(calculateTax(eur(100), undefined)).toEqual({ net: eur(100), tax: eur(0), gross: eur(100) });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for request validation utilities
+ */
+
+import { Validator } from '../src/utils/validation';
+import { encodeCursor } from '../src/utils/cursor';
+import { CreateAgreementRequest, ValidationError } from '../src/types';
+
+describe('Validator', () => {
+
+  describe('validateAgreementListQuery', () => {
+
+    it('should apply defaults when no parameters are given', () => {
+      const query = Validator.validateAgreementListQuery({});
+
+      expect(query.sortBy).toBe('createdAt');
+      expect(query.sortOrder).toBe('desc');
+      expect(query.limit).toBe(20);
+      expect(query.cursor).toBeUndefined();
+    });
+
+    it('should parse filters and date range', () => {
+      const query = Validator.validateAgreementListQuery({
+        status: 'ACTIVE,PENDING',
+        currency: 'EUR',
+        itemId: 'item1',
+        from: '2025-01-01',
+        to: '2025-12-31',
+        limit: '5'
+      });
+
+      expect(query.status).toEqual(['ACTIVE', 'PENDING']);
+      expect(query.currency).toBe('EUR');
+      expect(query.from).toEqual(new Date('2025-01-01'));
+      expect(query.limit).toBe(5);
+    });
+
+    it('should reject unknown statuses and out-of-range limits', () => {
+      expect(() => Validator.validateAgreementListQuery({ status: 'ARCHIVED' }))
+        .toThrow(ValidationError);
+      expect(() => Validator.validateAgreementListQuery({ limit: '500' }))
+        .toThrow(ValidationError);
+    });
+
+    it('should reject malformed cursors and cursors issued for another sort order', () => {
+      const cursor = encodeCursor({
+        sortBy: 'startDate',
+        sortOrder: 'asc',
+        sortValue: '2025-07-01T00:00:00.000Z',
+        id: 'a1'
+      });
+
+      expect(() => Validator.validateAgreementListQuery({ cursor: 'not-a-cursor' }))
+        .toThrow(ValidationError);
+      expect(() => Validator.validateAgreementListQuery({ cursor }))
+        .toThrow(ValidationError);
+      expect(Validator.validateAgreementListQuery({ cursor, sortBy: 'startDate', sortOrder: 'asc' }).cursor?.id)
+        .toBe('a1');
+    });
+
+    it.each([
+      ['null', null],
+      ['a string', 'a1'],
+      ['an array', ['startDate', 'asc']],
+      ['a cursor with an invalid sort value', { sortBy: 'createdAt', sortOrder: 'desc', sortValue: 'yesterday', id: 'a1' }],
+      ['a cursor without an ID', { sortBy: 'createdAt', sortOrder: 'desc', sortValue: '2025-07-01T00:00:00.000Z' }]
+    ])('should reject a cursor that decodes to %s', (_, json) => {
+      const cursor = Buffer.from(JSON.stringify(json), 'utf8').toString('base64url');
+
+      expect(() => Validator.validateAgreementListQuery({ cursor }))
+        .toThrow(expect.objectContaining({ field: 'cursor', code: 'INVALID_CURSOR' }));
+    });
+  });
+
+  describe('validateItemAvailabilityQuery', () => {
+
+    it('should parse the period to check', () => {
+      expect(Validator.validateItemAvailabilityQuery('item1', {
+        startDate: '2025-07-01T00:00:00.000Z',
+        endDate: '2025-10-01T00:00:00.000Z'
+      })).toEqual({
+        itemId: 'item1',
+        startDate: new Date('2025-07-01T00:00:00.000Z'),
+        endDate: new Date('2025-10-01T00:00:00.000Z')
+      });
+    });
+
+    it('should require a non-empty period', () => {
+      expect(() => Validator.validateItemAvailabilityQuery('item1', { endDate: '2025-10-01' }))
+        .toThrow('startDate is required');
+      expect(() => Validator.validateItemAvailabilityQuery('item1', { startDate: '2025-10-01', endDate: '2025-10-01' }))
+        .toThrow('End date must be after start date');
+      expect(() => Validator.validateItemAvailabilityQuery('item 1', { startDate: '2025-07-01', endDate: '2025-10-01' }))
+        .toThrow('itemId contains invalid characters');
+    });
+  });
+
+  describe('validateCreateAgreementRequest', () => {
+    const limits = { supportedCurrencies: ['USD', 'JPY'], minLeasingDuration: 3, maxLeasingDuration: 24 };
+    const request = (startDate: string, endDate: string, price = 1000, currency = 'USD'): CreateAgreementRequest => ({
+      employeeId: 'emp1',
+      itemId: 'item1',
+      companyId: 'comp1',
+      startDate,
+      endDate,
+      price,
+      currency,
+      paymentFrequency: 'MONTHLY'
+    });
+
+    it('should take the lease duration limits from configuration', async () => {
+      await expect(Validator.validateCreateAgreementRequest(request('2030-01-31', '2030-04-30'), limits))
+        .resolves.toBeUndefined();
+      await expect(Validator.validateCreateAgreementRequest(request('2030-01-31', '2030-04-29'), limits))
+        .rejects.toThrow('Minimum lease duration is 3 months');
+      await expect(Validator.validateCreateAgreementRequest(request('2030-01-31', '2032-01-31'), limits))
+        .resolves.toBeUndefined();
+      await expect(Validator.validateCreateAgreementRequest(request('2030-01-31', '2032-02-01'), limits))
+        .rejects.toThrow('Lease duration cannot exceed 24 months');
+    });
+
+    it('should leave the price limit to pricing in the company\'s base currency', async () => {
+      await expect(Validator.validateCreateAgreementRequest(request('2030-01-01', '2030-06-01', 5000000, 'JPY'), limits))
+        .resolves.toBeUndefined();
+    });
+  });
+
+  describe('parseAgreementRequestBody', () => {
+
+    it('should pick the agreement fields of the body', () => {
+      const body = { employeeId: 'emp1', itemId: 'item1', price: 1000, currency: 'USD', saveAsDraft: true };
+
+      expect(Validator.parseAgreementRequestBody(body)).toEqual({
+        employeeId: 'emp1',
+        itemId: 'item1',
+        startDate: undefined,
+        endDate: undefined,
+        price: 1000,
+        currency: 'USD',
+        companyId: undefined,
+        paymentFrequency: undefined,
+        metadata: undefined
+      });
+    });
+
+    it('should reject bodies and fields of the wrong type', () => {
+      expect(() => Validator.parseAgreementRequestBody(['emp1'])).toThrow(ValidationError);
+      expect(() => Validator.parseAgreementRequestBody({ employeeId: 42 })).toThrow('employeeId must be a string');
+      expect(() => Validator.parseAgreementRequestBody({ metadata: 'note' })).toThrow('metadata must be an object');
+    });
+  });
+});